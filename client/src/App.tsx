@@ -12,6 +12,8 @@ import StudentEngagement from "@/pages/student-engagement";
 import ClassManagement from "@/pages/class-management";
 import ClassAnalytics from "@/pages/class-analytics";
 import InstructorEngagementDashboard from "@/pages/instructor-engagement-dashboard";
+import GradingQueue from "@/pages/grading-queue";
+import CalendarPage from "@/pages/calendar";
 import SetupAccountPage from "@/pages/setup-account";
 import ResetPasswordPage from "@/pages/reset-password";
 import { ProtectedRoute } from "./lib/protected-route";
@@ -24,12 +26,14 @@ function Router() {
       <Route path="/setup-account" component={SetupAccountPage} />
       <Route path="/reset-password" component={ResetPasswordPage} />
       <ProtectedRoute path="/instructor" component={InstructorDashboard} />
+      <ProtectedRoute path="/instructor/grading-queue" component={GradingQueue} />
       <Route path="/instructor/class/:classId" component={() => <ProtectedRoute path="/instructor/class/:classId" component={ClassManagement} />} />
       <Route path="/instructor/class/:classId/analytics" component={() => <ProtectedRoute path="/instructor/class/:classId/analytics" component={ClassAnalytics} />} />
       <Route path="/instructor/class/:classId/engagement" component={() => <ProtectedRoute path="/instructor/class/:classId/engagement" component={InstructorEngagementDashboard} />} />
       <ProtectedRoute path="/student" component={StudentDashboard} />
       <Route path="/student/class/:classId" component={() => <ProtectedRoute path="/student/class/:classId" component={StudentClassView} />} />
       <Route path="/student/class/:classId/engagement" component={() => <ProtectedRoute path="/student/class/:classId/engagement" component={StudentEngagement} />} />
+      <ProtectedRoute path="/calendar" component={CalendarPage} />
       <Route path="/" component={AuthPage} />
       <Route component={NotFound} />
     </Switch>
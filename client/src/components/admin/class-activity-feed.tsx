@@ -0,0 +1,288 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ChevronDown, ChevronRight, Undo2 } from "lucide-react";
+import type { Assignment, Class, User } from "@shared/schema";
+import { getStatusScale } from "@shared/constants";
+import { findRevertedEntries, isRevertibleEntry } from "@shared/grade-revert";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { actionColors, actionLabels, entityLabels, formatChange } from "@/components/student/StudentHistory";
+
+interface AuditLog {
+  id: number;
+  userId: number | null;
+  action: string;
+  entityType: string;
+  entityId: number | null;
+  oldValues: Record<string, unknown> | null;
+  newValues: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+interface ClassActivityFeedProps {
+  classData: Class;
+  students: User[];
+  assignments: Assignment[];
+}
+
+type FeedItem =
+  | { kind: "entry"; log: AuditLog }
+  | { kind: "batch"; batchId: string; logs: AuditLog[] };
+
+type RevertTarget =
+  | { kind: "entry"; logId: number }
+  | { kind: "batch"; batchId: string }
+  | { kind: "importRun"; runId: number };
+
+const batchLabels: Record<string, string> = {
+  gradebook: "Gradebook save",
+  canvas_import: "Canvas import",
+  revert: "Batch revert",
+  import_rollback: "Import rollback",
+};
+
+// Entries saved together share a batchId; show them as one item where the newest lands
+function groupBatches(logs: AuditLog[]): FeedItem[] {
+  const items: FeedItem[] = [];
+  const batches = new Map<string, AuditLog[]>();
+  for (const log of logs) {
+    const batchId = log.newValues?.batchId;
+    if (typeof batchId !== "string") {
+      items.push({ kind: "entry", log });
+      continue;
+    }
+    const batch = batches.get(batchId);
+    if (batch) {
+      batch.push(log);
+    } else {
+      const logs = [log];
+      batches.set(batchId, logs);
+      items.push({ kind: "batch", batchId, logs });
+    }
+  }
+  return items;
+}
+
+interface RevertButtonProps {
+  title: string;
+  description: string;
+  label: string;
+  disabled: boolean;
+  onConfirm: () => void;
+}
+
+function RevertButton({ title, description, label, disabled, onConfirm }: RevertButtonProps) {
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          <Undo2 className="h-4 w-4 mr-1" />
+          {label}
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{title}</AlertDialogTitle>
+          <AlertDialogDescription>{description}</AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>Revert</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+/**
+ * Recent activity in a class. Grade changes can be reverted one at a time, or a
+ * whole gradebook save or import at once; reverts are logged rather than erasing history.
+ */
+export function ClassActivityFeed({ classData, students, assignments }: ClassActivityFeedProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: logs, isLoading } = useQuery<AuditLog[]>({
+    queryKey: [`/api/classes/${classData.id}/activity`],
+  });
+  const statusScale = getStatusScale(classData);
+
+  const revertMutation = useMutation({
+    mutationFn: async (target: RevertTarget) => {
+      // Imports go through their run so absences are rolled back with the grades
+      if (target.kind === "importRun") {
+        const res = await apiRequest("POST", `/api/classes/${classData.id}/canvas/import-runs/${target.runId}/rollback`);
+        return ((await res.json()) as { revertedGrades: number }).revertedGrades;
+      }
+      const url = target.kind === "entry"
+        ? `/api/classes/${classData.id}/activity/${target.logId}/revert`
+        : `/api/classes/${classData.id}/activity/batches/${encodeURIComponent(target.batchId)}/revert`;
+      const res = await apiRequest("POST", url);
+      return ((await res.json()) as { reverted: unknown[] }).reverted.length;
+    },
+    onSuccess: (count, target) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/classes/${classData.id}/activity`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/classes/${classData.id}/students/progress`] });
+      if (target.kind === "importRun") {
+        queryClient.invalidateQueries({ queryKey: [`/api/classes/${classData.id}/attendance`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/classes/${classData.id}/canvas/import-runs`] });
+      }
+      toast({
+        title: "Success",
+        description: `${count} ${count === 1 ? "grade" : "grades"} reverted`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-12 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!logs || logs.length === 0) {
+    return <p className="text-muted-foreground text-sm">No activity yet.</p>;
+  }
+
+  const reverted = findRevertedEntries(logs);
+  const studentName = (id: unknown) => students.find((s) => s.id === id)?.fullName;
+  const assignmentName = (id: unknown) => assignments.find((a) => a.id === id)?.name;
+
+  const toggle = (batchId: string) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(batchId)) {
+        next.delete(batchId);
+      } else {
+        next.add(batchId);
+      }
+      return next;
+    });
+  };
+
+  const renderEntry = (log: AuditLog, compact = false) => {
+    const subject = [studentName(log.newValues?.studentId), assignmentName(log.newValues?.assignmentId)]
+      .filter(Boolean)
+      .join(" · ");
+    const canRevert = isRevertibleEntry(log) && !reverted.entryIds.has(log.id);
+
+    return (
+      <div key={log.id} className="flex items-start gap-4 border-b py-3 last:border-0">
+        {!compact && (
+          <Badge variant="secondary" className={actionColors[log.action] || "bg-gray-100"}>
+            {actionLabels[log.action] || log.action}
+          </Badge>
+        )}
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium">
+            {entityLabels[log.entityType] || log.entityType}
+            {subject && <span className="font-normal text-muted-foreground"> · {subject}</span>}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {formatChange(log.oldValues, log.newValues, log.entityType, statusScale)}
+          </p>
+          {!compact && (
+            <p className="text-xs text-muted-foreground mt-1">
+              {format(new Date(log.createdAt), "MMM d, yyyy 'at' h:mm a")}
+            </p>
+          )}
+        </div>
+        {isRevertibleEntry(log) && !canRevert && <Badge variant="outline">Reverted</Badge>}
+        {canRevert && (
+          <RevertButton
+            title="Revert this grade change?"
+            description="The grade goes back to what it was before this change. The revert is added to the activity log."
+            label="Revert"
+            disabled={revertMutation.isPending}
+            onConfirm={() => revertMutation.mutate({ kind: "entry", logId: log.id })}
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      {groupBatches(logs).map((item) => {
+        if (item.kind === "entry") {
+          return renderEntry(item.log);
+        }
+
+        const [newest] = item.logs;
+        const source = newest.newValues?.source as string | undefined;
+        const importRunId = source === "canvas_import" ? newest.newValues?.importRunId as number | undefined : undefined;
+        const isOpen = expanded.has(item.batchId);
+        const isReverted = reverted.batchIds.has(item.batchId);
+        const count = `${item.logs.length} ${item.logs.length === 1 ? "grade" : "grades"}`;
+
+        return (
+          <div key={item.batchId} className="border-b py-3 last:border-0">
+            <div className="flex items-start gap-4">
+              <Badge variant="secondary" className={actionColors[newest.action] || "bg-gray-100"}>
+                {actionLabels[newest.action] || newest.action}
+              </Badge>
+              <div className="flex-1 min-w-0">
+                <button
+                  type="button"
+                  className="flex items-center gap-1 text-sm font-medium"
+                  aria-expanded={isOpen}
+                  onClick={() => toggle(item.batchId)}
+                >
+                  {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                  {(source && batchLabels[source]) || "Batch"} · {count}
+                </button>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {format(new Date(newest.createdAt), "MMM d, yyyy 'at' h:mm a")}
+                </p>
+              </div>
+              {isReverted ? (
+                <Badge variant="outline">Reverted</Badge>
+              ) : (
+                <RevertButton
+                  title={`Revert all ${count}?`}
+                  description={importRunId !== undefined
+                    ? "Every grade and absence count this import changed goes back to what it was before. If any of them has been changed again since, nothing is reverted."
+                    : "Every grade in this batch goes back to what it was before. If any of them has been changed again since, nothing is reverted."}
+                  label="Revert All"
+                  disabled={revertMutation.isPending}
+                  onConfirm={() => revertMutation.mutate(
+                    importRunId !== undefined
+                      ? { kind: "importRun", runId: importRunId }
+                      : { kind: "batch", batchId: item.batchId }
+                  )}
+                />
+              )}
+            </div>
+            {isOpen && <div className="ml-6 mt-2">{item.logs.map((log) => renderEntry(log, true))}</div>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
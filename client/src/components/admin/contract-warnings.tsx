@@ -0,0 +1,115 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { TrendingDown, User, AlertCircle } from "lucide-react";
+import type { StudentContractWarning } from "@shared/contract-evaluation";
+
+export function ContractWarnings() {
+  const { data: warnings = [], isLoading, error } = useQuery<StudentContractWarning[]>({
+    queryKey: ["/api/contract-warnings"],
+  });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TrendingDown className="h-5 w-5" />
+            Contract Downgrade Warnings
+          </CardTitle>
+          <CardDescription>
+            Students who can no longer meet their confirmed contract
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">Loading warnings...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-red-600">
+            <TrendingDown className="h-5 w-5" />
+            Contract Downgrade Warnings
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Failed to load contract warnings. Please refresh the page.
+            </AlertDescription>
+          </Alert>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingDown className="h-5 w-5" />
+          Contract Downgrade Warnings
+          {warnings.length > 0 && (
+            <Badge variant="destructive" className="ml-2">
+              {warnings.length}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Students who can no longer meet their confirmed contract
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {warnings.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">
+            All students are on track for their confirmed contracts
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {warnings.map((warning) => (
+              <div
+                key={`${warning.classId}-${warning.studentId}`}
+                className="border rounded-lg p-4 bg-yellow-50 border-yellow-200"
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2 mb-2">
+                      <User className="h-4 w-4 text-muted-foreground" />
+                      <span className="font-medium">{warning.studentName}</span>
+                      <Badge variant="outline">{warning.className}</Badge>
+                    </div>
+                    <p className="text-sm mb-1">
+                      Confirmed Grade {warning.fromGrade}
+                      {" → "}
+                      {warning.toGrade ? `Grade ${warning.toGrade} still attainable` : "no contract still attainable"}
+                    </p>
+                    <ul className="text-sm text-muted-foreground list-disc list-inside">
+                      {warning.reasons.map((reason) => (
+                        <li key={reason}>{reason}</li>
+                      ))}
+                    </ul>
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Currently earning: {warning.earnedGrade ? `Grade ${warning.earnedGrade}` : "No grade yet"}
+                    </p>
+                  </div>
+                  <Link href={`/instructor/class/${warning.classId}`}>
+                    <Button size="sm" variant="outline">View Class</Button>
+                  </Link>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, CalendarX, User, Clock, Check, X, Paperclip } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { AbsenceExcuseRequest } from "@shared/schema";
+
+interface PendingExcuseRequest extends Omit<AbsenceExcuseRequest, "createdAt" | "reviewedAt"> {
+  createdAt: string;
+  reviewedAt: string | null;
+  className: string;
+  studentName: string;
+  attendanceDate: string | null;
+}
+
+export function ExcuseRequests() {
+  const { toast } = useToast();
+  const [responses, setResponses] = useState<Record<number, string>>({});
+
+  const { data: requests = [], isLoading, error } = useQuery<PendingExcuseRequest[]>({
+    queryKey: ["/api/excuse-requests/pending"],
+    refetchInterval: 30000, // Check every 30 seconds for new requests
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ request, status }: { request: PendingExcuseRequest; status: "approved" | "denied" }) => {
+      const response = await apiRequest("POST", `/api/excuse-requests/${request.id}/review`, {
+        status,
+        instructorResponse: responses[request.id] || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (_data, { request, status }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/excuse-requests/pending"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/contract-warnings"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/classes/${request.classId}/all-attendance`] });
+      toast({
+        title: status === "approved" ? "Excuse Approved" : "Excuse Denied",
+        description: status === "approved"
+          ? `${request.studentName}'s absence no longer counts toward their contract.`
+          : `${request.studentName}'s absence still counts.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to review request",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarX className="h-5 w-5" />
+            Absence Excuses
+          </CardTitle>
+          <CardDescription>
+            Students asking for absences to be excused
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">Loading requests...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-red-600">
+            <CalendarX className="h-5 w-5" />
+            Absence Excuses
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Failed to load excuse requests. Please refresh the page.
+            </AlertDescription>
+          </Alert>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarX className="h-5 w-5" />
+          Absence Excuses
+          {requests.length > 0 && (
+            <Badge variant="destructive" className="ml-2">
+              {requests.length} pending
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Students asking for absences to be excused
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {requests.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">
+            No pending excuse requests
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {requests.map((request) => (
+              <div
+                key={request.id}
+                className="border rounded-lg p-4 bg-blue-50 border-blue-200"
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <User className="h-4 w-4 text-muted-foreground" />
+                  <span className="font-medium">{request.studentName}</span>
+                  <Badge variant="outline">{request.className}</Badge>
+                </div>
+
+                <p className="text-sm mb-1">
+                  Absent on {request.attendanceDate ? new Date(request.attendanceDate).toLocaleDateString() : "an unknown date"}
+                </p>
+                <p className="text-sm text-muted-foreground mb-2 whitespace-pre-wrap">
+                  {request.reason}
+                </p>
+                {request.fileKey && (
+                  <a
+                    href={`/api/excuse-requests/${request.id}/document`}
+                    className="inline-flex items-center gap-1 text-sm text-blue-700 underline mb-2"
+                  >
+                    <Paperclip className="h-3 w-3" />
+                    {request.fileName ?? "Supporting document"}
+                  </a>
+                )}
+
+                <div className="flex items-center gap-2 text-sm text-muted-foreground mb-3">
+                  <Clock className="h-3 w-3" />
+                  Requested: {new Date(request.createdAt).toLocaleString()}
+                </div>
+
+                <Textarea
+                  placeholder="Optional response to the student"
+                  value={responses[request.id] ?? ""}
+                  onChange={(e) => setResponses({ ...responses, [request.id]: e.target.value })}
+                  className="mb-3 bg-white"
+                  aria-label={`Response to ${request.studentName}`}
+                />
+
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => reviewMutation.mutate({ request, status: "approved" })}
+                    disabled={reviewMutation.isPending}
+                  >
+                    <Check className="h-3 w-3 mr-1" />
+                    Excuse
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => reviewMutation.mutate({ request, status: "denied" })}
+                    disabled={reviewMutation.isPending}
+                  >
+                    <X className="h-3 w-3 mr-1" />
+                    Deny
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,416 @@
+import { useEffect, useRef, useState, type ClipboardEvent, type KeyboardEvent } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { Assignment, AssignmentProgress, Category, Class, GradebookCell, User } from "@shared/schema";
+import { getStatusScale } from "@shared/constants";
+import { groupByCategory } from "@shared/categories";
+import { formatGradeCell, parseGradeCell, parsePastedGrid, NUMERIC_GRADE_MAX } from "@shared/gradebook";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface GradebookGridProps {
+  classData: Class;
+  assignments: Assignment[];
+  categories: Category[];
+  students: User[];
+  progress: AssignmentProgress[];
+}
+
+interface Position {
+  row: number;
+  col: number;
+}
+
+const cellKey = (studentId: number, assignmentId: number) => `${studentId}:${assignmentId}`;
+
+/**
+ * Spreadsheet-style gradebook: students as rows, assignments as columns grouped by category.
+ * Arrow keys move, typing or Enter edits, Shift+arrows select, Ctrl+D fills down,
+ * and pasting from a spreadsheet fills from the selected cell. Edits stay local until saved.
+ */
+export function GradebookGrid({ classData, assignments, categories, students, progress }: GradebookGridProps) {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [active, setActive] = useState<Position>({ row: 0, col: 0 });
+  const [anchor, setAnchor] = useState<Position>({ row: 0, col: 0 });
+  const [editValue, setEditValue] = useState<string | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const scale = getStatusScale(classData);
+  const groups = groupByCategory(assignments, categories, (a) => a);
+  const columns = groups.flatMap((group) => group.items);
+  const rows = [...students].sort((a, b) => a.fullName.localeCompare(b.fullName));
+  const progressByCell = new Map(progress.map((p) => [cellKey(p.studentId, p.assignmentId), p]));
+
+  const savedValue = (row: number, col: number) =>
+    formatGradeCell(progressByCell.get(cellKey(rows[row].id, columns[col].id)), columns[col].scoringType, scale);
+  const cellValue = (row: number, col: number) => {
+    const key = cellKey(rows[row].id, columns[col].id);
+    return key in drafts ? drafts[key] : savedValue(row, col);
+  };
+
+  const selection = {
+    top: Math.min(active.row, anchor.row),
+    bottom: Math.max(active.row, anchor.row),
+    left: Math.min(active.col, anchor.col),
+    right: Math.max(active.col, anchor.col),
+  };
+  const isSelected = (row: number, col: number) =>
+    row >= selection.top && row <= selection.bottom && col >= selection.left && col <= selection.right;
+
+  // Keep the active cell in view while moving with the keyboard
+  useEffect(() => {
+    document.getElementById(`gradebook-cell-${active.row}-${active.col}`)?.scrollIntoView({ block: "nearest", inline: "nearest" });
+  }, [active]);
+
+  // Write values into cells, dropping drafts that match what's already saved
+  const writeCells = (values: { row: number; col: number; value: string }[]) => {
+    setDrafts((current) => {
+      const next = { ...current };
+      for (const { row, col, value } of values) {
+        if (row >= rows.length || col >= columns.length) continue;
+        const key = cellKey(rows[row].id, columns[col].id);
+        if (value.trim() === savedValue(row, col)) {
+          delete next[key];
+        } else {
+          next[key] = value.trim();
+        }
+      }
+      return next;
+    });
+  };
+
+  const moveTo = (row: number, col: number, extend = false) => {
+    const next = {
+      row: Math.max(0, Math.min(rows.length - 1, row)),
+      col: Math.max(0, Math.min(columns.length - 1, col)),
+    };
+    setActive(next);
+    if (!extend) setAnchor(next);
+  };
+
+  const commitEdit = (rowStep: number, colStep: number) => {
+    if (editValue !== null) {
+      writeCells([{ ...active, value: editValue }]);
+    }
+    setEditValue(null);
+    moveTo(active.row + rowStep, active.col + colStep);
+    gridRef.current?.focus();
+  };
+
+  // Ctrl+D: copy the top of each selected column down; with one cell, copy the cell above
+  const fillDown = () => {
+    if (selection.top === selection.bottom) {
+      if (active.row === 0) return;
+      writeCells([{ ...active, value: cellValue(active.row - 1, active.col) }]);
+      return;
+    }
+    const values = [];
+    for (let col = selection.left; col <= selection.right; col++) {
+      const value = cellValue(selection.top, col);
+      for (let row = selection.top + 1; row <= selection.bottom; row++) {
+        values.push({ row, col, value });
+      }
+    }
+    writeCells(values);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (editValue !== null || rows.length === 0 || columns.length === 0) return;
+    const mod = e.ctrlKey || e.metaKey;
+
+    switch (e.key) {
+      case "ArrowUp":
+        moveTo(active.row - 1, active.col, e.shiftKey);
+        break;
+      case "ArrowDown":
+        moveTo(active.row + 1, active.col, e.shiftKey);
+        break;
+      case "ArrowLeft":
+        moveTo(active.row, active.col - 1, e.shiftKey);
+        break;
+      case "ArrowRight":
+        moveTo(active.row, active.col + 1, e.shiftKey);
+        break;
+      case "Tab":
+        moveTo(active.row, active.col + (e.shiftKey ? -1 : 1));
+        break;
+      case "Enter":
+      case "F2":
+        setEditValue(cellValue(active.row, active.col));
+        break;
+      case "Delete":
+      case "Backspace": {
+        const values = [];
+        for (let row = selection.top; row <= selection.bottom; row++) {
+          for (let col = selection.left; col <= selection.right; col++) {
+            values.push({ row, col, value: "" });
+          }
+        }
+        writeCells(values);
+        break;
+      }
+      case "Escape":
+        setAnchor(active);
+        break;
+      default:
+        if (mod && e.key.toLowerCase() === "d") {
+          fillDown();
+          break;
+        }
+        // Typing over a cell starts editing it, like a spreadsheet
+        if (!mod && !e.altKey && e.key.length === 1) {
+          setEditValue(e.key);
+          break;
+        }
+        return;
+    }
+    e.preventDefault();
+  };
+
+  const handlePaste = (e: ClipboardEvent<HTMLDivElement>) => {
+    if (editValue !== null) return;
+    const pasted = parsePastedGrid(e.clipboardData.getData("text/plain"));
+    e.preventDefault();
+
+    // One value pasted over a selection fills all of it
+    if (pasted.length === 1 && pasted[0].length === 1) {
+      const values = [];
+      for (let row = selection.top; row <= selection.bottom; row++) {
+        for (let col = selection.left; col <= selection.right; col++) {
+          values.push({ row, col, value: pasted[0][0] });
+        }
+      }
+      writeCells(values);
+      return;
+    }
+
+    writeCells(
+      pasted.flatMap((cells, r) =>
+        cells.map((value, c) => ({ row: selection.top + r, col: selection.left + c, value }))
+      )
+    );
+  };
+
+  const handleCopy = (e: ClipboardEvent<HTMLDivElement>) => {
+    if (editValue !== null) return;
+    const lines = [];
+    for (let row = selection.top; row <= selection.bottom; row++) {
+      const cells = [];
+      for (let col = selection.left; col <= selection.right; col++) {
+        cells.push(cellValue(row, col));
+      }
+      lines.push(cells.join("\t"));
+    }
+    e.clipboardData.setData("text/plain", lines.join("\n"));
+    e.preventDefault();
+  };
+
+  // Parse every draft; anything unreadable blocks the save
+  const changes = Object.entries(drafts).map(([key, value]) => {
+    const [studentId, assignmentId] = key.split(":").map(Number);
+    const assignment = columns.find((a) => a.id === assignmentId);
+    const parsed = assignment ? parseGradeCell(value, assignment.scoringType, scale) : null;
+    return { key, studentId, assignment, parsed };
+  });
+  const invalidCount = changes.filter((c) => !c.parsed?.ok).length;
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const cells = changes.flatMap(({ studentId, assignment, parsed }): GradebookCell[] => {
+        if (!assignment || !parsed?.ok) return [];
+        return assignment.scoringType === "status"
+          ? [{ studentId, assignmentId: assignment.id, status: parsed.value }]
+          : [{ studentId, assignmentId: assignment.id, numericGrade: parsed.value }];
+      });
+      const res = await apiRequest("POST", `/api/classes/${classData.id}/progress/batch`, { cells });
+      return (await res.json()) as { updated: AssignmentProgress[] };
+    },
+    onSuccess: ({ updated }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/classes/${classData.id}/students/progress`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/classes/${classData.id}/activity`] });
+      setDrafts({});
+      toast({
+        title: "Success",
+        description: `${updated.length} ${updated.length === 1 ? "grade" : "grades"} saved`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (rows.length === 0 || columns.length === 0) {
+    return (
+      <p className="text-muted-foreground">
+        Add students and assignments to use the gradebook.
+      </p>
+    );
+  }
+
+  const activeAssignment = columns[active.col];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Type a status or a score (0-{NUMERIC_GRADE_MAX}), paste from a spreadsheet, or press Ctrl+D to fill down.
+          Nothing is saved until you click Save.
+        </p>
+        <div className="flex items-center gap-2">
+          {invalidCount > 0 && (
+            <span className="text-sm text-destructive" role="alert">
+              {invalidCount} {invalidCount === 1 ? "cell needs" : "cells need"} fixing
+            </span>
+          )}
+          <Button variant="outline" onClick={() => setDrafts({})} disabled={changes.length === 0 || saveMutation.isPending}>
+            Discard
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={changes.length === 0 || invalidCount > 0 || saveMutation.isPending}
+          >
+            {saveMutation.isPending ? "Saving..." : `Save ${changes.length} ${changes.length === 1 ? "Change" : "Changes"}`}
+          </Button>
+        </div>
+      </div>
+
+      <datalist id="gradebook-status-options">
+        {scale.map((level) => (
+          <option key={level.value} value={level.label} />
+        ))}
+      </datalist>
+
+      <div
+        ref={gridRef}
+        role="grid"
+        aria-label="Gradebook"
+        aria-activedescendant={`gradebook-cell-${active.row}-${active.col}`}
+        tabIndex={0}
+        className="max-h-[70vh] overflow-auto border rounded-md focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-600"
+        onKeyDown={handleKeyDown}
+        onPaste={handlePaste}
+        onCopy={handleCopy}
+      >
+        <table className="border-collapse text-sm">
+          <thead className="sticky top-0 z-20 bg-white">
+            <tr>
+              <th rowSpan={2} className="sticky left-0 z-30 bg-white border-b border-r px-3 py-2 text-left min-w-[12rem]">
+                Student
+              </th>
+              {groups.map((group) => (
+                <th
+                  key={group.category?.id ?? "uncategorized"}
+                  colSpan={group.items.length}
+                  className="border-b border-r px-3 py-1 text-left font-semibold"
+                  style={{ borderTop: `3px solid ${group.color}` }}
+                >
+                  {group.name}
+                </th>
+              ))}
+            </tr>
+            <tr>
+              {columns.map((assignment, col) => (
+                <th
+                  key={assignment.id}
+                  role="columnheader"
+                  className={cn(
+                    "border-b border-r px-3 py-1 text-left font-medium min-w-[9rem] max-w-[12rem] truncate",
+                    col >= selection.left && col <= selection.right && "bg-blue-50"
+                  )}
+                  title={assignment.name}
+                >
+                  {assignment.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((student, row) => (
+              <tr key={student.id} role="row">
+                <th
+                  scope="row"
+                  className={cn(
+                    "sticky left-0 z-10 bg-white border-b border-r px-3 py-1 text-left font-medium",
+                    row >= selection.top && row <= selection.bottom && "bg-blue-50"
+                  )}
+                >
+                  {student.fullName}
+                </th>
+                {columns.map((assignment, col) => {
+                  const key = cellKey(student.id, assignment.id);
+                  const isDraft = key in drafts;
+                  const isInvalid = isDraft && !parseGradeCell(drafts[key], assignment.scoringType, scale).ok;
+                  const isActive = row === active.row && col === active.col;
+                  return (
+                    <td
+                      key={assignment.id}
+                      id={`gradebook-cell-${row}-${col}`}
+                      role="gridcell"
+                      aria-selected={isSelected(row, col)}
+                      aria-invalid={isInvalid || undefined}
+                      className={cn(
+                        "border-b border-r px-2 py-1 h-8 cursor-cell whitespace-nowrap",
+                        isSelected(row, col) && "bg-blue-50",
+                        isDraft && "bg-yellow-50 font-medium",
+                        isInvalid && "bg-red-50 text-destructive",
+                        isActive && "outline outline-2 -outline-offset-2 outline-blue-600"
+                      )}
+                      onMouseDown={(e) => {
+                        if (editValue !== null) commitEdit(0, 0);
+                        moveTo(row, col, e.shiftKey);
+                        gridRef.current?.focus();
+                        e.preventDefault();
+                      }}
+                      onDoubleClick={() => setEditValue(cellValue(row, col))}
+                    >
+                      {isActive && editValue !== null ? (
+                        <input
+                          autoFocus
+                          aria-label={`${student.fullName}, ${assignment.name}`}
+                          className="w-full bg-white outline-none"
+                          list={assignment.scoringType === "status" ? "gradebook-status-options" : undefined}
+                          inputMode={assignment.scoringType === "numeric" ? "decimal" : undefined}
+                          value={editValue}
+                          onChange={(e) => setEditValue(e.target.value)}
+                          onBlur={() => commitEdit(0, 0)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") {
+                              e.preventDefault();
+                              commitEdit(e.shiftKey ? -1 : 1, 0);
+                            } else if (e.key === "Tab") {
+                              e.preventDefault();
+                              commitEdit(0, e.shiftKey ? -1 : 1);
+                            } else if (e.key === "Escape") {
+                              e.preventDefault();
+                              setEditValue(null);
+                              gridRef.current?.focus();
+                            }
+                            e.stopPropagation();
+                          }}
+                        />
+                      ) : (
+                        cellValue(row, col)
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-muted-foreground" aria-live="polite">
+        {rows[active.row].fullName} · {activeAssignment.name} ·{" "}
+        {activeAssignment.scoringType === "status" ? `Status: ${scale.map((l) => l.label).join(", ")}` : `Score 0-${NUMERIC_GRADE_MAX}`}
+      </p>
+    </div>
+  );
+}
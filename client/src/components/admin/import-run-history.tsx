@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ChevronDown, ChevronRight, Loader2, Undo2 } from "lucide-react";
+import type { Assignment, ImportRun, ImportRunChange, User } from "@shared/schema";
+import type { StatusLevel } from "@shared/constants";
+import { formatGradeCell } from "@shared/gradebook";
+import { loggedGrade } from "@shared/grade-revert";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+type ImportRunWithNames = Omit<ImportRun, "createdAt" | "rolledBackAt"> & {
+  createdAt: string;
+  rolledBackAt: string | null;
+  uploaderName: string | null;
+  rolledBackByName: string | null;
+};
+
+interface ImportRunHistoryProps {
+  classId: number;
+  assignments: Assignment[];
+  statusScale: readonly StatusLevel[];
+}
+
+interface ImportRunChangesProps extends ImportRunHistoryProps {
+  runId: number;
+}
+
+// Everything one run changed, fetched when the run is expanded
+function ImportRunChanges({ classId, runId, assignments, statusScale }: ImportRunChangesProps) {
+  const { data: changes, isLoading } = useQuery<ImportRunChange[]>({
+    queryKey: [`/api/classes/${classId}/canvas/import-runs/${runId}/changes`],
+  });
+  const { data: students = [] } = useQuery<User[]>({
+    queryKey: [`/api/classes/${classId}/students`],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  if (!changes || changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">This import didn't change anything.</p>;
+  }
+
+  const describe = (change: ImportRunChange, values: Record<string, unknown> | null) => {
+    if (change.kind === "absences") {
+      return String(values?.absences ?? 0);
+    }
+    const assignment = assignments.find((a) => a.id === change.assignmentId);
+    if (!values || !assignment) return "—";
+    return formatGradeCell(loggedGrade(values), assignment.scoringType, statusScale) || "—";
+  };
+
+  return (
+    <div className="max-h-[240px] overflow-auto border rounded-md">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Student</TableHead>
+            <TableHead>Changed</TableHead>
+            <TableHead>Before</TableHead>
+            <TableHead>After</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {changes.map((change) => (
+            <TableRow key={change.id}>
+              <TableCell>{students.find((s) => s.id === change.studentId)?.fullName ?? "Former student"}</TableCell>
+              <TableCell>
+                {change.kind === "absences"
+                  ? "Absences"
+                  : assignments.find((a) => a.id === change.assignmentId)?.name ?? "Deleted assignment"}
+              </TableCell>
+              <TableCell className="text-muted-foreground">{describe(change, change.oldValues)}</TableCell>
+              <TableCell>{describe(change, change.newValues)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+/**
+ * Past Canvas imports for a class: what was uploaded, how columns were mapped,
+ * what changed, and a way to roll a run back as a whole
+ */
+export function ImportRunHistory({ classId, assignments, statusScale }: ImportRunHistoryProps) {
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: runs, isLoading } = useQuery<ImportRunWithNames[]>({
+    queryKey: [`/api/classes/${classId}/canvas/import-runs`],
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (runId: number) => {
+      const res = await apiRequest("POST", `/api/classes/${classId}/canvas/import-runs/${runId}/rollback`);
+      return res.json() as Promise<{ revertedGrades: number; revertedAbsences: number }>;
+    },
+    onSuccess: ({ revertedGrades, revertedAbsences }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/classes/${classId}/canvas/import-runs`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/classes/${classId}/students/progress`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/classes/${classId}/attendance`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/classes/${classId}/activity`] });
+      const parts = [`${revertedGrades} ${revertedGrades === 1 ? "grade" : "grades"}`];
+      if (revertedAbsences > 0) parts.push(`${revertedAbsences} absence ${revertedAbsences === 1 ? "count" : "counts"}`);
+      toast({
+        title: "Success",
+        description: `Import rolled back: restored ${parts.join(" and ")}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[1, 2].map((i) => (
+          <Skeleton key={i} className="h-16 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!runs || runs.length === 0) {
+    return <p className="text-sm text-muted-foreground p-4">No imports yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {runs.map((run) => {
+        const isOpen = expandedId === run.id;
+        const isRolledBack = run.status === "rolled_back";
+
+        return (
+          <Card key={run.id}>
+            <CardContent className="pt-4 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <button
+                  type="button"
+                  className="flex items-start gap-2 text-left min-w-0"
+                  aria-expanded={isOpen}
+                  onClick={() => setExpandedId(isOpen ? null : run.id)}
+                >
+                  {isOpen ? <ChevronDown className="h-4 w-4 mt-1 shrink-0" /> : <ChevronRight className="h-4 w-4 mt-1 shrink-0" />}
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{run.fileName ?? "Canvas import"}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {format(new Date(run.createdAt), "MMM d, yyyy 'at' h:mm a")}
+                      {run.uploaderName && ` by ${run.uploaderName}`}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {run.summary.processedGrades} grades
+                      {run.summary.processedAbsences > 0 && `, ${run.summary.processedAbsences} absence counts`}
+                      {` for ${run.summary.processedStudents} students`}
+                      {run.errors.length > 0 && (
+                        <span className="text-red-600"> · {run.errors.length} {run.errors.length === 1 ? "error" : "errors"}</span>
+                      )}
+                    </p>
+                  </div>
+                </button>
+                {isRolledBack ? (
+                  <Badge variant="outline" className="shrink-0">
+                    Rolled back{run.rolledBackAt && ` ${format(new Date(run.rolledBackAt), "MMM d")}`}
+                    {run.rolledBackByName && ` by ${run.rolledBackByName}`}
+                  </Badge>
+                ) : (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="outline" size="sm" className="shrink-0" disabled={rollbackMutation.isPending}>
+                        {rollbackMutation.isPending && rollbackMutation.variables === run.id ? (
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        ) : (
+                          <Undo2 className="h-4 w-4 mr-1" />
+                        )}
+                        Roll Back
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Roll back this import?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Every grade and absence count this import changed goes back to what it was before.
+                          If any of them has been changed since, nothing is rolled back.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => rollbackMutation.mutate(run.id)}>Roll Back</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
+              </div>
+
+              {isOpen && (
+                <div className="space-y-3 pl-6">
+                  {run.mappings.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-medium mb-1">Column Mappings</h4>
+                      <ul className="text-sm text-muted-foreground space-y-0.5">
+                        {run.mappings.map((mapping) => (
+                          <li key={mapping.canvasColumn}>
+                            {mapping.canvasColumn} → {mapping.target === "absences" ? "Absences" : mapping.assignmentName}
+                            {mapping.target === "assignment" && ` (${mapping.gradingType})`}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {run.errors.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-medium mb-1">Errors</h4>
+                      <ul className="text-sm text-red-600 space-y-0.5">
+                        {run.errors.map((err, i) => (
+                          <li key={i}>
+                            <strong>{err.student}</strong> - {err.assignment}: {err.error}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  <div>
+                    <h4 className="text-sm font-medium mb-1">Changes</h4>
+                    <ImportRunChanges
+                      classId={classId}
+                      runId={run.id}
+                      assignments={assignments}
+                      statusScale={statusScale}
+                    />
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
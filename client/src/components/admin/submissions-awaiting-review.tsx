@@ -0,0 +1,154 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, Inbox, User, Clock, Download, ExternalLink } from "lucide-react";
+import type { Assignment, AssignmentProgress, AssignmentSubmission } from "@shared/schema";
+import { UpdateAssignmentStatusDialog } from "@/components/dialogs/update-assignment-status-dialog";
+
+interface PendingSubmission {
+  submission: AssignmentSubmission;
+  progress: AssignmentProgress;
+  assignment: Assignment;
+  classId: number;
+  className: string;
+  studentName: string;
+}
+
+function SubmissionContent({ submission }: { submission: AssignmentSubmission }) {
+  if (submission.kind === "url" && submission.url) {
+    return (
+      <a
+        href={submission.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-sm text-primary underline inline-flex items-center gap-1 break-all"
+      >
+        <ExternalLink className="h-3 w-3 flex-shrink-0" aria-hidden="true" />
+        {submission.url}
+      </a>
+    );
+  }
+
+  if (submission.kind === "file") {
+    return (
+      <a
+        href={`/api/submissions/${submission.id}/file`}
+        className="text-sm text-primary underline inline-flex items-center gap-1 break-all"
+      >
+        <Download className="h-3 w-3 flex-shrink-0" aria-hidden="true" />
+        {submission.fileName ?? "Download file"}
+      </a>
+    );
+  }
+
+  return (
+    <p className="text-sm text-muted-foreground whitespace-pre-wrap max-h-40 overflow-y-auto bg-white rounded-md border p-2">
+      {submission.textResponse}
+    </p>
+  );
+}
+
+export function SubmissionsAwaitingReview() {
+  const { data: pending = [], isLoading, error } = useQuery<PendingSubmission[]>({
+    queryKey: ["/api/submissions/pending"],
+    refetchInterval: 30000, // Check every 30 seconds for new submissions
+  });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Inbox className="h-5 w-5" />
+            Submissions Awaiting Review
+          </CardTitle>
+          <CardDescription>
+            Work students have handed in for grading
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">Loading submissions...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-red-600">
+            <Inbox className="h-5 w-5" />
+            Submissions Awaiting Review
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Failed to load submissions. Please refresh the page.
+            </AlertDescription>
+          </Alert>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Inbox className="h-5 w-5" />
+          Submissions Awaiting Review
+          {pending.length > 0 && (
+            <Badge variant="destructive" className="ml-2">
+              {pending.length} pending
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Work students have handed in for grading
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {pending.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">
+            No submissions awaiting review
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {pending.map(({ submission, progress, assignment, classId, className, studentName }) => (
+              <div
+                key={submission.id}
+                className="border rounded-lg p-4 bg-blue-50 border-blue-200"
+              >
+                <div className="flex items-start justify-between gap-2 mb-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <User className="h-4 w-4 text-muted-foreground" />
+                    <span className="font-medium">{studentName}</span>
+                    <Badge variant="outline">{className}</Badge>
+                  </div>
+                  <UpdateAssignmentStatusDialog
+                    classId={classId}
+                    studentId={progress.studentId}
+                    assignment={assignment}
+                    currentProgress={progress}
+                  />
+                </div>
+
+                <p className="text-sm font-medium mb-1">{assignment.name}</p>
+                <SubmissionContent submission={submission} />
+
+                <div className="flex items-center gap-2 text-sm text-muted-foreground mt-2">
+                  <Clock className="h-3 w-3" />
+                  Submitted: {new Date(submission.createdAt).toLocaleString()}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { KeyRound, Loader2 } from "lucide-react";
+import { format, formatDistanceStrict } from "date-fns";
+import { getDefaultSessionDate, parseDateKey, type ClassScheduleSummary } from "@shared/class-schedule";
+import { CHECK_IN_CODE_SECONDS, CHECK_IN_DURATIONS, type CheckInStatus } from "@shared/check-in";
+
+type Props = {
+  classId: number;
+  studentCount: number;
+};
+
+export function CheckInSessionDialog({ classId, studentCount }: Props) {
+  const [open, setOpen] = useState(false);
+  const [date, setDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [minutes, setMinutes] = useState<number>(CHECK_IN_DURATIONS[1]);
+  const [now, setNow] = useState(() => new Date());
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: schedule } = useQuery<ClassScheduleSummary>({
+    queryKey: [`/api/classes/${classId}/schedule`],
+    enabled: open,
+  });
+
+  // Poll while the dialog is up so the code rotates and the count stays live
+  const { data: status, isLoading } = useQuery<CheckInStatus>({
+    queryKey: [`/api/classes/${classId}/check-in`],
+    enabled: open,
+    refetchInterval: open ? 5000 : false,
+  });
+  const session = status?.session ?? null;
+
+  // Default to today's session, or the most recent one
+  useEffect(() => {
+    if (open && schedule) {
+      setDate(getDefaultSessionDate(schedule.sessionDates) ?? format(new Date(), "yyyy-MM-dd"));
+    }
+  }, [open, schedule]);
+
+  // Tick once a second for the countdowns
+  useEffect(() => {
+    if (!open || !session) return;
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, [open, session]);
+
+  // Fetch the next code as soon as the current one rotates
+  const codeExpiresAt = status?.codeExpiresAt ? new Date(status.codeExpiresAt) : null;
+  useEffect(() => {
+    if (codeExpiresAt && now >= codeExpiresAt) {
+      queryClient.invalidateQueries({ queryKey: [`/api/classes/${classId}/check-in`] });
+    }
+  }, [now, codeExpiresAt?.getTime(), classId, queryClient]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/classes/${classId}/check-in`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/classes/${classId}/attendance`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/classes/${classId}/all-attendance`] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const openMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/classes/${classId}/check-in/open`, { date, minutes });
+      return res.json();
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/classes/${classId}/check-in/close`);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Success",
+        description: "Check-in closed",
+      });
+    },
+    onError,
+  });
+
+  const secondsLeft = codeExpiresAt ? Math.max(0, Math.ceil((codeExpiresAt.getTime() - now.getTime()) / 1000)) : 0;
+  const expiresAt = session ? new Date(session.expiresAt) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <KeyRound className="h-4 w-4 mr-2" />
+          Check-In
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Student Check-In</DialogTitle>
+          <DialogDescription>
+            Students enter the code on their class page to mark themselves present.
+            The code changes every {CHECK_IN_CODE_SECONDS} seconds.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : session && expiresAt ? (
+          <div className="space-y-6">
+            <div className="text-center space-y-2">
+              <p className="text-sm text-muted-foreground">
+                Checking in for {format(parseDateKey(session.date), "EEEE, MMMM d")}
+              </p>
+              <p className="font-mono text-6xl font-bold tracking-[0.3em]" aria-live="polite">
+                {status?.code}
+              </p>
+              <Progress value={(secondsLeft / CHECK_IN_CODE_SECONDS) * 100} aria-label="Time until the code changes" />
+              <p className="text-xs text-muted-foreground">New code in {secondsLeft}s</p>
+            </div>
+
+            <div className="flex items-center justify-between text-sm">
+              <span>
+                <span className="font-semibold">{status?.checkedInCount ?? 0}</span> / {studentCount} checked in
+              </span>
+              <span className="text-muted-foreground">
+                Closes in {formatDistanceStrict(expiresAt, now)}
+              </span>
+            </div>
+
+            <Button
+              variant="destructive"
+              className="w-full"
+              onClick={() => closeMutation.mutate()}
+              disabled={closeMutation.isPending}
+            >
+              Close Check-In
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="check-in-date">Session</Label>
+              <Input id="check-in-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Close After</Label>
+              <Select value={String(minutes)} onValueChange={(value) => setMinutes(Number(value))}>
+                <SelectTrigger aria-label="Close after">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CHECK_IN_DURATIONS.map((duration) => (
+                    <SelectItem key={duration} value={String(duration)}>
+                      {duration} minutes
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              className="w-full"
+              onClick={() => openMutation.mutate()}
+              disabled={!date || openMutation.isPending}
+            >
+              {openMutation.isPending ? "Opening..." : "Open Check-In"}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,9 @@
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { Category } from "@shared/schema";
+import { sortCategories } from "@shared/categories";
 import {
   Dialog,
   DialogContent,
@@ -24,7 +26,7 @@ import { Plus, Trash2 } from "lucide-react";
 type AssignmentRow = {
   id: string;
   name: string;
-  moduleGroup: string;
+  categoryId: string; // "none" when uncategorized
   scoringType: "status" | "numeric";
   dueDate: string;
 };
@@ -33,7 +35,7 @@ function createEmptyRow(): AssignmentRow {
   return {
     id: crypto.randomUUID(),
     name: "",
-    moduleGroup: "",
+    categoryId: "none",
     scoringType: "status",
     dueDate: "",
   };
@@ -45,6 +47,11 @@ export function CreateAssignmentDialog({ classId }: { classId: number }) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: [`/api/classes/${classId}/categories`],
+    enabled: open,
+  });
+
   const createAssignmentsMutation = useMutation({
     mutationFn: async (data: AssignmentRow[]) => {
       // Filter out empty assignments
@@ -62,7 +69,7 @@ export function CreateAssignmentDialog({ classId }: { classId: number }) {
           `/api/classes/${classId}/assignments`,
           {
             name: assignment.name,
-            moduleGroup: assignment.moduleGroup || null,
+            categoryId: assignment.categoryId === "none" ? null : parseInt(assignment.categoryId),
             scoringType: assignment.scoringType,
             dueDate: assignment.dueDate || null,
             classId,
@@ -141,9 +148,9 @@ export function CreateAssignmentDialog({ classId }: { classId: number }) {
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-4">
             {/* Header row */}
-            <div className="grid grid-cols-[1fr_120px_120px_140px_40px] gap-3 text-sm font-medium text-muted-foreground">
+            <div className="grid grid-cols-[1fr_160px_120px_140px_40px] gap-3 text-sm font-medium text-muted-foreground">
               <div>Assignment Name *</div>
-              <div>Module/Group</div>
+              <div>Category</div>
               <div>Due Date</div>
               <div>Scoring Type</div>
               <div></div>
@@ -153,7 +160,7 @@ export function CreateAssignmentDialog({ classId }: { classId: number }) {
             {assignments.map((assignment, index) => (
               <div
                 key={assignment.id}
-                className="grid grid-cols-[1fr_120px_120px_140px_40px] gap-3 items-center"
+                className="grid grid-cols-[1fr_160px_120px_140px_40px] gap-3 items-center"
               >
                 <Input
                   placeholder="e.g., Essay 1"
@@ -161,11 +168,22 @@ export function CreateAssignmentDialog({ classId }: { classId: number }) {
                   onChange={(e) => updateRow(assignment.id, "name", e.target.value)}
                   required={index === 0}
                 />
-                <Input
-                  placeholder="Module 1"
-                  value={assignment.moduleGroup}
-                  onChange={(e) => updateRow(assignment.id, "moduleGroup", e.target.value)}
-                />
+                <Select
+                  value={assignment.categoryId}
+                  onValueChange={(value) => updateRow(assignment.id, "categoryId", value)}
+                >
+                  <SelectTrigger aria-label="Category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Uncategorized</SelectItem>
+                    {sortCategories(categories).map((category) => (
+                      <SelectItem key={category.id} value={String(category.id)}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <Input
                   type="date"
                   value={assignment.dueDate}
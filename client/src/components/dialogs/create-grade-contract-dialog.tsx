@@ -3,9 +3,11 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { Assignment } from "@shared/schema";
+import { Assignment, Category } from "@shared/schema";
+import { groupByCategory } from "@shared/categories";
+import { DEFAULT_GRADE_TIERS } from "@shared/constants";
 import {
   Dialog,
   DialogContent,
@@ -36,7 +38,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
 
 const createGradeContractSchema = z.object({
-  grade: z.enum(["A", "B", "C"]),
+  grade: z.string().min(1, "Select a grade level"),
   assignments: z.array(z.object({
     id: z.number(),
     comments: z.string().optional(),
@@ -44,57 +46,62 @@ const createGradeContractSchema = z.object({
   })),
   requiredEngagementIntentions: z.number().default(0),
   maxAbsences: z.number().default(0),
+  tokenAllowance: z.number().min(0).default(0),
+  lateWorkCounts: z.boolean().default(true),
   categoryRequirements: z.array(z.object({
-    category: z.string(),
+    categoryId: z.number(),
     required: z.number().min(1),
   })).optional(),
 });
 
 type FormData = z.infer<typeof createGradeContractSchema>;
-type CategoryRequirement = { category: string; required: number };
+type CategoryRequirement = { categoryId: number; required: number };
 type AssignmentMinPoints = Record<number, number | undefined>;
 
 export function CreateGradeContractDialog({
   classId,
-  assignments
+  assignments,
+  gradeTiers = DEFAULT_GRADE_TIERS,
 }: {
   classId: number;
   assignments: Assignment[];
+  gradeTiers?: readonly string[]; // The class's tier labels, highest first
 }) {
   const [open, setOpen] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [selectedAssignments, setSelectedAssignments] = useState<number[]>([]);
-  const [categoryRequirements, setCategoryRequirements] = useState<Record<string, number | null>>({});
+  const [categoryRequirements, setCategoryRequirements] = useState<Record<number, number | null>>({});
   const [minPointsRequirements, setMinPointsRequirements] = useState<AssignmentMinPoints>({});
 
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: [`/api/classes/${classId}/categories`],
+    enabled: open,
+  });
+
   const form = useForm<FormData>({
     resolver: zodResolver(createGradeContractSchema),
     defaultValues: {
-      grade: "A",
+      grade: gradeTiers[0],
       assignments: [],
       requiredEngagementIntentions: 0,
       maxAbsences: 0,
+      tokenAllowance: 0,
+      lateWorkCounts: true,
       categoryRequirements: [],
     },
   });
 
-  // Group assignments by module group
-  const assignmentsByCategory = assignments.reduce((acc, assignment) => {
-    const category = assignment.moduleGroup || "Uncategorized";
-    if (!acc[category]) acc[category] = [];
-    acc[category].push(assignment);
-    return acc;
-  }, {} as Record<string, Assignment[]>);
+  // Group assignments by category, in the class's category order
+  const assignmentGroups = groupByCategory(assignments, categories, (a) => a);
 
-  // Get categories that have at least one selected assignment
-  const selectedCategories = Object.entries(assignmentsByCategory)
-    .filter(([_, categoryAssignments]) =>
-      categoryAssignments.some(a => selectedAssignments.includes(a.id))
-    )
-    .map(([category, categoryAssignments]) => ({
-      category,
-      totalSelected: categoryAssignments.filter(a => selectedAssignments.includes(a.id)).length
+  // Get categories that have at least one selected assignment; uncategorized work can't carry a requirement
+  const selectedCategories = assignmentGroups
+    .filter((group) => group.category !== null && group.items.some(a => selectedAssignments.includes(a.id)))
+    .map((group) => ({
+      categoryId: group.category!.id,
+      name: group.name,
+      totalSelected: group.items.filter(a => selectedAssignments.includes(a.id)).length
     }));
 
   const createContractMutation = useMutation({
@@ -139,7 +146,7 @@ export function CreateGradeContractDialog({
     // Build category requirements array from state
     const categoryReqs: CategoryRequirement[] = Object.entries(categoryRequirements)
       .filter(([_, required]) => required !== null && required > 0)
-      .map(([category, required]) => ({ category, required: required as number }));
+      .map(([categoryId, required]) => ({ categoryId: Number(categoryId), required: required as number }));
 
     // Add minPoints to assignments that have them
     const assignmentsWithMinPoints = values.assignments.map(a => ({
@@ -182,9 +189,9 @@ export function CreateGradeContractDialog({
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="A">A Grade</SelectItem>
-                        <SelectItem value="B">B Grade</SelectItem>
-                        <SelectItem value="C">C Grade</SelectItem>
+                        {gradeTiers.map((grade) => (
+                          <SelectItem key={grade} value={grade}>{grade} Grade</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -238,12 +245,59 @@ export function CreateGradeContractDialog({
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="tokenAllowance"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Token Allowance</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        placeholder="e.g., 2"
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                    <p className="text-sm text-muted-foreground">
+                      Tokens students can spend on revisions, late submissions, missed engagement or absences.
+                    </p>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="lateWorkCounts"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Late work counts as done</FormLabel>
+                      <p className="text-sm text-muted-foreground">
+                        When unchecked, assignments flagged late don't count toward this contract.
+                      </p>
+                    </div>
+                  </FormItem>
+                )}
+              />
+
               <div className="space-y-4">
                 <p className="font-medium">Select Required Assignments</p>
-                {Object.entries(assignmentsByCategory).map(([category, categoryAssignments]) => (
-                  <div key={category} className="space-y-2">
-                    <p className="text-sm font-semibold text-muted-foreground">{category}</p>
-                    {categoryAssignments.map((assignment) => (
+                {assignmentGroups.map((group) => (
+                  <div key={group.category?.id ?? "uncategorized"} className="space-y-2">
+                    <p className="text-sm font-semibold text-muted-foreground flex items-center gap-2">
+                      <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: group.color }} aria-hidden="true" />
+                      {group.name}
+                    </p>
+                    {group.items.map((assignment) => (
                       <div key={assignment.id} className="flex items-start space-x-3 space-y-0 ml-4">
                         <Checkbox
                           checked={selectedAssignments.includes(assignment.id)}
@@ -324,10 +378,10 @@ export function CreateGradeContractDialog({
                       Leave blank to require all selected assignments in that category.
                     </p>
                   </div>
-                  {selectedCategories.map(({ category, totalSelected }) => (
-                    <div key={category} className="flex items-center gap-4">
+                  {selectedCategories.map(({ categoryId, name, totalSelected }) => (
+                    <div key={categoryId} className="flex items-center gap-4">
                       <div className="flex-1">
-                        <p className="text-sm font-medium">{category}</p>
+                        <p className="text-sm font-medium">{name}</p>
                         <p className="text-xs text-muted-foreground">
                           {totalSelected} assignment{totalSelected !== 1 ? "s" : ""} selected
                         </p>
@@ -339,12 +393,13 @@ export function CreateGradeContractDialog({
                           max={totalSelected}
                           placeholder="All"
                           className="w-20"
-                          value={categoryRequirements[category] ?? ""}
+                          aria-label={`Assignments required in ${name}`}
+                          value={categoryRequirements[categoryId] ?? ""}
                           onChange={(e) => {
                             const value = e.target.value ? parseInt(e.target.value) : null;
                             setCategoryRequirements(prev => ({
                               ...prev,
-                              [category]: value
+                              [categoryId]: value
                             }));
                           }}
                         />
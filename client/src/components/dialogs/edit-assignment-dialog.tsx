@@ -3,9 +3,12 @@ import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { Assignment, insertAssignmentSchema } from "@shared/schema";
+import { Assignment, Category, insertAssignmentSchema } from "@shared/schema";
+import { sortCategories } from "@shared/categories";
+import { LATE_POLICIES, LATE_POLICY_LABELS, getWindowError } from "@shared/late-policy";
+import { format } from "date-fns";
 import { z } from "zod";
 import { Pencil, Trash } from "lucide-react";
 import {
@@ -41,6 +44,11 @@ export function EditAssignmentDialog({ classId, assignment }: { classId: number;
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: [`/api/classes/${classId}/categories`],
+    enabled: open,
+  });
+
   // Convert dueDate to string format for the date input
   const formatDateForInput = (date: Date | string | null | undefined): string => {
     if (!date) return "";
@@ -48,13 +56,23 @@ export function EditAssignmentDialog({ classId, assignment }: { classId: number;
     return d.toISOString().split("T")[0];
   };
 
+  // Open and close dates are moments in the instructor's local time
+  const formatDateTimeForInput = (date: Date | string | null | undefined): string => {
+    if (!date) return "";
+    return format(new Date(date), "yyyy-MM-dd'T'HH:mm");
+  };
+
   const form = useForm<FormData>({
     resolver: zodResolver(insertAssignmentSchema),
     defaultValues: {
       name: assignment.name,
-      moduleGroup: assignment.moduleGroup || "",
+      categoryId: assignment.categoryId,
       scoringType: assignment.scoringType,
       dueDate: formatDateForInput(assignment.dueDate),
+      opensAt: formatDateTimeForInput(assignment.opensAt),
+      closesAt: formatDateTimeForInput(assignment.closesAt),
+      latePolicy: assignment.latePolicy,
+      attemptLimit: assignment.attemptLimit,
     },
   });
 
@@ -63,7 +81,12 @@ export function EditAssignmentDialog({ classId, assignment }: { classId: number;
       const res = await apiRequest(
         "PATCH",
         `/api/classes/${classId}/assignments/${assignment.id}`,
-        data
+        {
+          ...data,
+          dueDate: data.dueDate || null,
+          opensAt: data.opensAt ? new Date(data.opensAt).toISOString() : null,
+          closesAt: data.closesAt ? new Date(data.closesAt).toISOString() : null,
+        }
       );
       return res.json();
     },
@@ -113,6 +136,11 @@ export function EditAssignmentDialog({ classId, assignment }: { classId: number;
   });
 
   const handleSubmit = form.handleSubmit((data) => {
+    const windowError = getWindowError(data);
+    if (windowError) {
+      form.setError("closesAt", { message: windowError });
+      return;
+    }
     updateAssignmentMutation.mutate(data);
   });
 
@@ -123,7 +151,7 @@ export function EditAssignmentDialog({ classId, assignment }: { classId: number;
           <Pencil className="h-4 w-4" />
         </Button>
       </DialogTrigger>
-      <DialogContent>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Edit Assignment</DialogTitle>
           <DialogDescription>
@@ -147,13 +175,28 @@ export function EditAssignmentDialog({ classId, assignment }: { classId: number;
             />
             <FormField
               control={form.control}
-              name="moduleGroup"
+              name="categoryId"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Module Group</FormLabel>
-                  <FormControl>
-                    <Input {...field} value={field.value || ''} />
-                  </FormControl>
+                  <FormLabel>Category</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(value === "none" ? null : parseInt(value))}
+                    value={field.value === null || field.value === undefined ? "none" : String(field.value)}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a category" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Uncategorized</SelectItem>
+                      {sortCategories(categories).map((category) => (
+                        <SelectItem key={category.id} value={String(category.id)}>
+                          {category.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                   <FormMessage />
                 </FormItem>
               )}
@@ -196,6 +239,82 @@ export function EditAssignmentDialog({ classId, assignment }: { classId: number;
                 </FormItem>
               )}
             />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="opensAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Opens</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} value={field.value || ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="closesAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Closes</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} value={field.value || ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="latePolicy"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Late Policy</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a late policy" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {LATE_POLICIES.map((policy) => (
+                        <SelectItem key={policy} value={policy}>{LATE_POLICY_LABELS[policy]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                  <p className="text-sm text-muted-foreground">
+                    Applies to work handed in after the due date. Rejecting closes submissions at the close date,
+                    or at the end of the due date when no close date is set.
+                  </p>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="attemptLimit"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Attempt Limit</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="1"
+                      placeholder="Unlimited"
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : null)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                  <p className="text-sm text-muted-foreground">
+                    Graded attempts allowed, including the first submission. Leave blank for no limit.
+                  </p>
+                </FormItem>
+              )}
+            />
             <div className="flex justify-between pt-4">
               <Button
                 type="button"
@@ -0,0 +1,240 @@
+import { useState, useEffect } from "react";
+import { Class, scheduleBreakSchema } from "@shared/schema";
+import { ENGAGEMENT_WEEKS, getScheduleError, WEEKDAY_LABELS, type ScheduleBreak } from "@shared/class-schedule";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CalendarRange, Plus, Trash2 } from "lucide-react";
+
+type Props = {
+  classData: Class;
+};
+
+type ScheduleDraft = {
+  semesterStartDate: string;
+  semesterEndDate: string;
+  meetingDays: number[];
+  scheduleBreaks: ScheduleBreak[];
+};
+
+function toDraft(classData: Class): ScheduleDraft {
+  return {
+    semesterStartDate: classData.semesterStartDate ?? "",
+    semesterEndDate: classData.semesterEndDate ?? "",
+    meetingDays: classData.meetingDays ?? [],
+    scheduleBreaks: (classData.scheduleBreaks ?? []).map((b) => ({ ...b })),
+  };
+}
+
+export function EditClassScheduleDialog({ classData }: Props) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<ScheduleDraft>(() => toDraft(classData));
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Start from the class's saved schedule each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDraft(toDraft(classData));
+    }
+  }, [open, classData]);
+
+  const breakError = draft.scheduleBreaks
+    .map((b) => scheduleBreakSchema.safeParse(b))
+    .find((result) => !result.success)?.error?.issues[0]?.message;
+  const validationError = !draft.semesterStartDate
+    ? "Set the semester start date"
+    : breakError ?? getScheduleError({
+        ...draft,
+        semesterEndDate: draft.semesterEndDate || null,
+      });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ScheduleDraft) => {
+      const res = await apiRequest("PATCH", `/api/classes/${classData.id}`, {
+        semesterStartDate: data.semesterStartDate,
+        semesterEndDate: data.semesterEndDate || null,
+        meetingDays: data.meetingDays.length > 0 ? [...data.meetingDays].sort((a, b) => a - b) : null,
+        scheduleBreaks: data.scheduleBreaks.length > 0 ? data.scheduleBreaks : null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/classes/${classData.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/classes/${classData.id}/schedule`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar"] });
+      toast({
+        title: "Success",
+        description: "Class schedule updated",
+      });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleDay = (day: number) => {
+    setDraft({
+      ...draft,
+      meetingDays: draft.meetingDays.includes(day)
+        ? draft.meetingDays.filter((d) => d !== day)
+        : [...draft.meetingDays, day],
+    });
+  };
+
+  const updateBreak = (index: number, changes: Partial<ScheduleBreak>) => {
+    setDraft({
+      ...draft,
+      scheduleBreaks: draft.scheduleBreaks.map((b, i) => (i === index ? { ...b, ...changes } : b)),
+    });
+  };
+
+  const addBreak = () => {
+    setDraft({
+      ...draft,
+      scheduleBreaks: [...draft.scheduleBreaks, { name: "", startDate: "", endDate: "" }],
+    });
+  };
+
+  const removeBreak = (index: number) => {
+    setDraft({ ...draft, scheduleBreaks: draft.scheduleBreaks.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="lg" className="text-base border-blue-600 text-black bg-white hover:bg-gray-100">
+          <CalendarRange className="h-5 w-5 mr-2" />
+          Schedule
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Class Schedule</DialogTitle>
+          <DialogDescription>
+            Engagement weeks start on the semester start date and skip weeks lost to breaks.
+            Meeting days set the sessions offered when taking attendance.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="semester-start">Semester Start Date</Label>
+              <Input
+                id="semester-start"
+                type="date"
+                value={draft.semesterStartDate}
+                onChange={(e) => setDraft({ ...draft, semesterStartDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="semester-end">Term End Date (Optional)</Label>
+              <Input
+                id="semester-end"
+                type="date"
+                value={draft.semesterEndDate}
+                onChange={(e) => setDraft({ ...draft, semesterEndDate: e.target.value })}
+              />
+              <p className="text-sm text-muted-foreground">
+                Without an end date the term runs {ENGAGEMENT_WEEKS} engagement weeks
+              </p>
+            </div>
+          </div>
+
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium">Meeting Days</legend>
+            <div className="flex flex-wrap gap-4">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <div key={label} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`meeting-day-${day}`}
+                    checked={draft.meetingDays.includes(day)}
+                    onCheckedChange={() => toggleDay(day)}
+                  />
+                  <Label htmlFor={`meeting-day-${day}`} className="cursor-pointer">{label}</Label>
+                </div>
+              ))}
+            </div>
+          </fieldset>
+
+          <div className="space-y-3">
+            <p className="text-sm font-medium">Breaks and Holidays</p>
+            {draft.scheduleBreaks.length === 0 && (
+              <p className="text-sm text-muted-foreground">No breaks. Add holidays or reading weeks below.</p>
+            )}
+            {draft.scheduleBreaks.map((b, index) => (
+              <div key={index} className="grid grid-cols-[1fr_9rem_9rem_2.5rem] gap-2 items-center">
+                <Input
+                  aria-label={`Break ${index + 1} name`}
+                  placeholder="e.g., Thanksgiving"
+                  value={b.name}
+                  onChange={(e) => updateBreak(index, { name: e.target.value })}
+                />
+                <Input
+                  type="date"
+                  aria-label={`Break ${index + 1} first day`}
+                  value={b.startDate}
+                  onChange={(e) => updateBreak(index, { startDate: e.target.value, endDate: b.endDate || e.target.value })}
+                />
+                <Input
+                  type="date"
+                  aria-label={`Break ${index + 1} last day`}
+                  value={b.endDate}
+                  onChange={(e) => updateBreak(index, { endDate: e.target.value })}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Remove break ${index + 1}`}
+                  onClick={() => removeBreak(index)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={addBreak}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Break
+            </Button>
+          </div>
+
+          {validationError && (
+            <p className="text-sm text-destructive" role="alert">{validationError}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate(draft)}
+            disabled={!!validationError || saveMutation.isPending}
+          >
+            Save Schedule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
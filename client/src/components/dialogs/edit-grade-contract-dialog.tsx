@@ -3,9 +3,12 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { Assignment, GradeContract } from "@shared/schema";
+import { Assignment, Category, GradeContract, StudentContract } from "@shared/schema";
+import { groupByCategory } from "@shared/categories";
+import { diffContracts, type ContractChange } from "@shared/contract-diff";
+import { DEFAULT_GRADE_TIERS } from "@shared/constants";
 import {
   Dialog,
   DialogContent,
@@ -33,11 +36,11 @@ import {
 import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { Pencil } from "lucide-react";
+import { Pencil, GitCompare, Users } from "lucide-react";
 
 // Schema for grade contract form
 const editGradeContractSchema = z.object({
-  grade: z.enum(["A", "B", "C"]),
+  grade: z.string().min(1, "Select a grade level"),
   assignments: z.array(z.object({
     id: z.number(),
     comments: z.string().optional(),
@@ -45,39 +48,94 @@ const editGradeContractSchema = z.object({
   })),
   requiredEngagementIntentions: z.number().default(0),
   maxAbsences: z.number().default(0),
+  tokenAllowance: z.number().min(0).default(0),
+  lateWorkCounts: z.boolean().default(true),
   assignmentComments: z.record(z.string(), z.string()).default({}),
   categoryRequirements: z.array(z.object({
-    category: z.string(),
+    categoryId: z.number(),
     required: z.number().min(1),
   })).optional(),
 });
 
 type FormData = z.infer<typeof editGradeContractSchema>;
-type CategoryRequirement = { category: string; required: number };
+type CategoryRequirement = { categoryId: number; required: number };
 type AssignmentMinPoints = Record<number, number | undefined>;
 
 // Type for the API payload (doesn't include assignmentComments which is only for form state)
 type ContractUpdatePayload = {
-  grade: "A" | "B" | "C";
+  grade: string;
   requiredEngagementIntentions: number;
   maxAbsences: number;
+  tokenAllowance: number;
+  lateWorkCounts: boolean;
   assignments: { id: number; comments?: string; minPoints?: number }[];
-  categoryRequirements?: { category: string; required: number }[];
+  categoryRequirements?: CategoryRequirement[];
   version: number;
 };
 
+// Render the list of requirement changes between two versions
+function ContractDiffList({ changes }: { changes: ContractChange[] }) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No requirement changes</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-sm">
+      {changes.map((change, index) => (
+        <li key={index} className="flex flex-wrap items-baseline gap-1">
+          <span
+            className={`text-xs font-semibold uppercase ${
+              change.kind === "added" ? "text-green-700" : change.kind === "removed" ? "text-red-700" : "text-blue-700"
+            }`}
+          >
+            {change.kind}
+          </span>
+          <span className="font-medium">{change.label}</span>
+          {change.kind === "changed" && (
+            <span className="text-muted-foreground">
+              <span className="line-through">{change.before ?? "None"}</span> → {change.after ?? "None"}
+            </span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 export function EditGradeContractDialog({
   classId,
   contract,
-  assignments
+  assignments,
+  versions = [],
+  studentContracts = [],
+  gradeTiers = DEFAULT_GRADE_TIERS,
 }: {
   classId: number;
   contract: GradeContract & { categoryRequirements?: CategoryRequirement[] | null };
   assignments: Assignment[];
+  versions?: GradeContract[]; // Every version of this grade, including `contract`
+  studentContracts?: StudentContract[];
+  gradeTiers?: readonly string[]; // The class's tier labels, highest first
 }) {
   const [open, setOpen] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: [`/api/classes/${classId}/categories`],
+    enabled: open,
+  });
+
+  const previousVersions = versions
+    .filter(v => v.id !== contract.id && v.version < contract.version)
+    .sort((a, b) => b.version - a.version);
+  const [compareVersionId, setCompareVersionId] = useState<number | null>(previousVersions[0]?.id ?? null);
+  const compareVersion = previousVersions.find(v => v.id === compareVersionId) ?? previousVersions[0];
+
+  // Confirmed students stay on the version they agreed to until migrated
+  const pinnedStudents = studentContracts.filter(
+    sc => previousVersions.some(v => v.id === sc.contractId)
+  );
   const [selectedAssignments, setSelectedAssignments] = useState<number[]>(
     contract.assignments.map(a => a.id)
   );
@@ -91,11 +149,11 @@ export function EditGradeContractDialog({
   });
 
   // Build initial category requirements from existing contract
-  const initialCategoryReqs: Record<string, number | null> = {};
+  const initialCategoryReqs: Record<number, number | null> = {};
   (contract.categoryRequirements || []).forEach(cr => {
-    initialCategoryReqs[cr.category] = cr.required;
+    initialCategoryReqs[cr.categoryId] = cr.required;
   });
-  const [categoryRequirements, setCategoryRequirements] = useState<Record<string, number | null>>(initialCategoryReqs);
+  const [categoryRequirements, setCategoryRequirements] = useState<Record<number, number | null>>(initialCategoryReqs);
 
   // Build initial minPoints from existing contract assignments
   const initialMinPoints: AssignmentMinPoints = {};
@@ -106,22 +164,16 @@ export function EditGradeContractDialog({
   });
   const [minPointsRequirements, setMinPointsRequirements] = useState<AssignmentMinPoints>(initialMinPoints);
 
-  // Group assignments by module group
-  const assignmentsByCategory = assignments.reduce((acc, assignment) => {
-    const category = assignment.moduleGroup || "Uncategorized";
-    if (!acc[category]) acc[category] = [];
-    acc[category].push(assignment);
-    return acc;
-  }, {} as Record<string, Assignment[]>);
-
-  // Get categories that have at least one selected assignment
-  const selectedCategories = Object.entries(assignmentsByCategory)
-    .filter(([_, categoryAssignments]) =>
-      categoryAssignments.some(a => selectedAssignments.includes(a.id))
-    )
-    .map(([category, categoryAssignments]) => ({
-      category,
-      totalSelected: categoryAssignments.filter(a => selectedAssignments.includes(a.id)).length
+  // Group assignments by category, in the class's category order
+  const assignmentGroups = groupByCategory(assignments, categories, (a) => a);
+
+  // Get categories that have at least one selected assignment; uncategorized work can't carry a requirement
+  const selectedCategories = assignmentGroups
+    .filter((group) => group.category !== null && group.items.some(a => selectedAssignments.includes(a.id)))
+    .map((group) => ({
+      categoryId: group.category!.id,
+      name: group.name,
+      totalSelected: group.items.filter(a => selectedAssignments.includes(a.id)).length
     }));
 
   const form = useForm<FormData>({
@@ -131,6 +183,8 @@ export function EditGradeContractDialog({
       assignments: contract.assignments,
       requiredEngagementIntentions: contract.requiredEngagementIntentions || 0,
       maxAbsences: contract.maxAbsences || 0,
+      tokenAllowance: contract.tokenAllowance || 0,
+      lateWorkCounts: contract.lateWorkCounts,
       assignmentComments: initialComments,
       categoryRequirements: contract.categoryRequirements || [],
     },
@@ -149,9 +203,12 @@ export function EditGradeContractDialog({
       queryClient.invalidateQueries({
         queryKey: [`/api/classes/${classId}/contracts`],
       });
+      queryClient.invalidateQueries({
+        queryKey: [`/api/classes/${classId}/student-contracts`],
+      });
       toast({
         title: "Success",
-        description: "Grade contract updated successfully",
+        description: `Saved as version ${contract.version + 1}`,
       });
       setOpen(false);
       form.reset();
@@ -168,8 +225,34 @@ export function EditGradeContractDialog({
     },
   });
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const migrateStudentsMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest(
+        "POST",
+        `/api/classes/${classId}/contracts/${contract.id}/migrate`,
+        {}
+      );
+      return res.json();
+    },
+    onSuccess: (migrated: StudentContract[]) => {
+      queryClient.invalidateQueries({
+        queryKey: [`/api/classes/${classId}/student-contracts`],
+      });
+      toast({
+        title: "Success",
+        description: `Moved ${migrated.length} student${migrated.length !== 1 ? "s" : ""} to version ${contract.version}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const buildPayload = (): ContractUpdatePayload => {
     const values = form.getValues();
 
     // Create assignments array with selected assignments, comments, and minPoints
@@ -187,19 +270,35 @@ export function EditGradeContractDialog({
     // Build category requirements array from state
     const categoryReqs: CategoryRequirement[] = Object.entries(categoryRequirements)
       .filter(([_, required]) => required !== null && required > 0)
-      .map(([category, required]) => ({ category, required: required as number }));
+      .map(([categoryId, required]) => ({ categoryId: Number(categoryId), required: required as number }));
 
-    const formData: ContractUpdatePayload = {
+    return {
       grade: values.grade,
       requiredEngagementIntentions: values.requiredEngagementIntentions,
       maxAbsences: values.maxAbsences,
+      tokenAllowance: values.tokenAllowance,
+      lateWorkCounts: values.lateWorkCounts,
       assignments: assignmentsWithComments,
       categoryRequirements: categoryReqs.length > 0 ? categoryReqs : undefined,
       version: contract.version + 1,
     };
+  };
+
+  // Re-render on every field change so the preview of the next version stays current
+  form.watch();
+  const pendingPayload = buildPayload();
+  const pendingChanges = diffContracts(
+    contract,
+    { ...pendingPayload, categoryRequirements: pendingPayload.categoryRequirements ?? null },
+    assignments,
+    categories
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
 
     try {
-      await updateContractMutation.mutateAsync(formData);
+      await updateContractMutation.mutateAsync(buildPayload());
     } catch (error) {
       console.error("Form submission error:", error);
     }
@@ -231,9 +330,54 @@ export function EditGradeContractDialog({
         <DialogHeader>
           <DialogTitle>Edit Grade Contract</DialogTitle>
           <DialogDescription>
-            Update requirements for this grade level
+            Saving creates version {contract.version + 1}. Students who already confirmed
+            version {contract.version} keep their current requirements.
           </DialogDescription>
         </DialogHeader>
+
+        {pinnedStudents.length > 0 && (
+          <div className="border rounded-lg p-4 bg-amber-50 border-amber-200 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <p className="text-sm flex items-center gap-2">
+              <Users className="h-4 w-4" aria-hidden="true" />
+              {pinnedStudents.length} student{pinnedStudents.length !== 1 ? "s are" : " is"} on an earlier version
+            </p>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => migrateStudentsMutation.mutate()}
+              disabled={migrateStudentsMutation.isPending}
+            >
+              Migrate to version {contract.version}
+            </Button>
+          </div>
+        )}
+
+        {compareVersion && (
+          <div className="border rounded-lg p-4 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-semibold flex items-center gap-2">
+                <GitCompare className="h-4 w-4" aria-hidden="true" />
+                Version History
+              </p>
+              <Select
+                value={compareVersion.id.toString()}
+                onValueChange={(value) => setCompareVersionId(parseInt(value))}
+              >
+                <SelectTrigger className="w-48" aria-label="Compare with version">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {previousVersions.map((version) => (
+                    <SelectItem key={version.id} value={version.id.toString()}>
+                      Version {version.version} → {contract.version}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <ContractDiffList changes={diffContracts(compareVersion, contract, assignments, categories)} />
+          </div>
+        )}
         <Form {...form}>
           <form onSubmit={handleSubmit} className="space-y-4">
             <FormField
@@ -249,9 +393,9 @@ export function EditGradeContractDialog({
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      <SelectItem value="A">A Grade</SelectItem>
-                      <SelectItem value="B">B Grade</SelectItem>
-                      <SelectItem value="C">C Grade</SelectItem>
+                      {gradeTiers.map((grade) => (
+                        <SelectItem key={grade} value={grade}>{grade} Grade</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <FormMessage />
@@ -305,13 +449,60 @@ export function EditGradeContractDialog({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="tokenAllowance"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Token Allowance</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="0"
+                      placeholder="e.g., 2"
+                      {...field}
+                      onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : 0)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                  <p className="text-sm text-muted-foreground">
+                    Tokens students can spend on revisions, late submissions, missed engagement or absences.
+                  </p>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="lateWorkCounts"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={(checked) => field.onChange(checked === true)}
+                    />
+                  </FormControl>
+                  <div className="space-y-1 leading-none">
+                    <FormLabel>Late work counts as done</FormLabel>
+                    <p className="text-sm text-muted-foreground">
+                      When unchecked, assignments flagged late don't count toward this contract.
+                    </p>
+                  </div>
+                </FormItem>
+              )}
+            />
+
             <div className="space-y-4">
               <FormLabel>Required Assignments</FormLabel>
               <div className="border rounded-lg p-4 space-y-4">
-                {Object.entries(assignmentsByCategory).map(([category, categoryAssignments]) => (
-                  <div key={category} className="space-y-2">
-                    <p className="text-sm font-semibold text-muted-foreground">{category}</p>
-                    {categoryAssignments.map((assignment) => {
+                {assignmentGroups.map((group) => (
+                  <div key={group.category?.id ?? "uncategorized"} className="space-y-2">
+                    <p className="text-sm font-semibold text-muted-foreground flex items-center gap-2">
+                      <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: group.color }} aria-hidden="true" />
+                      {group.name}
+                    </p>
+                    {group.items.map((assignment) => {
                       const existingAssignment = contract.assignments.find(a => a.id === assignment.id);
                       const commentKey = String(assignment.id);
                       return (
@@ -386,10 +577,10 @@ export function EditGradeContractDialog({
                     Leave blank to require all selected assignments in that category.
                   </p>
                 </div>
-                {selectedCategories.map(({ category, totalSelected }) => (
-                  <div key={category} className="flex items-center gap-4">
+                {selectedCategories.map(({ categoryId, name, totalSelected }) => (
+                  <div key={categoryId} className="flex items-center gap-4">
                     <div className="flex-1">
-                      <p className="text-sm font-medium">{category}</p>
+                      <p className="text-sm font-medium">{name}</p>
                       <p className="text-xs text-muted-foreground">
                         {totalSelected} assignment{totalSelected !== 1 ? "s" : ""} selected
                       </p>
@@ -401,12 +592,13 @@ export function EditGradeContractDialog({
                         max={totalSelected}
                         placeholder="All"
                         className="w-20"
-                        value={categoryRequirements[category] ?? ""}
+                        aria-label={`Assignments required in ${name}`}
+                        value={categoryRequirements[categoryId] ?? ""}
                         onChange={(e) => {
                           const value = e.target.value ? parseInt(e.target.value) : null;
                           setCategoryRequirements(prev => ({
                             ...prev,
-                            [category]: value
+                            [categoryId]: value
                           }));
                         }}
                       />
@@ -416,12 +608,17 @@ export function EditGradeContractDialog({
                 ))}
               </div>
             )}
+            <div className="border-t pt-4 space-y-2">
+              <FormLabel>Changes in Version {contract.version + 1}</FormLabel>
+              <ContractDiffList changes={pendingChanges} />
+            </div>
+
             <Button
               type="submit"
               className="w-full"
               disabled={updateContractMutation.isPending}
             >
-              Update Contract
+              Save as Version {contract.version + 1}
             </Button>
           </form>
         </Form>
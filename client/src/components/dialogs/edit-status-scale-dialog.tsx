@@ -0,0 +1,189 @@
+import { useState, useEffect } from "react";
+import { Class, statusScaleSchema } from "@shared/schema";
+import { DEFAULT_STATUS_SCALE, getStatusScale, type StatusLevel } from "@shared/constants";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Palette, Plus, Trash2 } from "lucide-react";
+
+type Props = {
+  classData: Class;
+};
+
+export function EditStatusScaleDialog({ classData }: Props) {
+  const [open, setOpen] = useState(false);
+  const [levels, setLevels] = useState<StatusLevel[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Start from the class's current scale each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setLevels(getStatusScale(classData).map((level) => ({ ...level })));
+    }
+  }, [open, classData]);
+
+  const parsed = statusScaleSchema.safeParse(levels);
+  const validationError = parsed.success ? null : parsed.error.issues[0]?.message;
+
+  const saveMutation = useMutation({
+    mutationFn: async (statusScale: StatusLevel[] | null) => {
+      const res = await apiRequest("PATCH", `/api/classes/${classData.id}`, { statusScale });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/classes/${classData.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/classes/${classData.id}/analytics`] });
+      toast({
+        title: "Success",
+        description: "Status scale updated",
+      });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateLevel = (index: number, changes: Partial<StatusLevel>) => {
+    setLevels(levels.map((level, i) => (i === index ? { ...level, ...changes } : level)));
+  };
+
+  // Stored progress keeps its value, so new statuses can only go above the highest one
+  const addLevel = () => {
+    const highest = levels[levels.length - 1];
+    setLevels([
+      ...levels,
+      {
+        value: (highest?.value ?? -1) + 1,
+        label: "",
+        color: "#2563eb",
+        isDone: true,
+        minPercent: Math.min(100, (highest?.minPercent ?? 0) + 10),
+      },
+    ]);
+  };
+
+  const removeLevel = (index: number) => {
+    setLevels(levels.filter((_, i) => i !== index));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="lg" className="text-base border-blue-600 text-black bg-white hover:bg-gray-100">
+          <Palette className="h-5 w-5 mr-2" />
+          Status Scale
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Assignment Status Scale</DialogTitle>
+          <DialogDescription>
+            The statuses instructors choose from when grading, lowest first. Statuses marked done
+            count toward contracts. Imported percentages map to the highest status whose minimum they reach.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="hidden sm:grid grid-cols-[1fr_4rem_6rem_4rem_2.5rem] gap-2 text-sm font-medium text-muted-foreground">
+            <span>Label</span>
+            <span>Color</span>
+            <span>Import min %</span>
+            <span>Done</span>
+            <span className="sr-only">Remove</span>
+          </div>
+          {levels.map((level, index) => (
+            <div
+              key={level.value}
+              className="grid grid-cols-[1fr_4rem_6rem_4rem_2.5rem] gap-2 items-center"
+            >
+              <Input
+                aria-label={`Status ${index + 1} label`}
+                value={level.label}
+                placeholder="e.g., Meets Expectations"
+                onChange={(e) => updateLevel(index, { label: e.target.value })}
+              />
+              <Input
+                type="color"
+                aria-label={`Status ${index + 1} color`}
+                className="p-1 h-10"
+                value={level.color}
+                onChange={(e) => updateLevel(index, { color: e.target.value })}
+              />
+              <Input
+                type="number"
+                min="0"
+                max="100"
+                aria-label={`Status ${index + 1} minimum import percentage`}
+                value={level.minPercent}
+                onChange={(e) => updateLevel(index, { minPercent: e.target.value === "" ? 0 : Number(e.target.value) })}
+              />
+              <div className="flex justify-center">
+                <Checkbox
+                  id={`status-done-${level.value}`}
+                  aria-label={`Status ${index + 1} counts as done`}
+                  checked={level.isDone}
+                  onCheckedChange={(checked) => updateLevel(index, { isDone: checked === true })}
+                />
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                aria-label={`Remove status ${index + 1}`}
+                onClick={() => removeLevel(index)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <Button type="button" variant="outline" size="sm" onClick={addLevel} disabled={levels.length >= 10}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Status
+          </Button>
+
+          {validationError && (
+            <p className="text-sm text-destructive" role="alert">{validationError}</p>
+          )}
+          <p className="text-sm text-muted-foreground">
+            Removing a status moves work graded with it down to the next status below.
+          </p>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setLevels(DEFAULT_STATUS_SCALE.map((level) => ({ ...level })))}
+          >
+            Use Default
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate(parsed.success ? parsed.data : null)}
+            disabled={!parsed.success || saveMutation.isPending}
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Scale"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Copy } from "lucide-react";
+
+interface HandlePasswordResetDialogProps {
+  resetRequestId: number;
+  token: string;
+  expiresAt: string;
+  studentName: string;
+}
+
+export function HandlePasswordResetDialog({ resetRequestId, token, expiresAt, studentName }: HandlePasswordResetDialogProps) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const resetUrl = `${window.location.origin}/reset-password?token=${token}`;
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(resetUrl);
+    toast({
+      title: "Reset Link Copied",
+      description: "The password reset link has been copied to your clipboard.",
+    });
+  };
+
+  const markNotifiedMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/password-reset-requests/${resetRequestId}/notify`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/grading-queue"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/password-reset-requests"] });
+      toast({
+        title: "Marked as Notified",
+        description: "Password reset request has been marked as handled.",
+      });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          Handle
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Password Reset</DialogTitle>
+          <DialogDescription>
+            Send {studentName} this link. It expires on {new Date(expiresAt).toLocaleDateString()}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm break-all border rounded-md p-3 bg-muted/50">{resetUrl}</p>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={copyLink}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy Link
+            </Button>
+            <Button onClick={() => markNotifiedMutation.mutate()} disabled={markNotifiedMutation.isPending}>
+              Mark as Notified
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,8 +2,20 @@ import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { Assignment } from "@shared/schema";
+import { Assignment, CanvasMappingProfile, Class, gradeConversionSettingsSchema } from "@shared/schema";
+import { getAssignmentStatusLabel, getStatusScale } from "@shared/constants";
+import {
+  GRADE_BUCKETS,
+  GRADE_BUCKET_LABELS,
+  defaultConversionSettings,
+  diffColumnMappings,
+  findSavedMapping,
+  toSavedColumnMapping,
+  type GradeBucket,
+  type GradeConversionSettings,
+} from "@shared/canvas-mapping";
 import { parseCSV, extractAssignmentColumns, stringSimilarity } from "@/lib/csv-parser";
+import { ImportRunHistory } from "@/components/admin/import-run-history";
 import {
   Dialog,
   DialogContent,
@@ -40,6 +52,7 @@ import {
   FileSpreadsheet,
   UserX,
   Sparkles,
+  Trash2,
 } from "lucide-react";
 
 type Props = {
@@ -121,24 +134,22 @@ interface ImportResult {
   processedAbsences: number;
   skippedStudents: string[];
   errors: { student: string; assignment: string; error: string }[];
+  runId: number;
 }
 
-const STATUS_LABELS: Record<number, string> = {
-  0: 'Not Submitted',
-  1: 'Not Submitted',
-  2: 'Work-in-Progress',
-  3: 'Successfully Completed'
-};
-
 export function ImportCanvasGradesDialog({ classId, trigger }: Props) {
   const [open, setOpen] = useState(false);
   const [activeTab, setActiveTab] = useState("upload");
   const [error, setError] = useState<string | null>(null);
 
   // CSV parsing state
+  const [fileName, setFileName] = useState<string | null>(null);
   const [normalizedData, setNormalizedData] = useState<NormalizedGradeData | null>(null);
   const [mappings, setMappings] = useState<AssignmentMapping[]>([]);
 
+  // Conversion settings edited in this import; otherwise the saved ones apply
+  const [conversion, setConversion] = useState<GradeConversionSettings | null>(null);
+
   // Preview state
   const [preview, setPreview] = useState<ImportPreview | null>(null);
 
@@ -154,13 +165,30 @@ export function ImportCanvasGradesDialog({ classId, trigger }: Props) {
     enabled: open,
   });
 
+  // Converted statuses are shown with the class's own labels
+  const { data: classData } = useQuery<Class>({
+    queryKey: [`/api/classes/${classId}`],
+    enabled: open,
+  });
+  const statusScale = getStatusScale(classData);
+
+  // Mappings saved by earlier imports, applied to matching columns
+  const { data: profile } = useQuery<CanvasMappingProfile | null>({
+    queryKey: [`/api/classes/${classId}/canvas/mapping-profile`],
+    enabled: open,
+  });
+  const savedConversion = conversion ?? profile?.conversion ?? null;
+  const shownConversion = savedConversion ?? defaultConversionSettings(statusScale);
+  const conversionCheck = gradeConversionSettingsSchema.safeParse(shownConversion);
+  const conversionError = conversionCheck.success ? null : conversionCheck.error.issues[0].message;
+
   // Preview mutation
   const previewMutation = useMutation({
     mutationFn: async () => {
       const res = await apiRequest(
         "POST",
         `/api/classes/${classId}/canvas/preview`,
-        { normalizedData, mappings }
+        { normalizedData, mappings, conversion: savedConversion ?? undefined }
       );
       return res.json() as Promise<ImportPreview>;
     },
@@ -187,6 +215,9 @@ export function ImportCanvasGradesDialog({ classId, trigger }: Props) {
         {
           gradeChanges: preview.gradeChanges,
           absenceChanges: preview.absenceChanges,
+          fileName,
+          mappings,
+          conversion: savedConversion ?? undefined,
         }
       );
       return res.json() as Promise<ImportResult>;
@@ -195,6 +226,9 @@ export function ImportCanvasGradesDialog({ classId, trigger }: Props) {
       setImportResult(result);
       queryClient.invalidateQueries({ queryKey: [`/api/classes/${classId}/students/progress`] });
       queryClient.invalidateQueries({ queryKey: [`/api/classes/${classId}/attendance`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/classes/${classId}/activity`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/classes/${classId}/canvas/import-runs`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/classes/${classId}/canvas/mapping-profile`] });
       setActiveTab("results");
       const parts = [];
       if (result.processedGrades > 0) parts.push(`${result.processedGrades} grades`);
@@ -213,7 +247,30 @@ export function ImportCanvasGradesDialog({ classId, trigger }: Props) {
     },
   });
 
+  const forgetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/classes/${classId}/canvas/mapping-profile`);
+    },
+    onSuccess: () => {
+      setConversion(null);
+      queryClient.invalidateQueries({ queryKey: [`/api/classes/${classId}/canvas/mapping-profile`] });
+      toast({
+        title: "Success",
+        description: "Saved mappings forgotten. The next import starts from scratch.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const resetState = () => {
+    setFileName(null);
+    setConversion(null);
     setNormalizedData(null);
     setMappings([]);
     setPreview(null);
@@ -227,6 +284,7 @@ export function ImportCanvasGradesDialog({ classId, trigger }: Props) {
     if (!file) return;
 
     setError(null);
+    setFileName(file.name);
     const reader = new FileReader();
 
     reader.onload = (e) => {
@@ -278,8 +336,21 @@ export function ImportCanvasGradesDialog({ classId, trigger }: Props) {
           grades
         });
 
-        // Initialize mappings with auto-matching
+        // Initialize mappings from the saved profile, then auto-matching
+        const assignmentIds = new Set((portalAssignments || []).map(a => a.id));
         const initialMappings: AssignmentMapping[] = assignmentColumns.map(column => {
+          const saved = profile ? findSavedMapping(column, profile.columns, assignmentIds) : undefined;
+          if (saved) {
+            return {
+              canvasColumn: column,
+              portalAssignment: saved.target === 'assignment'
+                ? portalAssignments?.find(a => a.id === saved.assignmentId) ?? null
+                : null,
+              gradingType: saved.gradingType,
+              mappingTarget: saved.target === 'skip' ? undefined : saved.target,
+            };
+          }
+
           // Try to auto-match by name similarity
           let bestMatch: Assignment | null = null;
           let bestScore = 0;
@@ -342,8 +413,20 @@ export function ImportCanvasGradesDialog({ classId, trigger }: Props) {
     }));
   };
 
+  const updateConversion = (update: (current: GradeConversionSettings) => GradeConversionSettings) => {
+    setConversion(update(shownConversion));
+  };
+
   const mappedCount = mappings.filter(m => m.portalAssignment || m.mappingTarget === 'absences').length;
-  const canPreview = mappedCount > 0 && normalizedData;
+  const canPreview = mappedCount > 0 && normalizedData && !conversionError;
+
+  // Columns that are new since the saved profile, or mapped differently than last time
+  const columnChanges = diffColumnMappings(mappings.map(toSavedColumnMapping), profile?.columns ?? null);
+  const changedAssignmentIds = new Set(
+    mappings
+      .filter(m => m.portalAssignment && columnChanges.has(m.canvasColumn))
+      .map(m => m.portalAssignment!.id)
+  );
 
   return (
     <Dialog open={open} onOpenChange={(newOpen) => {
@@ -370,7 +453,7 @@ export function ImportCanvasGradesDialog({ classId, trigger }: Props) {
         </DialogHeader>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 flex flex-col overflow-hidden">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="upload">1. Upload</TabsTrigger>
             <TabsTrigger value="mapping" disabled={!normalizedData}>
               2. Map
@@ -381,6 +464,7 @@ export function ImportCanvasGradesDialog({ classId, trigger }: Props) {
             <TabsTrigger value="results" disabled={!importResult}>
               4. Results
             </TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
           </TabsList>
 
           <div className="flex-1 overflow-auto min-h-0">
@@ -442,12 +526,26 @@ export function ImportCanvasGradesDialog({ classId, trigger }: Props) {
                       <CardTitle className="text-lg">Map Assignments</CardTitle>
                       <CardDescription>
                         Connect Canvas columns to portal assignments ({mappedCount} of {mappings.length} mapped)
+                        {profile && " · Saved mappings from the last import were applied"}
                       </CardDescription>
                     </div>
-                    <Button variant="outline" size="sm" onClick={autoMatchAll}>
-                      <Sparkles className="h-4 w-4 mr-2" />
-                      Auto-Match All
-                    </Button>
+                    <div className="flex gap-2">
+                      {profile && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => forgetMutation.mutate()}
+                          disabled={forgetMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Forget Saved
+                        </Button>
+                      )}
+                      <Button variant="outline" size="sm" onClick={autoMatchAll}>
+                        <Sparkles className="h-4 w-4 mr-2" />
+                        Auto-Match All
+                      </Button>
+                    </div>
                   </div>
                 </CardHeader>
                 <CardContent>
@@ -459,6 +557,11 @@ export function ImportCanvasGradesDialog({ classId, trigger }: Props) {
                             <div className="font-medium truncate flex-1 mr-2" title={mapping.canvasColumn}>
                               {mapping.canvasColumn}
                             </div>
+                            {columnChanges.has(mapping.canvasColumn) && (
+                              <Badge variant="outline" className="flex-shrink-0 mr-2 border-yellow-500 text-yellow-700 dark:text-yellow-400">
+                                {columnChanges.get(mapping.canvasColumn) === 'new' ? 'New' : 'Changed'}
+                              </Badge>
+                            )}
                             {(mapping.portalAssignment || mapping.mappingTarget === 'absences') && (
                               <Badge variant="secondary" className="flex-shrink-0">
                                 {mapping.mappingTarget === 'absences' ? 'Absences' : 'Mapped'}
@@ -531,6 +634,74 @@ export function ImportCanvasGradesDialog({ classId, trigger }: Props) {
                     </div>
                   </ScrollArea>
 
+                  {/* Grade Conversion */}
+                  <div className="mt-4 pt-4 border-t space-y-3">
+                    <div>
+                      <h4 className="text-sm font-medium">Grade Conversion</h4>
+                      <p className="text-sm text-muted-foreground">
+                        How Canvas scores become statuses. Saved with your mappings for the next import.
+                      </p>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium text-muted-foreground">Minimum percentage</label>
+                        {statusScale.slice(1).map(level => {
+                          const threshold = shownConversion.thresholds.find(t => t.value === level.value);
+                          return (
+                            <div key={level.value} className="flex items-center gap-2">
+                              <span className="text-sm flex-1 truncate">{level.label}</span>
+                              <Input
+                                type="number"
+                                min={0}
+                                max={100}
+                                className="w-20"
+                                value={threshold?.minPercent ?? level.minPercent}
+                                onChange={(e) => {
+                                  const minPercent = Number(e.target.value);
+                                  updateConversion(current => ({
+                                    ...current,
+                                    thresholds: [
+                                      ...current.thresholds.filter(t => t.value !== level.value),
+                                      { value: level.value, minPercent },
+                                    ],
+                                  }));
+                                }}
+                              />
+                              <span className="text-sm text-muted-foreground">%</span>
+                            </div>
+                          );
+                        })}
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium text-muted-foreground">Letter grades</label>
+                        {Object.entries(shownConversion.letterGradeMap).map(([letter, bucket]) => (
+                          <div key={letter} className="flex items-center gap-2">
+                            <span className="text-sm w-8">{letter}</span>
+                            <Select
+                              value={bucket}
+                              onValueChange={(value) => updateConversion(current => ({
+                                ...current,
+                                letterGradeMap: { ...current.letterGradeMap, [letter]: value as GradeBucket },
+                              }))}
+                            >
+                              <SelectTrigger className="h-8">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {GRADE_BUCKETS.map(b => (
+                                  <SelectItem key={b} value={b}>{GRADE_BUCKET_LABELS[b]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                    {conversionError && (
+                      <p className="text-sm text-red-600">{conversionError}</p>
+                    )}
+                  </div>
+
                   <div className="mt-4 pt-4 border-t">
                     <Button
                       onClick={() => previewMutation.mutate()}
@@ -637,6 +808,24 @@ export function ImportCanvasGradesDialog({ classId, trigger }: Props) {
                     </Alert>
                   )}
 
+                  {/* Columns that differ from the saved mappings */}
+                  {columnChanges.size > 0 && (
+                    <Alert className="border-yellow-500 bg-yellow-50 dark:bg-yellow-950/20">
+                      <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                      <AlertTitle className="text-yellow-700 dark:text-yellow-400">Column Changes</AlertTitle>
+                      <AlertDescription className="text-yellow-700 dark:text-yellow-300">
+                        <p className="mb-2">These columns are new or mapped differently than last time. Their grades are highlighted below.</p>
+                        <ul className="list-disc list-inside text-sm space-y-1">
+                          {Array.from(columnChanges.entries()).map(([column, change]) => (
+                            <li key={column}>
+                              {column} <span className="text-muted-foreground">({change === 'new' ? 'new column' : 'mapping changed'})</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
                   {/* Grade Changes Table */}
                   <Card>
                     <CardHeader>
@@ -659,7 +848,10 @@ export function ImportCanvasGradesDialog({ classId, trigger }: Props) {
                           </TableHeader>
                           <TableBody>
                             {preview.gradeChanges.slice(0, 20).map((change, i) => (
-                              <TableRow key={i}>
+                              <TableRow
+                                key={i}
+                                className={changedAssignmentIds.has(change.assignmentId) ? "bg-yellow-50 dark:bg-yellow-950/20" : undefined}
+                              >
                                 <TableCell className="font-medium">{change.studentName}</TableCell>
                                 <TableCell>{change.assignmentName}</TableCell>
                                 <TableCell className="text-right text-muted-foreground">
@@ -672,7 +864,7 @@ export function ImportCanvasGradesDialog({ classId, trigger }: Props) {
                                   {change.newValue}
                                   {change.convertedStatus !== null && (
                                     <span className="text-xs text-muted-foreground ml-1">
-                                      ({STATUS_LABELS[change.convertedStatus]})
+                                      ({getAssignmentStatusLabel(change.convertedStatus, statusScale)})
                                     </span>
                                   )}
                                 </TableCell>
@@ -805,6 +997,15 @@ export function ImportCanvasGradesDialog({ classId, trigger }: Props) {
                 </div>
               )}
             </TabsContent>
+
+            {/* History Tab */}
+            <TabsContent value="history" className="p-1">
+              <ImportRunHistory
+                classId={classId}
+                assignments={portalAssignments || []}
+                statusScale={statusScale}
+              />
+            </TabsContent>
           </div>
         </Tabs>
 
@@ -1,5 +1,5 @@
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -13,21 +13,39 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
-import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { User, CalendarDays, Loader2 } from "lucide-react";
 import { format } from "date-fns";
+import {
+  getBreakOn,
+  getDefaultSessionDate,
+  parseDateKey,
+  type ClassScheduleSummary,
+} from "@shared/class-schedule";
+import { ATTENDANCE_STATUSES, ATTENDANCE_STATUS_LABELS, type AttendanceStatus } from "@shared/attendance";
 
 type AttendanceRecord = {
   id: number;
   studentId: number;
   classId: number;
   date: string;
-  isPresent: boolean;
+  status: AttendanceStatus;
   notes?: string;
 };
 
+type AttendanceDraft = { status: AttendanceStatus; notes: string };
+
+// Statuses where the student was in class, for the present count
+const IN_CLASS: AttendanceStatus[] = ["present", "late", "tardy"];
+
 type Student = {
   id: number;
   username: string;
@@ -42,7 +60,8 @@ type Props = {
 export function ManageAttendanceDialog({ classId, className }: Props) {
   const [open, setOpen] = useState(false);
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
-  const [attendanceData, setAttendanceData] = useState<Record<number, { isPresent: boolean; notes: string }>>({});
+  const [month, setMonth] = useState<Date>(new Date());
+  const [attendanceData, setAttendanceData] = useState<Record<number, AttendanceDraft>>({});
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -52,40 +71,61 @@ export function ManageAttendanceDialog({ classId, className }: Props) {
     enabled: open,
   });
 
+  // Scheduled sessions, so the dialog opens on a real class day
+  const { data: schedule } = useQuery<ClassScheduleSummary>({
+    queryKey: [`/api/classes/${classId}/schedule`],
+    enabled: open,
+  });
+
+  const sessionDates = schedule?.sessionDates ?? [];
+  const selectedKey = format(selectedDate, "yyyy-MM-dd");
+  const isSession = sessionDates.includes(selectedKey);
+  const selectedBreak = schedule ? getBreakOn({ scheduleBreaks: schedule.breaks }, selectedDate) : undefined;
+
+  // Jump to today's session, or the most recent one, each time the dialog opens
+  useEffect(() => {
+    if (!open || !schedule) return;
+    const session = getDefaultSessionDate(schedule.sessionDates);
+    if (session) {
+      const date = parseDateKey(session);
+      setSelectedDate(date);
+      setMonth(date);
+    }
+  }, [open, schedule]);
+
   // Fetch attendance records for selected date
   const { data: existingRecords, isLoading: isLoadingRecords } = useQuery<AttendanceRecord[]>({
     queryKey: [`/api/classes/${classId}/attendance`, selectedDate],
     queryFn: async () => {
-      const dateStr = format(selectedDate, 'yyyy-MM-dd');
-      const res = await apiRequest("GET", `/api/classes/${classId}/attendance?date=${dateStr}`);
+      const res = await apiRequest("GET", `/api/classes/${classId}/attendance?date=${selectedKey}`);
       return res.json();
     },
     enabled: open && !!selectedDate,
   });
 
   // Initialize attendance data when records are loaded
-  useState(() => {
+  useEffect(() => {
     if (existingRecords && students) {
-      const data: Record<number, { isPresent: boolean; notes: string }> = {};
+      const data: Record<number, AttendanceDraft> = {};
+      // Once anyone has a record for the day (e.g. from check-in), students without one weren't there
+      const fallback: AttendanceStatus = existingRecords.length > 0 ? "absent" : "present";
       students.forEach(student => {
         const record = existingRecords.find(r => r.studentId === student.id);
         data[student.id] = {
-          isPresent: record?.isPresent ?? true,
+          status: record?.status ?? fallback,
           notes: record?.notes || "",
         };
       });
       setAttendanceData(data);
     }
-  });
+  }, [existingRecords, students]);
 
   const saveAttendanceMutation = useMutation({
     mutationFn: async () => {
-      const dateStr = format(selectedDate, 'yyyy-MM-dd');
       const records = Object.entries(attendanceData).map(([studentId, data]) => ({
         studentId: parseInt(studentId),
-        classId,
-        date: dateStr,
-        isPresent: data.isPresent,
+        date: selectedKey,
+        status: data.status,
         notes: data.notes,
       }));
 
@@ -110,12 +150,12 @@ export function ManageAttendanceDialog({ classId, className }: Props) {
     },
   });
 
-  const toggleAttendance = (studentId: number) => {
+  const updateStatus = (studentId: number, status: AttendanceStatus) => {
     setAttendanceData(prev => ({
       ...prev,
       [studentId]: {
         ...prev[studentId],
-        isPresent: !prev[studentId]?.isPresent,
+        status,
       },
     }));
   };
@@ -153,17 +193,31 @@ export function ManageAttendanceDialog({ classId, className }: Props) {
               mode="single"
               selected={selectedDate}
               onSelect={(date) => date && setSelectedDate(date)}
+              month={month}
+              onMonthChange={setMonth}
+              modifiers={{ session: sessionDates.map(parseDateKey) }}
+              modifiersClassNames={{ session: "font-bold underline underline-offset-4" }}
               className="rounded-md border"
             />
+            {sessionDates.length > 0 && (
+              <p className="text-xs text-muted-foreground mt-2">Underlined days are scheduled sessions</p>
+            )}
           </div>
 
           <div className="space-y-4">
             <div className="flex items-center justify-between">
-              <h3 className="text-lg font-semibold">
-                {format(selectedDate, 'MMMM d, yyyy')}
-              </h3>
+              <div>
+                <h3 className="text-lg font-semibold">
+                  {format(selectedDate, 'MMMM d, yyyy')}
+                </h3>
+                {selectedBreak ? (
+                  <p className="text-sm text-amber-600">No class: {selectedBreak.name}</p>
+                ) : sessionDates.length > 0 && !isSession && (
+                  <p className="text-sm text-muted-foreground">Not a scheduled session</p>
+                )}
+              </div>
               <div className="text-sm text-muted-foreground">
-                {students && Object.values(attendanceData).filter(d => d.isPresent).length} / {students?.length || 0} present
+                {students && Object.values(attendanceData).filter(d => IN_CLASS.includes(d.status)).length} / {students?.length || 0} present
               </div>
             </div>
 
@@ -183,23 +237,28 @@ export function ManageAttendanceDialog({ classId, className }: Props) {
                           <div className="text-sm text-muted-foreground">{student.username}</div>
                         </div>
                       </div>
-                      <div className="flex items-center gap-2">
-                        <Checkbox
-                          id={`present-${student.id}`}
-                          checked={attendanceData[student.id]?.isPresent ?? true}
-                          onCheckedChange={() => toggleAttendance(student.id)}
-                        />
-                        <Label htmlFor={`present-${student.id}`} className="cursor-pointer">
-                          Present
-                        </Label>
-                      </div>
+                      <Select
+                        value={attendanceData[student.id]?.status ?? "present"}
+                        onValueChange={(value) => updateStatus(student.id, value as AttendanceStatus)}
+                      >
+                        <SelectTrigger className="w-32" aria-label={`Attendance for ${student.fullName}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ATTENDANCE_STATUSES.map((status) => (
+                            <SelectItem key={status} value={status}>
+                              {ATTENDANCE_STATUS_LABELS[status]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
                     
-                    {!attendanceData[student.id]?.isPresent && (
+                    {(attendanceData[student.id]?.status ?? "present") !== "present" && (
                       <div>
                         <Label className="text-sm">Notes (optional)</Label>
                         <Textarea
-                          placeholder="Reason for absence..."
+                          placeholder="Reason for absence or late arrival..."
                           value={attendanceData[student.id]?.notes || ""}
                           onChange={(e) => updateNotes(student.id, e.target.value)}
                           className="mt-1"
@@ -0,0 +1,272 @@
+import { useState, useEffect } from "react";
+import { Category, insertCategorySchema } from "@shared/schema";
+import { sortCategories } from "@shared/categories";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ArrowDown, ArrowUp, Check, FolderTree, Plus, Trash2 } from "lucide-react";
+
+type Props = {
+  classId: number;
+  categories: Category[];
+};
+
+type CategoryDraft = {
+  name: string;
+  description: string;
+  color: string;
+};
+
+const EMPTY_DRAFT: CategoryDraft = { name: "", description: "", color: "#0072BC" };
+
+function toDraft(category: Category): CategoryDraft {
+  return { name: category.name, description: category.description ?? "", color: category.color };
+}
+
+export function ManageCategoriesDialog({ classId, categories }: Props) {
+  const [open, setOpen] = useState(false);
+  const [drafts, setDrafts] = useState<Record<number, CategoryDraft>>({});
+  const [newCategory, setNewCategory] = useState<CategoryDraft>(EMPTY_DRAFT);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const sorted = sortCategories(categories);
+
+  // Start from the saved categories each time the dialog opens or they change
+  useEffect(() => {
+    if (open) {
+      setDrafts(Object.fromEntries(categories.map((c) => [c.id, toDraft(c)])));
+    }
+  }, [open, categories]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/classes/${classId}/categories`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/classes/${classId}/assignments`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/classes/${classId}/analytics`] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CategoryDraft) => {
+      const res = await apiRequest("POST", `/api/classes/${classId}/categories`, {
+        ...data,
+        description: data.description || null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setNewCategory(EMPTY_DRAFT);
+      toast({
+        title: "Success",
+        description: "Category created",
+      });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: CategoryDraft }) => {
+      const res = await apiRequest("PATCH", `/api/categories/${id}`, {
+        ...data,
+        description: data.description || null,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Success",
+        description: "Category updated",
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/categories/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Success",
+        description: "Category deleted. Its assignments are now uncategorized.",
+      });
+    },
+    onError,
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (categoryIds: number[]) => {
+      await apiRequest("PUT", `/api/classes/${classId}/categories/reorder`, { categoryIds });
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const move = (index: number, offset: number) => {
+    const ids = sorted.map((c) => c.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  const updateDraft = (id: number, changes: Partial<CategoryDraft>) => {
+    setDrafts((prev) => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  const isDirty = (category: Category) => {
+    const draft = drafts[category.id];
+    return !!draft && JSON.stringify(draft) !== JSON.stringify(toDraft(category));
+  };
+
+  const newCategoryValid = insertCategorySchema.safeParse(newCategory).success;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <FolderTree className="h-4 w-4 mr-2" />
+          Categories
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Assignment Categories</DialogTitle>
+          <DialogDescription>
+            Categories group assignments for students, contracts and analytics, in the order shown here.
+            Deleting a category leaves its assignments uncategorized.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {sorted.length === 0 && (
+            <p className="text-sm text-muted-foreground">No categories yet. Add one below.</p>
+          )}
+          {sorted.map((category, index) => {
+            const draft = drafts[category.id] ?? toDraft(category);
+            return (
+              <div key={category.id} className="border rounded-lg p-3 space-y-2">
+                <div className="grid grid-cols-[1fr_4rem_auto] gap-2 items-center">
+                  <Input
+                    aria-label={`${category.name} name`}
+                    value={draft.name}
+                    onChange={(e) => updateDraft(category.id, { name: e.target.value })}
+                  />
+                  <Input
+                    type="color"
+                    aria-label={`${category.name} color`}
+                    className="p-1 h-10"
+                    value={draft.color}
+                    onChange={(e) => updateDraft(category.id, { color: e.target.value })}
+                  />
+                  <div className="flex gap-1">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Move ${category.name} up`}
+                      onClick={() => move(index, -1)}
+                      disabled={index === 0 || reorderMutation.isPending}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Move ${category.name} down`}
+                      onClick={() => move(index, 1)}
+                      disabled={index === sorted.length - 1 || reorderMutation.isPending}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Save ${category.name}`}
+                      onClick={() => updateMutation.mutate({ id: category.id, data: draft })}
+                      disabled={!isDirty(category) || !draft.name.trim() || updateMutation.isPending}
+                    >
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Delete ${category.name}`}
+                      className="text-muted-foreground hover:text-destructive"
+                      onClick={() => deleteMutation.mutate(category.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <Input
+                  aria-label={`${category.name} description`}
+                  placeholder="Description (optional)"
+                  value={draft.description}
+                  onChange={(e) => updateDraft(category.id, { description: e.target.value })}
+                />
+              </div>
+            );
+          })}
+
+          <form
+            className="border-t pt-4 space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate(newCategory);
+            }}
+          >
+            <p className="text-sm font-medium">New Category</p>
+            <div className="grid grid-cols-[1fr_4rem_auto] gap-2 items-center">
+              <Input
+                aria-label="New category name"
+                placeholder="e.g., Essays"
+                value={newCategory.name}
+                onChange={(e) => setNewCategory({ ...newCategory, name: e.target.value })}
+              />
+              <Input
+                type="color"
+                aria-label="New category color"
+                className="p-1 h-10"
+                value={newCategory.color}
+                onChange={(e) => setNewCategory({ ...newCategory, color: e.target.value })}
+              />
+              <Button type="submit" size="sm" disabled={!newCategoryValid || createMutation.isPending}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add
+              </Button>
+            </div>
+            <Input
+              aria-label="New category description"
+              placeholder="Description (optional)"
+              value={newCategory.description}
+              onChange={(e) => setNewCategory({ ...newCategory, description: e.target.value })}
+            />
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,8 @@
 import { useState, useEffect } from "react";
-import { Assignment } from "@shared/schema";
+import { Assignment, Category } from "@shared/schema";
+import { groupByCategory } from "@shared/categories";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import {
   Dialog,
@@ -27,12 +28,25 @@ export function ReorderAssignmentsDialog({ classId, assignments }: Props) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // Initialize ordered assignments when dialog opens
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: [`/api/classes/${classId}/categories`],
+    enabled: open,
+  });
+
+  // Initialize ordered assignments when dialog opens, grouped the way students see them
   useEffect(() => {
     if (open) {
-      setOrderedAssignments([...assignments]);
+      setOrderedAssignments(groupByCategory(assignments, categories, (a) => a).flatMap((group) => group.items));
     }
-  }, [open, assignments]);
+  }, [open, assignments, categories]);
+
+  const groups = groupByCategory(orderedAssignments, categories, (a) => a);
+
+  // Assignments only move within their own category
+  const groupOf = (assignment: Assignment) =>
+    groups.find((group) => group.items.includes(assignment));
+  const sameGroup = (a: number, b: number) =>
+    groupOf(orderedAssignments[a]) === groupOf(orderedAssignments[b]);
 
   const reorderMutation = useMutation({
     mutationFn: async (assignmentIds: number[]) => {
@@ -65,14 +79,14 @@ export function ReorderAssignmentsDialog({ classId, assignments }: Props) {
   });
 
   const moveUp = (index: number) => {
-    if (index === 0) return;
+    if (index === 0 || !sameGroup(index, index - 1)) return;
     const newOrder = [...orderedAssignments];
     [newOrder[index - 1], newOrder[index]] = [newOrder[index], newOrder[index - 1]];
     setOrderedAssignments(newOrder);
   };
 
   const moveDown = (index: number) => {
-    if (index === orderedAssignments.length - 1) return;
+    if (index === orderedAssignments.length - 1 || !sameGroup(index, index + 1)) return;
     const newOrder = [...orderedAssignments];
     [newOrder[index], newOrder[index + 1]] = [newOrder[index + 1], newOrder[index]];
     setOrderedAssignments(newOrder);
@@ -84,7 +98,7 @@ export function ReorderAssignmentsDialog({ classId, assignments }: Props) {
 
   const handleDragOver = (e: React.DragEvent, index: number) => {
     e.preventDefault();
-    if (draggedIndex === null || draggedIndex === index) return;
+    if (draggedIndex === null || draggedIndex === index || !sameGroup(draggedIndex, index)) return;
 
     const newOrder = [...orderedAssignments];
     const draggedItem = newOrder[draggedIndex];
@@ -118,54 +132,65 @@ export function ReorderAssignmentsDialog({ classId, assignments }: Props) {
         <DialogHeader>
           <DialogTitle>Reorder Assignments</DialogTitle>
           <DialogDescription>
-            Drag and drop or use arrows to change the order. This order will be shown to students.
+            Drag and drop or use arrows to change the order within each category. This order will be shown to students.
           </DialogDescription>
         </DialogHeader>
 
         <div className="flex-1 overflow-y-auto py-4">
-          <div className="space-y-2">
-            {orderedAssignments.map((assignment, index) => (
-              <div
-                key={assignment.id}
-                draggable
-                onDragStart={() => handleDragStart(index)}
-                onDragOver={(e) => handleDragOver(e, index)}
-                onDragEnd={handleDragEnd}
-                className={`flex items-center gap-3 p-3 bg-muted/50 rounded-lg border cursor-move transition-colors ${
-                  draggedIndex === index ? "opacity-50 border-primary" : "hover:bg-muted"
-                }`}
-              >
-                <GripVertical className="h-5 w-5 text-muted-foreground flex-shrink-0" />
-
-                <div className="flex-1 min-w-0">
-                  <p className="font-medium truncate">{assignment.name}</p>
-                  <p className="text-xs text-muted-foreground">
-                    {assignment.moduleGroup || "No module"} · {assignment.scoringType}
-                  </p>
-                </div>
-
-                <div className="flex gap-1 flex-shrink-0">
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="icon"
-                    className="h-8 w-8"
-                    onClick={() => moveUp(index)}
-                    disabled={index === 0}
-                  >
-                    <ArrowUp className="h-4 w-4" />
-                  </Button>
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="icon"
-                    className="h-8 w-8"
-                    onClick={() => moveDown(index)}
-                    disabled={index === orderedAssignments.length - 1}
-                  >
-                    <ArrowDown className="h-4 w-4" />
-                  </Button>
-                </div>
+          <div className="space-y-4">
+            {groups.map((group) => (
+              <div key={group.category?.id ?? "uncategorized"} className="space-y-2">
+                <p className="text-sm font-semibold text-muted-foreground flex items-center gap-2">
+                  <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: group.color }} aria-hidden="true" />
+                  {group.name}
+                </p>
+                {group.items.map((assignment) => {
+                  const index = orderedAssignments.indexOf(assignment);
+                  return (
+                    <div
+                      key={assignment.id}
+                      draggable
+                      onDragStart={() => handleDragStart(index)}
+                      onDragOver={(e) => handleDragOver(e, index)}
+                      onDragEnd={handleDragEnd}
+                      className={`flex items-center gap-3 p-3 bg-muted/50 rounded-lg border cursor-move transition-colors ${
+                        draggedIndex === index ? "opacity-50 border-primary" : "hover:bg-muted"
+                      }`}
+                    >
+                      <GripVertical className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">{assignment.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {assignment.scoringType}
+                        </p>
+                      </div>
+
+                      <div className="flex gap-1 flex-shrink-0">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => moveUp(index)}
+                          disabled={index === 0 || !sameGroup(index, index - 1)}
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => moveDown(index)}
+                          disabled={index === orderedAssignments.length - 1 || !sameGroup(index, index + 1)}
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
               </div>
             ))}
           </div>
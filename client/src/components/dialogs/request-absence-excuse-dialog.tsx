@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  insertAbsenceExcuseRequestSchema,
+  MAX_SUBMISSION_FILE_BYTES,
+  type AbsenceExcuseRequest,
+  type AttendanceRecord,
+  type InsertAbsenceExcuseRequest,
+} from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+
+type ExcuseRequestWithDate = AbsenceExcuseRequest & { attendanceDate: string | null };
+
+interface RequestAbsenceExcuseDialogProps {
+  classId: number;
+  studentId: number;
+}
+
+const statusLabels: Record<AbsenceExcuseRequest["status"], string> = {
+  pending: "Pending",
+  approved: "Excused",
+  denied: "Denied",
+};
+
+export function RequestAbsenceExcuseDialog({ classId, studentId }: RequestAbsenceExcuseDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const requestsKey = `/api/classes/${classId}/students/${studentId}/excuse-requests`;
+  const { data: attendance = [] } = useQuery<AttendanceRecord[]>({
+    queryKey: [`/api/classes/${classId}/students/${studentId}/attendance`],
+    enabled: open,
+  });
+  const { data: requests = [] } = useQuery<ExcuseRequestWithDate[]>({
+    queryKey: [requestsKey],
+    enabled: open,
+  });
+
+  // Absences without a pending or approved request against them
+  const requestedIds = new Set(requests.filter((r) => r.status !== "denied").map((r) => r.attendanceRecordId));
+  const absences = attendance.filter((r) => r.status === "absent" && !requestedIds.has(r.id));
+  const fileTooLarge = file !== null && file.size > MAX_SUBMISSION_FILE_BYTES;
+
+  const form = useForm<InsertAbsenceExcuseRequest>({
+    resolver: zodResolver(insertAbsenceExcuseRequestSchema),
+    defaultValues: {
+      reason: "",
+    },
+  });
+
+  const requestExcuseMutation = useMutation({
+    mutationFn: async (data: InsertAbsenceExcuseRequest) => {
+      const res = await apiRequest("POST", `/api/classes/${classId}/excuse-requests`, data);
+      const request: AbsenceExcuseRequest = await res.json();
+      if (!file) return request;
+
+      // Documents go up as the raw request body rather than JSON
+      const upload = await fetch(`/api/excuse-requests/${request.id}/document`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/octet-stream",
+          "X-File-Name": encodeURIComponent(file.name),
+          "X-File-Type": file.type || "application/octet-stream",
+        },
+        body: file,
+        credentials: "include",
+      });
+      if (!upload.ok) {
+        const body = await upload.json().catch(() => null);
+        throw new Error(`Your request was sent, but the document didn't upload: ${body?.message || upload.statusText}`);
+      }
+      return upload.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Your excuse request has been sent to your instructor",
+      });
+      form.reset();
+      setFile(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [requestsKey] });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          Excuse an Absence
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold">Excuse an Absence</DialogTitle>
+          <DialogDescription className="text-base">
+            Explain why you missed class. Excused absences don't count toward your contract.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => requestExcuseMutation.mutate(data))}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="attendanceRecordId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Absence</FormLabel>
+                  <Select
+                    value={field.value?.toString() ?? ""}
+                    onValueChange={(value) => field.onChange(parseInt(value))}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder={absences.length > 0 ? "Select an absence" : "No absences to excuse"} />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {absences.map((record) => (
+                        <SelectItem key={record.id} value={record.id.toString()}>
+                          {new Date(record.date).toLocaleDateString()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Explain why you were absent..."
+                      className="min-h-[100px]"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-2">
+              <Label htmlFor={`excuse-document-${classId}`}>Supporting Document (Optional)</Label>
+              <Input
+                id={`excuse-document-${classId}`}
+                type="file"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+              {fileTooLarge && (
+                <p className="text-sm text-destructive" role="alert">
+                  Files must be {MAX_SUBMISSION_FILE_BYTES / (1024 * 1024)} MB or smaller
+                </p>
+              )}
+            </div>
+
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={absences.length === 0 || fileTooLarge || requestExcuseMutation.isPending}
+            >
+              {requestExcuseMutation.isPending ? "Sending..." : "Send Request"}
+            </Button>
+          </form>
+        </Form>
+
+        {requests.length > 0 && (
+          <div className="space-y-2 border-t pt-4">
+            <h4 className="font-medium">Your Requests</h4>
+            {requests.map((request) => (
+              <div key={request.id} className="text-sm border rounded p-2 space-y-1">
+                <div className="flex items-center justify-between">
+                  <span>
+                    {request.attendanceDate ? new Date(request.attendanceDate).toLocaleDateString() : "Absence"}
+                  </span>
+                  <Badge variant={request.status === "denied" ? "destructive" : request.status === "approved" ? "default" : "secondary"}>
+                    {statusLabels[request.status]}
+                  </Badge>
+                </div>
+                {request.instructorResponse && (
+                  <p className="text-muted-foreground whitespace-pre-wrap">{request.instructorResponse}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { insertContractChangeRequestSchema, type GradeContract, type InsertContractChangeRequest } from "@shared/schema";
+import { latestContractsByGrade } from "@shared/contract-evaluation";
+import { sortByGradeTier } from "@shared/constants";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+
+interface RequestContractChangeDialogProps {
+  classId: number;
+  currentContract: GradeContract;
+  contracts: GradeContract[];
+  gradeTiers: readonly string[];
+  disabled?: boolean;
+}
+
+export function RequestContractChangeDialog({
+  classId,
+  currentContract,
+  contracts,
+  gradeTiers,
+  disabled,
+}: RequestContractChangeDialogProps) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const otherContracts = sortByGradeTier(
+    latestContractsByGrade(contracts).filter((c) => c.grade !== currentContract.grade),
+    gradeTiers
+  );
+
+  const form = useForm<InsertContractChangeRequest>({
+    resolver: zodResolver(insertContractChangeRequestSchema),
+    defaultValues: {
+      reason: "",
+    },
+  });
+
+  const requestChangeMutation = useMutation({
+    mutationFn: async (data: InsertContractChangeRequest) => {
+      const res = await apiRequest("POST", `/api/classes/${classId}/contract-change-requests`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: [`/api/classes/${classId}/contract-change-requests`],
+      });
+      toast({
+        title: "Success",
+        description: "Your request has been sent to your instructor",
+      });
+      setOpen(false);
+      form.reset();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={disabled || otherContracts.length === 0}>
+          Request Contract Change
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold">Request Contract Change</DialogTitle>
+          <DialogDescription className="text-base">
+            You are on the Grade {currentContract.grade} contract. Your instructor will review your request.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => requestChangeMutation.mutate(data))}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="toContractId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New Contract</FormLabel>
+                  <Select
+                    value={field.value?.toString()}
+                    onValueChange={(value) => field.onChange(parseInt(value))}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a grade contract" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {otherContracts.map((contract) => (
+                        <SelectItem key={contract.id} value={contract.id.toString()}>
+                          Grade {contract.grade}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Explain why you would like to change contracts..."
+                      className="min-h-[100px]"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={requestChangeMutation.isPending}
+            >
+              Send Request
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
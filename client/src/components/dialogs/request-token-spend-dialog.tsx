@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  insertTokenSpendRequestSchema,
+  TOKEN_PURPOSES,
+  type Assignment,
+  type AssignmentProgress,
+  type AttendanceRecord,
+  type InsertTokenSpendRequest,
+} from "@shared/schema";
+import { TOKEN_PURPOSE_LABELS, type TokenAccount } from "@shared/tokens";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+
+interface RequestTokenSpendDialogProps {
+  classId: number;
+  studentId: number;
+  account: TokenAccount;
+  assignments: Assignment[];
+  progress: AssignmentProgress[];
+}
+
+export function RequestTokenSpendDialog({
+  classId,
+  studentId,
+  account,
+  assignments,
+  progress,
+}: RequestTokenSpendDialogProps) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: attendance = [] } = useQuery<AttendanceRecord[]>({
+    queryKey: [`/api/classes/${classId}/students/${studentId}/attendance`],
+    enabled: open,
+  });
+
+  // Absences that do not already have a pending or approved token against them
+  const coveredAbsenceIds = new Set(
+    account.transactions
+      .filter((t) => t.kind === "spend" && t.status !== "denied")
+      .map((t) => t.attendanceRecordId)
+  );
+  const absences = attendance.filter((r) => r.status === "absent" && !coveredAbsenceIds.has(r.id));
+
+  // Only assignments the student has a progress record for can be linked
+  const linkableProgress = progress.filter((p) => assignments.some((a) => a.id === p.assignmentId));
+
+  const form = useForm<InsertTokenSpendRequest>({
+    resolver: zodResolver(insertTokenSpendRequestSchema),
+    defaultValues: {
+      amount: 1,
+      reason: "",
+    },
+  });
+
+  const purpose = form.watch("purpose");
+
+  const requestSpendMutation = useMutation({
+    mutationFn: async (data: InsertTokenSpendRequest) => {
+      // Only send the link that matches the chosen purpose
+      const payload = {
+        ...data,
+        assignmentProgressId:
+          data.purpose === "revision" || data.purpose === "late_submission" ? data.assignmentProgressId : undefined,
+        attendanceRecordId: data.purpose === "absence" ? data.attendanceRecordId : undefined,
+      };
+      const res = await apiRequest("POST", `/api/classes/${classId}/token-requests`, payload);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: [`/api/classes/${classId}/students/${studentId}/tokens`],
+      });
+      toast({
+        title: "Success",
+        description: "Your token request has been sent to your instructor",
+      });
+      setOpen(false);
+      form.reset();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={account.balance.available < 1}>
+          Use a Token
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold">Use a Token</DialogTitle>
+          <DialogDescription className="text-base">
+            You have {account.balance.available} token{account.balance.available === 1 ? "" : "s"} available.
+            Your instructor will review your request.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => requestSpendMutation.mutate(data))}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="purpose"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Use For</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select what the token is for" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {TOKEN_PURPOSES.map((p) => (
+                        <SelectItem key={p} value={p}>
+                          {TOKEN_PURPOSE_LABELS[p]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {(purpose === "revision" || purpose === "late_submission") && (
+              <FormField
+                control={form.control}
+                name="assignmentProgressId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Assignment</FormLabel>
+                    <Select
+                      value={field.value?.toString()}
+                      onValueChange={(value) => field.onChange(parseInt(value))}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select an assignment" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {linkableProgress.map((p) => (
+                          <SelectItem key={p.id} value={p.id.toString()}>
+                            {assignments.find((a) => a.id === p.assignmentId)?.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {purpose === "absence" && (
+              <FormField
+                control={form.control}
+                name="attendanceRecordId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Absence</FormLabel>
+                    <Select
+                      value={field.value?.toString()}
+                      onValueChange={(value) => field.onChange(parseInt(value))}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder={absences.length > 0 ? "Select an absence" : "No absences to excuse"} />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {absences.map((record) => (
+                          <SelectItem key={record.id} value={record.id.toString()}>
+                            {new Date(record.date).toLocaleDateString()}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tokens</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min="1"
+                      max={account.balance.available}
+                      {...field}
+                      onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : 1)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Explain how you would like to use this token..."
+                      className="min-h-[100px]"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={requestSpendMutation.isPending}
+            >
+              Send Request
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,193 @@
+import { useEffect, useState } from "react";
+import type { EngagementIntention } from "@shared/schema";
+import {
+  ENGAGEMENT_RUBRIC,
+  ENGAGEMENT_RUBRIC_LEVELS,
+  type EngagementReviewDecision,
+  type EngagementRubricScores,
+} from "@shared/engagement-review";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface EngagementRubricFieldsProps {
+  idPrefix: string;
+  scores: EngagementRubricScores;
+  onChange: (scores: EngagementRubricScores) => void;
+}
+
+// One select per rubric criterion; unscored criteria are left out
+export function EngagementRubricFields({ idPrefix, scores, onChange }: EngagementRubricFieldsProps) {
+  return (
+    <div className="grid gap-3 sm:grid-cols-3">
+      {ENGAGEMENT_RUBRIC.map((criterion) => (
+        <div key={criterion.key} className="space-y-1">
+          <Label htmlFor={`${idPrefix}-${criterion.key}`} title={criterion.description}>
+            {criterion.label}
+          </Label>
+          <Select
+            value={scores[criterion.key]?.toString() ?? "none"}
+            onValueChange={(value) => {
+              const { [criterion.key]: _removed, ...rest } = scores;
+              onChange(value === "none" ? rest : { ...rest, [criterion.key]: parseInt(value) });
+            }}
+          >
+            <SelectTrigger id={`${idPrefix}-${criterion.key}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Not scored</SelectItem>
+              {ENGAGEMENT_RUBRIC_LEVELS.map((level) => (
+                <SelectItem key={level.value} value={level.value.toString()}>
+                  {level.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface ReviewEngagementIntentionDialogProps {
+  intention: EngagementIntention;
+  studentName: string;
+}
+
+const decisionMessages: Record<EngagementReviewDecision, string> = {
+  accepted: "accepted",
+  rejected: "not accepted",
+  needs_more: "sent back for more",
+};
+
+export function ReviewEngagementIntentionDialog({ intention, studentName }: ReviewEngagementIntentionDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [scores, setScores] = useState<EngagementRubricScores>({});
+  const [feedback, setFeedback] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (open) {
+      setScores(intention.rubricScores ?? {});
+      setFeedback(intention.instructorFeedback ?? "");
+    }
+  }, [open, intention]);
+
+  const reviewMutation = useMutation({
+    mutationFn: async (decision: EngagementReviewDecision) => {
+      await apiRequest("POST", `/api/classes/${intention.classId}/engagement-intentions/review`, {
+        reviews: [{ intentionId: intention.id, decision, rubricScores: scores, feedback: feedback.trim() || undefined }],
+      });
+      return decision;
+    },
+    onSuccess: (decision) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/grading-queue"] });
+      queryClient.invalidateQueries({
+        queryKey: [`/api/classes/${intention.classId}/engagement-intentions`],
+      });
+      toast({
+        title: "Success",
+        description: `Week ${intention.weekNumber} engagement ${decisionMessages[decision]} for ${studentName}`,
+      });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          Review
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Week {intention.weekNumber} Engagement</DialogTitle>
+          <DialogDescription>
+            What {studentName} intended to do this week, and how they say it went
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm whitespace-pre-wrap border rounded-md p-3 bg-muted/50">
+            {intention.intentionText}
+          </p>
+          {intention.reflection && (
+            <div className="space-y-1">
+              <h4 className="text-sm font-medium">Reflection</h4>
+              <p className="text-sm whitespace-pre-wrap">{intention.reflection}</p>
+              {intention.evidenceUrl && (
+                <a
+                  href={intention.evidenceUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm text-blue-600 underline break-all"
+                >
+                  {intention.evidenceUrl}
+                </a>
+              )}
+            </div>
+          )}
+          <EngagementRubricFields idPrefix={`rubric-${intention.id}`} scores={scores} onChange={setScores} />
+          <div className="space-y-2">
+            <Label htmlFor={`intention-feedback-${intention.id}`}>Feedback</Label>
+            <Textarea
+              id={`intention-feedback-${intention.id}`}
+              placeholder="Optional note shown to the student"
+              value={feedback}
+              onChange={(e) => setFeedback(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <Button
+              variant="outline"
+              onClick={() => reviewMutation.mutate("rejected")}
+              disabled={reviewMutation.isPending}
+            >
+              Reject
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => reviewMutation.mutate("needs_more")}
+              disabled={reviewMutation.isPending}
+            >
+              Ask for More
+            </Button>
+            <Button
+              onClick={() => reviewMutation.mutate("accepted")}
+              disabled={reviewMutation.isPending}
+            >
+              Accept
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
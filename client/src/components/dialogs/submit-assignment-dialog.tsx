@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import {
+  insertSubmissionSchema,
+  MAX_SUBMISSION_FILE_BYTES,
+  type Assignment,
+  type AssignmentSubmission,
+  type InsertSubmission,
+} from "@shared/schema";
+import { getSubmissionBlockReason, isLateWork } from "@shared/late-policy";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { Upload } from "lucide-react";
+
+interface SubmitAssignmentDialogProps {
+  classId: number;
+  studentId: number;
+  assignment: Assignment;
+}
+
+/**
+ * Short description of a submission for lists
+ */
+export function describeSubmission(submission: AssignmentSubmission): string {
+  switch (submission.kind) {
+    case "url":
+      return submission.url ?? "Link";
+    case "file":
+      return submission.fileName ?? "File";
+    default:
+      return "Text response";
+  }
+}
+
+export function SubmitAssignmentDialog({ classId, studentId, assignment }: SubmitAssignmentDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [kind, setKind] = useState<"url" | "text" | "file">("url");
+  const [file, setFile] = useState<File | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const submissionsKey = `/api/classes/${classId}/students/${studentId}/assignments/${assignment.id}/submissions`;
+  const { data: submissions = [] } = useQuery<AssignmentSubmission[]>({
+    queryKey: [submissionsKey],
+    enabled: open,
+  });
+
+  const form = useForm<InsertSubmission>({
+    resolver: zodResolver(insertSubmissionSchema),
+    defaultValues: { kind: "url", url: "" },
+  });
+
+  const onSubmitted = () => {
+    queryClient.invalidateQueries({
+      queryKey: [`/api/classes/${classId}/students/${studentId}/progress`],
+    });
+    queryClient.invalidateQueries({ queryKey: [submissionsKey] });
+    toast({
+      title: "Success",
+      description: "Your work has been submitted for review",
+    });
+    setOpen(false);
+    setFile(null);
+    form.reset({ kind: "url", url: "" });
+    setKind("url");
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: async (data: InsertSubmission) => {
+      const res = await apiRequest("POST", `/api/classes/${classId}/assignments/${assignment.id}/submissions`, data);
+      return res.json();
+    },
+    onSuccess: onSubmitted,
+    onError,
+  });
+
+  // Files go up as the raw request body rather than JSON
+  const uploadMutation = useMutation({
+    mutationFn: async (upload: File) => {
+      const res = await fetch(`/api/classes/${classId}/assignments/${assignment.id}/submissions/file`, {
+        method: "POST",
+        headers: {
+          // Always octet-stream so the server's JSON parser never touches the upload
+          "Content-Type": "application/octet-stream",
+          "X-File-Name": encodeURIComponent(upload.name),
+          "X-File-Type": upload.type || "application/octet-stream",
+        },
+        body: upload,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        throw new Error(body?.message || res.statusText);
+      }
+      return res.json();
+    },
+    onSuccess: onSubmitted,
+    onError,
+  });
+
+  const changeKind = (value: string) => {
+    const next = value as "url" | "text" | "file";
+    setKind(next);
+    if (next === "url") form.reset({ kind: "url", url: "" });
+    if (next === "text") form.reset({ kind: "text", textResponse: "" });
+  };
+
+  const fileTooLarge = file !== null && file.size > MAX_SUBMISSION_FILE_BYTES;
+  const blockReason = getSubmissionBlockReason(assignment);
+  const isPending = submitMutation.isPending || uploadMutation.isPending || !!blockReason;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload className="h-4 w-4 mr-2" aria-hidden="true" />
+          Submit Work
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold">Submit Work</DialogTitle>
+          <DialogDescription className="text-base">
+            Hand in {assignment.name} for your instructor to review.
+          </DialogDescription>
+        </DialogHeader>
+
+        {blockReason ? (
+          <p className="text-sm font-medium text-destructive" role="alert">{blockReason}</p>
+        ) : isLateWork(assignment) && (
+          <p className="text-sm font-medium text-orange-700" role="status">
+            This assignment is past due. Work submitted now will be flagged late.
+          </p>
+        )}
+
+        <Tabs value={kind} onValueChange={changeKind}>
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="url">Link</TabsTrigger>
+            <TabsTrigger value="text">Text</TabsTrigger>
+            <TabsTrigger value="file">File</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="url">
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => submitMutation.mutate(data))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="url"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Link to your work</FormLabel>
+                      <FormControl>
+                        <Input type="url" placeholder="https://" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={isPending}>
+                  Submit Link
+                </Button>
+              </form>
+            </Form>
+          </TabsContent>
+
+          <TabsContent value="text">
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => submitMutation.mutate(data))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="textResponse"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Your response</FormLabel>
+                      <FormControl>
+                        <Textarea className="min-h-[160px]" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={isPending}>
+                  Submit Response
+                </Button>
+              </form>
+            </Form>
+          </TabsContent>
+
+          <TabsContent value="file" className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor={`submission-file-${assignment.id}`}>File</Label>
+              <Input
+                id={`submission-file-${assignment.id}`}
+                type="file"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+              {fileTooLarge && (
+                <p className="text-sm font-medium text-destructive" role="alert">
+                  Files must be {MAX_SUBMISSION_FILE_BYTES / (1024 * 1024)} MB or smaller
+                </p>
+              )}
+            </div>
+            <Button
+              className="w-full"
+              disabled={!file || fileTooLarge || isPending}
+              onClick={() => file && uploadMutation.mutate(file)}
+            >
+              Upload File
+            </Button>
+          </TabsContent>
+        </Tabs>
+
+        {submissions.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Previous Submissions</p>
+            <ul className="space-y-1 max-h-40 overflow-y-auto text-sm" aria-label="Previous submissions">
+              {submissions.map((submission) => (
+                <li key={submission.id} className="flex justify-between gap-2">
+                  <span className="truncate">{describeSubmission(submission)}</span>
+                  <span className="text-muted-foreground flex-shrink-0">
+                    {format(new Date(submission.createdAt), "MMM d, yyyy")}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  submitEngagementFulfillmentSchema,
+  type EngagementIntention,
+  type SubmitEngagementFulfillment,
+} from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+
+interface SubmitEngagementFulfillmentDialogProps {
+  intention: EngagementIntention;
+}
+
+export function SubmitEngagementFulfillmentDialog({ intention }: SubmitEngagementFulfillmentDialogProps) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<SubmitEngagementFulfillment>({
+    resolver: zodResolver(submitEngagementFulfillmentSchema),
+    defaultValues: {
+      reflection: "",
+      evidenceUrl: "",
+    },
+  });
+
+  // Start from what was sent last time when resubmitting
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        reflection: intention.reflection ?? "",
+        evidenceUrl: intention.evidenceUrl ?? "",
+      });
+    }
+  }, [open, intention, form]);
+
+  const submitMutation = useMutation({
+    mutationFn: async (data: SubmitEngagementFulfillment) => {
+      const res = await apiRequest("POST", `/api/engagement-intentions/${intention.id}/fulfillment`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: [`/api/classes/${intention.classId}/engagement-intentions`],
+      });
+      toast({
+        title: "Success",
+        description: "Sent to your instructor for review",
+      });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const label = intention.reviewStatus === "open"
+    ? "Submit as Fulfilled"
+    : intention.reviewStatus === "needs_more" ? "Resubmit" : "Update Submission";
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button className="w-full">{label}</Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Week {intention.weekNumber} Fulfillment</DialogTitle>
+          <DialogDescription>
+            Tell your instructor how you followed through. It counts toward your contract once they accept it.
+          </DialogDescription>
+        </DialogHeader>
+        <p className="text-sm whitespace-pre-wrap border rounded-md p-3 bg-muted/50">
+          {intention.intentionText}
+        </p>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => submitMutation.mutate(data))}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="reflection"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reflection</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="What did you do, and what did you get out of it?"
+                      className="min-h-[120px]"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="evidenceUrl"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Evidence Link (Optional)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="url"
+                      placeholder="https://..."
+                      {...field}
+                      value={field.value ?? ""}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" className="w-full" disabled={submitMutation.isPending}>
+              {submitMutation.isPending ? "Sending..." : "Send for Review"}
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,8 +1,11 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { Assignment, AssignmentProgress } from "@shared/schema";
+import { Assignment, AssignmentProgress, Class } from "@shared/schema";
+import { getAssignmentStatusLabel, getStatusLevel, getStatusScale } from "@shared/constants";
+import { canRecordAttempt, type AttemptHistory } from "@shared/attempts";
+import { format } from "date-fns";
 import {
   Dialog,
   DialogContent,
@@ -21,6 +24,8 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { RichTextEditor } from "@/components/ui/rich-text-editor";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Pencil } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
@@ -43,6 +48,9 @@ type Props = {
 const updateAssignmentSchema = z.object({
   status: z.string().optional(),
   numericGrade: z.string().optional(),
+  feedback: z.string().optional(),
+  newAttempt: z.boolean().default(false),
+  isLate: z.boolean().default(false),
 }).refine((data) => data.status || data.numericGrade, {
   message: "Either status or numeric grade must be provided"
 });
@@ -54,19 +62,59 @@ export function UpdateAssignmentStatusDialog({ classId, studentId, assignment, c
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const attemptsKey = `/api/classes/${classId}/students/${studentId}/assignments/${assignment.id}/attempts`;
+  const { data: history } = useQuery<AttemptHistory>({
+    queryKey: [attemptsKey],
+    enabled: open,
+  });
+
+  const { data: classData } = useQuery<Class>({
+    queryKey: [`/api/classes/${classId}`],
+  });
+  const statusScale = getStatusScale(classData);
+
+  // Work the student resubmitted is graded as a new attempt unless the instructor
+  // chooses to correct the previous one instead
+  const usedAttempts = currentProgress?.attempts ?? 0;
+  const isResubmission = !!currentProgress?.awaitingReview && usedAttempts > 0;
+
+  const defaultValues: FormData = {
+    // Statuses between levels (e.g. from an import) pre-select the level they read as
+    status: currentProgress?.status != null
+      ? getStatusLevel(currentProgress.status, statusScale).value.toString()
+      : "",
+    numericGrade: currentProgress?.numericGrade?.toString() || "",
+    feedback: isResubmission ? "" : currentProgress?.feedback ?? "",
+    newAttempt: isResubmission,
+    isLate: currentProgress?.isLate ?? false,
+  };
+
   const form = useForm<FormData>({
     resolver: zodResolver(updateAssignmentSchema),
-    defaultValues: {
-      status: currentProgress?.status?.toString() || "",
-      numericGrade: currentProgress?.numericGrade?.toString() || "",
-    },
+    defaultValues,
   });
 
+  const allowedAttempts = history?.allowedAttempts ?? assignment.attemptLimit ?? null;
+  const canResubmit = canRecordAttempt(usedAttempts, allowedAttempts);
+  const newAttempt = form.watch("newAttempt");
+
+  // Token-extended limits are only known once the history loads
+  useEffect(() => {
+    if (!canResubmit && form.getValues("newAttempt")) {
+      form.setValue("newAttempt", false);
+      form.setValue("feedback", currentProgress?.feedback ?? "");
+    }
+  }, [canResubmit, currentProgress, form]);
+
   const updateProgressMutation = useMutation({
     mutationFn: async (data: FormData) => {
       const payload = {
         status: data.status ? parseInt(data.status) : undefined,
         numericGrade: data.numericGrade ? parseFloat(data.numericGrade) : undefined,
+        feedback: data.feedback || undefined,
+        newAttempt: data.newAttempt,
+        // Only override the server's automatic late flag when the instructor changed it
+        isLate: form.formState.dirtyFields.isLate ? data.isLate : undefined,
         lastUpdated: new Date().toISOString(),
       };
 
@@ -90,6 +138,15 @@ export function UpdateAssignmentStatusDialog({ classId, studentId, assignment, c
       queryClient.invalidateQueries({
         queryKey: [`/api/classes/${classId}/students/${studentId}/progress`],
       });
+      queryClient.invalidateQueries({
+        queryKey: [attemptsKey],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/submissions/pending"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/grading-queue"],
+      });
       toast({
         title: "Success",
         description: "Assignment progress updated successfully",
@@ -111,7 +168,14 @@ export function UpdateAssignmentStatusDialog({ classId, studentId, assignment, c
   };
 
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen);
+        // Start from the latest progress, which may have a new submission since the last edit
+        if (nextOpen) form.reset(defaultValues);
+      }}
+    >
       <DialogTrigger asChild>
         <Button variant="ghost" size="icon">
           <Pencil className="h-4 w-4" />
@@ -125,6 +189,10 @@ export function UpdateAssignmentStatusDialog({ classId, studentId, assignment, c
           <DialogDescription>
             Update the {assignment.scoringType === "status" ? "status" : "grade"} for {assignment.name}
           </DialogDescription>
+          <p className="text-sm text-muted-foreground" role="status">
+            {usedAttempts === 0 ? "No attempts graded yet" : `Attempt ${usedAttempts}`}
+            {allowedAttempts !== null && ` of ${allowedAttempts} allowed`}
+          </p>
         </DialogHeader>
 
         <Form {...form}>
@@ -143,9 +211,19 @@ export function UpdateAssignmentStatusDialog({ classId, studentId, assignment, c
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="0">Not Submitted</SelectItem>
-                        <SelectItem value="2">Work-in-Progress</SelectItem>
-                        <SelectItem value="3">Successfully Completed</SelectItem>
+                        {statusScale.map((level) => (
+                          <SelectItem key={level.value} value={level.value.toString()}>
+                            <span className="flex items-center gap-2">
+                              <span
+                                className="h-3 w-3 rounded-full"
+                                style={{ backgroundColor: level.color }}
+                                aria-hidden="true"
+                              />
+                              {level.label}
+                              {level.isDone && <span className="text-muted-foreground">(done)</span>}
+                            </span>
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -174,6 +252,73 @@ export function UpdateAssignmentStatusDialog({ classId, studentId, assignment, c
                 )}
               />
             )}
+            <FormField
+              control={form.control}
+              name="feedback"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Feedback</FormLabel>
+                  <FormControl>
+                    {/* Remount when switching attempts so the editor picks up the reset value */}
+                    <RichTextEditor key={newAttempt ? "new" : "current"} value={field.value ?? ""} onChange={field.onChange} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {currentProgress && usedAttempts > 0 && (
+              <FormField
+                control={form.control}
+                name="newAttempt"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => {
+                          field.onChange(checked === true);
+                          // A resubmission starts with fresh feedback; a correction keeps the current one
+                          form.setValue("feedback", checked === true ? "" : currentProgress.feedback ?? "");
+                        }}
+                        disabled={!canResubmit}
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Grade a resubmission</FormLabel>
+                      <p className="text-sm text-muted-foreground">
+                        {canResubmit
+                          ? isResubmission
+                            ? `The student resubmitted, so this records attempt ${usedAttempts + 1}. Uncheck only to correct attempt ${usedAttempts} instead.`
+                            : `Records attempt ${usedAttempts + 1}. Leave unchecked to correct attempt ${usedAttempts}.`
+                          : "The student has used all allowed attempts for this assignment."}
+                      </p>
+                    </div>
+                  </FormItem>
+                )}
+              />
+            )}
+            {currentProgress && (
+              <FormField
+                control={form.control}
+                name="isLate"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Flagged late</FormLabel>
+                      <p className="text-sm text-muted-foreground">
+                        Set automatically for work handed in after the due date. Clear it to excuse late work.
+                      </p>
+                    </div>
+                  </FormItem>
+                )}
+              />
+            )}
             <Button
               type="submit"
               className="w-full"
@@ -181,6 +326,36 @@ export function UpdateAssignmentStatusDialog({ classId, studentId, assignment, c
             >
               Update Progress
             </Button>
+            {history && history.attempts.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Attempt History</p>
+                <ul className="space-y-2 max-h-48 overflow-y-auto" aria-label="Attempt history">
+                  {history.attempts.map((attempt) => (
+                    <li key={attempt.id} className="border rounded-md p-2 text-sm">
+                      <div className="flex justify-between gap-2">
+                        <span className="font-medium">
+                          Attempt {attempt.attemptNumber}:{" "}
+                          {assignment.scoringType === "status"
+                            ? getAssignmentStatusLabel(attempt.status, statusScale)
+                            : attempt.numericGrade ?? "No score"}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {format(new Date(attempt.createdAt), "MMM d, yyyy")}
+                        </span>
+                      </div>
+                      {attempt.feedback && (
+                        <div className="mt-1 text-muted-foreground">
+                          <RichTextEditor value={attempt.feedback} editable={false} />
+                        </div>
+                      )}
+                      {attempt.graderName && (
+                        <p className="text-xs text-muted-foreground mt-1">Graded by {attempt.graderName}</p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </form>
         </Form>
       </DialogContent>
@@ -26,9 +26,11 @@ import {
 } from "@/components/ui/select";
 import { User as UserIcon } from "lucide-react";
 import { StudentHistory } from "@/components/student/StudentHistory";
+import { TokenLedger } from "@/components/student/TokenLedger";
+import { GrantTokensDialog } from "@/components/dialogs/grant-tokens-dialog";
 
 type Props = {
-  student: User;
+  student: Pick<User, "id" | "username" | "fullName" | "role">;
   classId: number;
 };
 
@@ -148,6 +150,12 @@ export function ViewStudentProfileDialog({ student, classId }: Props) {
             </CardContent>
           </Card>
 
+          <TokenLedger
+            classId={classId}
+            studentId={student.id}
+            action={<GrantTokensDialog classId={classId} studentId={student.id} studentName={student.fullName} />}
+          />
+
           <StudentHistory classId={classId} studentId={student.id} />
         </div>
       </DialogContent>
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { CheckCircle2, KeyRound } from "lucide-react";
+import { parseDateKey } from "@shared/class-schedule";
+import { CHECK_IN_CODE_LENGTH, type CheckInStatus } from "@shared/check-in";
+
+interface CheckInCardProps {
+  classId: number;
+}
+
+/**
+ * Lets a student check in while their instructor has a check-in open.
+ * Renders nothing the rest of the time.
+ */
+export function CheckInCard({ classId }: CheckInCardProps) {
+  const [code, setCode] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Poll so the card appears when the instructor opens check-in
+  const { data: status } = useQuery<CheckInStatus>({
+    queryKey: [`/api/classes/${classId}/check-in`],
+    refetchInterval: 15000,
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/classes/${classId}/check-in`, { code });
+      return res.json();
+    },
+    onSuccess: () => {
+      setCode("");
+      queryClient.invalidateQueries({ queryKey: [`/api/classes/${classId}/check-in`] });
+      toast({
+        title: "Success",
+        description: "You're checked in",
+      });
+    },
+    onError: (error: Error) => {
+      setCode("");
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const session = status?.session;
+  if (!session) {
+    return null;
+  }
+
+  return (
+    <section aria-labelledby="check-in-heading">
+      <Card className="border-blue-600">
+        <CardHeader>
+          <CardTitle id="check-in-heading" className="text-2xl font-bold flex items-center gap-2">
+            <KeyRound className="h-6 w-6" aria-hidden="true" />
+            Check In
+          </CardTitle>
+          <CardDescription className="text-base">
+            Attendance for {format(parseDateKey(session.date), "EEEE, MMMM d")} is open until{" "}
+            {format(new Date(session.expiresAt), "h:mm a")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {status.checkedIn ? (
+            <p className="flex items-center gap-2 text-green-700 font-medium">
+              <CheckCircle2 className="h-5 w-5" aria-hidden="true" />
+              You're checked in
+            </p>
+          ) : (
+            <form
+              className="flex gap-3 max-w-sm"
+              onSubmit={(e) => {
+                e.preventDefault();
+                checkInMutation.mutate();
+              }}
+            >
+              <Input
+                aria-label="Check-in code"
+                placeholder="Code on the screen"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                maxLength={CHECK_IN_CODE_LENGTH}
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+                className="font-mono text-lg tracking-widest"
+              />
+              <Button
+                type="submit"
+                disabled={code.length !== CHECK_IN_CODE_LENGTH || checkInMutation.isPending}
+              >
+                Check In
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </section>
+  );
+}
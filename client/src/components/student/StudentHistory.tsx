@@ -10,6 +10,11 @@ import {
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { RichTextEditor } from "@/components/ui/rich-text-editor";
+import type { Class } from "@shared/schema";
+import { getAssignmentStatusLabel, getStatusScale, type StatusLevel } from "@shared/constants";
+import { ATTENDANCE_STATUS_LABELS, type AttendanceStatus } from "@shared/attendance";
+import { ENGAGEMENT_REVIEW_STATUS_LABELS, type EngagementReviewStatus } from "@shared/engagement-review";
 
 interface AuditLog {
   id: number;
@@ -27,33 +32,57 @@ interface StudentHistoryProps {
   studentId: number;
 }
 
-const actionLabels: Record<string, string> = {
+export const actionLabels: Record<string, string> = {
   CREATE: "Created",
   UPDATE: "Updated",
   DELETE: "Deleted",
   CONFIRM: "Confirmed",
   ENROLL: "Enrolled",
+  APPROVE: "Approved",
+  DENY: "Denied",
+  CHECK_IN: "Checked in",
+  REVERT: "Reverted",
 };
 
-const entityLabels: Record<string, string> = {
+export const entityLabels: Record<string, string> = {
   assignment_progress: "Grade",
   student_contract: "Contract",
   attendance: "Attendance",
   engagement_intention: "Engagement",
+  token_transaction: "Tokens",
+  assignment_submission: "Submission",
+  absence_excuse: "Excuse",
 };
 
-const actionColors: Record<string, string> = {
+export const actionColors: Record<string, string> = {
   CREATE: "bg-green-100 text-green-800",
   UPDATE: "bg-blue-100 text-blue-800",
   DELETE: "bg-red-100 text-red-800",
   CONFIRM: "bg-purple-100 text-purple-800",
   ENROLL: "bg-yellow-100 text-yellow-800",
+  APPROVE: "bg-green-100 text-green-800",
+  DENY: "bg-red-100 text-red-800",
+  CHECK_IN: "bg-green-100 text-green-800",
+  REVERT: "bg-orange-100 text-orange-800",
 };
 
-function formatChange(
+// Feedback added or edited by this entry, if any
+export function changedFeedback(
+  oldValues: Record<string, unknown> | null,
+  newValues: Record<string, unknown> | null
+): string | null {
+  const feedback = newValues?.feedback as string | null | undefined;
+  if (!feedback || feedback === oldValues?.feedback) {
+    return null;
+  }
+  return feedback;
+}
+
+export function formatChange(
   oldValues: Record<string, unknown> | null,
   newValues: Record<string, unknown> | null,
-  entityType: string
+  entityType: string,
+  statusScale: readonly StatusLevel[]
 ): string {
   if (entityType === "assignment_progress") {
     const oldStatus = oldValues?.status as number | undefined;
@@ -61,20 +90,33 @@ function formatChange(
     const oldGrade = oldValues?.numericGrade as string | undefined;
     const newGrade = newValues?.numericGrade as string | undefined;
 
-    const statusLabels = ["Not Submitted", "Not Submitted", "Work-in-Progress", "Successfully Completed"];
-
     if (newStatus !== undefined && oldStatus !== newStatus) {
-      const oldLabel = statusLabels[oldStatus ?? 0] || "Unknown";
-      const newLabel = statusLabels[newStatus] || "Unknown";
+      const oldLabel = getAssignmentStatusLabel(oldStatus, statusScale);
+      const newLabel = getAssignmentStatusLabel(newStatus, statusScale);
       return `Status: ${oldLabel} → ${newLabel}`;
     }
 
     if (newGrade !== undefined && oldGrade !== newGrade) {
       return `Grade: ${oldGrade ?? "N/A"} → ${newGrade}`;
     }
+
+    if (changedFeedback(oldValues, newValues)) {
+      return "Feedback updated";
+    }
   }
 
   if (entityType === "student_contract") {
+    if (newValues?.changeRequestId) {
+      return newValues.contractId === newValues.requestedContractId
+        ? "Contract change request approved"
+        : "Contract change request denied";
+    }
+    if (newValues?.migrated) {
+      return `Moved to contract version ${newValues.version}`;
+    }
+    if (newValues?.autoAssigned) {
+      return `Default ${newValues.grade} contract assigned after deadline`;
+    }
     if (newValues?.isConfirmed) {
       return "Contract confirmed";
     }
@@ -84,9 +126,59 @@ function formatChange(
     }
   }
 
+  if (entityType === "token_transaction") {
+    const amount = newValues?.amount as number | undefined;
+    const tokens = amount === 1 ? "1 token" : `${amount ?? 0} tokens`;
+    if (newValues?.kind === "grant") {
+      return `Granted ${tokens}`;
+    }
+    if (newValues?.status === "approved") {
+      return `Spend of ${tokens} approved`;
+    }
+    if (newValues?.status === "denied") {
+      return `Spend of ${tokens} denied`;
+    }
+    return `Requested to spend ${tokens}`;
+  }
+
+  if (entityType === "assignment_submission") {
+    if (newValues?.kind === "url") {
+      return "Submitted a link";
+    }
+    if (newValues?.kind === "file") {
+      return `Submitted ${newValues.fileName ?? "a file"}`;
+    }
+    return "Submitted a text response";
+  }
+
+  if (entityType === "absence_excuse") {
+    if (newValues?.status === "approved") {
+      return "Absence excuse approved";
+    }
+    if (newValues?.status === "denied") {
+      return "Absence excuse denied";
+    }
+    return "Asked to excuse an absence";
+  }
+
+  if (entityType === "engagement_intention") {
+    const week = newValues?.weekNumber as number | undefined;
+    const status = newValues?.reviewStatus as EngagementReviewStatus | undefined;
+    if (status === "submitted") {
+      return `Submitted week ${week} engagement for review`;
+    }
+    if (status) {
+      return `Week ${week} engagement: ${ENGAGEMENT_REVIEW_STATUS_LABELS[status].toLowerCase()}`;
+    }
+  }
+
   if (entityType === "attendance") {
-    const isPresent = newValues?.isPresent as boolean | undefined;
-    return isPresent ? "Marked present" : "Marked absent";
+    const status = newValues?.status as AttendanceStatus | undefined;
+    if (status) {
+      return `Marked ${ATTENDANCE_STATUS_LABELS[status].toLowerCase()}`;
+    }
+    // Entries logged before attendance statuses only recorded present or absent
+    return newValues?.isPresent ? "Marked present" : "Marked absent";
   }
 
   return "Record updated";
@@ -96,6 +188,10 @@ export function StudentHistory({ classId, studentId }: StudentHistoryProps) {
   const { data: history, isLoading } = useQuery<AuditLog[]>({
     queryKey: [`/api/classes/${classId}/students/${studentId}/history`],
   });
+  const { data: classData } = useQuery<Class>({
+    queryKey: [`/api/classes/${classId}`],
+  });
+  const statusScale = getStatusScale(classData);
 
   if (isLoading) {
     return (
@@ -160,8 +256,13 @@ export function StudentHistory({ classId, studentId }: StudentHistoryProps) {
                     {entityLabels[log.entityType] || log.entityType}
                   </p>
                   <p className="text-sm text-muted-foreground">
-                    {formatChange(log.oldValues, log.newValues, log.entityType)}
+                    {formatChange(log.oldValues, log.newValues, log.entityType, statusScale)}
                   </p>
+                  {log.entityType === "assignment_progress" && changedFeedback(log.oldValues, log.newValues) && (
+                    <div className="text-sm mt-1">
+                      <RichTextEditor value={changedFeedback(log.oldValues, log.newValues)!} editable={false} />
+                    </div>
+                  )}
                   <p className="text-xs text-muted-foreground mt-1">
                     {format(new Date(log.createdAt), "MMM d, yyyy 'at' h:mm a")}
                   </p>
@@ -0,0 +1,115 @@
+import type { ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Coins } from "lucide-react";
+import { TOKEN_PURPOSE_LABELS, type TokenAccount, type TokenLedgerEntry } from "@shared/tokens";
+
+interface TokenLedgerProps {
+  classId: number;
+  studentId: number;
+  action?: ReactNode; // Rendered beside the balance, e.g. a request or grant dialog
+}
+
+const statusLabels: Record<TokenLedgerEntry["status"], string> = {
+  pending: "Pending",
+  approved: "Approved",
+  denied: "Denied",
+};
+
+function describeEntry(entry: TokenLedgerEntry): string {
+  const tokens = entry.amount === 1 ? "1 token" : `${entry.amount} tokens`;
+  if (entry.kind === "grant") {
+    return `+${tokens} granted`;
+  }
+
+  const purpose = entry.purpose ? TOKEN_PURPOSE_LABELS[entry.purpose] : "Spend";
+  if (entry.assignmentName) {
+    return `${purpose}: ${entry.assignmentName} (${tokens})`;
+  }
+  if (entry.attendanceDate) {
+    return `${purpose}: ${format(new Date(entry.attendanceDate), "MMM d, yyyy")} (${tokens})`;
+  }
+  return `${purpose} (${tokens})`;
+}
+
+export function TokenLedger({ classId, studentId, action }: TokenLedgerProps) {
+  const { data: account, isLoading } = useQuery<TokenAccount>({
+    queryKey: [`/api/classes/${classId}/students/${studentId}/tokens`],
+  });
+
+  if (isLoading || !account) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Tokens</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Skeleton className="h-4 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { balance } = account;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Coins className="h-5 w-5" aria-hidden="true" />
+              Tokens
+            </CardTitle>
+            <CardDescription role="status">
+              {balance.available} available of {balance.allowance + balance.granted}
+              {balance.pending > 0 && ` (${balance.pending} awaiting review)`}
+            </CardDescription>
+          </div>
+          {action}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {account.transactions.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No tokens have been used yet.</p>
+        ) : (
+          <ul className="space-y-2" aria-label="Token history">
+            {account.transactions.map((entry) => (
+              <li key={entry.id} className="border rounded-md p-3 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">{describeEntry(entry)}</span>
+                  {entry.kind === "spend" && (
+                    <Badge
+                      variant={entry.status === "denied" ? "destructive" : entry.status === "approved" ? "default" : "secondary"}
+                    >
+                      {statusLabels[entry.status]}
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-muted-foreground mt-1">{entry.reason}</p>
+                {entry.instructorResponse && (
+                  <p className="mt-1">
+                    <span className="font-medium">Instructor: </span>
+                    {entry.instructorResponse}
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground mt-1">
+                  {format(new Date(entry.createdAt), "MMM d, yyyy")}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -59,11 +59,18 @@ export function useWebSocket(
             break;
 
           case "PROGRESS_UPDATE":
+          case "PROGRESS_BATCH_UPDATE":
             console.log("Progress update received:", message.payload);
             // Invalidate relevant queries to refresh data
             queryClient.invalidateQueries({
               queryKey: [`/api/classes/${classId}/students/progress`],
             });
+            queryClient.invalidateQueries({
+              queryKey: ["/api/submissions/pending"],
+            });
+            queryClient.invalidateQueries({
+              queryKey: [`/api/classes/${classId}/activity`],
+            });
             // Call custom handler if provided
             options.onProgressUpdate?.(message.payload);
             break;
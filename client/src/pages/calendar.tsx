@@ -0,0 +1,338 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  addDays,
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import {
+  CALENDAR_EVENT_LABELS,
+  getEventStart,
+  isEventOnDay,
+  type CalendarEvent,
+  type CalendarEventKind,
+} from "@shared/calendar";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  AlertCircle,
+  ArrowLeft,
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight,
+  Copy,
+  Loader2,
+  RefreshCw,
+  Rss,
+} from "lucide-react";
+
+const KIND_STYLES: Record<CalendarEventKind, string> = {
+  assignment_due: "bg-red-100 text-red-900 dark:bg-red-950 dark:text-red-100",
+  engagement_week: "bg-blue-100 text-blue-900 dark:bg-blue-950 dark:text-blue-100",
+  class_meeting: "bg-green-100 text-green-900 dark:bg-green-950 dark:text-green-100",
+  contract_deadline: "bg-amber-100 text-amber-900 dark:bg-amber-950 dark:text-amber-100",
+};
+
+// Engagement weeks span every day, so the grid shows them once, on the day they start
+function isShownOnDay(event: CalendarEvent, day: Date): boolean {
+  if (event.kind === "engagement_week") {
+    return getEventStart(event).getTime() === startOfDay(day).getTime();
+  }
+  return isEventOnDay(event, day);
+}
+
+function SubscribeCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: feed } = useQuery<{ path: string }>({
+    queryKey: ["/api/calendar/feed"],
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/calendar/feed/reset");
+      return res.json();
+    },
+    onSuccess: (data: { path: string }) => {
+      queryClient.setQueryData(["/api/calendar/feed"], data);
+      toast({
+        title: "Success",
+        description: "Your feed URL was reset. Re-subscribe with the new link.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const url = feed ? `${window.location.origin}${feed.path}` : "";
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(url);
+    toast({
+      title: "Copied",
+      description: "Paste the link into your calendar app's subscribe option",
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Rss className="h-5 w-5" />
+          Subscribe
+        </CardTitle>
+        <CardDescription>
+          Add this private link to Google Calendar, Outlook or Apple Calendar to keep these dates in sync.
+          Anyone with the link can see your calendar.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2">
+          <Input readOnly value={url} aria-label="Calendar feed URL" onFocus={(e) => e.target.select()} />
+          <Button variant="outline" size="icon" onClick={copy} disabled={!url} aria-label="Copy feed URL">
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {url && (
+            <Button variant="outline" size="sm" asChild>
+              <a href={url.replace(/^https?:/, "webcal:")}>
+                <CalendarDays className="h-4 w-4 mr-2" />
+                Open in calendar app
+              </a>
+            </Button>
+          )}
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="ghost" size="sm" disabled={resetMutation.isPending}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Reset link
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Reset your calendar link?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Calendars subscribed to the current link will stop updating. Use this if the link was shared
+                  by mistake.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => resetMutation.mutate()}>Reset link</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function CalendarPage() {
+  const { user } = useAuth();
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [classFilter, setClassFilter] = useState("all");
+
+  const { data: events = [], isLoading, error } = useQuery<CalendarEvent[]>({
+    queryKey: ["/api/calendar"],
+  });
+
+  const classes = Array.from(new Map(events.map((e) => [e.classId, e.className])).entries());
+  const visible = classFilter === "all" ? events : events.filter((e) => e.classId === parseInt(classFilter));
+
+  const days = eachDayOfInterval({
+    start: startOfWeek(startOfMonth(month)),
+    end: endOfWeek(endOfMonth(month)),
+  });
+
+  const today = startOfDay(new Date());
+  const upcoming = visible.filter((e) => {
+    const start = getEventStart(e);
+    return e.kind !== "engagement_week" && start >= today && start < addDays(today, 14);
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="bg-[#0072BC] text-white p-6" role="banner">
+        <div className="container mx-auto">
+          <nav className="flex items-center space-x-4 mb-6" aria-label="Breadcrumb">
+            <Link href={user?.role === "instructor" ? "/instructor" : "/student"}>
+              <Button
+                variant="ghost"
+                size="lg"
+                className="text-white hover:text-white/80 text-base"
+                aria-label="Return to dashboard"
+              >
+                <ArrowLeft className="h-5 w-5 mr-2" />
+                Back to Dashboard
+              </Button>
+            </Link>
+          </nav>
+          <h1 className="text-4xl font-bold mb-2">Calendar</h1>
+          <p className="text-lg opacity-90">Due dates, engagement weeks, class meetings and contract deadlines</p>
+        </div>
+      </header>
+
+      <main id="main-content" className="container mx-auto p-6 space-y-6" role="main">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="icon" onClick={() => setMonth(addMonths(month, -1))} aria-label="Previous month">
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <CardTitle className="min-w-[10rem] text-center">{format(month, "MMMM yyyy")}</CardTitle>
+                <Button variant="outline" size="icon" onClick={() => setMonth(addMonths(month, 1))} aria-label="Next month">
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setMonth(startOfMonth(new Date()))}>
+                  Today
+                </Button>
+              </div>
+              {classes.length > 1 && (
+                <Select value={classFilter} onValueChange={setClassFilter}>
+                  <SelectTrigger className="w-[220px]" aria-label="Filter by class">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All classes</SelectItem>
+                    {classes.map(([id, name]) => (
+                      <SelectItem key={id} value={String(id)}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2 pt-2" aria-label="Legend">
+              {(Object.keys(CALENDAR_EVENT_LABELS) as CalendarEventKind[]).map((kind) => (
+                <span key={kind} className={`text-xs rounded px-2 py-0.5 ${KIND_STYLES[kind]}`}>
+                  {CALENDAR_EVENT_LABELS[kind]}
+                </span>
+              ))}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-border" />
+              </div>
+            ) : error ? (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>Failed to load your calendar. Please refresh the page.</AlertDescription>
+              </Alert>
+            ) : (
+              <div className="grid grid-cols-7 border-l border-t text-sm" role="grid">
+                {days.slice(0, 7).map((day) => (
+                  <div key={day.toISOString()} className="border-r border-b p-2 font-medium text-muted-foreground" role="columnheader">
+                    {format(day, "EEE")}
+                  </div>
+                ))}
+                {days.map((day) => {
+                  const dayEvents = visible.filter((e) => isShownOnDay(e, day));
+                  return (
+                    <div
+                      key={day.toISOString()}
+                      role="gridcell"
+                      aria-label={format(day, "EEEE, MMMM d")}
+                      className={`border-r border-b min-h-[6rem] p-1 space-y-1 ${isSameMonth(day, month) ? "" : "bg-muted/40 text-muted-foreground"}`}
+                    >
+                      <div className={`text-xs font-medium ${isToday(day) ? "inline-flex h-6 w-6 items-center justify-center rounded-full bg-primary text-primary-foreground" : ""}`}>
+                        {format(day, "d")}
+                      </div>
+                      {dayEvents.map((event) => (
+                        <div
+                          key={event.uid}
+                          className={`truncate rounded px-1 py-0.5 text-xs ${KIND_STYLES[event.kind]}`}
+                          title={`${event.className}: ${event.title}${event.description ? `\n${event.description}` : ""}`}
+                        >
+                          {!event.allDay && `${format(new Date(event.start), "p")} `}
+                          {event.title}
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Next Two Weeks</CardTitle>
+              <CardDescription>Upcoming due dates, meetings and deadlines</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {upcoming.length === 0 ? (
+                <p className="text-muted-foreground text-sm">Nothing coming up.</p>
+              ) : (
+                <ul className="divide-y" aria-label="Upcoming events">
+                  {upcoming.map((event) => (
+                    <li key={event.uid} className="flex items-center justify-between gap-3 py-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{event.title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {format(getEventStart(event), event.allDay ? "EEE, MMM d" : "EEE, MMM d 'at' p")}
+                        </p>
+                      </div>
+                      <Badge variant="outline" className="flex-shrink-0">{event.className}</Badge>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+          <SubscribeCard />
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -2,8 +2,10 @@ import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { useParams, useLocation, Link } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import { Class, Assignment, User, AssignmentProgress, StudentContract, GradeContract } from "@shared/schema";
-import { AssignmentStatus, getAssignmentStatusLabel } from "@shared/constants";
+import { Class, Assignment, Category, User, AssignmentProgress, StudentContract, GradeContract } from "@shared/schema";
+import { groupByCategory } from "@shared/categories";
+import type { StatusLevel } from "@shared/constants";
+import type { ContractEvaluation } from "@shared/contract-evaluation";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -19,6 +21,7 @@ import { ArrowLeft, Users, TrendingUp, TrendingDown, CheckCircle, AlertTriangle,
 
 interface ClassAnalytics {
   classInfo: Class;
+  categories: Category[];
   totalStudents: number;
   overallCompletionRate: number;
   atRiskStudents: number;
@@ -26,12 +29,8 @@ interface ClassAnalytics {
   assignmentStats: {
     assignment: Assignment;
     completionRate: number;
-    statusBreakdown: {
-      notStarted: number;
-      inProgress: number;
-      completed: number;
-      excellent: number;
-    };
+    statusBreakdown: (StatusLevel & { count: number })[]; // One entry per level of the class's scale
+    lateCount: number;
   }[];
   studentPerformance: {
     student: User;
@@ -39,7 +38,9 @@ interface ClassAnalytics {
     progressScore: number;
     completedAssignments: number;
     totalAssignments: number;
+    lateAssignments: number;
     lastActivity: string;
+    contractEvaluation: ContractEvaluation | null;
   }[];
   contractDistribution: {
     gradeLevel: string;
@@ -82,19 +83,6 @@ export default function ClassAnalytics() {
     );
   }
 
-  const getStatusColor = (status: number): string => {
-    switch (status) {
-      case AssignmentStatus.EXCELLENT: return "bg-green-200 text-green-800";
-      case AssignmentStatus.COMPLETED: return "bg-yellow-200 text-yellow-800";
-      case AssignmentStatus.NOT_STARTED:
-      case AssignmentStatus.IN_PROGRESS:
-      default: return "bg-slate-200 text-slate-700";
-    }
-  };
-
-  // Use shared constant for status labels
-  const getStatusLabel = getAssignmentStatusLabel;
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
       <header className="bg-[#0072BC] text-white p-6" role="banner">
@@ -179,40 +167,56 @@ export default function ClassAnalytics() {
 
           <TabsContent value="assignments" className="space-y-6">
             <div className="grid gap-6">
-              {analyticsData.assignmentStats && analyticsData.assignmentStats.length > 0 ? analyticsData.assignmentStats.map((stat) => (
-                <Card key={stat.assignment.id}>
-                  <CardHeader>
-                    <div className="flex justify-between items-start">
-                      <div>
-                        <CardTitle className="text-xl">{stat.assignment.name}</CardTitle>
-                        <CardDescription>{stat.assignment.moduleGroup}</CardDescription>
-                      </div>
-                      <Badge variant="outline" className="text-lg px-3 py-1">
-                        {stat.completionRate}% Complete
-                      </Badge>
-                    </div>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="space-y-4">
-                      <Progress value={stat.completionRate} className="h-3" />
-                      
-                      <div className="grid grid-cols-3 gap-4">
-                        <div className="text-center p-3 bg-slate-100 rounded-lg">
-                          <div className="text-2xl font-bold text-slate-700">{stat.statusBreakdown.notStarted + stat.statusBreakdown.inProgress}</div>
-                          <div className="text-sm text-muted-foreground">Not Submitted</div>
-                        </div>
-                        <div className="text-center p-3 bg-yellow-100 rounded-lg">
-                          <div className="text-2xl font-bold text-yellow-700">{stat.statusBreakdown.completed}</div>
-                          <div className="text-sm text-muted-foreground">Work-in-Progress</div>
+              {analyticsData.assignmentStats && analyticsData.assignmentStats.length > 0 ? groupByCategory(
+                analyticsData.assignmentStats,
+                analyticsData.categories ?? [],
+                (stat) => stat.assignment
+              ).map((group) => (
+                <section key={group.category?.id ?? "uncategorized"} className="space-y-4" aria-label={group.name}>
+                  <div className="flex items-center justify-between border-l-4 pl-3" style={{ borderLeftColor: group.color }}>
+                    <h3 className="text-lg font-semibold">{group.name}</h3>
+                    <span className="text-sm text-muted-foreground">
+                      {Math.round(group.items.reduce((sum, stat) => sum + stat.completionRate, 0) / group.items.length)}% average completion
+                    </span>
+                  </div>
+                  {group.items.map((stat) => (
+                    <Card key={stat.assignment.id}>
+                      <CardHeader>
+                        <div className="flex justify-between items-start">
+                          <div>
+                            <CardTitle className="text-xl">{stat.assignment.name}</CardTitle>
+                            {stat.lateCount > 0 && (
+                              <CardDescription className="text-orange-700">
+                                {stat.lateCount} student{stat.lateCount !== 1 ? "s" : ""} handed this in late
+                              </CardDescription>
+                            )}
+                          </div>
+                          <Badge variant="outline" className="text-lg px-3 py-1">
+                            {stat.completionRate}% Complete
+                          </Badge>
                         </div>
-                        <div className="text-center p-3 bg-green-100 rounded-lg">
-                          <div className="text-2xl font-bold text-green-700">{stat.statusBreakdown.excellent}</div>
-                          <div className="text-sm text-muted-foreground">Successfully Completed</div>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="space-y-4">
+                          <Progress value={stat.completionRate} className="h-3" />
+                          
+                          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            {stat.statusBreakdown.map((level) => (
+                              <div
+                                key={level.value}
+                                className="text-center p-3 rounded-lg border-t-4 bg-slate-50"
+                                style={{ borderTopColor: level.color }}
+                              >
+                                <div className="text-2xl font-bold" style={{ color: level.color }}>{level.count}</div>
+                                <div className="text-sm text-muted-foreground">{level.label}</div>
+                              </div>
+                            ))}
+                          </div>
                         </div>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </section>
               )) : (
                 <Card>
                   <CardHeader>
@@ -240,6 +244,14 @@ export default function ClassAnalytics() {
                           ) : (
                             <Badge variant="outline" className="bg-gray-50 text-gray-700">No Contract Selected</Badge>
                           )}
+                          {performance.contractEvaluation && (
+                            <Badge
+                              variant="outline"
+                              className={performance.contractEvaluation.isMet ? "bg-green-50 text-green-700" : "bg-amber-50 text-amber-700"}
+                            >
+                              Grade {performance.contractEvaluation.grade}: {performance.contractEvaluation.isMet ? "Requirements Met" : "Requirements Not Yet Met"}
+                            </Badge>
+                          )}
                         </div>
                       </div>
                       <div className="text-right">
@@ -254,6 +266,11 @@ export default function ClassAnalytics() {
                       <Progress value={performance.progressScore} className="h-2" />
                       <div className="flex justify-between text-sm text-muted-foreground">
                         <span>Last activity: {performance.lastActivity}</span>
+                        {performance.lateAssignments > 0 && (
+                          <Badge variant="outline" className="text-xs bg-orange-50 text-orange-700">
+                            {performance.lateAssignments} late
+                          </Badge>
+                        )}
                         {performance.progressScore < 60 && (
                           <Badge variant="destructive" className="text-xs">At Risk</Badge>
                         )}
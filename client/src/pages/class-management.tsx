@@ -4,8 +4,12 @@ import { useParams, useLocation, Link } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Class, Assignment, GradeContract, User, AssignmentProgress, insertClassSchema } from "@shared/schema";
-import { AssignmentStatus } from "@shared/constants";
+import { Class, Assignment, Category, GradeContract, User, AssignmentProgress, AttendanceRecord, insertClassSchema, gradeTiersSchema } from "@shared/schema";
+import { z } from "zod";
+import { getGradeTiers, getStatusLevel, getStatusScale, sortByGradeTier } from "@shared/constants";
+import { latestContractsByGrade } from "@shared/contract-evaluation";
+import { groupByCategory } from "@shared/categories";
+import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -49,11 +53,19 @@ import { ImportStudentsDialog } from "@/components/dialogs/import-students-dialo
 import { ViewStudentProfileDialog } from "@/components/dialogs/view-student-profile-dialog";
 import { UpdateAssignmentStatusDialog } from "@/components/dialogs/update-assignment-status-dialog";
 import { ImportCanvasGradesDialog } from "@/components/dialogs/import-canvas-grades-dialog";
+import { ManageAttendanceDialog } from "@/components/dialogs/manage-attendance-dialog";
+import { CheckInSessionDialog } from "@/components/dialogs/check-in-session-dialog";
 import { RichTextEditor } from "@/components/ui/rich-text-editor";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { EditAssignmentDialog } from "@/components/dialogs/edit-assignment-dialog";
 import { ReorderAssignmentsDialog } from "@/components/dialogs/reorder-assignments-dialog";
+import { EditStatusScaleDialog } from "@/components/dialogs/edit-status-scale-dialog";
+import { EditClassScheduleDialog } from "@/components/dialogs/edit-class-schedule-dialog";
+import { ABSENCE_FRACTIONS, ATTENDANCE_STATUS_LABELS, countAbsences, getAttendancePolicy, type AttendancePolicy } from "@shared/attendance";
+import { ManageCategoriesDialog } from "@/components/dialogs/manage-categories-dialog";
+import { GradebookGrid } from "@/components/admin/gradebook-grid";
+import { ClassActivityFeed } from "@/components/admin/class-activity-feed";
 
 // Edit Class Settings Dialog Component
 function EditClassSettingsDialog({ classData }: { classData: Class }) {
@@ -64,29 +76,55 @@ function EditClassSettingsDialog({ classData }: { classData: Class }) {
   type FormData = {
     name: string;
     description?: string;
-    semesterStartDate?: string;
+    contractDeadline?: string | null;
+    defaultContractGrade?: string | null;
+    gradeTiersText: string;
+    attendancePolicy: AttendancePolicy;
   };
 
+  // Tiers are edited as a comma-separated list, highest first
+  const parseTiers = (text: string) => text.split(",").map(t => t.trim()).filter(Boolean);
+
   const form = useForm<FormData>({
     resolver: zodResolver(insertClassSchema.extend({
       name: insertClassSchema.shape.name,
       description: insertClassSchema.shape.description,
-      semesterStartDate: insertClassSchema.shape.semesterStartDate,
+      gradeTiersText: z.string().refine(
+        (text) => gradeTiersSchema.safeParse(parseTiers(text)).success,
+        "Enter one or more unique tier labels separated by commas"
+      ),
     })),
     defaultValues: {
       name: classData.name,
       description: classData.description || "",
-      semesterStartDate: classData.semesterStartDate || "2025-08-25",
+      // datetime-local inputs expect local time without a timezone
+      contractDeadline: classData.contractDeadline
+        ? format(new Date(classData.contractDeadline), "yyyy-MM-dd'T'HH:mm")
+        : "",
+      defaultContractGrade: classData.defaultContractGrade,
+      gradeTiersText: getGradeTiers(classData).join(", "),
+      attendancePolicy: getAttendancePolicy(classData),
     },
   });
+  const tiers = parseTiers(form.watch("gradeTiersText") ?? "");
 
   const updateClassMutation = useMutation({
     mutationFn: async (data: FormData) => {
-      const res = await apiRequest("PATCH", `/api/classes/${classData.id}`, data);
+      const { gradeTiersText, ...updates } = data;
+      const gradeTiers = parseTiers(gradeTiersText);
+      const res = await apiRequest("PATCH", `/api/classes/${classData.id}`, {
+        ...updates,
+        contractDeadline: data.contractDeadline ? new Date(data.contractDeadline).toISOString() : null,
+        defaultContractGrade: data.defaultContractGrade && gradeTiers.includes(data.defaultContractGrade)
+          ? data.defaultContractGrade
+          : null,
+        gradeTiers,
+      });
       return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/classes/${classData.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/classes/${classData.id}/student-contracts`] });
       toast({
         title: "Success",
         description: "Class settings updated successfully",
@@ -114,7 +152,7 @@ function EditClassSettingsDialog({ classData }: { classData: Class }) {
         <DialogHeader>
           <DialogTitle>Edit Class Settings</DialogTitle>
           <DialogDescription>
-            Update class name, description, and semester settings.
+            Update class name, description, and contract settings.
           </DialogDescription>
         </DialogHeader>
         <Form {...form}>
@@ -155,21 +193,106 @@ function EditClassSettingsDialog({ classData }: { classData: Class }) {
 
             <FormField
               control={form.control}
-              name="semesterStartDate"
+              name="contractDeadline"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Semester Start Date</FormLabel>
+                  <FormLabel>Contract Selection Deadline (Optional)</FormLabel>
                   <FormControl>
-                    <Input type="date" {...field} />
+                    <Input type="datetime-local" {...field} value={field.value ?? ""} />
                   </FormControl>
                   <FormMessage />
                   <p className="text-sm text-muted-foreground">
-                    This determines the current week calculation for engagement tracking
+                    Students cannot choose or confirm a contract after this time
                   </p>
                 </FormItem>
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="gradeTiersText"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Contract Tiers</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., A, A-, B+, B, C, D" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                  <p className="text-sm text-muted-foreground">
+                    Grade labels students can contract for, highest first, separated by commas
+                  </p>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="defaultContractGrade"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Default Contract</FormLabel>
+                  <Select
+                    value={field.value ?? "none"}
+                    onValueChange={(value) => field.onChange(value === "none" ? null : value)}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">No default</SelectItem>
+                      {tiers.map((grade) => (
+                        <SelectItem key={grade} value={grade}>
+                          Grade {grade}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                  <p className="text-sm text-muted-foreground">
+                    Assigned automatically to students who have not chosen by the deadline
+                  </p>
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              {(["late", "tardy"] as const).map((status) => (
+                <FormField
+                  key={status}
+                  control={form.control}
+                  name={`attendancePolicy.${status}`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{ATTENDANCE_STATUS_LABELS[status]} Arrivals</FormLabel>
+                      <Select
+                        value={String(field.value)}
+                        onValueChange={(value) => field.onChange(Number(value))}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {ABSENCE_FRACTIONS.map((fraction) => (
+                            <SelectItem key={fraction.value} value={String(fraction.value)}>
+                              {fraction.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+            <p className="text-sm text-muted-foreground -mt-2">
+              How late and tardy arrivals count toward contract absence limits. Excused absences never count.
+            </p>
+
             <Button
               type="submit"
               className="w-full"
@@ -207,6 +330,11 @@ export default function ClassManagement() {
     enabled: !isNaN(parsedClassId),
   });
 
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: [`/api/classes/${parsedClassId}/categories`],
+    enabled: !isNaN(parsedClassId),
+  });
+
   const { data: contracts, isLoading: isLoadingContracts } = useQuery<GradeContract[]>({
     queryKey: [`/api/classes/${parsedClassId}/contracts`],
     enabled: !isNaN(parsedClassId),
@@ -230,7 +358,7 @@ export default function ClassManagement() {
   });
 
   // Fetch attendance records for all students
-  const { data: allAttendanceRecords } = useQuery({
+  const { data: allAttendanceRecords } = useQuery<AttendanceRecord[]>({
     queryKey: [`/api/classes/${parsedClassId}/all-attendance`],
     enabled: !isNaN(parsedClassId) && !!students?.length,
   });
@@ -241,11 +369,14 @@ export default function ClassManagement() {
       const res = await apiRequest("POST", `/api/classes/${parsedClassId}/students/${studentId}/absences`, { absences });
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: { absences: number }, { absences }) => {
       queryClient.invalidateQueries({ queryKey: [`/api/classes/${parsedClassId}/all-attendance`] });
+      // Absences recorded at sessions stay put, so the count can't drop below them
       toast({
         title: "Success",
-        description: "Absences updated successfully",
+        description: data.absences === absences
+          ? "Absences updated successfully"
+          : `Absences set to ${data.absences}. Change session attendance to lower it further.`,
       });
     },
     onError: (error: Error) => {
@@ -344,17 +475,18 @@ export default function ClassManagement() {
     return contracts?.find(c => c.id === studentContract.contractId);
   };
 
+  const statusScale = getStatusScale(classData);
+
   const getAssignmentStatus = (assignment: Assignment, progress?: AssignmentProgress) => {
     if (!progress) {
       return "not-submitted";
     }
 
     if (assignment.scoringType === "status") {
-      switch (progress.status) {
-        case AssignmentStatus.EXCELLENT: return "completed";
-        case AssignmentStatus.COMPLETED: return "in-progress";
-        default: return "not-submitted";
-      }
+      const level = getStatusLevel(progress.status, statusScale);
+      if (level.isDone) return "completed";
+      if (level !== statusScale[0]) return "in-progress";
+      return "not-submitted";
     } else {
       // Numeric scoring type
       if (!progress.numericGrade) return "not-submitted";
@@ -392,15 +524,8 @@ export default function ClassManagement() {
       .join("\n");
   };
 
-  // Group assignments by module
-  const groupedAssignments = assignments?.reduce((acc, assignment) => {
-    const group = assignment.moduleGroup || "Ungrouped";
-    if (!acc[group]) {
-      acc[group] = [];
-    }
-    acc[group].push(assignment);
-    return acc;
-  }, {} as Record<string, Assignment[]>);
+  // Group assignments by category, in the class's category order
+  const groupedAssignments = groupByCategory(assignments ?? [], categories, (a) => a);
 
   return (
     <div className="min-h-screen bg-background">
@@ -430,6 +555,8 @@ export default function ClassManagement() {
             </div>
             <div className="flex gap-3">
               <EditClassSettingsDialog classData={classData} />
+              <EditClassScheduleDialog classData={classData} />
+              <EditStatusScaleDialog classData={classData} />
               <Link href={`/instructor/class/${parsedClassId}/analytics`}>
                 <Button
                   variant="outline"
@@ -523,6 +650,8 @@ export default function ClassManagement() {
             <TabsTrigger value="contracts">Grade Contracts</TabsTrigger>
             <TabsTrigger value="assignments">Assignments</TabsTrigger>
             <TabsTrigger value="roster">Student Progress</TabsTrigger>
+            <TabsTrigger value="gradebook">Gradebook</TabsTrigger>
+            <TabsTrigger value="activity">Activity</TabsTrigger>
           </TabsList>
 
           <TabsContent value="contracts">
@@ -538,6 +667,7 @@ export default function ClassManagement() {
                   <CreateGradeContractDialog
                     classId={parsedClassId}
                     assignments={assignments}
+                    gradeTiers={getGradeTiers(classData)}
                   />
                 ) : (
                   <p className="text-sm text-muted-foreground">
@@ -552,14 +682,21 @@ export default function ClassManagement() {
                   </p>
                 ) : (
                   <div className="space-y-4">
-                    {["A", "B", "C"].map((grade) => {
-                      const gradeContract = contracts?.find((c) => c.grade === grade);
+                    {getGradeTiers(classData).map((grade) => {
+                      const gradeContract = latestContractsByGrade(contracts ?? []).find((c) => c.grade === grade);
                       return (
                         <Card key={grade}>
                           <CardHeader>
                             <div className="flex justify-between items-start">
                               <div className="space-y-1">
-                                <CardTitle className="text-lg">Grade {grade} Requirements</CardTitle>
+                                <CardTitle className="text-lg">
+                                  Grade {grade} Requirements
+                                  {gradeContract && gradeContract.version > 1 && (
+                                    <span className="ml-2 text-sm font-normal text-muted-foreground">
+                                      Version {gradeContract.version}
+                                    </span>
+                                  )}
+                                </CardTitle>
                                 {gradeContract ? (
                                   <CardDescription className="whitespace-pre-line">
                                     Required Assignments:
@@ -574,9 +711,13 @@ export default function ClassManagement() {
                               </div>
                               {gradeContract && assignments && (
                                 <EditGradeContractDialog
+                                  key={gradeContract.id}
                                   classId={parsedClassId}
                                   contract={gradeContract}
                                   assignments={assignments}
+                                  versions={contracts?.filter((c) => c.grade === grade)}
+                                  gradeTiers={getGradeTiers(classData)}
+                                  studentContracts={Array.isArray(studentContracts) ? studentContracts : []}
                                 />
                               )}
                             </div>
@@ -600,6 +741,7 @@ export default function ClassManagement() {
                   </CardDescription>
                 </div>
                 <div className="flex gap-2">
+                  <ManageCategoriesDialog classId={parsedClassId} categories={categories} />
                   {assignments && assignments.length > 1 && (
                     <ReorderAssignmentsDialog classId={parsedClassId} assignments={assignments} />
                   )}
@@ -613,11 +755,14 @@ export default function ClassManagement() {
                   </p>
                 ) : (
                   <div className="space-y-6">
-                    {Object.entries(groupedAssignments || {}).map(([group, groupAssignments]) => (
-                      <div key={group}>
-                        <h3 className="text-lg font-semibold mb-3">{group}</h3>
+                    {groupedAssignments.map((group) => (
+                      <div key={group.category?.id ?? "uncategorized"}>
+                        <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
+                          <span className="h-3 w-3 rounded-full" style={{ backgroundColor: group.color }} aria-hidden="true" />
+                          {group.name}
+                        </h3>
                         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                          {groupAssignments.map((assignment) => (
+                          {group.items.map((assignment) => (
                             <Card key={assignment.id}>
                               <CardHeader className="flex flex-row items-start justify-between">
                                 <div>
@@ -660,6 +805,8 @@ export default function ClassManagement() {
                   </Button>
                   <ImportStudentsDialog classId={parsedClassId} />
                   <ImportCanvasGradesDialog classId={parsedClassId} />
+                  <CheckInSessionDialog classId={parsedClassId} studentCount={students?.length ?? 0} />
+                  <ManageAttendanceDialog classId={parsedClassId} className={classData.name} />
                 </div>
               </CardHeader>
               <CardContent>
@@ -687,7 +834,7 @@ export default function ClassManagement() {
                         <SelectContent>
                           <SelectItem value="all">All Students</SelectItem>
                           <SelectItem value="none">No Contract Selected</SelectItem>
-                          {contracts?.map((contract) => (
+                          {sortByGradeTier(latestContractsByGrade(contracts ?? []), getGradeTiers(classData)).map((contract) => (
                             <SelectItem key={contract.id} value={contract.grade}>
                               Grade {contract.grade} Contract
                             </SelectItem>
@@ -745,6 +892,10 @@ export default function ClassManagement() {
                           {filteredStudents.map((student) => {
                             const contract = getStudentContract(student.id);
                             const studentProgress = studentsProgress?.filter(p => p.studentId === student.id) || [];
+                            const absenceCount = countAbsences(
+                              allAttendanceRecords?.filter(r => r.studentId === student.id) ?? [],
+                              getAttendancePolicy(classData)
+                            );
 
                             return (
                               <Card key={student.id} className="relative">
@@ -778,14 +929,11 @@ export default function ClassManagement() {
                                           </label>
                                           <Input
                                             id={`absences-${student.id}`}
+                                            key={absenceCount}
                                             type="number"
                                             min="0"
                                             className="w-20"
-                                            defaultValue={
-                                              Array.isArray(allAttendanceRecords)
-                                                ? allAttendanceRecords.filter((r: any) => r.studentId === student.id && !r.isPresent).length
-                                                : 0
-                                            }
+                                            defaultValue={absenceCount}
                                             onBlur={(e) => {
                                               const absences = parseInt(e.target.value) || 0;
                                               updateAbsencesMutation.mutate({ studentId: student.id, absences });
@@ -801,18 +949,14 @@ export default function ClassManagement() {
                                       <div>
                                         <p className="font-medium mb-2">Required Assignments:</p>
                                         <div className="space-y-4">
-                                          {/* Group assignments by moduleGroup */}
+                                          {/* Group assignments by category */}
                                           {(() => {
-                                            const groupedReqs = contract.assignments?.reduce((groups, req) => {
+                                            const reqItems = (contract.assignments ?? []).flatMap((req) => {
                                               const assignment = assignments?.find(a => a.id === req.id);
-                                              if (!assignment) return groups;
-                                              const group = assignment.moduleGroup || 'Uncategorized';
-                                              if (!groups[group]) groups[group] = [];
-                                              groups[group].push({ req, assignment });
-                                              return groups;
-                                            }, {} as Record<string, { req: { id: number; comments?: string }; assignment: Assignment }[]>);
-
-                                            return Object.entries(groupedReqs || {}).map(([groupName, groupItems]) => {
+                                              return assignment ? [{ req, assignment }] : [];
+                                            });
+
+                                            return groupByCategory(reqItems, categories, (item) => item.assignment).map(({ name: groupName, color: groupColor, items: groupItems }) => {
                                               // Calculate group stats for this student
                                               const groupStats = groupItems.reduce(
                                                 (stats, { assignment }) => {
@@ -828,7 +972,7 @@ export default function ClassManagement() {
                                               const totalInGroup = groupItems.length;
 
                                               return (
-                                                <div key={groupName} className="border-l-2 border-blue-200 pl-3">
+                                                <div key={groupName} className="border-l-2 pl-3" style={{ borderLeftColor: groupColor }}>
                                                   <div className="flex items-center justify-between mb-2">
                                                     <span className="font-medium text-sm text-[#0072BC]">{groupName}</span>
                                                     <div className="flex items-center gap-3 text-xs">
@@ -908,6 +1052,48 @@ export default function ClassManagement() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="gradebook">
+            <Card>
+              <CardHeader>
+                <CardTitle>Gradebook</CardTitle>
+                <CardDescription>
+                  Enter and correct grades for the whole class at once
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {classData && (
+                  <GradebookGrid
+                    classData={classData}
+                    assignments={assignments || []}
+                    categories={categories}
+                    students={students || []}
+                    progress={studentsProgress || []}
+                  />
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="activity">
+            <Card>
+              <CardHeader>
+                <CardTitle>Activity</CardTitle>
+                <CardDescription>
+                  Recent changes in this class. Grade changes can be reverted.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {classData && (
+                  <ClassActivityFeed
+                    classData={classData}
+                    students={students || []}
+                    assignments={assignments || []}
+                  />
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </main>
 
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import {
+  GRADING_QUEUE_LABELS,
+  sortGradingQueue,
+  type GradingQueueItem,
+  type GradingQueueOrder,
+} from "@shared/grading-queue";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertCircle, ArrowLeft, ListChecks, Loader2 } from "lucide-react";
+import { UpdateAssignmentStatusDialog } from "@/components/dialogs/update-assignment-status-dialog";
+import { ViewStudentProfileDialog } from "@/components/dialogs/view-student-profile-dialog";
+import { ReviewEngagementIntentionDialog } from "@/components/dialogs/review-engagement-intention-dialog";
+import { HandlePasswordResetDialog } from "@/components/dialogs/handle-password-reset-dialog";
+
+function describeItem(item: GradingQueueItem): string {
+  switch (item.kind) {
+    case "overdue_work":
+    case "submission":
+      return item.assignment.name;
+    case "contract_confirmation":
+      return item.contractGrade ? `Selected the ${item.contractGrade} contract` : "Selected a contract";
+    case "engagement_intention":
+      return `Week ${item.intention.weekNumber}: ${item.intention.intentionText}`;
+    case "password_reset":
+      return "Requested a password reset";
+  }
+}
+
+// The dialog that resolves each kind of item
+function ItemAction({ item }: { item: GradingQueueItem }) {
+  switch (item.kind) {
+    case "overdue_work":
+    case "submission":
+      return (
+        <UpdateAssignmentStatusDialog
+          classId={item.classId}
+          studentId={item.studentId}
+          assignment={item.assignment}
+          currentProgress={item.progress}
+        />
+      );
+    case "contract_confirmation":
+      return <ViewStudentProfileDialog student={item.student} classId={item.classId} />;
+    case "engagement_intention":
+      return <ReviewEngagementIntentionDialog intention={item.intention} studentName={item.studentName} />;
+    case "password_reset":
+      return (
+        <HandlePasswordResetDialog
+          resetRequestId={item.resetRequestId}
+          token={item.token}
+          expiresAt={item.expiresAt}
+          studentName={item.studentName}
+        />
+      );
+  }
+}
+
+export default function GradingQueue() {
+  const [order, setOrder] = useState<GradingQueueOrder>("oldest");
+
+  const { data: items = [], isLoading, error } = useQuery<GradingQueueItem[]>({
+    queryKey: ["/api/grading-queue"],
+    refetchInterval: 60000, // Pick up new submissions and requests every minute
+  });
+
+  const sorted = sortGradingQueue(items, order);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="bg-[#0072BC] text-white p-6" role="banner">
+        <div className="container mx-auto">
+          <nav className="flex items-center space-x-4 mb-6" aria-label="Breadcrumb">
+            <Link href="/instructor">
+              <Button
+                variant="ghost"
+                size="lg"
+                className="text-white hover:text-white/80 text-base"
+                aria-label="Return to dashboard"
+              >
+                <ArrowLeft className="h-5 w-5 mr-2" />
+                Back to Dashboard
+              </Button>
+            </Link>
+          </nav>
+          <h1 className="text-4xl font-bold mb-2">To Grade</h1>
+          <p className="text-lg opacity-90">Everything waiting on you across your active classes</p>
+        </div>
+      </header>
+
+      <main id="main-content" className="container mx-auto p-6" role="main">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <ListChecks className="h-5 w-5" />
+                  Queue
+                  {items.length > 0 && (
+                    <Badge variant="destructive" className="ml-2">
+                      {items.length} waiting
+                    </Badge>
+                  )}
+                </CardTitle>
+                <CardDescription>
+                  Past-due work, submissions, contract confirmations, engagement and password resets
+                </CardDescription>
+              </div>
+              <Select value={order} onValueChange={(value) => setOrder(value as GradingQueueOrder)}>
+                <SelectTrigger className="w-[180px]" aria-label="Sort by age">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="oldest">Oldest first</SelectItem>
+                  <SelectItem value="newest">Newest first</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-border" />
+              </div>
+            ) : error ? (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  Failed to load the grading queue. Please refresh the page.
+                </AlertDescription>
+              </Alert>
+            ) : sorted.length === 0 ? (
+              <p className="text-muted-foreground text-center py-8">
+                Nothing is waiting on you. Nice work!
+              </p>
+            ) : (
+              <ul className="divide-y" aria-label="Items waiting on you">
+                {sorted.map((item) => (
+                  <li key={item.key} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-4">
+                    <div className="space-y-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant={item.kind === "overdue_work" ? "destructive" : "secondary"}>
+                          {GRADING_QUEUE_LABELS[item.kind]}
+                        </Badge>
+                        <span className="font-medium">{item.studentName}</span>
+                        <Badge variant="outline">{item.className}</Badge>
+                      </div>
+                      <p className="text-sm truncate">{describeItem(item)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Waiting {formatDistanceToNow(new Date(item.since))}
+                      </p>
+                    </div>
+                    <div className="flex-shrink-0">
+                      <ItemAction item={item} />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -47,10 +47,17 @@ import {
   ChevronDown,
   ChevronRight,
   FolderArchive,
-  Copy
+  Copy,
+  ListChecks,
+  CalendarDays
 } from "lucide-react";
 import { CreateClassDialog } from "@/components/dialogs/create-class-dialog";
 import { PasswordResetNotifications } from "@/components/admin/password-reset-notifications";
+import { ContractWarnings } from "@/components/admin/contract-warnings";
+import { ContractChangeRequests } from "@/components/admin/contract-change-requests";
+import { TokenRequests } from "@/components/admin/token-requests";
+import { ExcuseRequests } from "@/components/admin/excuse-requests";
+import { SubmissionsAwaitingReview } from "@/components/admin/submissions-awaiting-review";
 import { useLocation } from "wouter";
 import { apiRequest } from "@/lib/queryClient";
 
@@ -319,21 +326,41 @@ export default function InstructorDashboard() {
                 Manage your classes and track student progress
               </p>
             </div>
-            <Button
-              variant="secondary"
-              size="lg"
-              onClick={() => logoutMutation.mutate()}
-              disabled={logoutMutation.isPending}
-              aria-label="Sign out of your account"
-              className="shadow-lg"
-            >
-              {logoutMutation.isPending ? (
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              ) : (
-                <LogOut className="mr-2 h-4 w-4" />
-              )}
-              Sign Out
-            </Button>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="secondary"
+                size="lg"
+                onClick={() => setLocation("/instructor/grading-queue")}
+                className="shadow-lg"
+              >
+                <ListChecks className="mr-2 h-4 w-4" />
+                To Grade
+              </Button>
+              <Button
+                variant="secondary"
+                size="lg"
+                onClick={() => setLocation("/calendar")}
+                className="shadow-lg"
+              >
+                <CalendarDays className="mr-2 h-4 w-4" />
+                Calendar
+              </Button>
+              <Button
+                variant="secondary"
+                size="lg"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                aria-label="Sign out of your account"
+                className="shadow-lg"
+              >
+                {logoutMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <LogOut className="mr-2 h-4 w-4" />
+                )}
+                Sign Out
+              </Button>
+            </div>
           </div>
 
           {/* Stats cards */}
@@ -382,6 +409,31 @@ export default function InstructorDashboard() {
             <PasswordResetNotifications />
           </section>
 
+          {/* Contract Change Requests */}
+          <section aria-labelledby="contract-change-requests-heading" className="animate-slide-up">
+            <ContractChangeRequests />
+          </section>
+
+          {/* Student Submissions Awaiting Review */}
+          <section aria-labelledby="submissions-awaiting-review-heading" className="animate-slide-up">
+            <SubmissionsAwaitingReview />
+          </section>
+
+          {/* Token Spend Requests */}
+          <section aria-labelledby="token-requests-heading" className="animate-slide-up">
+            <TokenRequests />
+          </section>
+
+          {/* Absence Excuse Requests */}
+          <section aria-labelledby="excuse-requests-heading" className="animate-slide-up">
+            <ExcuseRequests />
+          </section>
+
+          {/* Contract Downgrade Warnings */}
+          <section aria-labelledby="contract-warnings-heading" className="animate-slide-up">
+            <ContractWarnings />
+          </section>
+
           {/* Active Classes Section */}
           <section aria-labelledby="classes-heading" className="animate-slide-up">
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
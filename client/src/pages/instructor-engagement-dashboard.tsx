@@ -1,7 +1,9 @@
 import { useAuth } from "@/hooks/use-auth";
 import { useParams, useLocation } from "wouter";
-import { useQuery } from "@tanstack/react-query";
-import { Class, EngagementIntention, User } from "@shared/schema";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Class, EngagementIntention, EngagementPrompt, User, MAX_ENGAGEMENT_SUGGESTIONS } from "@shared/schema";
+import { parseDateKey, type ClassScheduleSummary, type ScheduleWeek } from "@shared/class-schedule";
+import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -17,19 +19,23 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  EngagementRubricFields,
+  ReviewEngagementIntentionDialog,
+} from "@/components/dialogs/review-engagement-intention-dialog";
+import {
+  countAcceptedIntentions,
+  ENGAGEMENT_REVIEW_STATUS_LABELS,
+  type EngagementReviewDecision,
+  type EngagementRubricScores,
+} from "@shared/engagement-review";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, ArrowLeft, Users, Target, TrendingUp, Calendar, CheckCircle2, XCircle } from "lucide-react";
-import { useState } from "react";
-
-// Get current week number based on semester start
-const getCurrentWeekNumber = (semesterStartDate?: string): number => {
-  const today = new Date();
-  // Default to August 25, 2025 if no semester start date provided
-  const semesterStart = semesterStartDate ? new Date(semesterStartDate) : new Date('2025-08-25');
-  const diffTime = today.getTime() - semesterStart.getTime();
-  const diffWeeks = Math.ceil(diffTime / (1000 * 60 * 60 * 24 * 7));
-  return Math.max(1, Math.min(15, diffWeeks));
-};
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2, ArrowLeft, Users, Target, TrendingUp, Calendar, CheckCircle2, XCircle, Lightbulb, Plus, X, ClipboardCheck } from "lucide-react";
+import { useEffect, useState } from "react";
 
 interface StudentEngagementData {
   student: User;
@@ -39,6 +45,326 @@ interface StudentEngagementData {
   fulfillmentRate: number;
 }
 
+interface WeeklyPromptEditorProps {
+  classId: number;
+  weeks: ScheduleWeek[];
+  currentWeek: number | null;
+}
+
+// Lets the instructor give each week a prompt and a menu of suggested activities
+function WeeklyPromptEditor({ classId, weeks, currentWeek }: WeeklyPromptEditorProps) {
+  const [weekNumber, setWeekNumber] = useState<number>(currentWeek ?? weeks[0]?.weekNumber ?? 1);
+  const [prompt, setPrompt] = useState("");
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [newSuggestion, setNewSuggestion] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const promptsKey = `/api/classes/${classId}/engagement-prompts`;
+  const { data: prompts } = useQuery<EngagementPrompt[]>({
+    queryKey: [promptsKey],
+  });
+  const saved = prompts?.find((p) => p.weekNumber === weekNumber);
+
+  // Load the saved prompt whenever the week changes
+  useEffect(() => {
+    setPrompt(saved?.prompt ?? "");
+    setSuggestions(saved?.suggestions ?? []);
+    setNewSuggestion("");
+  }, [weekNumber, saved]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `${promptsKey}/${weekNumber}`, { prompt, suggestions });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [promptsKey] });
+      toast({
+        title: "Success",
+        description: `Week ${weekNumber} prompt saved`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addSuggestion = () => {
+    const suggestion = newSuggestion.trim();
+    if (!suggestion || suggestions.includes(suggestion)) return;
+    setSuggestions([...suggestions, suggestion]);
+    setNewSuggestion("");
+  };
+
+  const isFull = suggestions.length >= MAX_ENGAGEMENT_SUGGESTIONS;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lightbulb className="h-5 w-5" />
+          Weekly Prompts
+        </CardTitle>
+        <CardDescription>
+          Students see the prompt when they set their intention, and can pick a suggested activity instead of writing their own.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-4">
+          <label htmlFor="prompt-week-select" className="text-sm font-medium">
+            Week:
+          </label>
+          <Select value={weekNumber.toString()} onValueChange={(value) => setWeekNumber(parseInt(value))}>
+            <SelectTrigger id="prompt-week-select" className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {weeks.map(week => (
+                <SelectItem key={week.weekNumber} value={week.weekNumber.toString()}>
+                  Week {week.weekNumber} ({format(parseDateKey(week.start), "MMM d")})
+                  {prompts?.some((p) => p.weekNumber === week.weekNumber) ? " (Prompt set)" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <label htmlFor="engagement-prompt" className="text-sm font-medium">
+            Prompt (Optional)
+          </label>
+          <Textarea
+            id="engagement-prompt"
+            placeholder="e.g. This week, try to connect the reading to something outside class."
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            className="mt-1"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="engagement-suggestion" className="text-sm font-medium">
+            Suggested Activities
+          </label>
+          {suggestions.length > 0 && (
+            <ul className="space-y-1">
+              {suggestions.map((suggestion) => (
+                <li key={suggestion} className="flex items-center justify-between gap-2 rounded-md bg-gray-50 px-3 py-2 text-sm">
+                  <span>{suggestion}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    aria-label={`Remove ${suggestion}`}
+                    onClick={() => setSuggestions(suggestions.filter((s) => s !== suggestion))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              addSuggestion();
+            }}
+          >
+            <Input
+              id="engagement-suggestion"
+              placeholder={isFull ? `Up to ${MAX_ENGAGEMENT_SUGGESTIONS} suggestions` : "e.g. Attend office hours"}
+              value={newSuggestion}
+              maxLength={200}
+              disabled={isFull}
+              onChange={(e) => setNewSuggestion(e.target.value)}
+            />
+            <Button type="submit" variant="outline" disabled={isFull || !newSuggestion.trim()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </form>
+        </div>
+
+        <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+          {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Week {weekNumber}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface EngagementReviewQueueProps {
+  classId: number;
+  submissions: EngagementIntention[];
+  students: User[];
+}
+
+// Submitted intentions waiting on a decision, reviewed one at a time or in bulk
+function EngagementReviewQueue({ classId, submissions, students }: EngagementReviewQueueProps) {
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [scores, setScores] = useState<EngagementRubricScores>({});
+  const [feedback, setFeedback] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Drop selections that were reviewed elsewhere or filtered out
+  useEffect(() => {
+    setSelected((current) => {
+      const kept = Array.from(current).filter((id) => submissions.some((i) => i.id === id));
+      return kept.length === current.size ? current : new Set(kept);
+    });
+  }, [submissions]);
+
+  const reviewMutation = useMutation({
+    mutationFn: async (decision: EngagementReviewDecision) => {
+      const reviews = Array.from(selected).map((intentionId) => ({
+        intentionId,
+        decision,
+        rubricScores: scores,
+        feedback: feedback.trim() || undefined,
+      }));
+      const res = await apiRequest("POST", `/api/classes/${classId}/engagement-intentions/review`, { reviews });
+      return (await res.json()) as EngagementIntention[];
+    },
+    onSuccess: (reviewed, decision) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/classes/${classId}/engagement-intentions`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/grading-queue"] });
+      setSelected(new Set());
+      setScores({});
+      setFeedback("");
+      toast({
+        title: "Success",
+        description: `${reviewed.length} ${reviewed.length === 1 ? "intention" : "intentions"} marked ${ENGAGEMENT_REVIEW_STATUS_LABELS[decision].toLowerCase()}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const allSelected = submissions.length > 0 && selected.size === submissions.length;
+  const toggle = (id: number, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(id);
+    else next.delete(id);
+    setSelected(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Awaiting Review ({submissions.length})
+        </CardTitle>
+        <CardDescription>
+          Only accepted intentions count toward a student's contract.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {submissions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No submissions are waiting on you.</p>
+        ) : (
+          <>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="select-all-submissions"
+                checked={allSelected}
+                onCheckedChange={(checked) =>
+                  setSelected(checked === true ? new Set(submissions.map((i) => i.id)) : new Set())
+                }
+              />
+              <label htmlFor="select-all-submissions" className="text-sm font-medium">
+                Select all
+              </label>
+            </div>
+
+            <ul className="divide-y border rounded-md">
+              {submissions.map((intention) => {
+                const studentName = students.find((s) => s.id === intention.studentId)?.fullName ?? "Unknown student";
+                return (
+                  <li key={intention.id} className="flex items-start gap-3 p-3">
+                    <Checkbox
+                      className="mt-1"
+                      aria-label={`Select week ${intention.weekNumber} for ${studentName}`}
+                      checked={selected.has(intention.id)}
+                      onCheckedChange={(checked) => toggle(intention.id, checked === true)}
+                    />
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="text-sm font-medium">
+                        {studentName} · Week {intention.weekNumber}
+                      </div>
+                      <div className="text-sm text-muted-foreground">{intention.intentionText}</div>
+                      {intention.reflection && (
+                        <div className="text-sm whitespace-pre-wrap">{intention.reflection}</div>
+                      )}
+                      {intention.evidenceUrl && (
+                        <a
+                          href={intention.evidenceUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-sm text-[#0072BC] underline break-all"
+                        >
+                          {intention.evidenceUrl}
+                        </a>
+                      )}
+                    </div>
+                    <ReviewEngagementIntentionDialog intention={intention} studentName={studentName} />
+                  </li>
+                );
+              })}
+            </ul>
+
+            {selected.size > 0 && (
+              <div className="space-y-3 rounded-md border p-4 bg-gray-50">
+                <p className="text-sm font-medium">
+                  Review {selected.size} selected {selected.size === 1 ? "intention" : "intentions"}
+                </p>
+                <EngagementRubricFields idPrefix="bulk-rubric" scores={scores} onChange={setScores} />
+                <Textarea
+                  aria-label="Feedback for the selected students"
+                  placeholder="Optional note shown to each selected student"
+                  value={feedback}
+                  onChange={(e) => setFeedback(e.target.value)}
+                />
+                <div className="flex flex-wrap gap-2">
+                  <Button onClick={() => reviewMutation.mutate("accepted")} disabled={reviewMutation.isPending}>
+                    Accept
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => reviewMutation.mutate("needs_more")}
+                    disabled={reviewMutation.isPending}
+                  >
+                    Ask for More
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => reviewMutation.mutate("rejected")}
+                    disabled={reviewMutation.isPending}
+                  >
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function InstructorEngagementDashboard() {
   const { user } = useAuth();
   const params = useParams<{ classId: string }>();
@@ -64,9 +390,16 @@ export default function InstructorEngagementDashboard() {
     enabled: !isNaN(parsedClassId) && !!user,
   });
 
-  const currentWeek = getCurrentWeekNumber(classData?.semesterStartDate ?? undefined);
+  // Week numbers and dates come from the class schedule
+  const { data: schedule, isLoading: isLoadingSchedule } = useQuery<ClassScheduleSummary>({
+    queryKey: [`/api/classes/${parsedClassId}/schedule`],
+    enabled: !isNaN(parsedClassId) && !!user,
+  });
+
+  const weeks = schedule?.weeks ?? [];
+  const currentWeek = schedule?.currentWeek ?? null;
 
-  const isLoading = isLoadingClass || isLoadingIntentions || isLoadingStudents;
+  const isLoading = isLoadingClass || isLoadingIntentions || isLoadingStudents || isLoadingSchedule;
 
   if (isLoading) {
     return (
@@ -94,14 +427,14 @@ export default function InstructorEngagementDashboard() {
   // Process student engagement data
   const studentEngagementData: StudentEngagementData[] = enrolledStudents.map(student => {
     const studentIntentions = (allIntentions || []).filter(intention => intention.studentId === student.id);
-    const fulfilledIntentions = studentIntentions.filter(intention => intention.isFulfilled);
+    const fulfilledIntentions = countAcceptedIntentions(studentIntentions);
     
     return {
       student,
       intentions: studentIntentions,
       totalIntentions: studentIntentions.length,
-      fulfilledIntentions: fulfilledIntentions.length,
-      fulfillmentRate: studentIntentions.length > 0 ? (fulfilledIntentions.length / studentIntentions.length) * 100 : 0,
+      fulfilledIntentions,
+      fulfillmentRate: studentIntentions.length > 0 ? (fulfilledIntentions / studentIntentions.length) * 100 : 0,
     };
   });
 
@@ -110,12 +443,14 @@ export default function InstructorEngagementDashboard() {
     ? (allIntentions || [])
     : (allIntentions || []).filter(intention => intention.weekNumber === parseInt(selectedWeek));
 
+  const submissions = filteredIntentions.filter(intention => intention.reviewStatus === "submitted");
+
   // Calculate overall metrics
   const overallMetrics = {
     totalStudents: enrolledStudents.length,
     studentsWithIntentions: studentEngagementData.filter(s => s.totalIntentions > 0).length,
     totalIntentions: (allIntentions || []).length,
-    fulfilledIntentions: (allIntentions || []).filter(i => i.isFulfilled).length,
+    fulfilledIntentions: countAcceptedIntentions(allIntentions || []),
     averageFulfillmentRate: studentEngagementData.reduce((sum, s) => sum + s.fulfillmentRate, 0) / studentEngagementData.length,
     atRiskStudents: studentEngagementData.filter(s => s.fulfillmentRate < 50 && s.totalIntentions > 2).length,
   };
@@ -160,19 +495,25 @@ export default function InstructorEngagementDashboard() {
                 </CardTitle>
               </CardHeader>
               <CardContent>
+                {weeks.length === 0 && (
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Set the semester start date in the class schedule to number the engagement weeks.
+                  </p>
+                )}
                 <div className="flex items-center gap-4">
                   <label htmlFor="week-select" className="text-sm font-medium">
                     View data for:
                   </label>
                   <Select value={selectedWeek} onValueChange={setSelectedWeek}>
-                    <SelectTrigger id="week-select" className="w-48">
+                    <SelectTrigger id="week-select" className="w-64">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Weeks</SelectItem>
-                      {Array.from({ length: 15 }, (_, i) => i + 1).map(week => (
-                        <SelectItem key={week} value={week.toString()}>
-                          Week {week} {week === currentWeek ? "(Current)" : ""}
+                      {weeks.map(week => (
+                        <SelectItem key={week.weekNumber} value={week.weekNumber.toString()}>
+                          Week {week.weekNumber} ({format(parseDateKey(week.start), "MMM d")})
+                          {week.weekNumber === currentWeek ? " (Current)" : ""}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -182,6 +523,18 @@ export default function InstructorEngagementDashboard() {
             </Card>
           </section>
 
+          {/* Weekly Prompts */}
+          {weeks.length > 0 && (
+            <section>
+              <WeeklyPromptEditor classId={parsedClassId} weeks={weeks} currentWeek={currentWeek} />
+            </section>
+          )}
+
+          {/* Review Queue */}
+          <section>
+            <EngagementReviewQueue classId={parsedClassId} submissions={submissions} students={enrolledStudents} />
+          </section>
+
           {/* Overall Metrics */}
           <section aria-labelledby="metrics-heading">
             <h2 id="metrics-heading" className="text-3xl font-bold mb-6">Class Engagement Overview</h2>
@@ -280,7 +633,7 @@ export default function InstructorEngagementDashboard() {
                         <CheckCircle2 className="h-5 w-5 text-green-500" />
                         <div>
                           <div className="font-semibold">{fulfilledIntentions}</div>
-                          <div className="text-sm text-muted-foreground">Fulfilled</div>
+                          <div className="text-sm text-muted-foreground">Accepted</div>
                         </div>
                       </div>
                       
@@ -288,7 +641,7 @@ export default function InstructorEngagementDashboard() {
                         <XCircle className="h-5 w-5 text-red-500" />
                         <div>
                           <div className="font-semibold">{totalIntentions - fulfilledIntentions}</div>
-                          <div className="text-sm text-muted-foreground">Not Fulfilled</div>
+                          <div className="text-sm text-muted-foreground">Not Yet Accepted</div>
                         </div>
                       </div>
                     </div>
@@ -304,7 +657,7 @@ export default function InstructorEngagementDashboard() {
                             .map(intention => (
                               <div key={intention.id} className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg">
                                 <div className="flex-shrink-0">
-                                  {intention.isFulfilled ? (
+                                  {intention.reviewStatus === "accepted" ? (
                                     <CheckCircle2 className="h-5 w-5 text-green-600" />
                                   ) : (
                                     <XCircle className="h-5 w-5 text-red-500" />
@@ -355,17 +708,17 @@ export default function InstructorEngagementDashboard() {
                                 <p className="text-sm text-muted-foreground">@{student.username}</p>
                               </div>
                               <div className="flex items-center gap-2">
-                                {intention.isFulfilled ? (
+                                {intention.reviewStatus === "accepted" ? (
                                   <CheckCircle2 className="h-5 w-5 text-green-600" />
                                 ) : (
                                   <XCircle className="h-5 w-5 text-red-500" />
                                 )}
                                 <span className={`px-2 py-1 text-xs font-medium rounded-full ${
-                                  intention.isFulfilled 
+                                  intention.reviewStatus === "accepted"
                                     ? "bg-green-100 text-green-800" 
                                     : "bg-red-100 text-red-800"
                                 }`}>
-                                  {intention.isFulfilled ? "Fulfilled" : "Not Fulfilled"}
+                                  {ENGAGEMENT_REVIEW_STATUS_LABELS[intention.reviewStatus]}
                                 </span>
                               </div>
                             </div>
@@ -375,6 +728,11 @@ export default function InstructorEngagementDashboard() {
                                 <strong>Notes:</strong> {intention.notes}
                               </p>
                             )}
+                            {intention.reflection && (
+                              <p className="text-sm text-muted-foreground">
+                                <strong>Reflection:</strong> {intention.reflection}
+                              </p>
+                            )}
                           </div>
                         ) : null;
                       })
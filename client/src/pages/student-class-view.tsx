@@ -1,12 +1,18 @@
+import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Class, Assignment, GradeContract, AssignmentProgress } from "@shared/schema";
+import { Class, Assignment, Category, GradeContract, AssignmentProgress, ContractChangeRequest } from "@shared/schema";
 
-type CategoryRequirement = { category: string; required: number };
+type CategoryRequirement = { categoryId: number; required: number };
 type GradeContractWithCategories = GradeContract & { categoryRequirements?: CategoryRequirement[] | null };
-import { AssignmentStatus } from "@shared/constants";
+import { getAssignmentStatusLabel, getGradeTiers, getStatusLevel, getStatusScale, sortByGradeTier, type StatusLevel } from "@shared/constants";
+import { isContractSelectionLocked } from "@shared/contract-deadline";
+import { latestContractsByGrade, type ContractEvaluation, type ContractStanding } from "@shared/contract-evaluation";
+import { groupByCategory } from "@shared/categories";
+import { getAvailability } from "@shared/late-policy";
 import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import {
   Card,
   CardContent,
@@ -22,9 +28,17 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, CheckCircle2, XCircle, Circle, ArrowLeft, Target, AlertTriangle } from "lucide-react";
+import { Loader2, CheckCircle2, XCircle, Circle, ArrowLeft, Target, AlertTriangle, Clock, Lock } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { RichTextEditor } from "@/components/ui/rich-text-editor";
+import { Badge } from "@/components/ui/badge";
+import { RequestContractChangeDialog } from "@/components/dialogs/request-contract-change-dialog";
+import { RequestTokenSpendDialog } from "@/components/dialogs/request-token-spend-dialog";
+import { RequestAbsenceExcuseDialog } from "@/components/dialogs/request-absence-excuse-dialog";
+import { SubmitAssignmentDialog } from "@/components/dialogs/submit-assignment-dialog";
+import { TokenLedger } from "@/components/student/TokenLedger";
+import { CheckInCard } from "@/components/student/CheckInCard";
+import type { TokenAccount } from "@shared/tokens";
 
 interface StudentContract {
   contractId: number | null;
@@ -38,6 +52,13 @@ export default function StudentClassView() {
   const queryClient = useQueryClient();
   const [, setLocation] = useLocation();
   const parsedClassId = parseInt(params.classId);
+  const [now, setNow] = useState(() => new Date());
+
+  // Tick the contract deadline countdown
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, []);
 
   // Fetch class details
   const { data: classData, isLoading: isLoadingClass } = useQuery<Class>({
@@ -63,22 +84,43 @@ export default function StudentClassView() {
     enabled: !isNaN(parsedClassId) && !!studentContract?.contractId,
   });
 
+  // Fetch the categories assignments are grouped under
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: [`/api/classes/${parsedClassId}/categories`],
+    enabled: !isNaN(parsedClassId) && !!studentContract?.contractId,
+  });
+
   // Fetch student's progress only if we have assignments
   const { data: studentProgress, isLoading: isLoadingProgress } = useQuery<AssignmentProgress[]>({
     queryKey: [`/api/classes/${parsedClassId}/students/${user?.id}/progress`],
     enabled: !isNaN(parsedClassId) && !!assignments && !!user,
   });
 
-  // Fetch student's engagement intentions for this class
-  const { data: engagementIntentions } = useQuery({
-    queryKey: [`/api/classes/${parsedClassId}/students/${user?.id}/engagement-intentions`],
-    enabled: !isNaN(parsedClassId) && !!user,
+  // Fetch the server-side evaluation of the selected contract
+  const { data: evaluation } = useQuery<ContractEvaluation | null>({
+    queryKey: [`/api/classes/${parsedClassId}/students/${user?.id}/contract-evaluation`],
+    enabled: !isNaN(parsedClassId) && !!user && !!studentContract?.contractId,
   });
 
-  // Fetch student's attendance records for this class
-  const { data: attendanceRecords } = useQuery({
-    queryKey: [`/api/classes/${parsedClassId}/students/${user?.id}/attendance`],
-    enabled: !isNaN(parsedClassId) && !!user,
+  // Fetch the highest grade currently earned and any downgrade warning
+  const { data: standing } = useQuery<ContractStanding>({
+    queryKey: [`/api/classes/${parsedClassId}/students/${user?.id}/contract-standing`],
+    enabled: !isNaN(parsedClassId) && !!user && !!studentContract?.contractId,
+  });
+
+  // Fetch the student's token balance and ledger
+  const { data: tokenAccount } = useQuery<TokenAccount>({
+    queryKey: [`/api/classes/${parsedClassId}/students/${user?.id}/tokens`],
+    enabled: !isNaN(parsedClassId) && !!user && !!studentContract?.contractId,
+  });
+
+  const selectionLocked = !!classData && isContractSelectionLocked(classData, now);
+  const statusScale = getStatusScale(classData);
+
+  // Fetch this student's contract change requests
+  const { data: changeRequests = [] } = useQuery<ContractChangeRequest[]>({
+    queryKey: [`/api/classes/${parsedClassId}/contract-change-requests`],
+    enabled: !isNaN(parsedClassId) && (!!studentContract?.isConfirmed || selectionLocked),
   });
 
   const selectContractMutation = useMutation({
@@ -94,6 +136,12 @@ export default function StudentClassView() {
       queryClient.invalidateQueries({
         queryKey: [`/api/classes/${parsedClassId}/students/${user?.id}/contract`],
       });
+      queryClient.invalidateQueries({
+        queryKey: [`/api/classes/${parsedClassId}/students/${user?.id}/contract-evaluation`],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [`/api/classes/${parsedClassId}/students/${user?.id}/contract-standing`],
+      });
       toast({
         title: "Success",
         description: "Grade contract selected",
@@ -121,6 +169,9 @@ export default function StudentClassView() {
       queryClient.invalidateQueries({
         queryKey: [`/api/classes/${parsedClassId}/students/${user?.id}/contract`],
       });
+      queryClient.invalidateQueries({
+        queryKey: [`/api/classes/${parsedClassId}/students/${user?.id}/contract-standing`],
+      });
       toast({
         title: "Success",
         description: "Grade contract confirmed",
@@ -206,6 +257,8 @@ export default function StudentClassView() {
 
       <main id="main-content" className="container mx-auto py-8" role="main">
         <div className="space-y-8">
+          <CheckInCard classId={parsedClassId} />
+
           {/* Class Description */}
           {classData.description && (
             <section aria-labelledby="course-info-heading">
@@ -235,44 +288,166 @@ export default function StudentClassView() {
                     </span>
                   )}
                 </CardDescription>
+                {classData.contractDeadline && (
+                  <p
+                    className={`flex items-center gap-1.5 text-sm ${selectionLocked ? "text-muted-foreground" : "text-amber-700"}`}
+                    role="timer"
+                    aria-live="off"
+                  >
+                    {selectionLocked ? (
+                      <>
+                        <Lock className="h-4 w-4" aria-hidden="true" />
+                        Contract selection closed on {formatDeadline(classData.contractDeadline)}
+                      </>
+                    ) : (
+                      <>
+                        <Clock className="h-4 w-4" aria-hidden="true" />
+                        Contract selection closes in {formatTimeRemaining(new Date(classData.contractDeadline).getTime() - now.getTime())}
+                        {" "}({formatDeadline(classData.contractDeadline)})
+                      </>
+                    )}
+                  </p>
+                )}
               </CardHeader>
             <CardContent className="space-y-4">
               <div>
                 <Select
                   value={studentContract?.contractId?.toString()}
                   onValueChange={(value) => selectContractMutation.mutate(parseInt(value))}
-                  disabled={studentContract?.isConfirmed}
+                  disabled={studentContract?.isConfirmed || selectionLocked}
                 >
                   <SelectTrigger>
                     <SelectValue placeholder="Select a grade contract" />
                   </SelectTrigger>
                   <SelectContent>
-                    {contracts
-                      .reduce((latest, contract) => {
-                        const existing = latest.find(c => c.grade === contract.grade);
-                        if (!existing || existing.version < contract.version) {
-                          return [...latest.filter(c => c.grade !== contract.grade), contract];
-                        }
-                        return latest;
-                      }, [] as typeof contracts)
-                      .sort((a, b) => a.grade.localeCompare(b.grade))
-                      .map((contract) => (
-                        <SelectItem key={contract.id} value={contract.id.toString()}>
-                          Grade {contract.grade}
-                        </SelectItem>
-                      ))}
+                    {sortByGradeTier(
+                      // Keep showing the version the student is on, even if a newer one exists
+                      latestContractsByGrade(contracts).map(contract =>
+                        currentContract && contract.grade === currentContract.grade ? currentContract : contract
+                      ),
+                      getGradeTiers(classData)
+                    ).map((contract) => (
+                      <SelectItem key={contract.id} value={contract.id.toString()}>
+                        Grade {contract.grade}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
 
+              {(studentContract?.isConfirmed || selectionLocked) && currentContract && (
+                <div className="space-y-3">
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                    <p className="text-sm text-muted-foreground">
+                      {changeRequests.some(r => r.status === "pending")
+                        ? "Your contract change request is waiting for instructor review."
+                        : "Need to move to a different contract? Ask your instructor."}
+                    </p>
+                    <RequestContractChangeDialog
+                      classId={parsedClassId}
+                      currentContract={currentContract}
+                      contracts={contracts}
+                      gradeTiers={getGradeTiers(classData)}
+                      disabled={changeRequests.some(r => r.status === "pending")}
+                    />
+                  </div>
+
+                  {changeRequests.length > 0 && (
+                    <ul className="space-y-2" aria-label="Contract change request history">
+                      {changeRequests.map((request) => (
+                        <li key={request.id} className="border rounded-md p-3 text-sm">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="font-medium">
+                              Grade {contracts.find(c => c.id === request.fromContractId)?.grade ?? "?"}
+                              {" → "}
+                              Grade {contracts.find(c => c.id === request.toContractId)?.grade ?? "?"}
+                            </span>
+                            <Badge
+                              variant={request.status === "denied" ? "destructive" : request.status === "approved" ? "default" : "secondary"}
+                            >
+                              {request.status === "pending" ? "Pending" : request.status === "approved" ? "Approved" : "Denied"}
+                            </Badge>
+                          </div>
+                          <p className="text-muted-foreground mt-1">{request.reason}</p>
+                          {request.instructorResponse && (
+                            <p className="mt-1">
+                              <span className="font-medium">Instructor: </span>
+                              {request.instructorResponse}
+                            </p>
+                          )}
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Requested {new Date(request.createdAt).toLocaleDateString()}
+                          </p>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
               {currentContract && (
                 <Card>
                   <CardHeader>
                     <CardTitle className="text-lg">
                       Current Contract: Grade {currentContract.grade}
+                      {currentContract.version > 1 && (
+                        <span className="ml-2 text-sm font-normal text-muted-foreground">
+                          Version {currentContract.version}
+                        </span>
+                      )}
                     </CardTitle>
+                    {studentContract?.isConfirmed &&
+                      contracts.some(c => c.grade === currentContract.grade && c.version > currentContract.version) && (
+                      <CardDescription>
+                        Your instructor has published a newer version of this contract. You remain on the
+                        version you confirmed unless your instructor moves you.
+                      </CardDescription>
+                    )}
+                    {evaluation && (
+                      <CardDescription
+                        className={`flex items-center gap-1.5 text-base ${evaluation.isMet ? "text-green-700" : "text-amber-700"}`}
+                        role="status"
+                      >
+                        {evaluation.isMet ? (
+                          <CheckCircle2 className="h-4 w-4" aria-hidden="true" />
+                        ) : (
+                          <AlertTriangle className="h-4 w-4" aria-hidden="true" />
+                        )}
+                        {evaluation.isMet
+                          ? "You currently meet all requirements for this contract"
+                          : "You do not yet meet all requirements for this contract"}
+                      </CardDescription>
+                    )}
+                    {standing && (
+                      <p className="text-sm text-muted-foreground" role="status">
+                        Highest grade currently earned:{" "}
+                        <span className="font-semibold text-foreground">
+                          {standing.earnedGrade ? `Grade ${standing.earnedGrade}` : "None yet"}
+                        </span>
+                      </p>
+                    )}
                   </CardHeader>
                   <CardContent className="space-y-4">
+                    {standing?.warning && (
+                      <Alert variant="destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        <AlertTitle>
+                          Grade {standing.warning.fromGrade} is no longer attainable
+                        </AlertTitle>
+                        <AlertDescription>
+                          <ul className="list-disc list-inside">
+                            {standing.warning.reasons.map((reason) => (
+                              <li key={reason}>{reason}</li>
+                            ))}
+                          </ul>
+                          <p className="mt-1">
+                            {standing.warning.toGrade
+                              ? `If nothing else changes, your grade will fall to Grade ${standing.warning.toGrade}. Talk to your instructor about your options.`
+                              : "None of the offered contracts can still be met. Talk to your instructor about your options."}
+                          </p>
+                        </AlertDescription>
+                      </Alert>
+                    )}
                     {/* Engagement Intentions Requirements */}
                     {(currentContract.requiredEngagementIntentions || 0) > 0 && (
                       <div className="border-l-4 border-[#0072BC] pl-4 mb-6">
@@ -280,7 +455,7 @@ export default function StudentClassView() {
                         <div className="flex items-center space-x-4">
                           <div className="text-sm">
                             <span className="font-medium">
-                              {Array.isArray(engagementIntentions) ? engagementIntentions.filter((intention: any) => intention.isFulfilled).length : 0}
+                              {evaluation?.engagement.current ?? 0}
                             </span>
                             <span className="text-muted-foreground"> / </span>
                             <span className="font-medium">{currentContract.requiredEngagementIntentions || 0}</span>
@@ -291,7 +466,7 @@ export default function StudentClassView() {
                               <div 
                                 className="bg-[#0072BC] h-2 rounded-full transition-all duration-300"
                                 style={{ 
-                                  width: `${Math.min(100, (Array.isArray(engagementIntentions) ? engagementIntentions.filter((intention: any) => intention.isFulfilled).length : 0) / (currentContract.requiredEngagementIntentions || 1) * 100)}%` 
+                                  width: `${Math.min(100, (evaluation?.engagement.current ?? 0) / (currentContract.requiredEngagementIntentions || 1) * 100)}%` 
                                 }}
                               />
                             </div>
@@ -307,7 +482,7 @@ export default function StudentClassView() {
                         <div className="flex items-center space-x-4">
                           <div className="text-sm">
                             <span className="font-medium">
-                              {Array.isArray(attendanceRecords) ? attendanceRecords.filter((record: any) => !record.isPresent).length : 0}
+                              {evaluation?.absences.current ?? 0}
                             </span>
                             <span className="text-muted-foreground"> / </span>
                             <span className="font-medium">{currentContract.maxAbsences || 0}</span>
@@ -318,15 +493,34 @@ export default function StudentClassView() {
                               <div 
                                 className="h-2 rounded-full transition-all duration-300 bg-red-600"
                                 style={{ 
-                                  width: `${Math.min(100, (Array.isArray(attendanceRecords) ? attendanceRecords.filter((record: any) => !record.isPresent).length : 0) / Math.max(1, currentContract.maxAbsences || 1) * 100)}%` 
+                                  width: `${Math.min(100, (evaluation?.absences.current ?? 0) / Math.max(1, currentContract.maxAbsences || 1) * 100)}%` 
                                 }}
                               />
                             </div>
                           </div>
+                          {user && <RequestAbsenceExcuseDialog classId={parsedClassId} studentId={user.id} />}
                         </div>
                       </div>
                     )}
 
+                    {/* Tokens */}
+                    {user && tokenAccount &&
+                      (tokenAccount.balance.allowance + tokenAccount.balance.granted > 0 || tokenAccount.transactions.length > 0) && (
+                      <TokenLedger
+                        classId={parsedClassId}
+                        studentId={user.id}
+                        action={
+                          <RequestTokenSpendDialog
+                            classId={parsedClassId}
+                            studentId={user.id}
+                            account={tokenAccount}
+                            assignments={assignments ?? []}
+                            progress={studentProgress ?? []}
+                          />
+                        }
+                      />
+                    )}
+
                     {isLoadingAssignments ? (
                       <div className="flex justify-center py-8">
                         <Loader2 className="h-8 w-8 animate-spin text-border" />
@@ -334,22 +528,21 @@ export default function StudentClassView() {
                     ) : assignments ? (
                       <div className="space-y-8">
                         <h3 className="text-2xl font-bold">Required Assignments</h3>
-                        {Object.entries(
-                          currentContract.assignments.reduce((groups, req) => {
+                        {groupByCategory(
+                          currentContract.assignments.flatMap((req) => {
                             const assignment = assignments.find(a => a.id === req.id);
-                            if (!assignment) return groups;
-                            const group = assignment.moduleGroup || 'Uncategorized';
-                            return {
-                              ...groups,
-                              [group]: [...(groups[group] || []), { assignment, req }]
-                            };
-                          }, {} as Record<string, { assignment: Assignment; req: { id: number; comments?: string; minPoints?: number } }[]>)
-                        ).map(([group, groupAssignments]) => {
+                            return assignment ? [{ assignment, req }] : [];
+                          }),
+                          categories,
+                          (item) => item.assignment
+                        ).map(({ category, name: group, color: groupColor, items: groupAssignments }) => {
+                          const groupKey = category?.id ?? "uncategorized";
+                          const description = categories.find(c => c.id === category?.id)?.description;
                           // Calculate group progress statistics
                           const groupStats = groupAssignments.reduce(
                             (stats, { assignment }) => {
                               const progress = studentProgress?.find(p => p.assignmentId === assignment.id);
-                              const status = getAssignmentStatus(assignment, progress);
+                              const status = getAssignmentStatus(assignment, progress, statusScale);
                               if (status === "completed") stats.completed++;
                               else if (status === "in-progress") stats.inProgress++;
                               else stats.notSubmitted++;
@@ -360,22 +553,26 @@ export default function StudentClassView() {
                           const totalInGroup = groupAssignments.length;
 
                           // Check if there's a category requirement for this group
-                          const categoryReq = currentContract.categoryRequirements?.find(cr => cr.category === group);
-                          const requiredCount = categoryReq?.required || totalInGroup;
-                          const categoryMet = groupStats.completed >= requiredCount;
+                          const categoryReq = category
+                            ? currentContract.categoryRequirements?.find(cr => cr.categoryId === category.id)
+                            : undefined;
+                          const categoryVerdict = evaluation?.categories.find(c => c.categoryId === (category?.id ?? null));
+                          const requiredCount = categoryVerdict?.required ?? (categoryReq?.required || totalInGroup);
+                          const categoryMet = categoryVerdict?.isMet ?? groupStats.completed >= requiredCount;
 
                           return (
-                          <div key={group} className="space-y-4" role="region" aria-labelledby={`group-${group}`}>
+                          <div key={groupKey} className="space-y-4" role="region" aria-labelledby={`group-${groupKey}`}>
                             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
                               <div className="flex items-center gap-2">
-                                <h4 id={`group-${group}`} className="font-bold text-xl text-[#0072BC]">{group}</h4>
+                                <span className="h-3 w-3 rounded-full" style={{ backgroundColor: groupColor }} aria-hidden="true" />
+                                <h4 id={`group-${groupKey}`} className="font-bold text-xl text-[#0072BC]">{group}</h4>
                                 {categoryReq && (
                                   <span className={`text-sm px-2 py-0.5 rounded-full ${
                                     categoryMet
                                       ? "bg-green-100 text-green-700"
                                       : "bg-amber-100 text-amber-700"
                                   }`}>
-                                    {groupStats.completed}/{requiredCount} required
+                                    {categoryVerdict?.completed ?? groupStats.completed}/{requiredCount} required
                                   </span>
                                 )}
                               </div>
@@ -397,6 +594,9 @@ export default function StudentClassView() {
                                 </div>
                               </div>
                             </div>
+                            {description && (
+                              <p className="text-muted-foreground">{description}</p>
+                            )}
                             {/* Progress bar for the group */}
                             <div className="w-full bg-gray-200 rounded-full h-2.5">
                               <div className="flex h-2.5 rounded-full overflow-hidden">
@@ -415,8 +615,8 @@ export default function StudentClassView() {
                                 const progress = studentProgress?.find(
                                   p => p.assignmentId === assignment.id
                                 );
-                                const status = getAssignmentStatus(assignment, progress);
-                                const statusLabel = getStatusLabel(status, assignment, progress);
+                                const status = getAssignmentStatus(assignment, progress, statusScale);
+                                const statusLabel = getStatusLabel(status, assignment, progress, statusScale);
                                 
                                 if (assignment.name.toLowerCase().includes('autobiography')) {
                                   console.log(`Tech Autobiography Debug:`, {
@@ -430,6 +630,8 @@ export default function StudentClassView() {
                                 }
 
                                 const pastDue = isPastDue(assignment.dueDate) && status !== "completed";
+                                const availability = getAvailability(assignment);
+                                const lateNotCounted = !!progress?.isLate && currentContract.lateWorkCounts === false;
 
                                 return (
                                   <Card
@@ -473,6 +675,19 @@ export default function StudentClassView() {
                                               </span>
                                             </div>
                                           )}
+                                          {availability === "not_open" && assignment.opensAt && (
+                                            <p className="text-sm text-muted-foreground">
+                                              Opens {formatDeadline(assignment.opensAt)}
+                                            </p>
+                                          )}
+                                          {availability === "open" && assignment.closesAt && assignment.latePolicy === "reject" && (
+                                            <p className="text-sm text-muted-foreground">
+                                              Closes {formatDeadline(assignment.closesAt)}
+                                            </p>
+                                          )}
+                                          {availability === "closed" && (
+                                            <p className="text-sm text-muted-foreground">Closed to submissions</p>
+                                          )}
                                         </div>
                                         {assignment.scoringType === "status" && (
                                           <div className="flex-shrink-0 flex items-center gap-2">
@@ -491,7 +706,14 @@ export default function StudentClassView() {
                                                 status === "in-progress" ? "status-in-progress" :
                                                   "status-not-submitted"
                                             }`}>
-                                              {statusLabel}
+                                              <span className="flex items-center gap-2">
+                                                <span
+                                                  className="h-3 w-3 rounded-full"
+                                                  style={{ backgroundColor: getStatusLevel(progress?.status, statusScale).color }}
+                                                  aria-hidden="true"
+                                                />
+                                                {statusLabel}
+                                              </span>
                                             </div>
                                           ) : (
                                             <div className="space-y-2 w-full">
@@ -548,8 +770,36 @@ export default function StudentClassView() {
                                         {progress && progress.attempts && progress.attempts > 0 && (
                                           <p className="text-base text-muted-foreground">
                                             <span className="font-medium">Attempts:</span> {progress.attempts}
+                                            {assignment.attemptLimit && ` of ${assignment.attemptLimit}`}
                                           </p>
                                         )}
+                                        {progress?.feedback && (
+                                          <div className="text-base">
+                                            <p className="font-medium mb-1">Instructor Feedback</p>
+                                            <RichTextEditor value={progress.feedback} editable={false} />
+                                          </div>
+                                        )}
+                                        <div className="flex flex-wrap items-center justify-between gap-2">
+                                          <div className="flex flex-wrap gap-2">
+                                            {progress?.awaitingReview && (
+                                              <Badge variant="secondary" role="status">
+                                                Submitted – awaiting review
+                                              </Badge>
+                                            )}
+                                            {progress?.isLate && (
+                                              <Badge variant="outline" className="bg-orange-50 text-orange-700 border-orange-200">
+                                                {lateNotCounted ? "Late – doesn't count toward your contract" : "Late"}
+                                              </Badge>
+                                            )}
+                                          </div>
+                                          {user && !classData.isArchived && (
+                                            <SubmitAssignmentDialog
+                                              classId={parsedClassId}
+                                              studentId={user.id}
+                                              assignment={assignment}
+                                            />
+                                          )}
+                                        </div>
                                       </div>
                                     </CardContent>
                                   </Card>
@@ -565,7 +815,7 @@ export default function StudentClassView() {
                       </div>
                     )}
 
-                    {!studentContract?.isConfirmed && studentContract?.contractId && (
+                    {!studentContract?.isConfirmed && studentContract?.contractId && !selectionLocked && (
                       <Button
                         className="w-full mt-6"
                         onClick={() => confirmContractMutation.mutate()}
@@ -586,17 +836,16 @@ export default function StudentClassView() {
   );
 }
 
-const getAssignmentStatus = (assignment: Assignment, progress?: AssignmentProgress) => {
+const getAssignmentStatus = (assignment: Assignment, progress: AssignmentProgress | undefined, scale: readonly StatusLevel[]) => {
   if (!progress) {
     return "not-submitted";
   }
 
   if (assignment.scoringType === "status") {
-    switch (progress.status) {
-      case AssignmentStatus.EXCELLENT: return "completed";
-      case AssignmentStatus.COMPLETED: return "in-progress";
-      default: return "not-submitted";
-    }
+    const level = getStatusLevel(progress.status, scale);
+    if (level.isDone) return "completed";
+    if (level !== scale[0]) return "in-progress";
+    return "not-submitted";
   } else {
     if (!progress.numericGrade) return "not-submitted";
     return "completed";
@@ -616,7 +865,12 @@ const getStatusIcon = (status: string) => {
   }
 };
 
-const getStatusLabel = (status: string, assignment?: Assignment, progress?: AssignmentProgress) => {
+const getStatusLabel = (status: string, assignment: Assignment, progress: AssignmentProgress | undefined, scale: readonly StatusLevel[]) => {
+  // Status assignments use the class's own labels
+  if (assignment.scoringType === "status") {
+    return getAssignmentStatusLabel(progress?.status, scale);
+  }
+
   switch (status) {
     case "completed":
       return "Successfully Completed";
@@ -642,4 +896,24 @@ const formatDueDate = (dueDate: Date | string | null | undefined): string => {
   if (!dueDate) return "";
   const due = typeof dueDate === "string" ? new Date(dueDate) : dueDate;
   return due.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
-};
\ No newline at end of file
+};
+
+const formatDeadline = (deadline: Date | string): string => {
+  return new Date(deadline).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+};
+
+const formatTimeRemaining = (ms: number): string => {
+  const totalMinutes = Math.max(0, Math.floor(ms / 60000));
+  const days = Math.floor(totalMinutes / (60 * 24));
+  const hours = Math.floor((totalMinutes % (60 * 24)) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+};
@@ -10,7 +10,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Notebook, BookOpen, Target, ArrowRight, LogOut } from "lucide-react";
+import { Loader2, Notebook, BookOpen, Target, ArrowRight, LogOut, CalendarDays } from "lucide-react";
 import { useLocation } from "wouter";
 import { RichTextEditor } from "@/components/ui/rich-text-editor";
 
@@ -60,21 +60,32 @@ export default function StudentDashboard() {
                 View your classes and track your progress toward your grade goals
               </p>
             </div>
-            <Button
-              variant="secondary"
-              size="lg"
-              onClick={() => logoutMutation.mutate()}
-              disabled={logoutMutation.isPending}
-              aria-label="Sign out of your account"
-              className="shadow-lg"
-            >
-              {logoutMutation.isPending ? (
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              ) : (
-                <LogOut className="mr-2 h-4 w-4" />
-              )}
-              Sign Out
-            </Button>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="secondary"
+                size="lg"
+                onClick={() => setLocation("/calendar")}
+                className="shadow-lg"
+              >
+                <CalendarDays className="mr-2 h-4 w-4" />
+                Calendar
+              </Button>
+              <Button
+                variant="secondary"
+                size="lg"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                aria-label="Sign out of your account"
+                className="shadow-lg"
+              >
+                {logoutMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <LogOut className="mr-2 h-4 w-4" />
+                )}
+                Sign Out
+              </Button>
+            </div>
           </div>
 
           {/* Stats cards */}
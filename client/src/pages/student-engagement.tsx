@@ -1,7 +1,9 @@
 import { useAuth } from "@/hooks/use-auth";
 import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Class, EngagementIntention, InsertEngagementIntention } from "@shared/schema";
+import { Class, EngagementIntention, EngagementPrompt, InsertEngagementIntention } from "@shared/schema";
+import { addDays, parseDateKey, type ClassScheduleSummary, type ScheduleWeek } from "@shared/class-schedule";
+import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -20,34 +22,101 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
-import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, ArrowLeft, Plus, CheckCircle2, XCircle, Calendar, Archive, Target } from "lucide-react";
+import { Loader2, ArrowLeft, Plus, CheckCircle2, XCircle, Calendar, Archive, Target, Lightbulb, Clock, AlertCircle } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useState } from "react";
+import { SubmitEngagementFulfillmentDialog } from "@/components/dialogs/submit-engagement-fulfillment-dialog";
+import {
+  canEditIntention,
+  canSubmitFulfillment,
+  countAcceptedIntentions,
+  ENGAGEMENT_REVIEW_STATUS_LABELS,
+  ENGAGEMENT_RUBRIC,
+  ENGAGEMENT_RUBRIC_LEVELS,
+  type EngagementReviewStatus,
+} from "@shared/engagement-review";
+
+// e.g. "Sep 1 – Sep 7"
+const formatWeekRange = (week: ScheduleWeek): string =>
+  `${format(parseDateKey(week.start), "MMM d")} – ${format(addDays(parseDateKey(week.end), -1), "MMM d")}`;
 
-// Get current week number based on semester start
-const getCurrentWeekNumber = (semesterStartDate?: string): number => {
-  const today = new Date();
-  // Default to August 25, 2025 if no semester start date provided
-  const semesterStart = semesterStartDate ? new Date(semesterStartDate) : new Date('2025-08-25');
-  const diffTime = today.getTime() - semesterStart.getTime();
-  const diffWeeks = Math.ceil(diffTime / (1000 * 60 * 60 * 24 * 7));
-  return Math.max(1, Math.min(15, diffWeeks));
+const reviewStatusStyles: Record<EngagementReviewStatus, string> = {
+  open: "bg-gray-100 text-gray-800",
+  submitted: "bg-blue-100 text-blue-800",
+  accepted: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  needs_more: "bg-yellow-100 text-yellow-800",
 };
 
+function ReviewStatusIcon({ status }: { status: EngagementReviewStatus }) {
+  switch (status) {
+    case "accepted":
+      return <CheckCircle2 className="h-6 w-6 text-green-600" aria-hidden="true" />;
+    case "rejected":
+      return <XCircle className="h-6 w-6 text-red-500" aria-hidden="true" />;
+    case "submitted":
+      return <Clock className="h-6 w-6 text-blue-600" aria-hidden="true" />;
+    case "needs_more":
+      return <AlertCircle className="h-6 w-6 text-yellow-600" aria-hidden="true" />;
+    default:
+      return null;
+  }
+}
+
+interface PromptSuggestionsProps {
+  prompt: EngagementPrompt;
+  selected: string;
+  onSelect: (suggestion: string) => void;
+}
+
+// The instructor's prompt for the week, with suggestions that fill in the intention
+function PromptSuggestions({ prompt, selected, onSelect }: PromptSuggestionsProps) {
+  return (
+    <div className="space-y-2 rounded-md border border-blue-200 bg-blue-50/50 p-3">
+      {prompt.prompt && (
+        <p className="flex items-start gap-2 text-sm">
+          <Lightbulb className="h-4 w-4 mt-0.5 shrink-0 text-[#0072BC]" aria-hidden="true" />
+          <span className="whitespace-pre-wrap">{prompt.prompt}</span>
+        </p>
+      )}
+      {prompt.suggestions.length > 0 && (
+        <div>
+          <p className="text-sm font-medium mb-2">Pick a suggestion or write your own:</p>
+          <div className="flex flex-wrap gap-2">
+            {prompt.suggestions.map((suggestion) => (
+              <Button
+                key={suggestion}
+                type="button"
+                size="sm"
+                variant={selected === suggestion ? "default" : "outline"}
+                className="h-auto whitespace-normal text-left"
+                aria-pressed={selected === suggestion}
+                onClick={() => onSelect(suggestion)}
+              >
+                {suggestion}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 interface WeekIntentionCardProps {
-  weekNumber: number;
+  week: ScheduleWeek;
+  currentWeek: number;
   intention?: EngagementIntention;
+  prompt?: EngagementPrompt;
   isCurrentWeek: boolean;
   onUpdate: () => void;
-  semesterStartDate?: string;
 }
 
-function WeekIntentionCard({ weekNumber, intention, isCurrentWeek, onUpdate, semesterStartDate }: WeekIntentionCardProps) {
+function WeekIntentionCard({ week, currentWeek, intention, prompt, isCurrentWeek, onUpdate }: WeekIntentionCardProps) {
+  const { weekNumber } = week;
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [intentionText, setIntentionText] = useState(intention?.intentionText || "");
-  const [isFulfilled, setIsFulfilled] = useState(intention?.isFulfilled || false);
   const [notes, setNotes] = useState(intention?.notes || "");
   const { toast } = useToast();
   const { user } = useAuth();
@@ -85,7 +154,7 @@ function WeekIntentionCard({ weekNumber, intention, isCurrentWeek, onUpdate, sem
   });
 
   const updateMutation = useMutation({
-    mutationFn: async (updates: { intentionText?: string; isFulfilled?: boolean; notes?: string }) => {
+    mutationFn: async (updates: { intentionText?: string; notes?: string }) => {
       const res = await apiRequest(
         "PATCH",
         `/api/engagement-intentions/${intention?.id}`,
@@ -123,14 +192,12 @@ function WeekIntentionCard({ weekNumber, intention, isCurrentWeek, onUpdate, sem
     if (intention) {
       updateMutation.mutate({
         intentionText: intentionText.trim(),
-        isFulfilled,
         notes: notes.trim() || undefined,
       });
     } else {
       createMutation.mutate({
         weekNumber,
         intentionText: intentionText.trim(),
-        isFulfilled,
         notes: notes.trim() || undefined,
       });
     }
@@ -138,7 +205,6 @@ function WeekIntentionCard({ weekNumber, intention, isCurrentWeek, onUpdate, sem
 
   const handleOpenDialog = () => {
     setIntentionText(intention?.intentionText || "");
-    setIsFulfilled(intention?.isFulfilled || false);
     setNotes(intention?.notes || "");
     setIsDialogOpen(true);
   };
@@ -160,16 +226,19 @@ function WeekIntentionCard({ weekNumber, intention, isCurrentWeek, onUpdate, sem
           </CardTitle>
           {intention && (
             <div className="flex items-center gap-2">
-              {intention.isFulfilled ? (
-                <CheckCircle2 className="h-6 w-6 text-green-600" />
-              ) : (
-                <XCircle className="h-6 w-6 text-red-500" />
-              )}
+              <ReviewStatusIcon status={intention.reviewStatus} />
             </div>
           )}
         </div>
+        <CardDescription>{formatWeekRange(week)}</CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
+        {prompt?.prompt && (
+          <p className="flex items-start gap-2 text-sm text-muted-foreground">
+            <Lightbulb className="h-4 w-4 mt-0.5 shrink-0" aria-hidden="true" />
+            <span className="whitespace-pre-wrap">{prompt.prompt}</span>
+          </p>
+        )}
         {intention ? (
           <div className="space-y-3">
             <div>
@@ -178,13 +247,9 @@ function WeekIntentionCard({ weekNumber, intention, isCurrentWeek, onUpdate, sem
             </div>
             
             <div className="flex items-center gap-2">
-              <span className="text-sm font-semibold">Fulfilled:</span>
-              <span className={`px-2 py-1 text-sm font-medium rounded-full ${
-                intention.isFulfilled 
-                  ? "bg-green-100 text-green-800" 
-                  : "bg-red-100 text-red-800"
-              }`}>
-                {intention.isFulfilled ? "Yes" : "No"}
+              <span className="text-sm font-semibold">Status:</span>
+              <span className={`px-2 py-1 text-sm font-medium rounded-full ${reviewStatusStyles[intention.reviewStatus]}`}>
+                {ENGAGEMENT_REVIEW_STATUS_LABELS[intention.reviewStatus]}
               </span>
             </div>
 
@@ -195,13 +260,49 @@ function WeekIntentionCard({ weekNumber, intention, isCurrentWeek, onUpdate, sem
               </div>
             )}
 
+            {intention.reflection && (
+              <div>
+                <h4 className="font-semibold text-sm text-muted-foreground mb-1">Reflection:</h4>
+                <p className="text-base whitespace-pre-wrap">{intention.reflection}</p>
+                {intention.evidenceUrl && (
+                  <a
+                    href={intention.evidenceUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-[#0072BC] underline break-all"
+                  >
+                    {intention.evidenceUrl}
+                  </a>
+                )}
+              </div>
+            )}
+
+            {intention.reviewedAt && (
+              <div className="rounded-md border p-3 space-y-1">
+                <h4 className="font-semibold text-sm">Instructor Review</h4>
+                {ENGAGEMENT_RUBRIC.filter((c) => intention.rubricScores?.[c.key] !== undefined).map((criterion) => (
+                  <p key={criterion.key} className="text-sm">
+                    {criterion.label}:{" "}
+                    {ENGAGEMENT_RUBRIC_LEVELS.find((l) => l.value === intention.rubricScores?.[criterion.key])?.label}
+                  </p>
+                ))}
+                {intention.instructorFeedback && (
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">{intention.instructorFeedback}</p>
+                )}
+              </div>
+            )}
+
+            {canSubmitFulfillment(intention.reviewStatus) && weekNumber <= currentWeek && (
+              <SubmitEngagementFulfillmentDialog intention={intention} />
+            )}
+
             <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
               <DialogTrigger asChild>
                 <Button 
                   variant="outline" 
                   className="w-full"
                   onClick={handleOpenDialog}
-                  disabled={!isCurrentWeek && weekNumber > getCurrentWeekNumber(semesterStartDate)}
+                  disabled={(!isCurrentWeek && weekNumber > currentWeek) || !canEditIntention(intention.reviewStatus)}
                 >
                   Edit Intention
                 </Button>
@@ -210,10 +311,13 @@ function WeekIntentionCard({ weekNumber, intention, isCurrentWeek, onUpdate, sem
                 <DialogHeader>
                   <DialogTitle>Edit Week {weekNumber} Engagement Intention</DialogTitle>
                   <DialogDescription>
-                    Update your engagement intention and reflection for this week.
+                    Update what you intend to do for this week.
                   </DialogDescription>
                 </DialogHeader>
                 <div className="space-y-4">
+                  {prompt && (
+                    <PromptSuggestions prompt={prompt} selected={intentionText} onSelect={setIntentionText} />
+                  )}
                   <div>
                     <label htmlFor="intention" className="text-sm font-medium">
                       Engagement Intention
@@ -227,24 +331,13 @@ function WeekIntentionCard({ weekNumber, intention, isCurrentWeek, onUpdate, sem
                     />
                   </div>
 
-                  <div className="flex items-center space-x-2">
-                    <Checkbox
-                      id="fulfilled"
-                      checked={isFulfilled}
-                      onCheckedChange={(checked) => setIsFulfilled(checked === true)}
-                    />
-                    <label htmlFor="fulfilled" className="text-sm font-medium">
-                      I fulfilled my engagement intention this week
-                    </label>
-                  </div>
-
                   <div>
                     <label htmlFor="notes" className="text-sm font-medium">
-                      Reflection Notes (Optional)
+                      Notes (Optional)
                     </label>
                     <Textarea
                       id="notes"
-                      placeholder="Reflect on your engagement experience this week..."
+                      placeholder="Anything you want to remember about your plan..."
                       value={notes}
                       onChange={(e) => setNotes(e.target.value)}
                       className="mt-1"
@@ -272,7 +365,7 @@ function WeekIntentionCard({ weekNumber, intention, isCurrentWeek, onUpdate, sem
             <p className="text-muted-foreground mb-4">
               No engagement intention set for this week
             </p>
-            {(isCurrentWeek || weekNumber <= getCurrentWeekNumber(semesterStartDate)) && (
+            {(isCurrentWeek || weekNumber <= currentWeek) && (
               <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
                 <DialogTrigger asChild>
                   <Button onClick={handleOpenDialog}>
@@ -284,10 +377,13 @@ function WeekIntentionCard({ weekNumber, intention, isCurrentWeek, onUpdate, sem
                   <DialogHeader>
                     <DialogTitle>Set Week {weekNumber} Engagement Intention</DialogTitle>
                     <DialogDescription>
-                      Define your engagement intention and track your progress for this week.
+                      Decide what you'll do to engage with this class this week.
                     </DialogDescription>
                   </DialogHeader>
                   <div className="space-y-4">
+                    {prompt && (
+                      <PromptSuggestions prompt={prompt} selected={intentionText} onSelect={setIntentionText} />
+                    )}
                     <div>
                       <label htmlFor="intention" className="text-sm font-medium">
                         Engagement Intention
@@ -301,24 +397,13 @@ function WeekIntentionCard({ weekNumber, intention, isCurrentWeek, onUpdate, sem
                       />
                     </div>
 
-                    <div className="flex items-center space-x-2">
-                      <Checkbox
-                        id="fulfilled"
-                        checked={isFulfilled}
-                        onCheckedChange={(checked) => setIsFulfilled(checked === true)}
-                      />
-                      <label htmlFor="fulfilled" className="text-sm font-medium">
-                        I fulfilled my engagement intention this week
-                      </label>
-                    </div>
-
                     <div>
                       <label htmlFor="notes" className="text-sm font-medium">
-                        Reflection Notes (Optional)
+                        Notes (Optional)
                       </label>
                       <Textarea
                         id="notes"
-                        placeholder="Reflect on your engagement experience this week..."
+                        placeholder="Anything you want to remember about your plan..."
                         value={notes}
                         onChange={(e) => setNotes(e.target.value)}
                         className="mt-1"
@@ -367,7 +452,17 @@ export default function StudentEngagement() {
     enabled: !isNaN(parsedClassId) && !!user,
   });
 
-  const currentWeek = getCurrentWeekNumber(classData?.semesterStartDate ?? undefined);
+  // Week numbers and dates come from the class schedule
+  const { data: schedule, isLoading: isLoadingSchedule } = useQuery<ClassScheduleSummary>({
+    queryKey: [`/api/classes/${parsedClassId}/schedule`],
+    enabled: !isNaN(parsedClassId),
+  });
+
+  // Instructor prompts and suggested activities, keyed by week
+  const { data: prompts } = useQuery<EngagementPrompt[]>({
+    queryKey: [`/api/classes/${parsedClassId}/engagement-prompts`],
+    enabled: !isNaN(parsedClassId),
+  });
 
   const handleUpdate = () => {
     queryClient.invalidateQueries({
@@ -375,7 +470,7 @@ export default function StudentEngagement() {
     });
   };
 
-  const isLoading = isLoadingClass || isLoadingIntentions;
+  const isLoading = isLoadingClass || isLoadingIntentions || isLoadingSchedule;
 
   if (isLoading) {
     return (
@@ -406,8 +501,11 @@ export default function StudentEngagement() {
     return acc;
   }, {} as Record<number, EngagementIntention>);
 
-  // Generate all 15 weeks
-  const weeks = Array.from({ length: 15 }, (_, i) => i + 1);
+  const promptsByWeek = new Map((prompts || []).map((prompt) => [prompt.weekNumber, prompt]));
+
+  const weeks = schedule?.weeks ?? [];
+  const currentWeek = schedule?.currentWeek ?? null;
+  const currentWeekData = weeks.find((w) => w.weekNumber === currentWeek);
 
   return (
     <div className="min-h-screen bg-background">
@@ -439,59 +537,78 @@ export default function StudentEngagement() {
 
       <main id="main-content" className="container mx-auto py-8" role="main">
         <div className="space-y-8">
-          {/* Current Week Highlight */}
-          <section aria-labelledby="current-week-heading">
-            <Card className="border-[#0072BC] border-2 bg-blue-50/50">
+          {weeks.length === 0 || !currentWeek || !currentWeekData ? (
+            <Card>
               <CardHeader>
-                <CardTitle id="current-week-heading" className="text-2xl font-bold flex items-center gap-2">
-                  <Target className="h-6 w-6 text-[#0072BC]" />
-                  Current Week Focus (Week {currentWeek})
-                </CardTitle>
-                <CardDescription className="text-base">
-                  Set your engagement intention for this week and track your progress
+                <CardTitle>No Schedule Yet</CardTitle>
+                <CardDescription>
+                  Your instructor hasn't set the semester dates for this class, so there are no engagement weeks yet.
                 </CardDescription>
               </CardHeader>
-              <CardContent>
-                <WeekIntentionCard
-                  weekNumber={currentWeek}
-                  intention={intentionsByWeek[currentWeek]}
-                  isCurrentWeek={true}
-                  onUpdate={handleUpdate}
-                  semesterStartDate={classData?.semesterStartDate ?? undefined}
-                />
-              </CardContent>
             </Card>
-          </section>
-
-          {/* All Weeks Grid */}
-          <section aria-labelledby="all-weeks-heading">
-            <div className="flex items-center justify-between mb-6">
-              <h2 id="all-weeks-heading" className="text-3xl font-bold">15-Week Semester Overview</h2>
-              <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                <div className="flex items-center gap-2">
-                  <CheckCircle2 className="h-4 w-4 text-green-600" />
-                  <span>Fulfilled</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <XCircle className="h-4 w-4 text-red-500" />
-                  <span>Not Fulfilled</span>
+          ) : (
+            <>
+              {/* Current Week Highlight */}
+              <section aria-labelledby="current-week-heading">
+                <Card className="border-[#0072BC] border-2 bg-blue-50/50">
+                  <CardHeader>
+                    <CardTitle id="current-week-heading" className="text-2xl font-bold flex items-center gap-2">
+                      <Target className="h-6 w-6 text-[#0072BC]" />
+                      Current Week Focus (Week {currentWeek})
+                    </CardTitle>
+                    <CardDescription className="text-base">
+                      Set your engagement intention for this week and track your progress
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <WeekIntentionCard
+                      week={currentWeekData}
+                      currentWeek={currentWeek}
+                      intention={intentionsByWeek[currentWeek]}
+                      prompt={promptsByWeek.get(currentWeek)}
+                      isCurrentWeek={true}
+                      onUpdate={handleUpdate}
+                    />
+                  </CardContent>
+                </Card>
+              </section>
+
+              {/* All Weeks Grid */}
+              <section aria-labelledby="all-weeks-heading">
+                <div className="flex items-center justify-between mb-6">
+                  <h2 id="all-weeks-heading" className="text-3xl font-bold">{weeks.length}-Week Semester Overview</h2>
+                  <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                    <div className="flex items-center gap-2">
+                      <Clock className="h-4 w-4 text-blue-600" />
+                      <span>Awaiting Review</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <CheckCircle2 className="h-4 w-4 text-green-600" />
+                      <span>Accepted</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <XCircle className="h-4 w-4 text-red-500" />
+                      <span>Not Accepted</span>
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </div>
 
-            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-              {weeks.map((weekNumber) => (
-                <WeekIntentionCard
-                  key={weekNumber}
-                  weekNumber={weekNumber}
-                  intention={intentionsByWeek[weekNumber]}
-                  isCurrentWeek={weekNumber === currentWeek}
-                  onUpdate={handleUpdate}
-                  semesterStartDate={classData?.semesterStartDate ?? undefined}
-                />
-              ))}
-            </div>
-          </section>
+                <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                  {weeks.map((week) => (
+                    <WeekIntentionCard
+                      key={week.weekNumber}
+                      week={week}
+                      currentWeek={currentWeek}
+                      intention={intentionsByWeek[week.weekNumber]}
+                      prompt={promptsByWeek.get(week.weekNumber)}
+                      isCurrentWeek={week.weekNumber === currentWeek}
+                      onUpdate={handleUpdate}
+                    />
+                  ))}
+                </div>
+              </section>
+            </>
+          )}
 
           {/* Summary Stats */}
           {intentions && intentions.length > 0 && (
@@ -508,9 +625,9 @@ export default function StudentEngagement() {
                     <Card className="border-green-200 bg-green-50/50">
                       <CardContent className="p-4 text-center">
                         <div className="text-3xl font-bold text-green-600">
-                          {intentions.filter(i => i.isFulfilled).length}
+                          {countAcceptedIntentions(intentions)}
                         </div>
-                        <div className="text-sm text-green-700">Intentions Fulfilled</div>
+                        <div className="text-sm text-green-700">Intentions Accepted</div>
                       </CardContent>
                     </Card>
                     
@@ -526,7 +643,7 @@ export default function StudentEngagement() {
                     <Card className="border-[#0072BC] bg-blue-50/50">
                       <CardContent className="p-4 text-center">
                         <div className="text-3xl font-bold text-[#0072BC]">
-                          {intentions.length > 0 ? Math.round((intentions.filter(i => i.isFulfilled).length / intentions.length) * 100) : 0}%
+                          {intentions.length > 0 ? Math.round((countAcceptedIntentions(intentions) / intentions.length) * 100) : 0}%
                         </div>
                         <div className="text-sm text-[#0072BC]">Fulfillment Rate</div>
                       </CardContent>
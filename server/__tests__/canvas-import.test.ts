@@ -0,0 +1,111 @@
+/**
+ * Tests for applying a Canvas import. Storage is replaced so the service runs
+ * without a database; the transaction itself lives in storage.applyImportRun.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { storage } = vi.hoisted(() => ({
+  storage: {
+    getClass: vi.fn(),
+    getEnrolledStudents: vi.fn(),
+    getAssignmentsByClass: vi.fn(),
+    applyImportRun: vi.fn(),
+  },
+}));
+
+vi.mock("../storage", () => ({ storage }));
+
+import { CanvasImportService, type GradeChange } from "../services/canvas-import";
+import { DEFAULT_ATTENDANCE_POLICY } from "@shared/attendance";
+
+const run = { uploadedBy: 1, fileName: "grades.csv", mappings: [], batchId: "batch-1" };
+
+function gradeChange(overrides: Partial<GradeChange>): GradeChange {
+  return {
+    studentId: 5,
+    studentName: "Ada",
+    assignmentId: 3,
+    assignmentName: "Essay",
+    currentValue: null,
+    newValue: "90",
+    convertedStatus: null,
+    convertedNumeric: null,
+    ...overrides,
+  };
+}
+
+describe("CanvasImportService.executeImport", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage.getClass.mockResolvedValue({ id: 1, attendancePolicy: null });
+    storage.getEnrolledStudents.mockResolvedValue([{ id: 5, fullName: "Ada" }]);
+    storage.getAssignmentsByClass.mockResolvedValue([
+      { id: 3, name: "Essay", scoringType: "status" },
+      { id: 4, name: "Quiz", scoringType: "numeric" },
+    ]);
+    storage.applyImportRun.mockImplementation(async (values, grades, absences) => ({
+      run: {
+        id: 9,
+        ...values,
+        summary: { processedStudents: 1, processedGrades: grades.length, processedAbsences: absences.length },
+      },
+      grades: [],
+      absences: [],
+    }));
+  });
+
+  it("should apply grades and absences as one run", async () => {
+    const result = await new CanvasImportService().executeImport(
+      1,
+      run,
+      [
+        gradeChange({ convertedStatus: 2 }),
+        gradeChange({ assignmentId: 4, assignmentName: "Quiz", convertedNumeric: 87.5 }),
+      ],
+      [{ studentId: 5, studentName: "Ada", currentAbsences: 1, newAbsences: 2 }]
+    );
+
+    expect(storage.applyImportRun).toHaveBeenCalledTimes(1);
+    expect(storage.applyImportRun).toHaveBeenCalledWith(
+      { ...run, classId: 1, errors: [] },
+      [
+        { studentId: 5, assignmentId: 3, status: 2 },
+        { studentId: 5, assignmentId: 4, numericGrade: "87.5" },
+      ],
+      [{ studentId: 5, absences: 2 }],
+      DEFAULT_ATTENDANCE_POLICY
+    );
+    expect(result.success).toBe(true);
+    expect(result.run.id).toBe(9);
+    expect(result.processedGrades).toBe(2);
+  });
+
+  it("should report changes outside the class instead of applying them", async () => {
+    const result = await new CanvasImportService().executeImport(
+      1,
+      run,
+      [
+        gradeChange({ studentId: 6, studentName: "Grace", convertedStatus: 2 }),
+        gradeChange({ assignmentId: 99, assignmentName: "Other class", convertedStatus: 2 }),
+        gradeChange({ newValue: "??" }),
+      ],
+      [{ studentId: 6, studentName: "Grace", currentAbsences: 0, newAbsences: 1 }]
+    );
+
+    const [values, grades, absences] = storage.applyImportRun.mock.calls[0];
+    expect(grades).toEqual([]);
+    expect(absences).toEqual([]);
+    expect(values.errors).toHaveLength(4);
+    expect(result.success).toBe(false);
+    expect(result.errors.map((e) => e.student)).toEqual(["Grace", "Ada", "Ada", "Grace"]);
+  });
+
+  it("should fail the whole import when the run can't be applied", async () => {
+    storage.applyImportRun.mockRejectedValue(new Error("connection lost"));
+
+    await expect(
+      new CanvasImportService().executeImport(1, run, [gradeChange({ convertedStatus: 2 })])
+    ).rejects.toThrow("connection lost");
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Tests that a class's categories are only listed for its instructor and enrolled students.
+ * Storage is replaced so the real route runs without a database.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import request from "supertest";
+import express, { type Request, type Response, type NextFunction } from "express";
+
+const { storage } = vi.hoisted(() => ({
+  storage: {
+    getClass: vi.fn(),
+    getStudentContract: vi.fn(),
+    getCategoriesByClass: vi.fn(),
+  },
+}));
+
+vi.mock("../storage", () => ({ storage }));
+
+import categoriesRouter from "../routes/categories";
+import { AppError } from "../errors";
+
+function createApp(user: { id: number; role: "instructor" | "student" }) {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    req.user = { username: "user", fullName: "Test User", ...user } as Express.User;
+    req.isAuthenticated = (() => true) as Request["isAuthenticated"];
+    next();
+  });
+  app.use(categoriesRouter);
+  app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+    res.status(err instanceof AppError ? err.statusCode : 500).json({ message: err.message });
+  });
+  return app;
+}
+
+describe("GET /api/classes/:classId/categories", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage.getClass.mockResolvedValue({ id: 1, instructorId: 1 });
+    storage.getCategoriesByClass.mockResolvedValue([{ id: 7, classId: 1, name: "Essays" }]);
+  });
+
+  it("should list categories for the class's instructor", async () => {
+    const res = await request(createApp({ id: 1, role: "instructor" })).get("/api/classes/1/categories");
+
+    expect(res.status).toBe(200);
+    expect(res.body).toHaveLength(1);
+  });
+
+  it("should refuse another instructor", async () => {
+    const res = await request(createApp({ id: 2, role: "instructor" })).get("/api/classes/1/categories");
+
+    expect(res.status).toBe(403);
+    expect(storage.getCategoriesByClass).not.toHaveBeenCalled();
+  });
+
+  it("should list categories for an enrolled student", async () => {
+    storage.getStudentContract.mockResolvedValue({ id: 10, studentId: 5, classId: 1 });
+    const res = await request(createApp({ id: 5, role: "student" })).get("/api/classes/1/categories");
+
+    expect(res.status).toBe(200);
+  });
+
+  it("should refuse a student who is not enrolled", async () => {
+    storage.getStudentContract.mockResolvedValue(undefined);
+    const res = await request(createApp({ id: 6, role: "student" })).get("/api/classes/1/categories");
+
+    expect(res.status).toBe(403);
+    expect(storage.getCategoriesByClass).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { CheckInService } from "../services/check-in";
+import { CHECK_IN_MAX_ATTEMPTS } from "@shared/check-in";
+
+describe("CheckInService", () => {
+  const session = { secret: "0123456789abcdef" };
+  const at = new Date("2025-09-02T09:00:10Z");
+
+  it("should make six-digit codes that rotate between windows", () => {
+    const service = new CheckInService();
+    const code = service.getCode(session, at);
+    expect(code).toMatch(/^\d{6}$/);
+    expect(service.getCode(session, new Date("2025-09-02T09:00:25Z"))).toBe(code);
+    expect(service.getCode({ secret: "fedcba9876543210" }, at)).not.toBe(code);
+  });
+
+  it("should accept the current and previous code only", () => {
+    const service = new CheckInService();
+    const code = service.getCode(session, at);
+    expect(service.verifyCode(session, code, at)).toBe(true);
+    expect(service.verifyCode(session, code, new Date("2025-09-02T09:00:40Z"))).toBe(true);
+    expect(service.verifyCode(session, code, new Date("2025-09-02T09:01:10Z"))).toBe(false);
+    expect(service.verifyCode(session, "12345", at)).toBe(false);
+  });
+
+  it("should lock a student out of a session after too many wrong codes", () => {
+    const service = new CheckInService();
+    const open = { id: 1, classId: 3 };
+    for (let i = 0; i < CHECK_IN_MAX_ATTEMPTS; i++) {
+      expect(service.isLockedOut(open, 7)).toBe(false);
+      service.recordFailedAttempt(open, 7);
+    }
+    expect(service.isLockedOut(open, 7)).toBe(true);
+    expect(service.isLockedOut(open, 8)).toBe(false);
+
+    service.clearAttempts(3);
+    expect(service.isLockedOut(open, 7)).toBe(false);
+  });
+
+  it("should start counting afresh when the class opens another session", () => {
+    const service = new CheckInService();
+    for (let i = 0; i < CHECK_IN_MAX_ATTEMPTS; i++) {
+      service.recordFailedAttempt({ id: 1, classId: 3 }, 7);
+    }
+
+    expect(service.isLockedOut({ id: 2, classId: 3 }, 7)).toBe(false);
+    expect(service.recordFailedAttempt({ id: 2, classId: 3 }, 7)).toBe(CHECK_IN_MAX_ATTEMPTS - 1);
+    expect(service.isLockedOut({ id: 1, classId: 3 }, 7)).toBe(false);
+  });
+});
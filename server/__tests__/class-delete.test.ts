@@ -0,0 +1,75 @@
+/**
+ * Tests that deleting a class also removes the files uploaded to it.
+ * Storage is replaced so the real route runs without a database.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import request from "supertest";
+import express, { type Request } from "express";
+
+const { storage } = vi.hoisted(() => ({
+  storage: {
+    getClass: vi.fn(),
+    deleteClass: vi.fn(),
+  },
+}));
+
+vi.mock("../storage", () => ({ storage }));
+vi.mock("../audit", () => ({ auditService: { log: vi.fn(), logWithRequest: vi.fn() } }));
+
+import classesRouter from "../routes/classes";
+import { fileStorage } from "../services/file-storage";
+
+const instructor = { id: 1, role: "instructor", username: "instructor", fullName: "Test Instructor" };
+
+function createApp() {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    req.user = instructor as Express.User;
+    req.isAuthenticated = (() => true) as Request["isAuthenticated"];
+    next();
+  });
+  app.use(classesRouter);
+  return app;
+}
+
+describe("DELETE /api/classes/:id", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+    storage.getClass.mockResolvedValue({ id: 7, instructorId: 1 });
+    storage.deleteClass.mockResolvedValue(["submission.pdf", "doctors-note.png"]);
+  });
+
+  it("should remove the class's uploaded files after deleting it", async () => {
+    const remove = vi.spyOn(fileStorage, "remove").mockResolvedValue();
+    const res = await request(createApp()).delete("/api/classes/7");
+
+    expect(res.status).toBe(200);
+    expect(storage.deleteClass).toHaveBeenCalledWith(7);
+    expect(remove).toHaveBeenCalledWith("submission.pdf");
+    expect(remove).toHaveBeenCalledWith("doctors-note.png");
+  });
+
+  it("should keep removing files when one of them fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const remove = vi.spyOn(fileStorage, "remove")
+      .mockRejectedValueOnce(new Error("disk error"))
+      .mockResolvedValue();
+    const res = await request(createApp()).delete("/api/classes/7");
+
+    expect(res.status).toBe(200);
+    expect(remove).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not touch files of a class the instructor doesn't own", async () => {
+    storage.getClass.mockResolvedValue({ id: 7, instructorId: 2 });
+    const remove = vi.spyOn(fileStorage, "remove").mockResolvedValue();
+    const res = await request(createApp()).delete("/api/classes/7");
+
+    expect(res.status).toBe(403);
+    expect(storage.deleteClass).not.toHaveBeenCalled();
+    expect(remove).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Tests that instructors can only evaluate students enrolled in their class.
+ * Storage is replaced so the real route runs without a database.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import request from "supertest";
+import express, { type Request } from "express";
+
+const { storage } = vi.hoisted(() => ({
+  storage: {
+    getClass: vi.fn(),
+    getStudentContract: vi.fn(),
+  },
+}));
+
+const { contractEvaluationService } = vi.hoisted(() => ({
+  contractEvaluationService: { evaluateStudent: vi.fn() },
+}));
+
+vi.mock("../storage", () => ({ storage }));
+vi.mock("../audit", () => ({ auditService: { log: vi.fn(), logWithRequest: vi.fn() } }));
+vi.mock("../services/contract-evaluation", () => ({ contractEvaluationService }));
+
+import contractsRouter from "../routes/contracts";
+
+const instructor = { id: 1, role: "instructor", username: "instructor", fullName: "Test Instructor" };
+
+function createApp() {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    req.user = instructor as Express.User;
+    req.isAuthenticated = (() => true) as Request["isAuthenticated"];
+    next();
+  });
+  app.use(contractsRouter);
+  return app;
+}
+
+describe("GET /api/classes/:classId/students/:studentId/contract-evaluation", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage.getClass.mockResolvedValue({ id: 1, instructorId: 1 });
+    contractEvaluationService.evaluateStudent.mockResolvedValue(null);
+  });
+
+  it("should evaluate an enrolled student", async () => {
+    storage.getStudentContract.mockResolvedValue({ id: 10, studentId: 5, classId: 1, contractId: null });
+
+    const res = await request(createApp()).get("/api/classes/1/students/5/contract-evaluation");
+
+    expect(res.status).toBe(200);
+    expect(contractEvaluationService.evaluateStudent).toHaveBeenCalledWith(1, 5);
+  });
+
+  it("should return 404 for a student who is not enrolled in the class", async () => {
+    storage.getStudentContract.mockResolvedValue(undefined);
+
+    const res = await request(createApp()).get("/api/classes/1/students/99/contract-evaluation");
+
+    expect(res.status).toBe(404);
+    expect(contractEvaluationService.evaluateStudent).not.toHaveBeenCalled();
+  });
+});
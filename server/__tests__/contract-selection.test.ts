@@ -0,0 +1,145 @@
+/**
+ * Tests that students can only choose or request the latest version of a contract.
+ * Storage and audit logging are replaced so the real routes run without a database.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import request from "supertest";
+import express, { type Request, type Response, type NextFunction } from "express";
+
+const { storage } = vi.hoisted(() => ({
+  storage: {
+    getClass: vi.fn(),
+    getContractsByClass: vi.fn(),
+    getStudentContract: vi.fn(),
+    setStudentContract: vi.fn(),
+    confirmStudentContract: vi.fn(),
+    getStudentContractChangeRequests: vi.fn(),
+    createContractChangeRequest: vi.fn(),
+  },
+}));
+
+vi.mock("../storage", () => ({ storage }));
+vi.mock("../audit", () => ({ auditService: { log: vi.fn(), logWithRequest: vi.fn() } }));
+
+import { registerRoutes } from "../routes";
+import contractsRouter from "../routes/contracts";
+import { AppError } from "../errors";
+
+const student = { id: 5, role: "student", username: "student", fullName: "Test Student" };
+
+// Version 2 of the A contract replaced version 1; contract 9 is not in this class
+const contracts = [
+  { id: 1, classId: 1, grade: "A", version: 1 },
+  { id: 2, classId: 1, grade: "B", version: 1 },
+  { id: 3, classId: 1, grade: "A", version: 2 },
+];
+
+async function createApp() {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    req.user = student as Express.User;
+    req.isAuthenticated = (() => true) as Request["isAuthenticated"];
+    next();
+  });
+  app.use(contractsRouter);
+  await registerRoutes(app);
+  app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+    res.status(err instanceof AppError ? err.statusCode : 500).json({ message: err.message });
+  });
+  return app;
+}
+
+describe("Contract version checks", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage.getClass.mockResolvedValue({ id: 1, instructorId: 1, contractDeadline: null });
+    storage.getContractsByClass.mockResolvedValue(contracts);
+    storage.setStudentContract.mockImplementation(async (values) => ({ id: 10, ...values }));
+    storage.confirmStudentContract.mockResolvedValue({ id: 10, contractId: 3, isConfirmed: true });
+    storage.getStudentContractChangeRequests.mockResolvedValue([]);
+    storage.createContractChangeRequest.mockImplementation(async (values) => ({ id: 20, status: "pending", ...values }));
+  });
+
+  describe("POST /api/classes/:classId/student-contract", () => {
+    it("should accept the latest version of a contract", async () => {
+      const app = await createApp();
+      const res = await request(app).post("/api/classes/1/student-contract").send({ contractId: 3 });
+
+      expect(res.status).toBe(201);
+      expect(storage.setStudentContract).toHaveBeenCalledWith(expect.objectContaining({ contractId: 3 }));
+    });
+
+    it("should reject a superseded version", async () => {
+      const app = await createApp();
+      const res = await request(app).post("/api/classes/1/student-contract").send({ contractId: 1 });
+
+      expect(res.status).toBe(409);
+      expect(storage.setStudentContract).not.toHaveBeenCalled();
+    });
+
+    it("should reject a contract from another class", async () => {
+      const app = await createApp();
+      const res = await request(app).post("/api/classes/1/student-contract").send({ contractId: 9 });
+
+      expect(res.status).toBe(404);
+      expect(storage.setStudentContract).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /api/classes/:classId/student-contract/confirm", () => {
+    it("should refuse to confirm a selection that has since been superseded", async () => {
+      storage.getStudentContract.mockResolvedValue({ id: 10, studentId: 5, classId: 1, contractId: 1, isConfirmed: false });
+      const app = await createApp();
+      const res = await request(app).post("/api/classes/1/student-contract/confirm");
+
+      expect(res.status).toBe(409);
+      expect(storage.confirmStudentContract).not.toHaveBeenCalled();
+    });
+
+    it("should confirm a selection of the latest version", async () => {
+      storage.getStudentContract.mockResolvedValue({ id: 10, studentId: 5, classId: 1, contractId: 3, isConfirmed: false });
+      const app = await createApp();
+      const res = await request(app).post("/api/classes/1/student-contract/confirm");
+
+      expect(res.status).toBe(200);
+    });
+  });
+
+  describe("POST /api/classes/:classId/contract-change-requests", () => {
+    beforeEach(() => {
+      storage.getStudentContract.mockResolvedValue({ id: 10, studentId: 5, classId: 1, contractId: 2, isConfirmed: true });
+    });
+
+    it("should accept a request for the latest version", async () => {
+      const app = await createApp();
+      const res = await request(app)
+        .post("/api/classes/1/contract-change-requests")
+        .send({ toContractId: 3, reason: "Aiming higher" });
+
+      expect(res.status).toBe(201);
+      expect(storage.createContractChangeRequest).toHaveBeenCalledWith(expect.objectContaining({ toContractId: 3 }));
+    });
+
+    it("should reject a request for a superseded version", async () => {
+      const app = await createApp();
+      const res = await request(app)
+        .post("/api/classes/1/contract-change-requests")
+        .send({ toContractId: 1, reason: "Aiming higher" });
+
+      expect(res.status).toBe(409);
+      expect(storage.createContractChangeRequest).not.toHaveBeenCalled();
+    });
+
+    it("should reject a contract from another class", async () => {
+      const app = await createApp();
+      const res = await request(app)
+        .post("/api/classes/1/contract-change-requests")
+        .send({ toContractId: 9, reason: "Aiming higher" });
+
+      expect(res.status).toBe(404);
+      expect(storage.createContractChangeRequest).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests for gradebook batch saves, in particular grading resubmitted work from the grid.
+ * Storage and audit logging are replaced so the real route runs without a database.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import request from "supertest";
+import express, { type Request } from "express";
+
+const { storage } = vi.hoisted(() => ({
+  storage: {
+    getClass: vi.fn(),
+    getClassStudents: vi.fn(),
+    getAssignmentsByClass: vi.fn(),
+    getStudentProgressForClass: vi.fn(),
+    getTokenTransactionsByClass: vi.fn(),
+    recordGrades: vi.fn(),
+  },
+}));
+
+vi.mock("../storage", () => ({ storage }));
+vi.mock("../audit", () => ({
+  auditService: { log: vi.fn(), logWithRequest: vi.fn() },
+  progressAuditValues: vi.fn(() => ({})),
+}));
+
+import gradebookRouter from "../routes/gradebook";
+import { connectionManager } from "../websocket";
+
+const instructor = { id: 1, role: "instructor", username: "instructor", fullName: "Test Instructor" };
+const assignment = { id: 3, classId: 1, name: "Essay", scoringType: "status", attemptLimit: 2, dueDate: null };
+const graded = { id: 40, studentId: 5, assignmentId: 3, status: 1, numericGrade: null, feedback: "<p>Add sources</p>", attempts: 1, awaitingReview: false, isLate: false };
+
+function createApp() {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    req.user = instructor as Express.User;
+    req.isAuthenticated = (() => true) as Request["isAuthenticated"];
+    next();
+  });
+  app.use(gradebookRouter);
+  return app;
+}
+
+function saveCell(status: number) {
+  return request(createApp())
+    .post("/api/classes/1/progress/batch")
+    .send({ cells: [{ studentId: 5, assignmentId: 3, status }] });
+}
+
+describe("POST /api/classes/:classId/progress/batch", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(connectionManager, "broadcast").mockImplementation(() => {});
+    storage.getClass.mockResolvedValue({ id: 1, instructorId: 1, statusScale: null });
+    storage.getClassStudents.mockResolvedValue([{ id: 5, fullName: "Test Student" }]);
+    storage.getAssignmentsByClass.mockResolvedValue([assignment]);
+    storage.getStudentProgressForClass.mockResolvedValue([graded]);
+    storage.getTokenTransactionsByClass.mockResolvedValue([]);
+    storage.recordGrades.mockImplementation(async (grades) =>
+      grades.map(({ progress }: { progress: typeof graded }, i: number) => ({
+        progress: { ...progress, id: 40 + i, attempts: 2 },
+        attempt: { attemptNumber: 2 },
+      }))
+    );
+  });
+
+  it("should correct the current attempt of work that isn't resubmitted", async () => {
+    const res = await saveCell(2);
+
+    expect(res.status).toBe(200);
+    expect(storage.recordGrades).toHaveBeenCalledWith(
+      [expect.objectContaining({ newAttempt: false, progress: expect.objectContaining({ feedback: graded.feedback }) })],
+      1
+    );
+  });
+
+  it("should grade a resubmitted cell as a new attempt", async () => {
+    storage.getStudentProgressForClass.mockResolvedValue([{ ...graded, awaitingReview: true }]);
+    const res = await saveCell(2);
+
+    expect(res.status).toBe(200);
+    expect(storage.recordGrades).toHaveBeenCalledWith(
+      [expect.objectContaining({ newAttempt: true, progress: expect.objectContaining({ status: 2, feedback: null, awaitingReview: false }) })],
+      1
+    );
+  });
+
+  it("should refuse a resubmitted cell once every attempt has been used", async () => {
+    storage.getStudentProgressForClass.mockResolvedValue([{ ...graded, attempts: 2, awaitingReview: true }]);
+    const res = await saveCell(2);
+
+    expect(res.status).toBe(409);
+    expect(res.body.message).toMatch(/status dialog/);
+    expect(storage.recordGrades).not.toHaveBeenCalled();
+  });
+
+  it("should count approved revision tokens toward the limit", async () => {
+    storage.getStudentProgressForClass.mockResolvedValue([{ ...graded, attempts: 2, awaitingReview: true }]);
+    storage.getTokenTransactionsByClass.mockResolvedValue([
+      { kind: "spend", purpose: "revision", amount: 1, status: "approved", assignmentProgressId: 40 },
+    ]);
+    const res = await saveCell(2);
+
+    expect(res.status).toBe(200);
+    expect(storage.recordGrades).toHaveBeenCalledWith([expect.objectContaining({ newAttempt: true })], 1);
+  });
+});
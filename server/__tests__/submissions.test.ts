@@ -0,0 +1,116 @@
+/**
+ * Tests for student submissions: the attempt limit and cleanup of uploaded files.
+ * Storage and audit logging are replaced so the real routes run without a database.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import request from "supertest";
+import express, { type Request, type Response, type NextFunction } from "express";
+
+const { storage } = vi.hoisted(() => ({
+  storage: {
+    getClass: vi.fn(),
+    getStudentContract: vi.fn(),
+    getAssignmentsByClass: vi.fn(),
+    getStudentProgress: vi.fn(),
+    getStudentTokenTransactions: vi.fn(),
+    createSubmission: vi.fn(),
+  },
+}));
+
+vi.mock("../storage", () => ({ storage }));
+vi.mock("../audit", () => ({ auditService: { log: vi.fn(), logWithRequest: vi.fn() } }));
+
+import submissionsRouter from "../routes/submissions";
+import { connectionManager } from "../websocket";
+import { fileStorage } from "../services/file-storage";
+import { AppError } from "../errors";
+
+const student = { id: 5, role: "student", username: "student", fullName: "Test Student" };
+const assignment = { id: 3, classId: 1, name: "Essay", attemptLimit: 2, dueDate: null, opensAt: null, closesAt: null, latePolicy: "accept" };
+const progress = { id: 40, studentId: 5, assignmentId: 3, status: 1, numericGrade: null, attempts: 2, awaitingReview: false, isLate: false };
+
+function createApp() {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    req.user = student as Express.User;
+    req.isAuthenticated = (() => true) as Request["isAuthenticated"];
+    next();
+  });
+  app.use(submissionsRouter);
+  app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+    res.status(err instanceof AppError ? err.statusCode : 500).json({ message: err.message });
+  });
+  return app;
+}
+
+function submit() {
+  return request(createApp())
+    .post("/api/classes/1/assignments/3/submissions")
+    .send({ kind: "url", url: "https://example.com/essay" });
+}
+
+describe("Student submissions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(connectionManager, "broadcast").mockImplementation(() => {});
+    storage.getClass.mockResolvedValue({ id: 1, instructorId: 1, isArchived: false });
+    storage.getStudentContract.mockResolvedValue({ id: 10, studentId: 5, classId: 1, contractId: 2 });
+    storage.getAssignmentsByClass.mockResolvedValue([assignment]);
+    storage.getStudentProgress.mockResolvedValue([progress]);
+    storage.getStudentTokenTransactions.mockResolvedValue([]);
+    storage.createSubmission.mockImplementation(async (values) => ({
+      progress: { ...progress, awaitingReview: true },
+      submission: { id: 60, ...values },
+    }));
+  });
+
+  it("should reject a submission once every attempt has been used", async () => {
+    const res = await submit();
+
+    expect(res.status).toBe(409);
+    expect(res.body.message).toMatch(/2 attempts/);
+    expect(storage.createSubmission).not.toHaveBeenCalled();
+  });
+
+  it("should accept a submission while attempts remain", async () => {
+    storage.getStudentProgress.mockResolvedValue([{ ...progress, attempts: 1 }]);
+    const res = await submit();
+
+    expect(res.status).toBe(201);
+    expect(storage.createSubmission).toHaveBeenCalled();
+  });
+
+  it("should count approved revision tokens toward the limit", async () => {
+    storage.getStudentTokenTransactions.mockResolvedValue([
+      { kind: "spend", purpose: "revision", amount: 1, status: "approved", assignmentProgressId: 40 },
+    ]);
+    const res = await submit();
+
+    expect(res.status).toBe(201);
+  });
+
+  it("should accept a first submission", async () => {
+    storage.getStudentProgress.mockResolvedValue([]);
+    const res = await submit();
+
+    expect(res.status).toBe(201);
+  });
+
+  it("should remove an uploaded file when its submission can't be saved", async () => {
+    storage.getStudentProgress.mockResolvedValue([]);
+    storage.createSubmission.mockRejectedValue(new Error("insert failed"));
+    vi.spyOn(fileStorage, "save").mockResolvedValue("upload.pdf");
+    const remove = vi.spyOn(fileStorage, "remove").mockResolvedValue();
+
+    const res = await request(createApp())
+      .post("/api/classes/1/assignments/3/submissions/file")
+      .set("Content-Type", "application/octet-stream")
+      .set("X-File-Name", "essay.pdf")
+      .send(Buffer.from("essay"));
+
+    expect(res.status).toBe(500);
+    expect(remove).toHaveBeenCalledWith("upload.pdf");
+  });
+});
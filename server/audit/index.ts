@@ -1,6 +1,6 @@
 import { db } from "../db";
-import { auditLogs } from "@shared/schema";
-import { eq, and, desc } from "drizzle-orm";
+import { auditLogs, type AssignmentProgress } from "@shared/schema";
+import { eq, and, asc, desc, inArray, sql } from "drizzle-orm";
 import type { AuditLogParams, AuditAction, EntityType } from "./types";
 import type { Request } from "express";
 
@@ -61,6 +61,25 @@ export class AuditService {
       .orderBy(desc(auditLogs.createdAt));
   }
 
+  /**
+   * Get a single audit log by ID
+   */
+  async getLog(id: number) {
+    const [log] = await db.select().from(auditLogs).where(eq(auditLogs.id, id));
+    return log;
+  }
+
+  /**
+   * Get the audit logs written by one batch of changes, oldest first
+   */
+  async getLogsForBatch(batchId: string) {
+    return db
+      .select()
+      .from(auditLogs)
+      .where(sql`${auditLogs.newValues}->>'batchId' = ${batchId}`)
+      .orderBy(asc(auditLogs.id));
+  }
+
   /**
    * Get audit logs for a specific user (actions they performed)
    */
@@ -77,13 +96,13 @@ export class AuditService {
    */
   async getLogsForStudent(studentId: number) {
     // Get logs where the student is the target of the action
-    // This includes progress updates, contract changes, attendance, etc.
+    // This includes progress updates, contract changes and requests, attendance, etc.
     const progressLogs = await db
       .select()
       .from(auditLogs)
       .where(
         and(
-          eq(auditLogs.entityType, "assignment_progress"),
+          inArray(auditLogs.entityType, ["assignment_progress", "student_contract", "attendance", "engagement_intention", "token_transaction", "assignment_submission", "absence_excuse"]),
         )
       )
       .orderBy(desc(auditLogs.createdAt));
@@ -141,6 +160,21 @@ export class AuditService {
   }
 }
 
+/**
+ * Values logged for a grade, so entries from every grading path read the same
+ */
+export function progressAuditValues(progress: AssignmentProgress, classId: number): Record<string, unknown> {
+  return {
+    studentId: progress.studentId,
+    assignmentId: progress.assignmentId,
+    status: progress.status,
+    numericGrade: progress.numericGrade,
+    feedback: progress.feedback,
+    isLate: progress.isLate,
+    classId,
+  };
+}
+
 // Export a singleton instance
 export const auditService = new AuditService();
 
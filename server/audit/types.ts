@@ -7,7 +7,11 @@ export type AuditAction =
   | "PASSWORD_RESET"
   | "ENROLL"
   | "ARCHIVE"
-  | "CONFIRM";
+  | "CONFIRM"
+  | "APPROVE"
+  | "DENY"
+  | "CHECK_IN"
+  | "REVERT";
 
 export type EntityType =
   | "user"
@@ -17,7 +21,10 @@ export type EntityType =
   | "student_contract"
   | "assignment_progress"
   | "attendance"
-  | "engagement_intention";
+  | "engagement_intention"
+  | "token_transaction"
+  | "assignment_submission"
+  | "absence_excuse";
 
 export interface AuditLogParams {
   userId: number | null;
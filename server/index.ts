@@ -9,6 +9,8 @@ import { getSessionConfig, setupAuth } from "./auth";
 import { fileURLToPath } from "url";
 import { dirname } from "path";
 import { AppError, ValidationError } from "./errors";
+import { contractDeadlineService } from "./services/contract-deadline";
+import { storage } from "./storage";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -97,6 +99,39 @@ app.get("/api/health", (_req, res) => {
     console.error("Failed to initialize WebSocket:", error);
   }
 
+  // Move free-text module groups into categories (no-op once migrated)
+  try {
+    const migrated = await storage.migrateModuleGroups();
+    if (migrated > 0) {
+      log(`Migrated module groups to categories in ${migrated} classes`);
+    }
+  } catch (error) {
+    console.error("Failed to migrate module groups:", error);
+  }
+
+  // Move present/absent flags into attendance statuses (no-op once migrated)
+  try {
+    const migrated = await storage.migrateAttendanceStatuses();
+    if (migrated > 0) {
+      log(`Migrated ${migrated} absences to attendance statuses`);
+    }
+  } catch (error) {
+    console.error("Failed to migrate attendance statuses:", error);
+  }
+
+  // Count self-reported engagement as accepted from before instructors reviewed it (no-op once migrated)
+  try {
+    const migrated = await storage.migrateEngagementReviews();
+    if (migrated > 0) {
+      log(`Migrated ${migrated} fulfilled engagement intentions to accepted`);
+    }
+  } catch (error) {
+    console.error("Failed to migrate engagement reviews:", error);
+  }
+
+  // Assign default contracts once contract-selection deadlines pass
+  contractDeadlineService.start();
+
   // Centralized error handling middleware
   app.use((err: Error | AppError, _req: Request, res: Response, _next: NextFunction) => {
     // Log error details (always log for debugging)
@@ -13,3 +13,5 @@ export {
   parseIntOrDefault,
   parseIntOrThrow,
 } from "./validate";
+
+export { readUpload, getUploadFileName } from "./upload";
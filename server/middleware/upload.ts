@@ -0,0 +1,28 @@
+import express, { type Request, type Response, type NextFunction } from "express";
+import { AppError } from "../errors";
+import { MAX_SUBMISSION_FILE_BYTES } from "@shared/schema";
+
+/**
+ * Read an uploaded file as a raw request body, rejecting oversized files with a 413.
+ * Clients send the file itself as the body, described by X-File-Name and X-File-Type.
+ */
+export function readUpload(req: Request, res: Response, next: NextFunction) {
+  express.raw({ type: () => true, limit: MAX_SUBMISSION_FILE_BYTES })(req, res, (err?: any) => {
+    if (err?.type === "entity.too.large") {
+      const megabytes = MAX_SUBMISSION_FILE_BYTES / (1024 * 1024);
+      return next(new AppError(`Files must be ${megabytes} MB or smaller`, 413));
+    }
+    next(err);
+  });
+}
+
+/**
+ * The uploaded file's name from X-File-Name, or null if it's missing or malformed
+ */
+export function getUploadFileName(req: Request): string | null {
+  try {
+    return decodeURIComponent(req.get("X-File-Name") ?? "").trim() || null;
+  } catch {
+    return null;
+  }
+}
@@ -2,10 +2,28 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { hashPassword } from "./auth";
 import { storage } from "./storage";
-import { auditService } from "./audit";
-import { connectionManager, createProgressUpdateEvent } from "./websocket";
-import { insertClassSchema, updateClassSchema, insertAssignmentSchema, insertStudentInvitationSchema, setupPasswordSchema, passwordResetRequestSchema, resetPasswordSchema, insertEngagementIntentionSchema, updateEngagementIntentionSchema, insertAttendanceRecordSchema, updateAttendanceRecordSchema } from "@shared/schema";
-import { AssignmentStatus, isAssignmentDone } from "@shared/constants";
+import { auditService, progressAuditValues } from "./audit";
+import { connectionManager, createProgressUpdateEvent, progressUpdatePayload } from "./websocket";
+import { contractEvaluationService } from "./services/contract-evaluation";
+import { insertClassSchema, updateClassSchema, insertAssignmentSchema, insertStudentInvitationSchema, setupPasswordSchema, passwordResetRequestSchema, resetPasswordSchema, insertEngagementIntentionSchema, updateEngagementIntentionSchema, insertAttendanceRecordSchema, updateAttendanceRecordSchema, batchAttendanceSchema } from "@shared/schema";
+import { isAssignmentDone, getGradeTiers, getStatusLevel, getStatusScale, sortByGradeTier } from "@shared/constants";
+import { isContractSelectionLocked } from "@shared/contract-deadline";
+import { isLatestContractVersion, latestContractsByGrade } from "@shared/contract-evaluation";
+import { canRecordAttempt, getAllowedAttempts } from "@shared/attempts";
+import { isLateWork } from "@shared/late-policy";
+import { isRichTextEmpty, sanitizeRichText } from "@shared/rich-text";
+import { getEngagementWeeks } from "@shared/class-schedule";
+import { canEditIntention } from "@shared/engagement-review";
+import { getAttendancePolicy } from "@shared/attendance";
+
+/**
+ * Check that every category requirement names one of the class's categories
+ */
+async function hasClassCategories(classId: number, requirements: { categoryId?: unknown }[] | null | undefined): Promise<boolean> {
+  if (!requirements || requirements.length === 0) return true;
+  const categoryIds = new Set((await storage.getCategoriesByClass(classId)).map((c) => c.id));
+  return requirements.every((r) => typeof r.categoryId === "number" && categoryIds.has(r.categoryId));
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // NOTE: setupAuth() is now called in server/index.ts before route registration
@@ -32,12 +50,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Get all data needed for analytics in parallel (single query per data type)
-      const [students, assignments, contracts, studentContracts, allProgressFlat] = await Promise.all([
+      const [students, categories, assignments, contracts, studentContracts, allProgressFlat, evaluations] = await Promise.all([
         storage.getEnrolledStudents(classId),
+        storage.getCategoriesByClass(classId),
         storage.getAssignmentsByClass(classId),
         storage.getContractsByClass(classId),
         storage.getStudentContractsByClass(classId),
         storage.getStudentProgressForClass(classId), // Single query for all students
+        contractEvaluationService.evaluateClass(classId),
       ]);
 
       // Group progress by student for efficient lookups
@@ -48,29 +68,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         progressByStudent.set(progress.studentId, studentProgress);
       }
 
-      // Calculate assignment statistics
+      // Calculate assignment statistics, counting students at each level of the class's scale
+      const statusScale = getStatusScale(classData);
       const assignmentStats = assignments.map(assignment => {
-        const statusBreakdown = { notStarted: 0, inProgress: 0, completed: 0, excellent: 0 };
+        const statusBreakdown = statusScale.map(level => ({ ...level, count: 0 }));
         let totalProgress = 0;
+        let lateCount = 0;
 
         students.forEach((student) => {
           const studentProgress = progressByStudent.get(student.id) || [];
           const assignmentProgress = studentProgress.find(p => p.assignmentId === assignment.id);
-          const status = assignmentProgress?.status ?? AssignmentStatus.NOT_STARTED;
-
-          if (!assignmentProgress || status === AssignmentStatus.NOT_STARTED) {
-            statusBreakdown.notStarted++;
-          } else if (status === AssignmentStatus.IN_PROGRESS) {
-            statusBreakdown.inProgress++;
-          } else if (status === AssignmentStatus.COMPLETED) {
-            statusBreakdown.completed++;
-          } else if (status === AssignmentStatus.EXCELLENT) {
-            statusBreakdown.excellent++;
-          }
+          const level = getStatusLevel(assignmentProgress?.status, statusScale);
+
+          statusBreakdown[statusScale.indexOf(level)].count++;
 
-          if (assignmentProgress && isAssignmentDone(status)) {
+          if (assignmentProgress && level.isDone) {
             totalProgress++;
           }
+          if (assignmentProgress?.isLate) {
+            lateCount++;
+          }
         });
 
         const completionRate = students.length > 0 ? Math.round((totalProgress / students.length) * 100) : 0;
@@ -78,7 +95,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return {
           assignment,
           completionRate,
-          statusBreakdown
+          statusBreakdown,
+          lateCount
         };
       });
 
@@ -86,10 +104,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const studentPerformance = students.map((student) => {
         const studentProgress = progressByStudent.get(student.id) || [];
         const studentContract = studentContracts.find(sc => sc.studentId === student.id);
-
-        const completedAssignments = studentProgress.filter(p => isAssignmentDone(p.status)).length;
-        const progressScore = assignments.length > 0 ? Math.round((completedAssignments / assignments.length) * 100) : 0;
+        const contractEvaluation = evaluations.get(student.id) ?? null;
+
+        // Measure progress against the selected contract when there is one
+        const completedAssignments = contractEvaluation
+          ? contractEvaluation.requiredAssignments.current
+          : studentProgress.filter(p => isAssignmentDone(p.status, statusScale)).length;
+        const totalAssignments = contractEvaluation
+          ? contractEvaluation.requiredAssignments.limit
+          : assignments.length;
+        const progressScore = totalAssignments > 0 ? Math.round((completedAssignments / totalAssignments) * 100) : 0;
         
+        const lateAssignments = studentProgress.filter(p => p.isLate).length;
+
         // Find most recent activity
         const lastActivity = studentProgress.length > 0 ? "Recent activity" : "No activity";
 
@@ -98,14 +125,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
           contract: studentContract || null,
           progressScore,
           completedAssignments,
-          totalAssignments: assignments.length,
-          lastActivity
+          totalAssignments,
+          lateAssignments,
+          lastActivity,
+          contractEvaluation
         };
       });
 
       // Calculate contract distribution
-      const contractDistribution = contracts.map(contract => {
-        const contractStudents = studentContracts.filter(sc => sc.contractId === contract.id);
+      // Students pinned to older versions count toward their contract's grade
+      const contractDistribution = sortByGradeTier(latestContractsByGrade(contracts), getGradeTiers(classData)).map(contract => {
+        const versionIds = contracts.filter(c => c.grade === contract.grade).map(c => c.id);
+        const contractStudents = studentContracts.filter(sc => sc.contractId !== null && versionIds.includes(sc.contractId));
         const confirmed = contractStudents.filter(sc => sc.isConfirmed).length;
         const pending = contractStudents.filter(sc => !sc.isConfirmed).length;
         const count = contractStudents.length;
@@ -134,6 +165,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         overallCompletionRate,
         atRiskStudents,
         highPerformers,
+        categories, // Assignment stats are grouped by these on the client
         assignmentStats,
         studentPerformance,
         contractDistribution
@@ -152,6 +184,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.sendStatus(403);
     }
 
+    const cls = await storage.getClass(parseInt(req.params.classId));
+    if (!cls || cls.instructorId !== req.user.id) {
+      return res.sendStatus(403);
+    }
+    if (!getGradeTiers(cls).includes(req.body.grade)) {
+      return res.status(400).json({ message: "Grade must be one of the class's grade tiers" });
+    }
+    if (!(await hasClassCategories(cls.id, req.body.categoryRequirements))) {
+      return res.status(400).json({ message: "Category requirements must use the class's categories" });
+    }
+
     const contract = await storage.createGradeContract({
       classId: parseInt(req.params.classId),
       grade: req.body.grade,
@@ -160,6 +203,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       requiredEngagementIntentions: req.body.requiredEngagementIntentions || 0,
       maxAbsences: req.body.maxAbsences || 0,
       categoryRequirements: req.body.categoryRequirements || null,
+      tokenAllowance: req.body.tokenAllowance || 0,
+      lateWorkCounts: req.body.lateWorkCounts !== false,
     });
     res.status(201).json(contract);
   });
@@ -189,18 +234,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(404).json({ message: "Contract not found" });
     }
 
-    const updatedContract = await storage.updateGradeContract({
-      id: contractId,
-      classId,
-      grade: req.body.grade,
-      version: req.body.version,
-      assignments: req.body.assignments,
-      requiredEngagementIntentions: req.body.requiredEngagementIntentions || 0,
-      maxAbsences: req.body.maxAbsences || 0,
-      categoryRequirements: req.body.categoryRequirements || null,
-    });
+    const cls = await storage.getClass(classId);
+    if (!cls || cls.instructorId !== req.user.id) {
+      return res.sendStatus(403);
+    }
+    if (req.body.grade !== undefined && !getGradeTiers(cls).includes(req.body.grade)) {
+      return res.status(400).json({ message: "Grade must be one of the class's grade tiers" });
+    }
+    if (!(await hasClassCategories(classId, req.body.categoryRequirements))) {
+      return res.status(400).json({ message: "Category requirements must use the class's categories" });
+    }
+
+    try {
+      // Edits never change a contract in place: they create the next version of the grade
+      const grade = req.body.grade ?? contract.grade;
+      const latestVersion = Math.max(
+        0,
+        ...existingContracts.filter(c => c.grade === grade).map(c => c.version)
+      );
+
+      const newVersion = await storage.createGradeContract({
+        classId,
+        grade,
+        version: latestVersion + 1,
+        assignments: req.body.assignments,
+        requiredEngagementIntentions: req.body.requiredEngagementIntentions || 0,
+        maxAbsences: req.body.maxAbsences || 0,
+        categoryRequirements: req.body.categoryRequirements || null,
+        tokenAllowance: req.body.tokenAllowance || 0,
+        lateWorkCounts: typeof req.body.lateWorkCounts === "boolean" ? req.body.lateWorkCounts : contract.lateWorkCounts,
+      });
+
+      // Students who have not confirmed yet follow the latest version; confirmed students stay pinned
+      const studentContracts = await storage.getStudentContractsByClass(classId);
+      const unconfirmed = studentContracts
+        .filter(sc => sc.contractId === contractId && !sc.isConfirmed)
+        .map(sc => sc.studentId);
+      await storage.moveStudentsToContract(classId, unconfirmed, newVersion.id);
 
-    res.json(updatedContract);
+      await auditService.logWithRequest(req, {
+        action: "CREATE",
+        entityType: "grade_contract",
+        entityId: newVersion.id,
+        oldValues: {
+          classId,
+          contractId,
+          grade: contract.grade,
+          version: contract.version,
+        },
+        newValues: {
+          classId,
+          contractId: newVersion.id,
+          grade: newVersion.grade,
+          version: newVersion.version,
+          previousVersionId: contractId,
+        },
+      });
+
+      res.json(newVersion);
+    } catch (error) {
+      console.error("Error creating contract version:", error);
+      res.status(500).json({ message: "Failed to update contract" });
+    }
   });
 
   // Student Contract Selection
@@ -209,9 +304,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.sendStatus(403);
     }
 
+    const cls = await storage.getClass(parseInt(req.params.classId));
+    if (!cls) {
+      return res.status(404).json({ message: "Class not found" });
+    }
+    if (isContractSelectionLocked(cls)) {
+      return res.status(403).json({ message: "The contract selection deadline has passed" });
+    }
+    if (typeof req.body.contractId !== "number") {
+      return res.status(400).json({ message: "Invalid contract ID" });
+    }
+
+    // Only the latest version of a contract in this class can be chosen
+    const contracts = await storage.getContractsByClass(cls.id);
+    if (!contracts.some((c) => c.id === req.body.contractId)) {
+      return res.status(404).json({ message: "Contract not found" });
+    }
+    if (!isLatestContractVersion(contracts, req.body.contractId)) {
+      return res.status(409).json({ message: "This contract has been updated; choose the latest version" });
+    }
+
     const contract = await storage.setStudentContract({
       studentId: req.user.id,
-      classId: parseInt(req.params.classId),
+      classId: cls.id,
       contractId: req.body.contractId,
       isConfirmed: req.body.isConfirmed || false,
     });
@@ -224,6 +339,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.sendStatus(403);
     }
 
+    const cls = await storage.getClass(parseInt(req.params.classId));
+    if (!cls) {
+      return res.status(404).json({ message: "Class not found" });
+    }
+    if (isContractSelectionLocked(cls)) {
+      return res.status(403).json({ message: "The contract selection deadline has passed" });
+    }
+
+    // A selection made before the contract was edited has to be redone first
+    const selected = await storage.getStudentContract(req.user.id, cls.id);
+    if (selected?.contractId != null && !isLatestContractVersion(await storage.getContractsByClass(cls.id), selected.contractId)) {
+      return res.status(409).json({ message: "This contract has been updated; choose the latest version" });
+    }
+
     const contract = await storage.confirmStudentContract(
       req.user.id,
       parseInt(req.params.classId)
@@ -409,49 +538,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const studentId = parseInt(req.params.studentId);
     const assignmentId = parseInt(req.params.assignmentId);
 
+    const cls = await storage.getClass(classId);
+    if (!cls || cls.instructorId !== req.user.id) {
+      return res.sendStatus(403);
+    }
+
     try {
       // Get existing progress entries for this student
       const existingProgress = await storage.getStudentProgress(studentId, classId);
       const currentProgress = existingProgress.find(p => p.assignmentId === assignmentId);
 
-      const progress = await storage.updateProgress({
-        studentId,
-        assignmentId,
-        status: req.body.status !== undefined ? parseInt(req.body.status) : null,
-        numericGrade: req.body.numericGrade !== undefined ? parseFloat(req.body.numericGrade).toString() : null,
-        lastUpdated: new Date(),
-        attempts: (currentProgress?.attempts ?? 0) + 1,
-      });
+      // Only resubmissions count as new attempts; anything else corrects the current attempt
+      const newAttempt = req.body.newAttempt === true;
+
+      // Feedback is rich text from the editor; keep only its formatting tags
+      const feedback = typeof req.body.feedback === "string" && !isRichTextEmpty(req.body.feedback)
+        ? sanitizeRichText(req.body.feedback)
+        : null;
+
+      const assignment = await storage.getAssignment(assignmentId);
+      if (!assignment || assignment.classId !== classId) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+
+      if (newAttempt && currentProgress) {
+        const tokenTransactions = await storage.getStudentTokenTransactions(studentId, classId);
+        const allowed = getAllowedAttempts(assignment.attemptLimit, currentProgress.id, tokenTransactions);
+        if (!canRecordAttempt(currentProgress.attempts ?? 0, allowed)) {
+          return res.status(409).json({
+            message: `This assignment allows ${allowed} attempt${allowed === 1 ? "" : "s"} and all have been used`,
+          });
+        }
+      }
+
+      // Instructors can set the late flag directly. Otherwise work waiting for review keeps the flag
+      // from when it was submitted, corrections keep the existing flag, and new work is late past the due date.
+      let isLate: boolean;
+      if (typeof req.body.isLate === "boolean") {
+        isLate = req.body.isLate;
+      } else if (currentProgress && (currentProgress.awaitingReview || !newAttempt)) {
+        isLate = currentProgress.isLate;
+      } else {
+        isLate = isLateWork(assignment);
+      }
+
+      const { progress, attempt } = await storage.recordAttempt(
+        {
+          studentId,
+          assignmentId,
+          status: req.body.status !== undefined ? parseInt(req.body.status) : null,
+          numericGrade: req.body.numericGrade !== undefined ? parseFloat(req.body.numericGrade).toString() : null,
+          feedback,
+          awaitingReview: false, // Grading clears any submission waiting for review
+          isLate,
+          lastUpdated: new Date(),
+        },
+        req.user.id,
+        newAttempt
+      );
 
       // Audit log the grade change
       await auditService.logWithRequest(req, {
         action: currentProgress ? "UPDATE" : "CREATE",
         entityType: "assignment_progress",
         entityId: progress.id,
-        oldValues: currentProgress ? {
-          studentId: currentProgress.studentId,
-          assignmentId: currentProgress.assignmentId,
-          status: currentProgress.status,
-          numericGrade: currentProgress.numericGrade,
-          classId,
-        } : null,
-        newValues: {
-          studentId: progress.studentId,
-          assignmentId: progress.assignmentId,
-          status: progress.status,
-          numericGrade: progress.numericGrade,
-          classId,
-        },
+        oldValues: currentProgress ? progressAuditValues(currentProgress, classId) : null,
+        newValues: { ...progressAuditValues(progress, classId), attemptNumber: attempt.attemptNumber },
       });
 
       // Broadcast real-time update via WebSocket
-      const event = createProgressUpdateEvent(classId, {
-        studentId,
-        assignmentId,
-        status: progress.status ?? undefined,
-        numericGrade: progress.numericGrade ?? undefined,
-        attempts: progress.attempts ?? undefined,
-      });
+      const event = createProgressUpdateEvent(classId, progressUpdatePayload(progress));
       connectionManager.broadcast(classId, event);
 
       res.json(progress);
@@ -787,6 +943,12 @@ Widener University Contract Grading Portal`
       return res.status(400).json(parsed.error);
     }
 
+    // Weeks come from the class schedule; breaks shorten the term
+    const weeks = getEngagementWeeks(cls);
+    if (weeks.length > 0 && !weeks.some((w) => w.weekNumber === parsed.data.weekNumber)) {
+      return res.status(400).json({ message: `This class has ${weeks.length} engagement weeks` });
+    }
+
     try {
       // Check if intention already exists for this week
       const existing = await storage.getEngagementIntention(
@@ -906,6 +1068,8 @@ Widener University Contract Grading Portal`
       // Verify permissions
       if (req.user.role === "student" && currentIntention.studentId !== req.user.id) {
         return res.sendStatus(403);
+      } else if (req.user.role === "student" && !canEditIntention(currentIntention.reviewStatus)) {
+        return res.status(409).json({ message: "This intention has already been reviewed" });
       } else if (req.user.role === "instructor") {
         const cls = await storage.getClass(currentIntention.classId);
         if (!cls || cls.instructorId !== req.user.id) {
@@ -1006,9 +1170,13 @@ Widener University Contract Grading Portal`
       return res.sendStatus(403);
     }
 
+    const parsed = batchAttendanceSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json(parsed.error);
+    }
+
     try {
-      const { records } = req.body;
-      await storage.batchUpsertAttendance(records);
+      await storage.batchUpsertAttendance(parsed.data.records.map((record) => ({ ...record, classId })));
       res.json({ success: true });
     } catch (error) {
       console.error("Error saving attendance records:", error);
@@ -1061,8 +1229,9 @@ Widener University Contract Grading Portal`
     }
 
     try {
-      await storage.setStudentAbsences(studentId, classId, absences);
-      res.json({ success: true });
+      // Session records stay as taken, so the count may not go as low as asked
+      const total = await storage.setStudentAbsences(studentId, classId, absences, getAttendancePolicy(cls));
+      res.json({ success: true, absences: total });
     } catch (error) {
       console.error("Error updating absences:", error);
       res.status(500).json({ message: "Failed to update absences" });
@@ -1,10 +1,30 @@
 import { Router } from "express";
 import { storage } from "../storage";
-import { insertAssignmentSchema } from "@shared/schema";
+import { insertAssignmentSchema, updateAssignmentSchema } from "@shared/schema";
+import { getWindowError } from "@shared/late-policy";
 import { requireAuth, requireInstructor } from "../middleware";
 
 const router = Router();
 
+/**
+ * Check that a category id (if any) belongs to the class
+ */
+async function isClassCategory(classId: number, categoryId: unknown): Promise<boolean> {
+  if (categoryId === null || categoryId === undefined) return true;
+  if (typeof categoryId !== "number") return false;
+  const category = await storage.getCategory(categoryId);
+  return category?.classId === classId;
+}
+
+/**
+ * Turn optional date strings from the client into Date objects, keeping
+ * omitted fields omitted so partial updates leave them alone
+ */
+function toDate(value: string | null | undefined): Date | null | undefined {
+  if (value === undefined) return undefined;
+  return value ? new Date(value) : null;
+}
+
 // Create a new assignment
 router.post("/api/classes/:classId/assignments", requireInstructor, async (req, res) => {
   const classId = parseInt(req.params.classId);
@@ -21,21 +41,33 @@ router.post("/api/classes/:classId/assignments", requireInstructor, async (req,
   const parsedData = {
     ...req.body,
     classId,
-    moduleGroup: req.body.moduleGroup || null,
+    categoryId: req.body.categoryId ?? null,
     attemptLimit: req.body.attemptLimit ? parseInt(req.body.attemptLimit) : null,
   };
 
   const parsed = insertAssignmentSchema.safeParse(parsedData);
   if (!parsed.success) {
-    return res.status(400).json(parsed.error);
+    return res.status(400).json({ message: parsed.error.errors[0].message });
+  }
+  if (!(await isClassCategory(classId, parsed.data.categoryId))) {
+    return res.status(400).json({ message: "Category does not belong to this class" });
   }
 
-  // Convert dueDate string to Date object if provided
+  // Convert date strings to Date objects if provided
   const assignmentData = {
     ...parsed.data,
-    dueDate: parsed.data.dueDate ? new Date(parsed.data.dueDate) : null,
+    dueDate: toDate(parsed.data.dueDate) ?? null,
+    opensAt: toDate(parsed.data.opensAt) ?? null,
+    closesAt: toDate(parsed.data.closesAt) ?? null,
+    latePolicy: parsed.data.latePolicy ?? "flag",
+    attemptLimit: parsed.data.attemptLimit ?? null,
   };
 
+  const windowError = getWindowError(assignmentData);
+  if (windowError) {
+    return res.status(400).json({ message: windowError });
+  }
+
   const assignment = await storage.createAssignment(assignmentData);
   res.status(201).json(assignment);
 });
@@ -70,9 +102,38 @@ router.patch("/api/classes/:classId/assignments/:assignmentId", requireInstructo
   if (!cls || cls.instructorId !== req.user!.id) {
     return res.sendStatus(403);
   }
+  const existing = await storage.getAssignment(assignmentId);
+  if (!existing || existing.classId !== classId) {
+    return res.status(404).json({ message: "Assignment not found" });
+  }
+
+  const parsed = updateAssignmentSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: parsed.error.errors[0].message });
+  }
+  if (!(await isClassCategory(classId, parsed.data.categoryId))) {
+    return res.status(400).json({ message: "Category does not belong to this class" });
+  }
+
+  const updates = {
+    ...parsed.data,
+    dueDate: toDate(parsed.data.dueDate),
+    opensAt: toDate(parsed.data.opensAt),
+    closesAt: toDate(parsed.data.closesAt),
+  };
+
+  // Check the window as it will be saved, including dates this update leaves alone
+  const windowError = getWindowError({
+    dueDate: updates.dueDate === undefined ? existing.dueDate : updates.dueDate,
+    opensAt: updates.opensAt === undefined ? existing.opensAt : updates.opensAt,
+    closesAt: updates.closesAt === undefined ? existing.closesAt : updates.closesAt,
+  });
+  if (windowError) {
+    return res.status(400).json({ message: windowError });
+  }
 
   try {
-    const assignment = await storage.updateAssignment(assignmentId, req.body);
+    const assignment = await storage.updateAssignment(assignmentId, updates);
     res.json(assignment);
   } catch (error) {
     console.error("Error updating assignment:", error);
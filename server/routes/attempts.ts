@@ -0,0 +1,54 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { requireAuth } from "../middleware";
+import { getAllowedAttempts, type AttemptHistory } from "@shared/attempts";
+
+const router = Router();
+
+// Attempt history for one student's assignment, with how many attempts are allowed
+router.get("/api/classes/:classId/students/:studentId/assignments/:assignmentId/attempts", requireAuth, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  const studentId = parseInt(req.params.studentId);
+  const assignmentId = parseInt(req.params.assignmentId);
+
+  if (isNaN(classId) || isNaN(studentId) || isNaN(assignmentId)) {
+    return res.status(400).json({ message: "Invalid ID" });
+  }
+
+  // Students can only view their own attempts, instructors must own the class
+  if (req.user!.role === "instructor") {
+    const cls = await storage.getClass(classId);
+    if (!cls || cls.instructorId !== req.user!.id) {
+      return res.sendStatus(403);
+    }
+  } else if (req.user!.id !== studentId) {
+    return res.sendStatus(403);
+  }
+
+  try {
+    const [assignments, progress, tokenTransactions] = await Promise.all([
+      storage.getAssignmentsByClass(classId),
+      storage.getStudentProgress(studentId, classId),
+      storage.getStudentTokenTransactions(studentId, classId),
+    ]);
+
+    const assignment = assignments.find((a) => a.id === assignmentId);
+    if (!assignment) {
+      return res.status(404).json({ message: "Assignment not found" });
+    }
+
+    const current = progress.find((p) => p.assignmentId === assignmentId);
+    const attempts = current ? await storage.getProgressAttempts(current.id) : [];
+
+    const history: AttemptHistory = {
+      attempts,
+      allowedAttempts: getAllowedAttempts(assignment.attemptLimit, current?.id, tokenTransactions),
+    };
+    res.json(history);
+  } catch (error) {
+    console.error("Error fetching assignment attempts:", error);
+    res.status(500).json({ message: "Failed to fetch attempts" });
+  }
+});
+
+export default router;
@@ -1,7 +1,12 @@
-import { Router } from "express";
-import { auditService } from "../audit";
+import { Router, type Request } from "express";
+import crypto from "crypto";
+import { auditService, progressAuditValues } from "../audit";
+import { AppError } from "../errors";
 import { requireAuth, requireInstructor } from "../middleware";
 import { storage } from "../storage";
+import { connectionManager, createProgressBatchUpdateEvent, progressUpdatePayload } from "../websocket";
+import type { AuditLog } from "@shared/schema";
+import { isRevertibleEntry, loggedGrade } from "@shared/grade-revert";
 
 const router = Router();
 
@@ -84,4 +89,127 @@ router.get(
   }
 );
 
+/**
+ * Put grades back to what they were before `logs`, undoing the newest change first.
+ * Each revert is logged as a new entry pointing at the one it undoes; reverting a
+ * batch gives the reverts a batch of their own so they can be undone together too.
+ */
+async function revertEntries(req: Request, classId: number, logs: AuditLog[], revertedBatchId?: string) {
+  const newestFirst = [...logs].reverse();
+  const reverted = await storage.revertGrades(
+    newestFirst.map((log) => ({
+      studentId: log.newValues!.studentId as number,
+      assignmentId: log.newValues!.assignmentId as number,
+      expected: loggedGrade(log.newValues),
+      restore: loggedGrade(log.oldValues),
+    })),
+    req.user!.id
+  );
+
+  const batchId = revertedBatchId ? crypto.randomUUID() : undefined;
+  for (let i = 0; i < reverted.length; i++) {
+    const { previous, progress, attempt } = reverted[i];
+    await auditService.logWithRequest(req, {
+      action: "REVERT",
+      entityType: "assignment_progress",
+      entityId: progress.id,
+      oldValues: previous ? progressAuditValues(previous, classId) : null,
+      newValues: {
+        ...progressAuditValues(progress, classId),
+        attemptNumber: attempt.attemptNumber,
+        revertOf: newestFirst[i].id,
+        ...(batchId && { batchId, revertedBatchId, source: "revert" }),
+      },
+    });
+  }
+
+  connectionManager.broadcast(
+    classId,
+    createProgressBatchUpdateEvent(
+      classId,
+      reverted.map(({ progress }) => progressUpdatePayload(progress))
+    )
+  );
+
+  return { reverted: reverted.map((r) => r.progress), batchId: batchId ?? null };
+}
+
+// Revert a single grade change from the activity feed (instructor only)
+router.post(
+  "/api/classes/:classId/activity/:logId/revert",
+  requireInstructor,
+  async (req, res) => {
+    const classId = parseInt(req.params.classId);
+    const logId = parseInt(req.params.logId);
+
+    if (isNaN(classId) || isNaN(logId)) {
+      return res.status(400).json({ message: "Invalid ID" });
+    }
+
+    const cls = await storage.getClass(classId);
+    if (!cls || cls.instructorId !== req.user!.id) {
+      return res.sendStatus(403);
+    }
+
+    try {
+      const log = await auditService.getLog(logId);
+      if (!log || log.newValues?.classId !== classId) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+      if (!isRevertibleEntry(log)) {
+        return res.status(400).json({ message: "Only grade changes can be reverted" });
+      }
+
+      res.json(await revertEntries(req, classId, [log]));
+    } catch (error) {
+      // The grade moved on since this change, so nothing was written
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error reverting grade change:", error);
+      res.status(500).json({ message: "Failed to revert grade change" });
+    }
+  }
+);
+
+// Revert every grade change made by one batch, such as a gradebook save (instructor only)
+router.post(
+  "/api/classes/:classId/activity/batches/:batchId/revert",
+  requireInstructor,
+  async (req, res) => {
+    const classId = parseInt(req.params.classId);
+
+    if (isNaN(classId)) {
+      return res.status(400).json({ message: "Invalid class ID" });
+    }
+
+    const cls = await storage.getClass(classId);
+    if (!cls || cls.instructorId !== req.user!.id) {
+      return res.sendStatus(403);
+    }
+
+    try {
+      const logs = (await auditService.getLogsForBatch(req.params.batchId)).filter(
+        (log) => log.newValues?.classId === classId && isRevertibleEntry(log)
+      );
+      if (logs.length === 0) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+      // Imports also change absences, which only a rollback of the run undoes
+      if (logs.some((log) => log.newValues?.source === "canvas_import" && log.newValues?.importRunId !== undefined)) {
+        return res.status(400).json({ message: "Roll back this import from the import history instead" });
+      }
+
+      // All or nothing: if any grade in the batch has moved on, none are reverted
+      res.json(await revertEntries(req, classId, logs, req.params.batchId));
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error("Error reverting batch:", error);
+      res.status(500).json({ message: "Failed to revert batch" });
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,86 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { requireAuth } from "../middleware";
+import { buildClassCalendar, sortCalendarEvents, toICalendar, type CalendarEvent } from "@shared/calendar";
+import type { User } from "@shared/schema";
+
+const router = Router();
+
+// Due dates, engagement weeks, meetings and contract deadlines across the user's active classes
+async function getUserCalendar(user: User): Promise<CalendarEvent[]> {
+  const classes = user.role === "instructor"
+    ? await storage.getClassesByInstructor(user.id)
+    : await storage.getClassesByStudent(user.id);
+
+  const events: CalendarEvent[] = [];
+  for (const cls of classes.filter((c) => !c.isArchived)) {
+    const [assignments, attendance] = await Promise.all([
+      storage.getAssignmentsByClass(cls.id),
+      storage.getAttendanceForClass(cls.id),
+    ]);
+    events.push(...buildClassCalendar(cls, assignments, attendance));
+  }
+  return sortCalendarEvents(events);
+}
+
+function feedPath(token: string): string {
+  return `/api/calendar/feed/${token}.ics`;
+}
+
+router.get("/api/calendar", requireAuth, async (req, res) => {
+  try {
+    res.json(await getUserCalendar(req.user!));
+  } catch (error) {
+    console.error("Error building calendar:", error);
+    res.status(500).json({ message: "Failed to fetch calendar" });
+  }
+});
+
+// The user's private feed URL, created on first request
+router.get("/api/calendar/feed", requireAuth, async (req, res) => {
+  try {
+    const feedToken = (await storage.getCalendarFeedToken(req.user!.id))
+      ?? (await storage.resetCalendarFeedToken(req.user!.id));
+    res.json({ path: feedPath(feedToken.token) });
+  } catch (error) {
+    console.error("Error fetching calendar feed:", error);
+    res.status(500).json({ message: "Failed to fetch calendar feed" });
+  }
+});
+
+// Issue a new feed URL; calendars subscribed to the old one stop updating
+router.post("/api/calendar/feed/reset", requireAuth, async (req, res) => {
+  try {
+    const feedToken = await storage.resetCalendarFeedToken(req.user!.id);
+    res.json({ path: feedPath(feedToken.token) });
+  } catch (error) {
+    console.error("Error resetting calendar feed:", error);
+    res.status(500).json({ message: "Failed to reset calendar feed" });
+  }
+});
+
+// Public: calendar apps authenticate with the token in the URL instead of a session
+router.get("/api/calendar/feed/:file", async (req, res) => {
+  const match = /^([0-9a-f]+)\.ics$/.exec(req.params.file);
+  if (!match) {
+    return res.sendStatus(404);
+  }
+
+  try {
+    const user = await storage.getUserByCalendarFeedToken(match[1]);
+    if (!user) {
+      return res.sendStatus(404);
+    }
+
+    const events = await getUserCalendar(user);
+    res
+      .type("text/calendar; charset=utf-8")
+      .set("Cache-Control", "no-cache")
+      .send(toICalendar(events, `${user.fullName} – Classes`));
+  } catch (error) {
+    console.error("Error serving calendar feed:", error);
+    res.status(500).json({ message: "Failed to build calendar feed" });
+  }
+});
+
+export default router;
@@ -1,6 +1,15 @@
 import { Router } from "express";
+import crypto from "crypto";
 import { requireInstructor } from "../middleware";
 import { storage } from "../storage";
+import { auditService, progressAuditValues } from "../audit";
+import { AppError } from "../errors";
+import { connectionManager, createProgressBatchUpdateEvent, progressUpdatePayload } from "../websocket";
+import { getAttendancePolicy } from "@shared/attendance";
+import { toRunMappings } from "@shared/import-runs";
+import { mergeSavedColumns, toSavedColumnMapping } from "@shared/canvas-mapping";
+import { gradeConversionSettingsSchema, savedColumnMappingSchema } from "@shared/schema";
+import { z } from "zod";
 import {
   CanvasImportService,
   NormalizedGradeData,
@@ -29,17 +38,24 @@ router.post("/api/classes/:classId/canvas/preview", requireInstructor, async (re
     return res.status(403).json({ message: "Not authorized" });
   }
 
-  const { normalizedData, mappings } = req.body as {
+  const { normalizedData, mappings, conversion } = req.body as {
     normalizedData: NormalizedGradeData;
     mappings: AssignmentMapping[];
+    conversion?: unknown;
   };
 
   if (!normalizedData || !mappings) {
     return res.status(400).json({ message: "Missing normalizedData or mappings" });
   }
 
+  // Letter grades and thresholds the instructor adjusted, if any
+  const parsedConversion = gradeConversionSettingsSchema.optional().safeParse(conversion ?? undefined);
+  if (!parsedConversion.success) {
+    return res.status(400).json(parsedConversion.error);
+  }
+
   try {
-    const preview = await importService.generatePreview(classId, normalizedData, mappings);
+    const preview = await importService.generatePreview(classId, normalizedData, mappings, parsedConversion.data);
     res.json(preview);
   } catch (error) {
     console.error("Error generating import preview:", error);
@@ -66,16 +82,71 @@ router.post("/api/classes/:classId/canvas/import", requireInstructor, async (req
     return res.status(403).json({ message: "Not authorized" });
   }
 
-  const { gradeChanges, absenceChanges } = req.body as { gradeChanges: GradeChange[]; absenceChanges?: AbsenceChange[] };
+  const { gradeChanges, absenceChanges, fileName, mappings, conversion } = req.body as {
+    gradeChanges: GradeChange[];
+    absenceChanges?: AbsenceChange[];
+    fileName?: string;
+    mappings?: AssignmentMapping[];
+    conversion?: unknown;
+  };
 
   if (!gradeChanges || !Array.isArray(gradeChanges)) {
     return res.status(400).json({ message: "Missing or invalid gradeChanges" });
   }
 
+  const parsedConversion = gradeConversionSettingsSchema.optional().safeParse(conversion ?? undefined);
+  if (!parsedConversion.success) {
+    return res.status(400).json(parsedConversion.error);
+  }
+
   try {
-    const result = await importService.executeImport(gradeChanges, classId, absenceChanges);
+    // The import is recorded as a run with every change it made, so it can be reviewed
+    // and rolled back. Row-level updates are left out of the response.
+    const batchId = crypto.randomUUID();
+    const { run, gradeUpdates, ...result } = await importService.executeImport(
+      classId,
+      {
+        uploadedBy: req.user!.id,
+        fileName: typeof fileName === "string" && fileName.trim() ? fileName.trim().slice(0, 255) : null,
+        mappings: Array.isArray(mappings) ? toRunMappings(mappings) : [],
+        batchId,
+      },
+      gradeChanges,
+      Array.isArray(absenceChanges) ? absenceChanges : []
+    );
+
+    // The run's grade entries share a batch in the activity feed
+    for (const { previous, progress } of gradeUpdates) {
+      await auditService.logWithRequest(req, {
+        action: previous ? "UPDATE" : "CREATE",
+        entityType: "assignment_progress",
+        entityId: progress.id,
+        oldValues: previous ? progressAuditValues(previous, classId) : null,
+        newValues: { ...progressAuditValues(progress, classId), batchId, source: "canvas_import", importRunId: run.id },
+      });
+    }
+
+    // Remember the mappings for next time; the import has already happened, so a bad
+    // mapping list only skips saving
+    if (Array.isArray(mappings)) {
+      const columns = z.array(savedColumnMappingSchema).safeParse(mappings.map(toSavedColumnMapping));
+      if (columns.success) {
+        try {
+          const existing = await storage.getCanvasMappingProfile(classId);
+          await storage.saveCanvasMappingProfile(
+            classId,
+            {
+              columns: mergeSavedColumns(existing?.columns ?? [], columns.data),
+              conversion: parsedConversion.data ?? existing?.conversion ?? null,
+            },
+            req.user!.id
+          );
+        } catch (error) {
+          console.error("Error saving Canvas mapping profile:", error);
+        }
+      }
+    }
 
-    // Log successful imports to audit (if audit service is available)
     console.log(`Canvas import completed for class ${classId}:`, {
       processedStudents: result.processedStudents,
       processedGrades: result.processedGrades,
@@ -83,7 +154,7 @@ router.post("/api/classes/:classId/canvas/import", requireInstructor, async (req
       errors: result.errors.length
     });
 
-    res.json(result);
+    res.json({ ...result, runId: run.id });
   } catch (error) {
     console.error("Error executing import:", error);
     res.status(500).json({
@@ -92,4 +163,171 @@ router.post("/api/classes/:classId/canvas/import", requireInstructor, async (req
   }
 });
 
+/**
+ * The column mappings and conversion settings saved from earlier imports
+ * GET /api/classes/:classId/canvas/mapping-profile
+ */
+router.get("/api/classes/:classId/canvas/mapping-profile", requireInstructor, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+
+  if (isNaN(classId)) {
+    return res.status(400).json({ message: "Invalid class ID" });
+  }
+
+  const cls = await storage.getClass(classId);
+  if (!cls || cls.instructorId !== req.user!.id) {
+    return res.status(403).json({ message: "Not authorized" });
+  }
+
+  try {
+    res.json((await storage.getCanvasMappingProfile(classId)) ?? null);
+  } catch (error) {
+    console.error("Error fetching Canvas mapping profile:", error);
+    res.status(500).json({ message: "Failed to fetch saved mappings" });
+  }
+});
+
+/**
+ * Forget the saved mappings so the next import starts fresh
+ * DELETE /api/classes/:classId/canvas/mapping-profile
+ */
+router.delete("/api/classes/:classId/canvas/mapping-profile", requireInstructor, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+
+  if (isNaN(classId)) {
+    return res.status(400).json({ message: "Invalid class ID" });
+  }
+
+  const cls = await storage.getClass(classId);
+  if (!cls || cls.instructorId !== req.user!.id) {
+    return res.status(403).json({ message: "Not authorized" });
+  }
+
+  try {
+    await storage.deleteCanvasMappingProfile(classId);
+    res.sendStatus(204);
+  } catch (error) {
+    console.error("Error deleting Canvas mapping profile:", error);
+    res.status(500).json({ message: "Failed to forget saved mappings" });
+  }
+});
+
+/**
+ * Past imports for a class, newest first
+ * GET /api/classes/:classId/canvas/import-runs
+ */
+router.get("/api/classes/:classId/canvas/import-runs", requireInstructor, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+
+  if (isNaN(classId)) {
+    return res.status(400).json({ message: "Invalid class ID" });
+  }
+
+  const cls = await storage.getClass(classId);
+  if (!cls || cls.instructorId !== req.user!.id) {
+    return res.status(403).json({ message: "Not authorized" });
+  }
+
+  try {
+    res.json(await storage.getImportRunsByClass(classId));
+  } catch (error) {
+    console.error("Error fetching import runs:", error);
+    res.status(500).json({ message: "Failed to fetch import history" });
+  }
+});
+
+/**
+ * The grades and absence counts one import changed
+ * GET /api/classes/:classId/canvas/import-runs/:runId/changes
+ */
+router.get("/api/classes/:classId/canvas/import-runs/:runId/changes", requireInstructor, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  const runId = parseInt(req.params.runId);
+
+  if (isNaN(classId) || isNaN(runId)) {
+    return res.status(400).json({ message: "Invalid ID" });
+  }
+
+  const cls = await storage.getClass(classId);
+  if (!cls || cls.instructorId !== req.user!.id) {
+    return res.status(403).json({ message: "Not authorized" });
+  }
+
+  try {
+    const run = await storage.getImportRun(runId);
+    if (!run || run.classId !== classId) {
+      return res.status(404).json({ message: "Import not found" });
+    }
+    res.json(await storage.getImportRunChanges(runId));
+  } catch (error) {
+    console.error("Error fetching import run changes:", error);
+    res.status(500).json({ message: "Failed to fetch import changes" });
+  }
+});
+
+/**
+ * Undo everything one import changed. Refused if any of it has been changed since.
+ * POST /api/classes/:classId/canvas/import-runs/:runId/rollback
+ */
+router.post("/api/classes/:classId/canvas/import-runs/:runId/rollback", requireInstructor, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  const runId = parseInt(req.params.runId);
+
+  if (isNaN(classId) || isNaN(runId)) {
+    return res.status(400).json({ message: "Invalid ID" });
+  }
+
+  const cls = await storage.getClass(classId);
+  if (!cls || cls.instructorId !== req.user!.id) {
+    return res.status(403).json({ message: "Not authorized" });
+  }
+
+  try {
+    const existing = await storage.getImportRun(runId);
+    if (!existing || existing.classId !== classId) {
+      return res.status(404).json({ message: "Import not found" });
+    }
+
+    const { run, grades, absences } = await storage.rollbackImportRun(runId, req.user!.id, getAttendancePolicy(cls));
+
+    // Reverts are logged as a batch of their own, pointing back at the import's batch
+    const batchId = crypto.randomUUID();
+    for (const { previous, progress, attempt } of grades) {
+      await auditService.logWithRequest(req, {
+        action: "REVERT",
+        entityType: "assignment_progress",
+        entityId: progress.id,
+        oldValues: previous ? progressAuditValues(previous, classId) : null,
+        newValues: {
+          ...progressAuditValues(progress, classId),
+          attemptNumber: attempt.attemptNumber,
+          batchId,
+          revertedBatchId: run.batchId,
+          source: "import_rollback",
+          importRunId: run.id,
+        },
+      });
+    }
+
+    if (grades.length > 0) {
+      connectionManager.broadcast(
+        classId,
+        createProgressBatchUpdateEvent(
+          classId,
+          grades.map(({ progress }) => progressUpdatePayload(progress))
+        )
+      );
+    }
+
+    res.json({ run, revertedGrades: grades.length, revertedAbsences: absences });
+  } catch (error) {
+    // Something from the run changed since, or another rollback got there first
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error("Error rolling back import:", error);
+    res.status(500).json({ message: "Failed to roll back import" });
+  }
+});
+
 export default router;
@@ -0,0 +1,150 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { insertCategorySchema, reorderCategoriesSchema, updateCategorySchema } from "@shared/schema";
+import { requireClassMember, requireInstructor } from "../middleware";
+
+const router = Router();
+
+// Get a class's categories in display order (its instructor or an enrolled student)
+router.get("/api/classes/:classId/categories", requireClassMember(), async (req, res) => {
+  try {
+    const categories = await storage.getCategoriesByClass(req.cls!.id);
+    res.json(categories);
+  } catch (error) {
+    console.error("Error fetching categories:", error);
+    res.status(500).json({ message: "Failed to fetch categories" });
+  }
+});
+
+// Create a category
+router.post("/api/classes/:classId/categories", requireInstructor, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  if (isNaN(classId)) {
+    return res.status(400).json({ message: "Invalid class ID" });
+  }
+
+  const cls = await storage.getClass(classId);
+  if (!cls || cls.instructorId !== req.user!.id) {
+    return res.sendStatus(403);
+  }
+
+  const parsed = insertCategorySchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json(parsed.error);
+  }
+
+  const existing = await storage.getCategoriesByClass(classId);
+  if (existing.some((c) => c.name.toLowerCase() === parsed.data.name.toLowerCase())) {
+    return res.status(400).json({ message: `A category named "${parsed.data.name}" already exists` });
+  }
+
+  try {
+    const category = await storage.createCategory(classId, parsed.data);
+    res.status(201).json(category);
+  } catch (error) {
+    console.error("Error creating category:", error);
+    res.status(500).json({ message: "Failed to create category" });
+  }
+});
+
+// Reorder a class's categories
+router.put("/api/classes/:classId/categories/reorder", requireInstructor, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  if (isNaN(classId)) {
+    return res.status(400).json({ message: "Invalid class ID" });
+  }
+
+  const cls = await storage.getClass(classId);
+  if (!cls || cls.instructorId !== req.user!.id) {
+    return res.sendStatus(403);
+  }
+
+  const parsed = reorderCategoriesSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json(parsed.error);
+  }
+
+  try {
+    await storage.reorderCategories(classId, parsed.data.categoryIds);
+    res.sendStatus(200);
+  } catch (error) {
+    console.error("Error reordering categories:", error);
+    res.status(500).json({ message: "Failed to reorder categories" });
+  }
+});
+
+// Update a category's name, description or color
+router.patch("/api/categories/:id", requireInstructor, async (req, res) => {
+  const categoryId = parseInt(req.params.id);
+  if (isNaN(categoryId)) {
+    return res.status(400).json({ message: "Invalid category ID" });
+  }
+
+  const category = await storage.getCategory(categoryId);
+  if (!category) {
+    return res.status(404).json({ message: "Category not found" });
+  }
+
+  const cls = await storage.getClass(category.classId);
+  if (!cls || cls.instructorId !== req.user!.id) {
+    return res.sendStatus(403);
+  }
+
+  const parsed = updateCategorySchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json(parsed.error);
+  }
+
+  if (parsed.data.name !== undefined) {
+    const existing = await storage.getCategoriesByClass(category.classId);
+    const name = parsed.data.name.toLowerCase();
+    if (existing.some((c) => c.id !== categoryId && c.name.toLowerCase() === name)) {
+      return res.status(400).json({ message: `A category named "${parsed.data.name}" already exists` });
+    }
+  }
+
+  try {
+    const updated = await storage.updateCategory(categoryId, parsed.data);
+    res.json(updated);
+  } catch (error) {
+    console.error("Error updating category:", error);
+    res.status(500).json({ message: "Failed to update category" });
+  }
+});
+
+// Delete a category; its assignments become uncategorized
+router.delete("/api/categories/:id", requireInstructor, async (req, res) => {
+  const categoryId = parseInt(req.params.id);
+  if (isNaN(categoryId)) {
+    return res.status(400).json({ message: "Invalid category ID" });
+  }
+
+  const category = await storage.getCategory(categoryId);
+  if (!category) {
+    return res.status(404).json({ message: "Category not found" });
+  }
+
+  const cls = await storage.getClass(category.classId);
+  if (!cls || cls.instructorId !== req.user!.id) {
+    return res.sendStatus(403);
+  }
+
+  // Contracts that count work in this category would silently change meaning
+  const contracts = await storage.getContractsByClass(category.classId);
+  const dependent = contracts.find((c) => c.categoryRequirements?.some((cr) => cr.categoryId === categoryId));
+  if (dependent) {
+    return res.status(400).json({
+      message: `The ${dependent.grade} contract has a requirement for "${category.name}". Remove it before deleting the category.`,
+    });
+  }
+
+  try {
+    await storage.deleteCategory(categoryId);
+    res.sendStatus(200);
+  } catch (error) {
+    console.error("Error deleting category:", error);
+    res.status(500).json({ message: "Failed to delete category" });
+  }
+});
+
+export default router;
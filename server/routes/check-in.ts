@@ -0,0 +1,187 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { auditService } from "../audit";
+import { checkInService } from "../services/check-in";
+import { checkInSchema, openCheckInSchema } from "@shared/schema";
+import { getCodeExpiry, summarizeCheckInSession, type CheckInStatus } from "@shared/check-in";
+import { requireAuth, requireInstructor, requireStudent } from "../middleware";
+
+const router = Router();
+
+// Get the class's open check-in session: with the live code for its instructor,
+// or whether they've checked in for an enrolled student
+router.get("/api/classes/:classId/check-in", requireAuth, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  if (isNaN(classId)) {
+    return res.status(400).json({ message: "Invalid class ID" });
+  }
+
+  const cls = await storage.getClass(classId);
+  if (!cls) {
+    return res.status(404).json({ message: "Class not found" });
+  }
+
+  const isInstructor = req.user!.role === "instructor";
+  if (isInstructor && cls.instructorId !== req.user!.id) {
+    return res.sendStatus(403);
+  }
+  if (!isInstructor && !(await storage.getStudentContract(req.user!.id, classId))) {
+    return res.sendStatus(403);
+  }
+
+  try {
+    const session = await storage.getOpenCheckInSession(classId);
+    if (!session) {
+      // Nothing is open, so any session the class had is over
+      checkInService.clearAttempts(classId);
+      const status: CheckInStatus = { session: null };
+      return res.json(status);
+    }
+
+    const records = await storage.getCheckInSessionRecords(session.id);
+    const now = new Date();
+    const status: CheckInStatus = isInstructor
+      ? {
+          session: summarizeCheckInSession(session),
+          code: checkInService.getCode(session, now),
+          codeExpiresAt: getCodeExpiry(now).toISOString(),
+          checkedInCount: records.length,
+        }
+      : {
+          session: summarizeCheckInSession(session),
+          checkedIn: records.some((r) => r.studentId === req.user!.id),
+        };
+    res.json(status);
+  } catch (error) {
+    console.error("Error fetching check-in session:", error);
+    res.status(500).json({ message: "Failed to fetch check-in session" });
+  }
+});
+
+// Open a check-in session, closing any the class already has open
+router.post("/api/classes/:classId/check-in/open", requireInstructor, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  if (isNaN(classId)) {
+    return res.status(400).json({ message: "Invalid class ID" });
+  }
+
+  const cls = await storage.getClass(classId);
+  if (!cls || cls.instructorId !== req.user!.id) {
+    return res.sendStatus(403);
+  }
+
+  const parsed = openCheckInSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json(parsed.error);
+  }
+
+  try {
+    const session = await storage.createCheckInSession({
+      classId,
+      date: parsed.data.date,
+      secret: checkInService.createSecret(),
+      openedBy: req.user!.id,
+      expiresAt: new Date(Date.now() + parsed.data.minutes * 60 * 1000),
+    });
+    checkInService.clearAttempts(classId);
+    res.status(201).json(summarizeCheckInSession(session));
+  } catch (error) {
+    console.error("Error opening check-in session:", error);
+    res.status(500).json({ message: "Failed to open check-in" });
+  }
+});
+
+// Close the class's open check-in session early
+router.post("/api/classes/:classId/check-in/close", requireInstructor, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  if (isNaN(classId)) {
+    return res.status(400).json({ message: "Invalid class ID" });
+  }
+
+  const cls = await storage.getClass(classId);
+  if (!cls || cls.instructorId !== req.user!.id) {
+    return res.sendStatus(403);
+  }
+
+  try {
+    const session = await storage.getOpenCheckInSession(classId);
+    if (!session) {
+      return res.status(404).json({ message: "Check-in is not open" });
+    }
+    const closed = await storage.closeCheckInSession(session.id);
+    checkInService.clearAttempts(classId);
+    res.json(summarizeCheckInSession(closed));
+  } catch (error) {
+    console.error("Error closing check-in session:", error);
+    res.status(500).json({ message: "Failed to close check-in" });
+  }
+});
+
+// Check in to the open session with its current code
+router.post("/api/classes/:classId/check-in", requireStudent, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  if (isNaN(classId)) {
+    return res.status(400).json({ message: "Invalid class ID" });
+  }
+
+  const studentId = req.user!.id;
+  if (!(await storage.getStudentContract(studentId, classId))) {
+    return res.sendStatus(403);
+  }
+
+  const parsed = checkInSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json(parsed.error);
+  }
+
+  try {
+    const session = await storage.getOpenCheckInSession(classId);
+    if (!session) {
+      checkInService.clearAttempts(classId);
+      return res.status(400).json({ message: "Check-in is closed" });
+    }
+
+    const records = await storage.getCheckInSessionRecords(session.id);
+    const existing = records.find((r) => r.studentId === studentId);
+    if (existing) {
+      return res.json(existing);
+    }
+
+    if (checkInService.isLockedOut(session, studentId)) {
+      return res.status(429).json({ message: "Too many wrong codes. Ask your instructor to mark you present." });
+    }
+    if (!checkInService.verifyCode(session, parsed.data.code)) {
+      const remaining = checkInService.recordFailedAttempt(session, studentId);
+      return res.status(400).json({
+        message: remaining > 0
+          ? `That code is wrong or has expired. ${remaining} ${remaining === 1 ? "try" : "tries"} left.`
+          : "Too many wrong codes. Ask your instructor to mark you present.",
+      });
+    }
+
+    const previous = (await storage.getClassAttendanceByDate(classId, session.date))
+      .find((r) => r.studentId === studentId);
+    const [record] = await storage.batchUpsertAttendance([{
+      studentId,
+      classId,
+      date: session.date,
+      status: "present",
+      checkInSessionId: session.id,
+    }]);
+
+    await auditService.logWithRequest(req, {
+      action: "CHECK_IN",
+      entityType: "attendance",
+      entityId: record.id,
+      oldValues: previous ? { studentId, classId, date: session.date, status: previous.status } : null,
+      newValues: { studentId, classId, date: session.date, status: "present", checkInSessionId: session.id },
+    });
+
+    res.status(201).json(record);
+  } catch (error) {
+    console.error("Error checking in:", error);
+    res.status(500).json({ message: "Failed to check in" });
+  }
+});
+
+export default router;
@@ -2,6 +2,15 @@ import { Router } from "express";
 import { storage } from "../storage";
 import { insertClassSchema, updateClassSchema } from "@shared/schema";
 import { requireAuth, requireInstructor } from "../middleware";
+import { contractDeadlineService } from "../services/contract-deadline";
+import { fileStorage } from "../services/file-storage";
+import { getGradeTiers } from "@shared/constants";
+import {
+  getCurrentWeekNumber,
+  getEngagementWeeks,
+  getScheduleError,
+  getSessionDates,
+} from "@shared/class-schedule";
 
 const router = Router();
 
@@ -12,11 +21,34 @@ router.post("/api/classes", requireInstructor, async (req, res) => {
     return res.status(400).json(parsed.error);
   }
 
+  const tiers = getGradeTiers(parsed.data);
+  if (parsed.data.defaultContractGrade && !tiers.includes(parsed.data.defaultContractGrade)) {
+    return res.status(400).json({ message: "Default contract must be one of the class's grade tiers" });
+  }
+
+  const scheduleError = getScheduleError({
+    semesterStartDate: parsed.data.semesterStartDate || null,
+    semesterEndDate: parsed.data.semesterEndDate ?? null,
+    meetingDays: parsed.data.meetingDays ?? null,
+    scheduleBreaks: parsed.data.scheduleBreaks ?? null,
+  });
+  if (scheduleError) {
+    return res.status(400).json({ message: scheduleError });
+  }
+
   const newClass = await storage.createClass({
     ...parsed.data,
     instructorId: req.user!.id,
     description: parsed.data.description || null,
     semesterStartDate: parsed.data.semesterStartDate || null,
+    semesterEndDate: parsed.data.semesterEndDate ?? null,
+    meetingDays: parsed.data.meetingDays ?? null,
+    scheduleBreaks: parsed.data.scheduleBreaks ?? null,
+    contractDeadline: parsed.data.contractDeadline ? new Date(parsed.data.contractDeadline) : null,
+    defaultContractGrade: parsed.data.defaultContractGrade ?? null,
+    gradeTiers: parsed.data.gradeTiers ?? null,
+    statusScale: parsed.data.statusScale ?? null,
+    attendancePolicy: parsed.data.attendancePolicy ?? null,
   });
   res.status(201).json(newClass);
 });
@@ -99,7 +131,17 @@ router.delete("/api/classes/:id", requireInstructor, async (req, res) => {
   }
 
   try {
-    await storage.deleteClass(classId);
+    const fileKeys = await storage.deleteClass(classId);
+
+    // The class is gone either way; a file that can't be removed is only logged
+    for (const key of fileKeys) {
+      try {
+        await fileStorage.remove(key);
+      } catch (error) {
+        console.error(`Error removing uploaded file ${key}:`, error);
+      }
+    }
+
     res.json({ message: "Class deleted successfully" });
   } catch (error) {
     console.error("Error deleting class:", error);
@@ -124,7 +166,40 @@ router.patch("/api/classes/:id", requireInstructor, async (req, res) => {
     return res.status(400).json(parsed.error);
   }
 
-  const updatedClass = await storage.updateClass(classId, parsed.data);
+  // Tiers that already have contracts cannot be removed
+  const tiers = parsed.data.gradeTiers !== undefined ? getGradeTiers(parsed.data) : getGradeTiers(cls);
+  if (parsed.data.gradeTiers !== undefined) {
+    const contracts = await storage.getContractsByClass(classId);
+    const orphaned = contracts.find((c) => !tiers.includes(c.grade));
+    if (orphaned) {
+      return res.status(400).json({ message: `Tier "${orphaned.grade}" has contracts and cannot be removed` });
+    }
+  }
+
+  const defaultContractGrade = parsed.data.defaultContractGrade !== undefined
+    ? parsed.data.defaultContractGrade
+    : cls.defaultContractGrade;
+  if (defaultContractGrade && !tiers.includes(defaultContractGrade)) {
+    return res.status(400).json({ message: "Default contract must be one of the class's grade tiers" });
+  }
+
+  const scheduleError = getScheduleError({ ...cls, ...parsed.data });
+  if (scheduleError) {
+    return res.status(400).json({ message: scheduleError });
+  }
+
+  const { contractDeadline, ...updates } = parsed.data;
+  const updatedClass = await storage.updateClass(classId, {
+    ...updates,
+    // Convert contractDeadline string to Date object, null clears the deadline
+    ...(contractDeadline !== undefined && {
+      contractDeadline: contractDeadline ? new Date(contractDeadline) : null,
+    }),
+  });
+
+  // Moving the deadline into the past applies the default contract right away
+  await contractDeadlineService.applyDefaultContract(updatedClass);
+
   res.json(updatedClass);
 });
 
@@ -149,6 +224,36 @@ router.post("/api/classes/:id/clone", requireInstructor, async (req, res) => {
   }
 });
 
+// Engagement weeks and session dates derived from the class schedule
+router.get("/api/classes/:classId/schedule", requireAuth, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  if (isNaN(classId)) {
+    return res.status(400).json({ message: "Invalid class ID" });
+  }
+
+  const cls = await storage.getClass(classId);
+  if (!cls) {
+    return res.status(404).json({ message: "Class not found" });
+  }
+
+  if (req.user!.role === "student") {
+    const enrollment = await storage.getStudentContract(req.user!.id, classId);
+    if (!enrollment) {
+      return res.sendStatus(403);
+    }
+  } else if (cls.instructorId !== req.user!.id) {
+    return res.sendStatus(403);
+  }
+
+  const weeks = getEngagementWeeks(cls);
+  res.json({
+    weeks,
+    currentWeek: getCurrentWeekNumber(weeks),
+    sessionDates: getSessionDates(cls),
+    breaks: cls.scheduleBreaks ?? [],
+  });
+});
+
 // Get enrolled students for a class
 router.get("/api/classes/:classId/enrolled-students", requireInstructor, async (req, res) => {
   const classId = parseInt(req.params.classId);
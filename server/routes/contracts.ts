@@ -0,0 +1,359 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { requireAuth, requireInstructor, requireStudent } from "../middleware";
+import { auditService } from "../audit";
+import { AppError } from "../errors";
+import { insertContractChangeRequestSchema, reviewContractChangeRequestSchema, migrateContractStudentsSchema } from "@shared/schema";
+import { contractEvaluationService } from "../services/contract-evaluation";
+import { isLatestContractVersion, type StudentContractWarning } from "@shared/contract-evaluation";
+import { isContractSelectionLocked } from "@shared/contract-deadline";
+
+const router = Router();
+
+// Evaluate a student against their selected grade contract
+router.get("/api/classes/:classId/students/:studentId/contract-evaluation", requireAuth, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  const studentId = parseInt(req.params.studentId);
+
+  if (isNaN(classId) || isNaN(studentId)) {
+    return res.status(400).json({ message: "Invalid class or student ID" });
+  }
+
+  // Students can only view their own evaluation, instructors must own the class
+  if (req.user!.role === "instructor") {
+    const cls = await storage.getClass(classId);
+    if (!cls || cls.instructorId !== req.user!.id) {
+      return res.sendStatus(403);
+    }
+  } else if (req.user!.id !== studentId) {
+    return res.sendStatus(403);
+  }
+
+  try {
+    const studentContract = await storage.getStudentContract(studentId, classId);
+    if (!studentContract) {
+      return res.status(404).json({ message: "Student is not enrolled in this class" });
+    }
+
+    const evaluation = await contractEvaluationService.evaluateStudent(classId, studentId);
+    res.json(evaluation);
+  } catch (error) {
+    console.error("Error evaluating student contract:", error);
+    res.status(500).json({ message: "Failed to evaluate contract" });
+  }
+});
+
+// Determine a student's earned grade and any downgrade warning
+router.get("/api/classes/:classId/students/:studentId/contract-standing", requireAuth, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  const studentId = parseInt(req.params.studentId);
+
+  if (isNaN(classId) || isNaN(studentId)) {
+    return res.status(400).json({ message: "Invalid class or student ID" });
+  }
+
+  // Students can only view their own standing, instructors must own the class
+  if (req.user!.role === "instructor") {
+    const cls = await storage.getClass(classId);
+    if (!cls || cls.instructorId !== req.user!.id) {
+      return res.sendStatus(403);
+    }
+  } else if (req.user!.id !== studentId) {
+    return res.sendStatus(403);
+  }
+
+  try {
+    const studentContract = await storage.getStudentContract(studentId, classId);
+    if (!studentContract) {
+      return res.status(404).json({ message: "Student is not enrolled in this class" });
+    }
+
+    const standing = await contractEvaluationService.getStanding(classId, studentId);
+    res.json(standing);
+  } catch (error) {
+    console.error("Error determining contract standing:", error);
+    res.status(500).json({ message: "Failed to determine contract standing" });
+  }
+});
+
+// List students across the instructor's active classes who can no longer reach their confirmed contract
+router.get("/api/contract-warnings", requireInstructor, async (req, res) => {
+  try {
+    const classes = (await storage.getClassesByInstructor(req.user!.id)).filter((c) => !c.isArchived);
+
+    const warnings: StudentContractWarning[] = [];
+    for (const cls of classes) {
+      const [standings, students] = await Promise.all([
+        contractEvaluationService.getClassStandings(cls.id),
+        storage.getClassStudents(cls.id),
+      ]);
+
+      for (const [studentId, standing] of Array.from(standings.entries())) {
+        if (!standing.warning) continue;
+        const student = students.find((s) => s.id === studentId);
+        warnings.push({
+          classId: cls.id,
+          className: cls.name,
+          studentId,
+          studentName: student?.fullName ?? "Unknown student",
+          earnedGrade: standing.earnedGrade,
+          ...standing.warning,
+        });
+      }
+    }
+
+    res.json(warnings);
+  } catch (error) {
+    console.error("Error fetching contract warnings:", error);
+    res.status(500).json({ message: "Failed to fetch contract warnings" });
+  }
+});
+
+// Migrate students pinned to older versions of a grade onto this version
+router.post("/api/classes/:classId/contracts/:contractId/migrate", requireInstructor, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  const contractId = parseInt(req.params.contractId);
+
+  if (isNaN(classId) || isNaN(contractId)) {
+    return res.status(400).json({ message: "Invalid class or contract ID" });
+  }
+
+  const parsed = migrateContractStudentsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json(parsed.error);
+  }
+
+  try {
+    const cls = await storage.getClass(classId);
+    if (!cls || cls.instructorId !== req.user!.id) {
+      return res.sendStatus(403);
+    }
+
+    const contracts = await storage.getContractsByClass(classId);
+    const target = contracts.find((c) => c.id === contractId);
+    if (!target) {
+      return res.status(404).json({ message: "Contract not found" });
+    }
+
+    // Only students on a different version of the same grade can be migrated
+    const otherVersions = contracts.filter((c) => c.grade === target.grade && c.id !== target.id);
+    const studentContracts = await storage.getStudentContractsByClass(classId);
+    const pinned = studentContracts.filter(
+      (sc) =>
+        otherVersions.some((c) => c.id === sc.contractId) &&
+        (!parsed.data.studentIds || parsed.data.studentIds.includes(sc.studentId))
+    );
+
+    const migrated = await storage.moveStudentsToContract(
+      classId,
+      pinned.map((sc) => sc.studentId),
+      target.id
+    );
+
+    for (const studentContract of pinned) {
+      const fromVersion = otherVersions.find((c) => c.id === studentContract.contractId);
+      await auditService.logWithRequest(req, {
+        action: "UPDATE",
+        entityType: "student_contract",
+        entityId: studentContract.id,
+        oldValues: {
+          studentId: studentContract.studentId,
+          classId,
+          contractId: studentContract.contractId,
+          version: fromVersion?.version ?? null,
+        },
+        newValues: {
+          studentId: studentContract.studentId,
+          classId,
+          contractId: target.id,
+          version: target.version,
+          migrated: true,
+        },
+      });
+    }
+
+    res.json(migrated);
+  } catch (error) {
+    console.error("Error migrating students to contract version:", error);
+    res.status(500).json({ message: "Failed to migrate students" });
+  }
+});
+
+// List contract change requests: the whole class for instructors, their own for students
+router.get("/api/classes/:classId/contract-change-requests", requireAuth, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  if (isNaN(classId)) {
+    return res.status(400).json({ message: "Invalid class ID" });
+  }
+
+  try {
+    if (req.user!.role === "instructor") {
+      const cls = await storage.getClass(classId);
+      if (!cls || cls.instructorId !== req.user!.id) {
+        return res.sendStatus(403);
+      }
+      return res.json(await storage.getContractChangeRequestsByClass(classId));
+    }
+
+    res.json(await storage.getStudentContractChangeRequests(req.user!.id, classId));
+  } catch (error) {
+    console.error("Error fetching contract change requests:", error);
+    res.status(500).json({ message: "Failed to fetch contract change requests" });
+  }
+});
+
+// Student requests a move from their confirmed contract to another
+router.post("/api/classes/:classId/contract-change-requests", requireStudent, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  if (isNaN(classId)) {
+    return res.status(400).json({ message: "Invalid class ID" });
+  }
+
+  const parsed = insertContractChangeRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json(parsed.error);
+  }
+
+  try {
+    const studentContract = await storage.getStudentContract(req.user!.id, classId);
+    if (!studentContract) {
+      return res.sendStatus(403);
+    }
+
+    // Unconfirmed contracts can still be changed directly until the deadline
+    const cls = await storage.getClass(classId);
+    if (!studentContract.isConfirmed && cls && !isContractSelectionLocked(cls)) {
+      return res.status(400).json({ message: "Your contract is not confirmed yet; select a different contract instead" });
+    }
+
+    const contracts = await storage.getContractsByClass(classId);
+    if (!contracts.some((c) => c.id === parsed.data.toContractId)) {
+      return res.status(404).json({ message: "Contract not found" });
+    }
+    if (!isLatestContractVersion(contracts, parsed.data.toContractId)) {
+      return res.status(409).json({ message: "This contract has been updated; choose the latest version" });
+    }
+    if (parsed.data.toContractId === studentContract.contractId) {
+      return res.status(400).json({ message: "You are already on this contract" });
+    }
+
+    const existing = await storage.getStudentContractChangeRequests(req.user!.id, classId);
+    if (existing.some((r) => r.status === "pending")) {
+      return res.status(409).json({ message: "You already have a pending contract change request" });
+    }
+
+    const request = await storage.createContractChangeRequest({
+      studentId: req.user!.id,
+      classId,
+      fromContractId: studentContract.contractId,
+      toContractId: parsed.data.toContractId,
+      reason: parsed.data.reason,
+    });
+    res.status(201).json(request);
+  } catch (error) {
+    console.error("Error creating contract change request:", error);
+    res.status(500).json({ message: "Failed to create contract change request" });
+  }
+});
+
+// Pending contract change requests across the instructor's active classes
+router.get("/api/contract-change-requests/pending", requireInstructor, async (req, res) => {
+  try {
+    const classes = (await storage.getClassesByInstructor(req.user!.id)).filter((c) => !c.isArchived);
+
+    const pending = [];
+    for (const cls of classes) {
+      const requests = (await storage.getContractChangeRequestsByClass(cls.id)).filter((r) => r.status === "pending");
+      if (requests.length === 0) continue;
+
+      const [contracts, students] = await Promise.all([
+        storage.getContractsByClass(cls.id),
+        storage.getClassStudents(cls.id),
+      ]);
+
+      for (const request of requests) {
+        pending.push({
+          ...request,
+          className: cls.name,
+          studentName: students.find((s) => s.id === request.studentId)?.fullName ?? "Unknown student",
+          fromGrade: contracts.find((c) => c.id === request.fromContractId)?.grade ?? null,
+          toGrade: contracts.find((c) => c.id === request.toContractId)?.grade ?? null,
+        });
+      }
+    }
+
+    res.json(pending);
+  } catch (error) {
+    console.error("Error fetching pending contract change requests:", error);
+    res.status(500).json({ message: "Failed to fetch pending contract change requests" });
+  }
+});
+
+// Instructor approves or denies a contract change request
+router.post("/api/contract-change-requests/:requestId/review", requireInstructor, async (req, res) => {
+  const requestId = parseInt(req.params.requestId);
+  if (isNaN(requestId)) {
+    return res.status(400).json({ message: "Invalid request ID" });
+  }
+
+  const parsed = reviewContractChangeRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json(parsed.error);
+  }
+
+  try {
+    const request = await storage.getContractChangeRequest(requestId);
+    if (!request) {
+      return res.status(404).json({ message: "Request not found" });
+    }
+
+    const cls = await storage.getClass(request.classId);
+    if (!cls || cls.instructorId !== req.user!.id) {
+      return res.sendStatus(403);
+    }
+
+    if (request.status !== "pending") {
+      return res.status(409).json({ message: "This request has already been reviewed" });
+    }
+
+    const studentContract = await storage.getStudentContract(request.studentId, request.classId);
+    const reviewed = await storage.reviewContractChangeRequest(requestId, {
+      status: parsed.data.status,
+      instructorResponse: parsed.data.instructorResponse?.trim() || null,
+      reviewedBy: req.user!.id,
+    });
+
+    await auditService.logWithRequest(req, {
+      action: reviewed.status === "approved" ? "APPROVE" : "DENY",
+      entityType: "student_contract",
+      entityId: studentContract?.id,
+      oldValues: {
+        studentId: request.studentId,
+        classId: request.classId,
+        contractId: studentContract?.contractId ?? null,
+        isConfirmed: studentContract?.isConfirmed ?? false,
+      },
+      newValues: {
+        studentId: request.studentId,
+        classId: request.classId,
+        contractId: reviewed.status === "approved" ? reviewed.toContractId : studentContract?.contractId ?? null,
+        isConfirmed: reviewed.status === "approved" ? true : studentContract?.isConfirmed ?? false,
+        changeRequestId: reviewed.id,
+        requestedContractId: reviewed.toContractId,
+        reason: reviewed.reason,
+        instructorResponse: reviewed.instructorResponse,
+      },
+    });
+
+    res.json(reviewed);
+  } catch (error) {
+    // Another review got there first
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error("Error reviewing contract change request:", error);
+    res.status(500).json({ message: "Failed to review contract change request" });
+  }
+});
+
+export default router;
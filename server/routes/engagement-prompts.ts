@@ -0,0 +1,78 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { requireAuth, requireInstructor } from "../middleware";
+import { upsertEngagementPromptSchema } from "@shared/schema";
+import { getEngagementWeeks } from "@shared/class-schedule";
+
+const router = Router();
+
+// Get the weekly engagement prompts for a class (its instructor or an enrolled student)
+router.get("/api/classes/:classId/engagement-prompts", requireAuth, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  if (isNaN(classId)) {
+    return res.status(400).json({ message: "Invalid class ID" });
+  }
+
+  const cls = await storage.getClass(classId);
+  if (!cls) {
+    return res.status(404).json({ message: "Class not found" });
+  }
+
+  if (req.user!.role === "student") {
+    const enrollment = await storage.getStudentContract(req.user!.id, classId);
+    if (!enrollment) {
+      return res.sendStatus(403);
+    }
+  } else if (cls.instructorId !== req.user!.id) {
+    return res.sendStatus(403);
+  }
+
+  try {
+    res.json(await storage.getEngagementPrompts(classId));
+  } catch (error) {
+    console.error("Error fetching engagement prompts:", error);
+    res.status(500).json({ message: "Failed to fetch engagement prompts" });
+  }
+});
+
+// Set a week's prompt and suggested activities; saving neither clears the week
+router.put("/api/classes/:classId/engagement-prompts/:weekNumber", requireInstructor, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  const weekNumber = parseInt(req.params.weekNumber);
+  if (isNaN(classId) || isNaN(weekNumber)) {
+    return res.status(400).json({ message: "Invalid class ID or week number" });
+  }
+
+  const cls = await storage.getClass(classId);
+  if (!cls || cls.instructorId !== req.user!.id) {
+    return res.sendStatus(403);
+  }
+
+  const parsed = upsertEngagementPromptSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json(parsed.error);
+  }
+
+  const weeks = getEngagementWeeks(cls);
+  if (!weeks.some((w) => w.weekNumber === weekNumber)) {
+    return res.status(400).json({
+      message: weeks.length > 0
+        ? `This class has ${weeks.length} engagement weeks`
+        : "Set the semester start date before adding weekly prompts",
+    });
+  }
+
+  try {
+    if (!parsed.data.prompt && parsed.data.suggestions.length === 0) {
+      await storage.deleteEngagementPrompt(classId, weekNumber);
+      return res.sendStatus(204);
+    }
+
+    res.json(await storage.upsertEngagementPrompt(classId, weekNumber, parsed.data));
+  } catch (error) {
+    console.error("Error saving engagement prompt:", error);
+    res.status(500).json({ message: "Failed to save engagement prompt" });
+  }
+});
+
+export default router;
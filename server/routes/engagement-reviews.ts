@@ -0,0 +1,127 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { auditService } from "../audit";
+import { AppError } from "../errors";
+import { requireInstructor, requireStudent } from "../middleware";
+import {
+  reviewEngagementIntentionsSchema,
+  submitEngagementFulfillmentSchema,
+  type EngagementIntention,
+} from "@shared/schema";
+import { canSubmitFulfillment } from "@shared/engagement-review";
+
+const router = Router();
+
+/**
+ * Audit values for an intention's fulfillment, including classId so it shows in the class activity log
+ */
+function auditValues(intention: EngagementIntention): Record<string, unknown> {
+  return {
+    studentId: intention.studentId,
+    classId: intention.classId,
+    weekNumber: intention.weekNumber,
+    reviewStatus: intention.reviewStatus,
+    reflection: intention.reflection,
+    evidenceUrl: intention.evidenceUrl,
+    rubricScores: intention.rubricScores,
+    instructorFeedback: intention.instructorFeedback,
+  };
+}
+
+// Student submits an intention as fulfilled, with a reflection and optional evidence link
+router.post("/api/engagement-intentions/:intentionId/fulfillment", requireStudent, async (req, res) => {
+  const intentionId = parseInt(req.params.intentionId);
+  if (isNaN(intentionId)) {
+    return res.status(400).json({ message: "Invalid intention ID" });
+  }
+
+  const parsed = submitEngagementFulfillmentSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json(parsed.error);
+  }
+
+  try {
+    const intention = await storage.getEngagementIntentionById(intentionId);
+    if (!intention || intention.studentId !== req.user!.id) {
+      return res.status(404).json({ message: "Engagement intention not found" });
+    }
+    if (!canSubmitFulfillment(intention.reviewStatus)) {
+      return res.status(409).json({ message: "This intention has already been reviewed" });
+    }
+
+    const submitted = await storage.submitEngagementFulfillment(intentionId, parsed.data);
+
+    await auditService.logWithRequest(req, {
+      action: "UPDATE",
+      entityType: "engagement_intention",
+      entityId: submitted.id,
+      oldValues: auditValues(intention),
+      newValues: auditValues(submitted),
+    });
+
+    res.json(submitted);
+  } catch (error) {
+    // Reviewed between the check above and the update
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error("Error submitting engagement fulfillment:", error);
+    res.status(500).json({ message: "Failed to submit engagement fulfillment" });
+  }
+});
+
+// Instructor accepts, rejects or asks for more on one or more submitted intentions at once
+router.post("/api/classes/:classId/engagement-intentions/review", requireInstructor, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  if (isNaN(classId)) {
+    return res.status(400).json({ message: "Invalid class ID" });
+  }
+
+  const cls = await storage.getClass(classId);
+  if (!cls || cls.instructorId !== req.user!.id) {
+    return res.sendStatus(403);
+  }
+
+  const parsed = reviewEngagementIntentionsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json(parsed.error);
+  }
+
+  try {
+    const intentions = await storage.getClassEngagementIntentions(classId);
+    const previous = new Map(intentions.map((i) => [i.id, i]));
+
+    for (const review of parsed.data.reviews) {
+      const intention = previous.get(review.intentionId);
+      if (!intention) {
+        return res.status(404).json({ message: "Engagement intention not found in this class" });
+      }
+      if (intention.reviewStatus !== "submitted") {
+        return res.status(409).json({ message: `Week ${intention.weekNumber} has not been submitted for review` });
+      }
+    }
+
+    const reviewed = await storage.reviewEngagementIntentions(parsed.data.reviews, req.user!.id);
+
+    for (const intention of reviewed) {
+      await auditService.logWithRequest(req, {
+        action: intention.reviewStatus === "accepted" ? "APPROVE" : intention.reviewStatus === "rejected" ? "DENY" : "UPDATE",
+        entityType: "engagement_intention",
+        entityId: intention.id,
+        oldValues: auditValues(previous.get(intention.id)!),
+        newValues: auditValues(intention),
+      });
+    }
+
+    res.json(reviewed);
+  } catch (error) {
+    // Another review got there first and the batch was rolled back
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error("Error reviewing engagement intentions:", error);
+    res.status(500).json({ message: "Failed to review engagement intentions" });
+  }
+});
+
+export default router;
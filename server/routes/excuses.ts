@@ -0,0 +1,309 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { getUploadFileName, readUpload, requireAuth, requireInstructor, requireStudent } from "../middleware";
+import { auditService } from "../audit";
+import { AppError } from "../errors";
+import { fileStorage } from "../services/file-storage";
+import {
+  insertAbsenceExcuseRequestSchema,
+  reviewAbsenceExcuseRequestSchema,
+  type AbsenceExcuseRequest,
+} from "@shared/schema";
+
+const router = Router();
+
+/**
+ * Audit values for an excuse request, including classId so it shows in the class activity log
+ */
+function auditValues(request: AbsenceExcuseRequest): Record<string, unknown> {
+  return {
+    studentId: request.studentId,
+    classId: request.classId,
+    attendanceRecordId: request.attendanceRecordId,
+    reason: request.reason,
+    fileName: request.fileName,
+    status: request.status,
+    instructorResponse: request.instructorResponse,
+  };
+}
+
+// A student's excuse requests, newest first, with the date of each absence
+router.get("/api/classes/:classId/students/:studentId/excuse-requests", requireAuth, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  const studentId = parseInt(req.params.studentId);
+
+  if (isNaN(classId) || isNaN(studentId)) {
+    return res.status(400).json({ message: "Invalid class or student ID" });
+  }
+
+  // Students can only view their own requests, instructors must own the class
+  if (req.user!.role === "instructor") {
+    const cls = await storage.getClass(classId);
+    if (!cls || cls.instructorId !== req.user!.id) {
+      return res.sendStatus(403);
+    }
+  } else if (req.user!.id !== studentId) {
+    return res.sendStatus(403);
+  }
+
+  try {
+    const [requests, attendance] = await Promise.all([
+      storage.getStudentAbsenceExcuseRequests(studentId, classId),
+      storage.getStudentAttendance(studentId, classId),
+    ]);
+    res.json(
+      requests.map((request) => ({
+        ...request,
+        attendanceDate: attendance.find((r) => r.id === request.attendanceRecordId)?.date ?? null,
+      }))
+    );
+  } catch (error) {
+    console.error("Error fetching excuse requests:", error);
+    res.status(500).json({ message: "Failed to fetch excuse requests" });
+  }
+});
+
+// Student asks for an absence to be excused
+router.post("/api/classes/:classId/excuse-requests", requireStudent, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  if (isNaN(classId)) {
+    return res.status(400).json({ message: "Invalid class ID" });
+  }
+
+  const parsed = insertAbsenceExcuseRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json(parsed.error);
+  }
+
+  try {
+    const studentId = req.user!.id;
+    if (!(await storage.getStudentContract(studentId, classId))) {
+      return res.sendStatus(403);
+    }
+
+    const record = await storage.getAttendanceRecord(parsed.data.attendanceRecordId);
+    if (!record || record.studentId !== studentId || record.classId !== classId) {
+      return res.status(404).json({ message: "Attendance record not found for this student" });
+    }
+    if (record.status !== "absent") {
+      return res.status(400).json({ message: "Only absences can be excused" });
+    }
+
+    const existing = await storage.getStudentAbsenceExcuseRequests(studentId, classId);
+    if (existing.some((r) => r.attendanceRecordId === record.id && r.status !== "denied")) {
+      return res.status(409).json({ message: "An excuse has already been requested for this absence" });
+    }
+
+    const request = await storage.createAbsenceExcuseRequest({
+      studentId,
+      classId,
+      attendanceRecordId: record.id,
+      reason: parsed.data.reason,
+    });
+
+    await auditService.logWithRequest(req, {
+      action: "CREATE",
+      entityType: "absence_excuse",
+      entityId: request.id,
+      newValues: auditValues(request),
+    });
+
+    res.status(201).json(request);
+  } catch (error) {
+    console.error("Error creating excuse request:", error);
+    res.status(500).json({ message: "Failed to create excuse request" });
+  }
+});
+
+// Student attaches a supporting document to a pending request; the body is the file itself
+router.post("/api/excuse-requests/:requestId/document", requireStudent, readUpload, async (req, res) => {
+  const requestId = parseInt(req.params.requestId);
+  if (isNaN(requestId)) {
+    return res.status(400).json({ message: "Invalid request ID" });
+  }
+
+  const contents = req.body;
+  if (!Buffer.isBuffer(contents) || contents.length === 0) {
+    return res.status(400).json({ message: "Choose a file to upload" });
+  }
+
+  const fileName = getUploadFileName(req);
+  if (!fileName) {
+    return res.status(400).json({ message: "Missing or invalid file name" });
+  }
+
+  try {
+    const request = await storage.getAbsenceExcuseRequest(requestId);
+    if (!request || request.studentId !== req.user!.id) {
+      return res.status(404).json({ message: "Request not found" });
+    }
+    if (request.status !== "pending") {
+      return res.status(409).json({ message: "This request has already been reviewed" });
+    }
+
+    const fileKey = await fileStorage.save(contents, fileName);
+    const updated = await storage.attachAbsenceExcuseDocument(requestId, {
+      fileKey,
+      fileName: fileName.slice(0, 255),
+      mimeType: req.get("X-File-Type")?.slice(0, 255) || "application/octet-stream",
+      fileSize: contents.length,
+    }).catch(async (error) => {
+      // The request still points at its old document, if any, so the new file is unused
+      await fileStorage.remove(fileKey).catch((removeError) => {
+        console.error(`Error removing uploaded file ${fileKey}:`, removeError);
+      });
+      throw error;
+    });
+    if (request.fileKey) {
+      await fileStorage.remove(request.fileKey);
+    }
+
+    res.json(updated);
+  } catch (error) {
+    console.error("Error uploading excuse document:", error);
+    res.status(500).json({ message: "Failed to upload document" });
+  }
+});
+
+// Download a request's document (the student who sent it or the class instructor)
+router.get("/api/excuse-requests/:requestId/document", requireAuth, async (req, res) => {
+  const requestId = parseInt(req.params.requestId);
+  if (isNaN(requestId)) {
+    return res.status(400).json({ message: "Invalid request ID" });
+  }
+
+  try {
+    const request = await storage.getAbsenceExcuseRequest(requestId);
+    if (!request || !request.fileKey) {
+      return res.status(404).json({ message: "File not found" });
+    }
+
+    if (req.user!.role === "instructor") {
+      const cls = await storage.getClass(request.classId);
+      if (!cls || cls.instructorId !== req.user!.id) {
+        return res.sendStatus(403);
+      }
+    } else if (req.user!.id !== request.studentId) {
+      return res.sendStatus(403);
+    }
+
+    const stream = await fileStorage.open(request.fileKey);
+    if (!stream) {
+      return res.status(404).json({ message: "File not found" });
+    }
+
+    // Always download rather than render, so uploaded HTML never runs on our origin
+    res.attachment(request.fileName ?? "document");
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    stream.on("error", (error) => {
+      console.error("Error streaming excuse document:", error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    console.error("Error downloading excuse document:", error);
+    res.status(500).json({ message: "Failed to download file" });
+  }
+});
+
+// Pending excuse requests across the instructor's active classes, oldest first
+router.get("/api/excuse-requests/pending", requireInstructor, async (req, res) => {
+  try {
+    const classes = (await storage.getClassesByInstructor(req.user!.id)).filter((c) => !c.isArchived);
+
+    const pending = [];
+    for (const cls of classes) {
+      const requests = (await storage.getAbsenceExcuseRequestsByClass(cls.id)).filter((r) => r.status === "pending");
+      if (requests.length === 0) continue;
+
+      const [students, attendance] = await Promise.all([
+        storage.getClassStudents(cls.id),
+        storage.getAllClassAttendance(cls.id),
+      ]);
+
+      for (const request of requests) {
+        pending.push({
+          ...request,
+          className: cls.name,
+          studentName: students.find((s) => s.id === request.studentId)?.fullName ?? "Unknown student",
+          attendanceDate: attendance.find((r) => r.id === request.attendanceRecordId)?.date ?? null,
+        });
+      }
+    }
+
+    pending.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    res.json(pending);
+  } catch (error) {
+    console.error("Error fetching pending excuse requests:", error);
+    res.status(500).json({ message: "Failed to fetch pending excuse requests" });
+  }
+});
+
+// Instructor approves or denies an excuse request; approval marks the absence excused
+router.post("/api/excuse-requests/:requestId/review", requireInstructor, async (req, res) => {
+  const requestId = parseInt(req.params.requestId);
+  if (isNaN(requestId)) {
+    return res.status(400).json({ message: "Invalid request ID" });
+  }
+
+  const parsed = reviewAbsenceExcuseRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json(parsed.error);
+  }
+
+  try {
+    const request = await storage.getAbsenceExcuseRequest(requestId);
+    if (!request) {
+      return res.status(404).json({ message: "Request not found" });
+    }
+
+    const cls = await storage.getClass(request.classId);
+    if (!cls || cls.instructorId !== req.user!.id) {
+      return res.sendStatus(403);
+    }
+
+    if (request.status !== "pending") {
+      return res.status(409).json({ message: "This request has already been reviewed" });
+    }
+
+    // Attendance may have been corrected since the student asked
+    const record = await storage.getAttendanceRecord(request.attendanceRecordId);
+    if (parsed.data.status === "approved" && record?.status !== "absent") {
+      return res.status(409).json({ message: "This session is no longer marked absent" });
+    }
+
+    const reviewed = await storage.reviewAbsenceExcuseRequest(requestId, {
+      status: parsed.data.status,
+      instructorResponse: parsed.data.instructorResponse?.trim() || null,
+      reviewedBy: req.user!.id,
+    });
+
+    await auditService.logWithRequest(req, {
+      action: reviewed.status === "approved" ? "APPROVE" : "DENY",
+      entityType: "absence_excuse",
+      entityId: reviewed.id,
+      oldValues: auditValues(request),
+      newValues: auditValues(reviewed),
+    });
+    if (reviewed.status === "approved" && record) {
+      const values = { studentId: record.studentId, classId: record.classId, date: record.date };
+      await auditService.logWithRequest(req, {
+        action: "UPDATE",
+        entityType: "attendance",
+        entityId: record.id,
+        oldValues: { ...values, status: record.status },
+        newValues: { ...values, status: "excused", absenceExcuseId: reviewed.id },
+      });
+    }
+
+    res.json(reviewed);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error("Error reviewing excuse request:", error);
+    res.status(500).json({ message: "Failed to review excuse request" });
+  }
+});
+
+export default router;
@@ -0,0 +1,138 @@
+import { Router } from "express";
+import crypto from "crypto";
+import { storage } from "../storage";
+import { auditService, progressAuditValues } from "../audit";
+import { requireInstructor } from "../middleware";
+import { connectionManager, createProgressBatchUpdateEvent, progressUpdatePayload } from "../websocket";
+import { batchProgressSchema, type AssignmentProgress } from "@shared/schema";
+import { getStatusScale } from "@shared/constants";
+import { isLateWork } from "@shared/late-policy";
+import { canRecordAttempt, getAllowedAttempts } from "@shared/attempts";
+
+const router = Router();
+
+// Decimal columns come back as "3.50"; compare scores by value
+function sameScore(a: string | null, b: string | null): boolean {
+  return a === null || b === null ? a === b : Number(a) === Number(b);
+}
+
+// Save many gradebook cells at once: one transaction, one audit entry per changed cell
+// sharing a batchId, and one broadcast for the whole save
+router.post("/api/classes/:classId/progress/batch", requireInstructor, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  if (isNaN(classId)) {
+    return res.status(400).json({ message: "Invalid class ID" });
+  }
+
+  const cls = await storage.getClass(classId);
+  if (!cls || cls.instructorId !== req.user!.id) {
+    return res.sendStatus(403);
+  }
+
+  const parsed = batchProgressSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json(parsed.error);
+  }
+
+  try {
+    const [students, assignments, progress, tokenTransactions] = await Promise.all([
+      storage.getClassStudents(classId),
+      storage.getAssignmentsByClass(classId),
+      storage.getStudentProgressForClass(classId),
+      storage.getTokenTransactionsByClass(classId),
+    ]);
+    const scale = getStatusScale(cls);
+    const studentIds = new Set(students.map((s) => s.id));
+    const current = new Map(progress.map((p) => [`${p.studentId}:${p.assignmentId}`, p]));
+    const now = new Date();
+
+    const entries: { progress: Omit<AssignmentProgress, "id" | "attempts">; newAttempt: boolean }[] = [];
+    for (const cell of parsed.data.cells) {
+      const assignment = assignments.find((a) => a.id === cell.assignmentId);
+      if (!assignment || !studentIds.has(cell.studentId)) {
+        return res.status(404).json({ message: "Student or assignment not found in this class" });
+      }
+
+      const existing = current.get(`${cell.studentId}:${cell.assignmentId}`);
+      let status = existing?.status ?? null;
+      let numericGrade = existing?.numericGrade ?? null;
+      if (assignment.scoringType === "status") {
+        if (cell.status === undefined) {
+          return res.status(400).json({ message: `${assignment.name} is graded by status` });
+        }
+        if (cell.status !== null && !scale.some((l) => l.value === cell.status)) {
+          return res.status(400).json({ message: `Invalid status for ${assignment.name}` });
+        }
+        status = cell.status;
+      } else {
+        if (cell.numericGrade === undefined) {
+          return res.status(400).json({ message: `${assignment.name} is graded by score` });
+        }
+        numericGrade = cell.numericGrade !== null ? cell.numericGrade.toString() : null;
+      }
+
+      // Leave cells that already hold this grade alone
+      if (status === (existing?.status ?? null) && sameScore(numericGrade, existing?.numericGrade ?? null)) continue;
+
+      // Grading resubmitted work records a new attempt, as the status dialog does by default;
+      // everything else corrects the current attempt
+      const newAttempt = !!existing?.awaitingReview && (existing.attempts ?? 0) > 0;
+      if (newAttempt) {
+        const allowed = getAllowedAttempts(assignment.attemptLimit, existing.id, tokenTransactions);
+        if (!canRecordAttempt(existing.attempts ?? 0, allowed)) {
+          const student = students.find((s) => s.id === cell.studentId);
+          return res.status(409).json({
+            message: `${student?.fullName ?? "This student"} has used every attempt on ${assignment.name}. Grade it from the status dialog instead.`,
+          });
+        }
+      }
+
+      entries.push({
+        progress: {
+          studentId: cell.studentId,
+          assignmentId: cell.assignmentId,
+          status,
+          numericGrade,
+          feedback: newAttempt ? null : existing?.feedback ?? null,
+          awaitingReview: false, // Grading clears any submission waiting for review
+          isLate: existing ? existing.isLate : isLateWork(assignment),
+          lastUpdated: now,
+        },
+        newAttempt,
+      });
+    }
+
+    if (entries.length === 0) {
+      return res.json({ updated: [], batchId: null });
+    }
+
+    const recorded = await storage.recordGrades(entries, req.user!.id);
+
+    const batchId = crypto.randomUUID();
+    for (const { progress: saved, attempt } of recorded) {
+      const existing = current.get(`${saved.studentId}:${saved.assignmentId}`);
+      await auditService.logWithRequest(req, {
+        action: existing ? "UPDATE" : "CREATE",
+        entityType: "assignment_progress",
+        entityId: saved.id,
+        oldValues: existing ? progressAuditValues(existing, classId) : null,
+        newValues: { ...progressAuditValues(saved, classId), attemptNumber: attempt.attemptNumber, batchId, source: "gradebook" },
+      });
+    }
+
+    connectionManager.broadcast(
+      classId,
+      createProgressBatchUpdateEvent(
+        classId,
+        recorded.map(({ progress: saved }) => progressUpdatePayload(saved))
+      )
+    );
+
+    res.json({ updated: recorded.map((r) => r.progress), batchId });
+  } catch (error) {
+    console.error("Error saving gradebook:", error);
+    res.status(500).json({ message: "Failed to save grades" });
+  }
+});
+
+export default router;
@@ -0,0 +1,125 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { requireInstructor } from "../middleware";
+import { getStatusScale } from "@shared/constants";
+import {
+  isOverdueWork,
+  sortGradingQueue,
+  type GradingQueueItem,
+  type GradingQueueOrder,
+} from "@shared/grading-queue";
+
+const router = Router();
+
+// Everything waiting on the instructor across their active classes
+router.get("/api/grading-queue", requireInstructor, async (req, res) => {
+  const order: GradingQueueOrder = req.query.sort === "newest" ? "newest" : "oldest";
+
+  try {
+    const classes = (await storage.getClassesByInstructor(req.user!.id)).filter((c) => !c.isArchived);
+    const now = new Date();
+
+    const items: GradingQueueItem[] = [];
+    // Students across all classes, so password resets can be attributed to a class
+    const studentClasses = new Map<number, { classId: number; className: string; studentName: string }>();
+
+    for (const cls of classes) {
+      const [students, assignments, progress, studentContracts, contracts, intentions] = await Promise.all([
+        storage.getClassStudents(cls.id),
+        storage.getAssignmentsByClass(cls.id),
+        storage.getStudentProgressForClass(cls.id),
+        storage.getStudentContractsByClass(cls.id),
+        storage.getContractsByClass(cls.id),
+        storage.getClassEngagementIntentions(cls.id),
+      ]);
+
+      const base = (studentId: number) => ({
+        classId: cls.id,
+        className: cls.name,
+        studentId,
+        studentName: students.find((s) => s.id === studentId)?.fullName ?? "Unknown student",
+      });
+
+      for (const student of students) {
+        if (!studentClasses.has(student.id)) {
+          studentClasses.set(student.id, { classId: cls.id, className: cls.name, studentName: student.fullName });
+        }
+      }
+
+      for (const p of progress) {
+        const assignment = assignments.find((a) => a.id === p.assignmentId);
+        if (!assignment) continue;
+
+        if (p.awaitingReview) {
+          items.push({
+            ...base(p.studentId),
+            key: `submission-${p.id}`,
+            kind: "submission",
+            since: new Date(p.lastUpdated).toISOString(),
+            assignment,
+            progress: p,
+          });
+        } else if (isOverdueWork(assignment, p, now, getStatusScale(cls))) {
+          items.push({
+            ...base(p.studentId),
+            key: `overdue-${p.id}`,
+            kind: "overdue_work",
+            since: new Date(assignment.dueDate!).toISOString(),
+            assignment,
+            progress: p,
+          });
+        }
+      }
+
+      for (const sc of studentContracts) {
+        const student = students.find((s) => s.id === sc.studentId);
+        if (!sc.contractId || sc.isConfirmed || !student) continue;
+        items.push({
+          ...base(sc.studentId),
+          key: `contract-${sc.id}`,
+          kind: "contract_confirmation",
+          since: (sc.selectedAt ?? now).toISOString(),
+          student: { id: student.id, username: student.username, fullName: student.fullName, role: student.role },
+          contractGrade: contracts.find((c) => c.id === sc.contractId)?.grade ?? null,
+        });
+      }
+
+      for (const intention of intentions) {
+        // Only intentions the student has submitted as fulfilled are waiting on the instructor
+        if (intention.reviewStatus !== "submitted") continue;
+        items.push({
+          ...base(intention.studentId),
+          key: `intention-${intention.id}`,
+          kind: "engagement_intention",
+          since: new Date(intention.submittedAt ?? intention.createdAt).toISOString(),
+          intention,
+        });
+      }
+    }
+
+    // Password resets are not tied to a class; only show ones from this instructor's students
+    const resets = await storage.getUnnotifiedPasswordResets();
+    for (const reset of resets) {
+      const enrollment = studentClasses.get(reset.userId);
+      if (!enrollment || reset.isUsed || reset.expiresAt < now) continue;
+
+      items.push({
+        ...enrollment,
+        studentId: reset.userId,
+        key: `password-reset-${reset.id}`,
+        kind: "password_reset",
+        since: new Date(reset.createdAt).toISOString(),
+        resetRequestId: reset.id,
+        token: reset.token,
+        expiresAt: new Date(reset.expiresAt).toISOString(),
+      });
+    }
+
+    res.json(sortGradingQueue(items, order));
+  } catch (error) {
+    console.error("Error building grading queue:", error);
+    res.status(500).json({ message: "Failed to fetch grading queue" });
+  }
+});
+
+export default router;
@@ -3,6 +3,18 @@ import classesRouter from "./classes";
 import assignmentsRouter from "./assignments";
 import auditRouter from "./audit";
 import canvasImportRouter from "./canvas-import";
+import contractsRouter from "./contracts";
+import tokensRouter from "./tokens";
+import attemptsRouter from "./attempts";
+import submissionsRouter from "./submissions";
+import gradingQueueRouter from "./grading-queue";
+import categoriesRouter from "./categories";
+import calendarRouter from "./calendar";
+import checkInRouter from "./check-in";
+import excusesRouter from "./excuses";
+import engagementPromptsRouter from "./engagement-prompts";
+import engagementReviewsRouter from "./engagement-reviews";
+import gradebookRouter from "./gradebook";
 
 /**
  * Modular route registration for the Contract Grade Tracker API.
@@ -13,8 +25,20 @@ import canvasImportRouter from "./canvas-import";
  * Currently extracted modules:
  * - classes.ts: Class CRUD, archive/unarchive, delete
  * - assignments.ts: Assignment CRUD
- * - audit.ts: Audit logging
- * - canvas-import.ts: Canvas gradebook import
+ * - audit.ts: Audit logging and grade reverts
+ * - canvas-import.ts: Canvas gradebook import, saved column mappings, import history and rollback
+ * - contracts.ts: Grade contract evaluation and change requests
+ * - tokens.ts: Token balances, spend requests and grants
+ * - attempts.ts: Assignment attempt history
+ * - submissions.ts: Student work submissions and the review queue
+ * - grading-queue.ts: Cross-class queue of items waiting on the instructor
+ * - categories.ts: Assignment categories per class
+ * - calendar.ts: Course calendar and per-user iCalendar feeds
+ * - check-in.ts: Student self check-in with rotating session codes
+ * - excuses.ts: Absence excuse requests and their review
+ * - engagement-prompts.ts: Weekly engagement prompts and suggested activities
+ * - engagement-reviews.ts: Engagement fulfillment submissions and instructor review
+ * - gradebook.ts: Batch grade saves from the gradebook grid
  *
  * Future refactoring: Extract remaining routes from routes.ts into modules.
  */
@@ -24,6 +48,18 @@ export function registerRouteModules(app: Express): void {
   app.use(assignmentsRouter);
   app.use(auditRouter);
   app.use(canvasImportRouter);
+  app.use(contractsRouter);
+  app.use(tokensRouter);
+  app.use(attemptsRouter);
+  app.use(submissionsRouter);
+  app.use(gradingQueueRouter);
+  app.use(categoriesRouter);
+  app.use(calendarRouter);
+  app.use(checkInRouter);
+  app.use(excusesRouter);
+  app.use(engagementPromptsRouter);
+  app.use(engagementReviewsRouter);
+  app.use(gradebookRouter);
 
   // Note: Additional route modules will be added as they are extracted:
   // - contracts.ts (grade contracts)
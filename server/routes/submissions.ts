@@ -0,0 +1,302 @@
+import { Router, type Request } from "express";
+import { storage } from "../storage";
+import { getUploadFileName, readUpload, requireAuth, requireInstructor, requireStudent } from "../middleware";
+import { auditService } from "../audit";
+import { fileStorage } from "../services/file-storage";
+import { getSubmissionBlockReason, isLateWork } from "@shared/late-policy";
+import { canRecordAttempt, getAllowedAttempts } from "@shared/attempts";
+import { connectionManager, createProgressUpdateEvent, progressUpdatePayload } from "../websocket";
+import {
+  insertSubmissionSchema,
+  type Assignment,
+  type AssignmentProgress,
+  type AssignmentSubmission,
+} from "@shared/schema";
+
+const router = Router();
+
+/**
+ * Check that the student can hand in work for this assignment right now.
+ * Returns an error status and message, or the assignment if the submission may proceed.
+ */
+async function checkSubmissionTarget(
+  classId: number,
+  assignmentId: number,
+  studentId: number
+): Promise<{ status: number; message: string } | { assignment: Assignment }> {
+  const [cls, studentContract, assignments] = await Promise.all([
+    storage.getClass(classId),
+    storage.getStudentContract(studentId, classId),
+    storage.getAssignmentsByClass(classId),
+  ]);
+
+  if (!cls || !studentContract) {
+    return { status: 403, message: "You are not enrolled in this class" };
+  }
+  if (cls.isArchived) {
+    return { status: 400, message: "This class has been archived" };
+  }
+  const assignment = assignments.find((a) => a.id === assignmentId);
+  if (!assignment) {
+    return { status: 404, message: "Assignment not found" };
+  }
+  const blockReason = getSubmissionBlockReason(assignment);
+  if (blockReason) {
+    return { status: 400, message: blockReason };
+  }
+
+  // Each submission is graded as another attempt, so it needs one left
+  const progress = (await storage.getStudentProgress(studentId, classId)).find((p) => p.assignmentId === assignmentId);
+  if (progress) {
+    const tokenTransactions = await storage.getStudentTokenTransactions(studentId, classId);
+    const allowed = getAllowedAttempts(assignment.attemptLimit, progress.id, tokenTransactions);
+    if (!canRecordAttempt(progress.attempts ?? 0, allowed)) {
+      return {
+        status: 409,
+        message: `This assignment allows ${allowed} attempt${allowed === 1 ? "" : "s"} and all have been used`,
+      };
+    }
+  }
+  return { assignment };
+}
+
+/**
+ * Audit the submission and let the class know the assignment is awaiting review
+ */
+async function announceSubmission(
+  req: Request,
+  classId: number,
+  progress: AssignmentProgress,
+  submission: AssignmentSubmission
+): Promise<void> {
+  await auditService.logWithRequest(req, {
+    action: "CREATE",
+    entityType: "assignment_submission",
+    entityId: submission.id,
+    newValues: {
+      studentId: submission.studentId,
+      assignmentId: submission.assignmentId,
+      classId,
+      kind: submission.kind,
+      url: submission.url,
+      fileName: submission.fileName,
+      isLate: progress.isLate,
+    },
+  });
+
+  const event = createProgressUpdateEvent(classId, progressUpdatePayload(progress));
+  connectionManager.broadcast(classId, event);
+}
+
+// A student's submissions for one assignment, newest first
+router.get("/api/classes/:classId/students/:studentId/assignments/:assignmentId/submissions", requireAuth, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  const studentId = parseInt(req.params.studentId);
+  const assignmentId = parseInt(req.params.assignmentId);
+
+  if (isNaN(classId) || isNaN(studentId) || isNaN(assignmentId)) {
+    return res.status(400).json({ message: "Invalid ID" });
+  }
+
+  // Students can only view their own submissions, instructors must own the class
+  if (req.user!.role === "instructor") {
+    const cls = await storage.getClass(classId);
+    if (!cls || cls.instructorId !== req.user!.id) {
+      return res.sendStatus(403);
+    }
+  } else if (req.user!.id !== studentId) {
+    return res.sendStatus(403);
+  }
+
+  try {
+    const progress = (await storage.getStudentProgress(studentId, classId)).find(
+      (p) => p.assignmentId === assignmentId
+    );
+    res.json(progress ? await storage.getSubmissionsByProgress([progress.id]) : []);
+  } catch (error) {
+    console.error("Error fetching submissions:", error);
+    res.status(500).json({ message: "Failed to fetch submissions" });
+  }
+});
+
+// Student submits a link or a text response
+router.post("/api/classes/:classId/assignments/:assignmentId/submissions", requireStudent, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  const assignmentId = parseInt(req.params.assignmentId);
+
+  if (isNaN(classId) || isNaN(assignmentId)) {
+    return res.status(400).json({ message: "Invalid class or assignment ID" });
+  }
+
+  const parsed = insertSubmissionSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json(parsed.error);
+  }
+
+  try {
+    const studentId = req.user!.id;
+    const target = await checkSubmissionTarget(classId, assignmentId, studentId);
+    if (!("assignment" in target)) {
+      return res.status(target.status).json({ message: target.message });
+    }
+
+    const { progress, submission } = await storage.createSubmission({
+      studentId,
+      assignmentId,
+      kind: parsed.data.kind,
+      url: parsed.data.kind === "url" ? parsed.data.url : null,
+      textResponse: parsed.data.kind === "text" ? parsed.data.textResponse : null,
+      fileKey: null,
+      fileName: null,
+      mimeType: null,
+      fileSize: null,
+    }, isLateWork(target.assignment));
+
+    await announceSubmission(req, classId, progress, submission);
+    res.status(201).json(submission);
+  } catch (error) {
+    console.error("Error creating submission:", error);
+    res.status(500).json({ message: "Failed to submit work" });
+  }
+});
+
+// Student uploads a file; the body is the file itself, X-File-Name and X-File-Type describe it
+router.post("/api/classes/:classId/assignments/:assignmentId/submissions/file", requireStudent, readUpload, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  const assignmentId = parseInt(req.params.assignmentId);
+
+  if (isNaN(classId) || isNaN(assignmentId)) {
+    return res.status(400).json({ message: "Invalid class or assignment ID" });
+  }
+
+  const contents = req.body;
+  if (!Buffer.isBuffer(contents) || contents.length === 0) {
+    return res.status(400).json({ message: "Choose a file to upload" });
+  }
+
+  const fileName = getUploadFileName(req);
+  if (!fileName) {
+    return res.status(400).json({ message: "Missing or invalid file name" });
+  }
+
+  try {
+    const studentId = req.user!.id;
+    const target = await checkSubmissionTarget(classId, assignmentId, studentId);
+    if (!("assignment" in target)) {
+      return res.status(target.status).json({ message: target.message });
+    }
+
+    const fileKey = await fileStorage.save(contents, fileName);
+    const { progress, submission } = await storage.createSubmission({
+      studentId,
+      assignmentId,
+      kind: "file",
+      url: null,
+      textResponse: null,
+      fileKey,
+      fileName: fileName.slice(0, 255),
+      mimeType: req.get("X-File-Type")?.slice(0, 255) || "application/octet-stream",
+      fileSize: contents.length,
+    }, isLateWork(target.assignment)).catch(async (error) => {
+      // Nothing points at the file without its submission row
+      await fileStorage.remove(fileKey).catch((removeError) => {
+        console.error(`Error removing uploaded file ${fileKey}:`, removeError);
+      });
+      throw error;
+    });
+
+    await announceSubmission(req, classId, progress, submission);
+    res.status(201).json(submission);
+  } catch (error) {
+    console.error("Error uploading submission:", error);
+    res.status(500).json({ message: "Failed to upload file" });
+  }
+});
+
+// Download a submitted file (the student who submitted it or the class instructor)
+router.get("/api/submissions/:submissionId/file", requireAuth, async (req, res) => {
+  const submissionId = parseInt(req.params.submissionId);
+  if (isNaN(submissionId)) {
+    return res.status(400).json({ message: "Invalid submission ID" });
+  }
+
+  try {
+    const submission = await storage.getSubmission(submissionId);
+    if (!submission || !submission.fileKey) {
+      return res.status(404).json({ message: "File not found" });
+    }
+
+    if (req.user!.role === "instructor") {
+      const assignment = await storage.getAssignment(submission.assignmentId);
+      const cls = assignment ? await storage.getClass(assignment.classId) : undefined;
+      if (!cls || cls.instructorId !== req.user!.id) {
+        return res.sendStatus(403);
+      }
+    } else if (req.user!.id !== submission.studentId) {
+      return res.sendStatus(403);
+    }
+
+    const stream = await fileStorage.open(submission.fileKey);
+    if (!stream) {
+      return res.status(404).json({ message: "File not found" });
+    }
+
+    // Always download rather than render, so uploaded HTML never runs on our origin
+    res.attachment(submission.fileName ?? "submission");
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    stream.on("error", (error) => {
+      console.error("Error streaming submission file:", error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    console.error("Error downloading submission:", error);
+    res.status(500).json({ message: "Failed to download file" });
+  }
+});
+
+// Submissions awaiting review across the instructor's active classes
+router.get("/api/submissions/pending", requireInstructor, async (req, res) => {
+  try {
+    const classes = (await storage.getClassesByInstructor(req.user!.id)).filter((c) => !c.isArchived);
+
+    const pending = [];
+    for (const cls of classes) {
+      const awaiting = (await storage.getStudentProgressForClass(cls.id)).filter((p) => p.awaitingReview);
+      if (awaiting.length === 0) continue;
+
+      const [students, assignments, submissions] = await Promise.all([
+        storage.getClassStudents(cls.id),
+        storage.getAssignmentsByClass(cls.id),
+        storage.getSubmissionsByProgress(awaiting.map((p) => p.id)),
+      ]);
+
+      for (const progress of awaiting) {
+        // Submissions are newest first, so the first match is the one to review
+        const submission = submissions.find((s) => s.progressId === progress.id);
+        const assignment = assignments.find((a) => a.id === progress.assignmentId);
+        if (!submission || !assignment) continue;
+
+        pending.push({
+          submission,
+          progress,
+          assignment,
+          classId: cls.id,
+          className: cls.name,
+          studentName: students.find((s) => s.id === progress.studentId)?.fullName ?? "Unknown student",
+        });
+      }
+    }
+
+    // Oldest submissions first so nothing waits too long
+    pending.sort(
+      (a, b) => new Date(a.submission.createdAt).getTime() - new Date(b.submission.createdAt).getTime()
+    );
+    res.json(pending);
+  } catch (error) {
+    console.error("Error fetching pending submissions:", error);
+    res.status(500).json({ message: "Failed to fetch pending submissions" });
+  }
+});
+
+export default router;
@@ -0,0 +1,346 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { requireAuth, requireInstructor, requireStudent } from "../middleware";
+import { auditService } from "../audit";
+import { AppError } from "../errors";
+import {
+  insertTokenGrantSchema,
+  insertTokenSpendRequestSchema,
+  reviewTokenSpendRequestSchema,
+  type TokenTransaction,
+} from "@shared/schema";
+import { summarizeTokens, type TokenAccount } from "@shared/tokens";
+
+const router = Router();
+
+/**
+ * Load a student's ledger and balance against their selected contract's allowance
+ */
+async function loadTokenAccount(classId: number, studentId: number) {
+  const [studentContract, contracts, transactions] = await Promise.all([
+    storage.getStudentContract(studentId, classId),
+    storage.getContractsByClass(classId),
+    storage.getStudentTokenTransactions(studentId, classId),
+  ]);
+
+  const contract = contracts.find((c) => c.id === studentContract?.contractId);
+  return {
+    studentContract,
+    transactions,
+    balance: summarizeTokens(contract?.tokenAllowance ?? 0, transactions),
+  };
+}
+
+/**
+ * Check that linked progress or attendance records belong to the student in this class
+ */
+async function validateLinks(
+  classId: number,
+  studentId: number,
+  links: { assignmentProgressId?: number; attendanceRecordId?: number }
+): Promise<string | null> {
+  if (links.assignmentProgressId !== undefined) {
+    const progress = await storage.getStudentProgress(studentId, classId);
+    if (!progress.some((p) => p.id === links.assignmentProgressId)) {
+      return "Assignment progress not found for this student";
+    }
+  }
+
+  if (links.attendanceRecordId !== undefined) {
+    const record = await storage.getAttendanceRecord(links.attendanceRecordId);
+    if (!record || record.studentId !== studentId || record.classId !== classId) {
+      return "Attendance record not found for this student";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Audit values for a ledger entry, including classId so it shows in the class activity log
+ */
+function auditValues(transaction: TokenTransaction): Record<string, unknown> {
+  return {
+    studentId: transaction.studentId,
+    classId: transaction.classId,
+    kind: transaction.kind,
+    purpose: transaction.purpose,
+    amount: transaction.amount,
+    assignmentProgressId: transaction.assignmentProgressId,
+    attendanceRecordId: transaction.attendanceRecordId,
+    status: transaction.status,
+    reason: transaction.reason,
+    instructorResponse: transaction.instructorResponse,
+  };
+}
+
+// A student's token balance and ledger
+router.get("/api/classes/:classId/students/:studentId/tokens", requireAuth, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  const studentId = parseInt(req.params.studentId);
+
+  if (isNaN(classId) || isNaN(studentId)) {
+    return res.status(400).json({ message: "Invalid class or student ID" });
+  }
+
+  // Students can only view their own tokens, instructors must own the class
+  if (req.user!.role === "instructor") {
+    const cls = await storage.getClass(classId);
+    if (!cls || cls.instructorId !== req.user!.id) {
+      return res.sendStatus(403);
+    }
+  } else if (req.user!.id !== studentId) {
+    return res.sendStatus(403);
+  }
+
+  try {
+    const [{ balance, transactions }, assignments, progress, attendance] = await Promise.all([
+      loadTokenAccount(classId, studentId),
+      storage.getAssignmentsByClass(classId),
+      storage.getStudentProgress(studentId, classId),
+      storage.getStudentAttendance(studentId, classId),
+    ]);
+
+    const account: TokenAccount = {
+      balance,
+      transactions: transactions.map((t) => {
+        const linkedProgress = progress.find((p) => p.id === t.assignmentProgressId);
+        return {
+          ...t,
+          assignmentName: linkedProgress
+            ? assignments.find((a) => a.id === linkedProgress.assignmentId)?.name ?? null
+            : null,
+          attendanceDate: attendance.find((r) => r.id === t.attendanceRecordId)?.date ?? null,
+        };
+      }),
+    };
+    res.json(account);
+  } catch (error) {
+    console.error("Error fetching token account:", error);
+    res.status(500).json({ message: "Failed to fetch tokens" });
+  }
+});
+
+// Student asks to spend tokens on a revision, late submission, missed engagement or absence
+router.post("/api/classes/:classId/token-requests", requireStudent, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  if (isNaN(classId)) {
+    return res.status(400).json({ message: "Invalid class ID" });
+  }
+
+  const parsed = insertTokenSpendRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json(parsed.error);
+  }
+
+  try {
+    const studentId = req.user!.id;
+    const { studentContract, transactions, balance } = await loadTokenAccount(classId, studentId);
+    if (!studentContract) {
+      return res.sendStatus(403);
+    }
+
+    const linkError = await validateLinks(classId, studentId, parsed.data);
+    if (linkError) {
+      return res.status(404).json({ message: linkError });
+    }
+
+    if (parsed.data.attendanceRecordId !== undefined) {
+      const record = await storage.getAttendanceRecord(parsed.data.attendanceRecordId);
+      if (record?.status !== "absent") {
+        return res.status(400).json({ message: "Tokens can only be spent on absences" });
+      }
+
+      const alreadyCovered = transactions.some(
+        (t) => t.kind === "spend" && t.status !== "denied" && t.attendanceRecordId === parsed.data.attendanceRecordId
+      );
+      if (alreadyCovered) {
+        return res.status(409).json({ message: "A token has already been requested for this absence" });
+      }
+    }
+
+    if (parsed.data.amount > balance.available) {
+      return res.status(400).json({
+        message: `Not enough tokens: ${balance.available} available, ${parsed.data.amount} requested`,
+      });
+    }
+
+    const transaction = await storage.createTokenTransaction({
+      studentId,
+      classId,
+      kind: "spend",
+      purpose: parsed.data.purpose,
+      amount: parsed.data.amount,
+      assignmentProgressId: parsed.data.assignmentProgressId ?? null,
+      attendanceRecordId: parsed.data.attendanceRecordId ?? null,
+      reason: parsed.data.reason,
+      status: "pending",
+      createdBy: studentId,
+    });
+
+    await auditService.logWithRequest(req, {
+      action: "CREATE",
+      entityType: "token_transaction",
+      entityId: transaction.id,
+      newValues: auditValues(transaction),
+    });
+
+    res.status(201).json(transaction);
+  } catch (error) {
+    console.error("Error creating token request:", error);
+    res.status(500).json({ message: "Failed to create token request" });
+  }
+});
+
+// Instructor grants extra tokens to a student
+router.post("/api/classes/:classId/students/:studentId/token-grants", requireInstructor, async (req, res) => {
+  const classId = parseInt(req.params.classId);
+  const studentId = parseInt(req.params.studentId);
+
+  if (isNaN(classId) || isNaN(studentId)) {
+    return res.status(400).json({ message: "Invalid class or student ID" });
+  }
+
+  const parsed = insertTokenGrantSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json(parsed.error);
+  }
+
+  try {
+    const cls = await storage.getClass(classId);
+    if (!cls || cls.instructorId !== req.user!.id) {
+      return res.sendStatus(403);
+    }
+
+    const studentContract = await storage.getStudentContract(studentId, classId);
+    if (!studentContract) {
+      return res.status(404).json({ message: "Student is not enrolled in this class" });
+    }
+
+    const linkError = await validateLinks(classId, studentId, parsed.data);
+    if (linkError) {
+      return res.status(404).json({ message: linkError });
+    }
+
+    const transaction = await storage.createTokenTransaction({
+      studentId,
+      classId,
+      kind: "grant",
+      purpose: null,
+      amount: parsed.data.amount,
+      assignmentProgressId: parsed.data.assignmentProgressId ?? null,
+      attendanceRecordId: parsed.data.attendanceRecordId ?? null,
+      reason: parsed.data.reason,
+      status: "approved",
+      createdBy: req.user!.id,
+    });
+
+    await auditService.logWithRequest(req, {
+      action: "CREATE",
+      entityType: "token_transaction",
+      entityId: transaction.id,
+      newValues: auditValues(transaction),
+    });
+
+    res.status(201).json(transaction);
+  } catch (error) {
+    console.error("Error granting tokens:", error);
+    res.status(500).json({ message: "Failed to grant tokens" });
+  }
+});
+
+// Pending token spend requests across the instructor's active classes
+router.get("/api/token-requests/pending", requireInstructor, async (req, res) => {
+  try {
+    const classes = (await storage.getClassesByInstructor(req.user!.id)).filter((c) => !c.isArchived);
+
+    const pending = [];
+    for (const cls of classes) {
+      const requests = (await storage.getTokenTransactionsByClass(cls.id)).filter(
+        (t) => t.kind === "spend" && t.status === "pending"
+      );
+      if (requests.length === 0) continue;
+
+      const [students, assignments, progress, attendance] = await Promise.all([
+        storage.getClassStudents(cls.id),
+        storage.getAssignmentsByClass(cls.id),
+        storage.getStudentProgressForClass(cls.id),
+        storage.getAllClassAttendance(cls.id),
+      ]);
+
+      for (const request of requests) {
+        const linkedProgress = progress.find((p) => p.id === request.assignmentProgressId);
+        const { balance } = await loadTokenAccount(cls.id, request.studentId);
+        pending.push({
+          ...request,
+          className: cls.name,
+          studentName: students.find((s) => s.id === request.studentId)?.fullName ?? "Unknown student",
+          assignmentName: linkedProgress
+            ? assignments.find((a) => a.id === linkedProgress.assignmentId)?.name ?? null
+            : null,
+          attendanceDate: attendance.find((r) => r.id === request.attendanceRecordId)?.date ?? null,
+          balance,
+        });
+      }
+    }
+
+    res.json(pending);
+  } catch (error) {
+    console.error("Error fetching pending token requests:", error);
+    res.status(500).json({ message: "Failed to fetch pending token requests" });
+  }
+});
+
+// Instructor approves or denies a token spend request
+router.post("/api/token-requests/:requestId/review", requireInstructor, async (req, res) => {
+  const requestId = parseInt(req.params.requestId);
+  if (isNaN(requestId)) {
+    return res.status(400).json({ message: "Invalid request ID" });
+  }
+
+  const parsed = reviewTokenSpendRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json(parsed.error);
+  }
+
+  try {
+    const request = await storage.getTokenTransaction(requestId);
+    if (!request || request.kind !== "spend") {
+      return res.status(404).json({ message: "Request not found" });
+    }
+
+    const cls = await storage.getClass(request.classId);
+    if (!cls || cls.instructorId !== req.user!.id) {
+      return res.sendStatus(403);
+    }
+
+    if (request.status !== "pending") {
+      return res.status(409).json({ message: "This request has already been reviewed" });
+    }
+
+    const reviewed = await storage.reviewTokenTransaction(requestId, {
+      status: parsed.data.status,
+      instructorResponse: parsed.data.instructorResponse?.trim() || null,
+      reviewedBy: req.user!.id,
+    });
+
+    await auditService.logWithRequest(req, {
+      action: reviewed.status === "approved" ? "APPROVE" : "DENY",
+      entityType: "token_transaction",
+      entityId: reviewed.id,
+      oldValues: auditValues(request),
+      newValues: auditValues(reviewed),
+    });
+
+    res.json(reviewed);
+  } catch (error) {
+    // Reviewed by someone else between the check above and the update
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    console.error("Error reviewing token request:", error);
+    res.status(500).json({ message: "Failed to review token request" });
+  }
+});
+
+export default router;
@@ -1,4 +1,5 @@
-import { GradeConversionConfig, DEFAULT_GRADE_CONFIG } from "./types";
+import { getAssignmentStatusLabel, getStatusForPercent } from "@shared/constants";
+import { GradeConversionConfig, GradeBucket, DEFAULT_GRADE_CONFIG } from "./types";
 
 /**
  * Service for converting Canvas grades to portal format
@@ -12,24 +13,20 @@ export class GradeConverter {
   }
 
   /**
-   * Convert a Canvas grade to portal status (0-3)
-   * 0 = Not Submitted
-   * 1 = Not Submitted
-   * 2 = Work-in-Progress
-   * 3 = Successfully Completed
+   * Convert a Canvas grade to a status value on the configured scale
    */
   toStatus(rawValue: string, gradingType: string): number {
     const value = rawValue.toLowerCase().trim();
 
     // Handle empty/missing values
     if (!value || value === '-' || value === 'unsubmitted' || value === 'n/a') {
-      return 0;
+      return this.bucketToStatus('missing');
     }
 
-    // Handle raw numerical status (0-3 maps directly)
+    // Handle raw numerical status (scale values map directly)
     if (gradingType === 'numerical_status') {
       const num = parseInt(rawValue, 10);
-      if (isNaN(num) || num < 0 || num > 3) return 0;
+      if (isNaN(num) || num < 0 || num > this.maxStatus()) return this.bucketToStatus('missing');
       return num;
     }
 
@@ -44,7 +41,7 @@ export class GradeConverter {
     }
 
     // Handle text status
-    return this.textToStatus(value);
+    return this.bucketToStatus(this.textToBucket(value));
   }
 
   /**
@@ -58,11 +55,11 @@ export class GradeConverter {
       return 0;
     }
 
-    // Handle raw numerical status - map 0-3 to 0-4 scale
+    // Handle raw numerical status - map the status scale to 0-4
     if (gradingType === 'numerical_status') {
       const num = parseInt(rawValue, 10);
       if (isNaN(num) || num < 0) return 0;
-      return Math.min(4, Math.round((num / 3) * 4 * 10) / 10);
+      return Math.min(4, Math.round((num / this.maxStatus()) * 4 * 10) / 10);
     }
 
     // Handle numeric grades directly
@@ -84,27 +81,44 @@ export class GradeConverter {
   }
 
   /**
-   * Convert numeric grade (0-100) to status (0-3)
+   * Convert numeric grade (0-100) to status using each level's minPercent
    */
   private numericToStatus(rawValue: string): number {
     const numeric = parseFloat(rawValue);
-    if (isNaN(numeric)) return 0;
-
-    const { statusThresholds } = this.config;
+    if (isNaN(numeric)) return this.bucketToStatus('missing');
 
-    if (numeric >= statusThresholds.excellent) return 3;
-    if (numeric >= statusThresholds.completed) return 2;
-    if (numeric >= statusThresholds.inProgress) return 1;
-    if (numeric > 0) return 1; // Any work = at least in progress
-    return 0;
+    return getStatusForPercent(numeric, this.config.statusScale);
   }
 
   /**
-   * Convert letter grade to status (0-3)
+   * Convert letter grade to status
    */
   private letterToStatus(rawValue: string): number {
     const letter = rawValue.trim().charAt(0).toUpperCase();
-    return this.config.letterGradeMap[letter] ?? 1;
+    return this.bucketToStatus(this.config.letterGradeMap[letter] ?? 'partial');
+  }
+
+  /**
+   * Resolve a bucket against the scale: missing is the lowest level, partial the
+   * highest level not counted as done, and done the lowest level counted as done
+   */
+  private bucketToStatus(bucket: GradeBucket): number {
+    const { statusScale } = this.config;
+    const lowest = statusScale[0];
+
+    switch (bucket) {
+      case 'missing':
+        return lowest.value;
+      case 'partial':
+        return [...statusScale].reverse().find(level => !level.isDone)?.value ?? lowest.value;
+      case 'done':
+        return statusScale.find(level => level.isDone)?.value ?? statusScale[statusScale.length - 1].value;
+    }
+  }
+
+  private maxStatus(): number {
+    const { statusScale } = this.config;
+    return statusScale[statusScale.length - 1].value;
   }
 
   /**
@@ -137,56 +151,46 @@ export class GradeConverter {
   }
 
   /**
-   * Convert text status to status number (0-3)
+   * Classify a text status
    */
-  private textToStatus(value: string): number {
-    // Successfully Completed indicators
+  private textToBucket(value: string): GradeBucket {
+    // Done indicators
     if (/excellent|outstanding|exceptional|perfect|complete|done|submitted|finished|passed|satisfactory/i.test(value)) {
-      return 3;
+      return 'done';
     }
 
-    // Work-in-Progress indicators
+    // Partial work indicators
     if (/progress|partial|incomplete|pending|started|working/i.test(value)) {
-      return 2;
+      return 'partial';
     }
 
-    // Not Submitted indicators
+    // Missing work indicators
     if (/missing|not\s*submitted|absent|none|failed|0/i.test(value)) {
-      return 0;
+      return 'missing';
     }
 
-    // Default to Work-in-Progress for any unrecognized non-empty value
-    return 2;
+    // Default to partial work for any unrecognized non-empty value
+    return 'partial';
   }
 
   /**
    * Convert text status to numeric (0-4)
    */
   private textToNumeric(value: string): number {
-    const status = this.textToStatus(value);
-
-    // Map status to numeric
-    const statusToNumeric: Record<number, number> = {
-      0: 0,
-      1: 2,
-      2: 3,
-      3: 4
+    const bucketToNumeric: Record<GradeBucket, number> = {
+      missing: 0,
+      partial: 3,
+      done: 4
     };
 
-    return statusToNumeric[status] ?? 2;
+    return bucketToNumeric[this.textToBucket(value)];
   }
 
   /**
-   * Get human-readable status label
+   * Get the scale's label for a status
    */
-  static getStatusLabel(status: number): string {
-    const labels: Record<number, string> = {
-      0: 'Not Submitted',
-      1: 'Not Submitted',
-      2: 'Work-in-Progress',
-      3: 'Successfully Completed'
-    };
-    return labels[status] ?? 'Unknown';
+  getStatusLabel(status: number): string {
+    return getAssignmentStatusLabel(status, this.config.statusScale);
   }
 
   /**
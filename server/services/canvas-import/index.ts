@@ -1,4 +1,8 @@
-import { storage } from "../../storage";
+import { storage, type ImportGrade } from "../../storage";
+import type { ImportRun } from "@shared/schema";
+import { getStatusScale } from "@shared/constants";
+import { countAbsences, getAttendancePolicy } from "@shared/attendance";
+import { applyThresholds, type GradeConversionSettings } from "@shared/canvas-mapping";
 import { StudentMatcher } from "./student-matcher";
 import { GradeConverter } from "./grade-converter";
 import {
@@ -6,11 +10,13 @@ import {
   AssignmentMapping,
   ImportPreview,
   ImportResult,
+  ImportedGrade,
   GradeChange,
   AbsenceChange,
   ImportSummary,
   StudentMatchResult,
   NormalizedStudent,
+  ImportError,
   DEFAULT_GRADE_CONFIG,
 } from "./types";
 
@@ -19,26 +25,30 @@ import {
  * Orchestrates student matching, grade conversion, and data import
  */
 export class CanvasImportService {
-  private gradeConverter: GradeConverter;
-
-  constructor() {
-    this.gradeConverter = new GradeConverter(DEFAULT_GRADE_CONFIG);
-  }
-
   /**
    * Generate a preview of what the import will do without committing changes
    */
   async generatePreview(
     classId: number,
     normalizedData: NormalizedGradeData,
-    mappings: AssignmentMapping[]
+    mappings: AssignmentMapping[],
+    conversion?: GradeConversionSettings
   ): Promise<ImportPreview> {
-    // Fetch enrolled students and assignments
-    const [enrolledStudents, portalAssignments] = await Promise.all([
+    // Fetch the class, enrolled students and assignments
+    const [cls, enrolledStudents, portalAssignments] = await Promise.all([
+      storage.getClass(classId),
       storage.getEnrolledStudents(classId),
       storage.getAssignmentsByClass(classId)
     ]);
 
+    // Statuses are converted onto the class's own scale, with any saved thresholds
+    const statusScale = getStatusScale(cls);
+    const gradeConverter = new GradeConverter(
+      conversion
+        ? { statusScale: applyThresholds(statusScale, conversion.thresholds), letterGradeMap: conversion.letterGradeMap }
+        : { ...DEFAULT_GRADE_CONFIG, statusScale }
+    );
+
     // Get all current progress for comparison
     const allProgress = await this.getAllStudentProgress(classId, enrolledStudents);
 
@@ -89,16 +99,16 @@ export class CanvasImportService {
       let convertedNumeric: number | null = null;
 
       if (portalAssignment.scoringType === 'status') {
-        convertedStatus = this.gradeConverter.toStatus(grade.rawValue, mapping.gradingType);
+        convertedStatus = gradeConverter.toStatus(grade.rawValue, mapping.gradingType);
       } else {
-        convertedNumeric = this.gradeConverter.toNumeric(grade.rawValue, mapping.gradingType);
+        convertedNumeric = gradeConverter.toNumeric(grade.rawValue, mapping.gradingType);
       }
 
       // Determine current value string for display
       let currentValue: string | null = null;
       if (currentProgress) {
         if (portalAssignment.scoringType === 'status' && currentProgress.status !== null) {
-          currentValue = GradeConverter.getStatusLabel(currentProgress.status);
+          currentValue = gradeConverter.getStatusLabel(currentProgress.status);
         } else if (currentProgress.numericGrade !== null) {
           currentValue = currentProgress.numericGrade.toString();
         }
@@ -138,7 +148,7 @@ export class CanvasImportService {
           matchResult.matchedStudent.id,
           classId
         );
-        const currentAbsences = attendanceRecords.filter(r => !r.isPresent).length;
+        const currentAbsences = countAbsences(attendanceRecords, getAttendancePolicy(cls));
 
         if (currentAbsences !== newAbsences) {
           absenceChanges.push({
@@ -171,72 +181,81 @@ export class CanvasImportService {
   }
 
   /**
-   * Execute the import using approved grade changes
+   * Execute the import using approved grade changes. Changes for students or
+   * assignments outside the class are reported as errors; the rest are applied
+   * and recorded as one import run, all together or not at all.
    */
   async executeImport(
-    gradeChanges: GradeChange[],
     classId: number,
-    absenceChanges?: AbsenceChange[]
-  ): Promise<ImportResult> {
-    const processedStudents = new Set<number>();
-    const errors: { student: string; assignment: string; error: string }[] = [];
-    let processedGrades = 0;
-    let processedAbsences = 0;
+    run: Pick<ImportRun, "uploadedBy" | "fileName" | "mappings" | "batchId">,
+    gradeChanges: GradeChange[],
+    absenceChanges: AbsenceChange[] = []
+  ): Promise<ImportResult & { run: ImportRun; gradeUpdates: ImportedGrade[] }> {
+    const [cls, enrolledStudents, portalAssignments] = await Promise.all([
+      storage.getClass(classId),
+      storage.getEnrolledStudents(classId),
+      storage.getAssignmentsByClass(classId)
+    ]);
+    const studentIds = new Set(enrolledStudents.map(s => s.id));
+    const errors: ImportError[] = [];
 
+    const grades: ImportGrade[] = [];
     for (const change of gradeChanges) {
-      try {
-        // Prepare update data
-        const updateData: any = {
-          studentId: change.studentId,
-          assignmentId: change.assignmentId,
-          lastUpdated: new Date()
-        };
-
-        if (change.convertedStatus !== null) {
-          updateData.status = change.convertedStatus;
-        }
-        if (change.convertedNumeric !== null) {
-          updateData.numericGrade = change.convertedNumeric.toString();
-        }
-
-        // Update progress
-        await storage.updateProgress(updateData);
+      const assignment = portalAssignments.find(a => a.id === change.assignmentId);
+      if (!assignment || !studentIds.has(change.studentId)) {
+        errors.push({
+          student: change.studentName,
+          assignment: change.assignmentName,
+          error: 'Student or assignment not found in this class'
+        });
+        continue;
+      }
 
-        processedStudents.add(change.studentId);
-        processedGrades++;
-      } catch (error) {
+      const grade: ImportGrade = { studentId: change.studentId, assignmentId: change.assignmentId };
+      if (assignment.scoringType === 'status' && change.convertedStatus !== null) {
+        grade.status = change.convertedStatus;
+      } else if (assignment.scoringType !== 'status' && change.convertedNumeric !== null) {
+        grade.numericGrade = change.convertedNumeric.toString();
+      } else {
         errors.push({
           student: change.studentName,
           assignment: change.assignmentName,
-          error: error instanceof Error ? error.message : 'Unknown error'
+          error: `Could not convert "${change.newValue}" to a grade`
         });
+        continue;
       }
+      grades.push(grade);
     }
 
-    // Process absence changes
-    if (absenceChanges) {
-      for (const change of absenceChanges) {
-        try {
-          await storage.setStudentAbsences(change.studentId, classId, change.newAbsences);
-          processedStudents.add(change.studentId);
-          processedAbsences++;
-        } catch (error) {
-          errors.push({
-            student: change.studentName,
-            assignment: 'Absences',
-            error: error instanceof Error ? error.message : 'Unknown error'
-          });
-        }
+    const absences: { studentId: number; absences: number }[] = [];
+    for (const change of absenceChanges) {
+      if (!studentIds.has(change.studentId) || !Number.isInteger(change.newAbsences) || change.newAbsences < 0) {
+        errors.push({
+          student: change.studentName,
+          assignment: 'Absences',
+          error: 'Invalid absence count for this class'
+        });
+        continue;
       }
+      absences.push({ studentId: change.studentId, absences: change.newAbsences });
     }
 
+    const applied = await storage.applyImportRun(
+      { ...run, classId, errors },
+      grades,
+      absences,
+      getAttendancePolicy(cls)
+    );
+
     return {
       success: errors.length === 0,
-      processedStudents: processedStudents.size,
-      processedGrades,
-      processedAbsences,
+      processedStudents: applied.run.summary.processedStudents,
+      processedGrades: applied.run.summary.processedGrades,
+      processedAbsences: applied.run.summary.processedAbsences,
       skippedStudents: [],
-      errors
+      errors,
+      run: applied.run,
+      gradeUpdates: applied.grades
     };
   }
 
@@ -1,4 +1,6 @@
 import { User, Assignment, AssignmentProgress } from "@shared/schema";
+import { DEFAULT_STATUS_SCALE, type StatusLevel } from "@shared/constants";
+import { DEFAULT_LETTER_GRADE_MAP, type GradeBucket } from "@shared/canvas-mapping";
 
 /**
  * Normalized student data from any source (CSV or future API)
@@ -50,36 +52,23 @@ export interface StudentMatchResult {
   confidence: number;  // 0-100
 }
 
+export type { GradeBucket };
+
 /**
- * Configuration for grade conversion thresholds
+ * Configuration for grade conversion.
+ * Percentages map onto the status scale by each level's minPercent.
  */
 export interface GradeConversionConfig {
-  statusThresholds: {
-    notStarted: number;     // Below this = 0 (Not Submitted)
-    inProgress: number;     // At or above = 1 (Not Submitted)
-    completed: number;      // At or above = 2 (Work-in-Progress)
-    excellent: number;      // At or above = 3 (Successfully Completed)
-  };
-  letterGradeMap: Record<string, number>;
+  statusScale: readonly StatusLevel[];
+  letterGradeMap: Record<string, GradeBucket>;
 }
 
 /**
  * Default grade conversion configuration
  */
 export const DEFAULT_GRADE_CONFIG: GradeConversionConfig = {
-  statusThresholds: {
-    notStarted: 1,    // 0 = Not Submitted
-    inProgress: 1,    // 1+ = Not Submitted (same as 0)
-    completed: 1,     // 1-69 = Work-in-Progress
-    excellent: 70     // 70+ = Successfully Completed
-  },
-  letterGradeMap: {
-    'A': 3,
-    'B': 3,
-    'C': 2,
-    'D': 2,
-    'F': 0
-  }
+  statusScale: DEFAULT_STATUS_SCALE,
+  letterGradeMap: DEFAULT_LETTER_GRADE_MAP
 };
 
 /**
@@ -151,6 +140,14 @@ export interface ImportResult {
   errors: ImportError[];
 }
 
+/**
+ * A grade written by an import, with the row it replaced (null if there was none)
+ */
+export interface ImportedGrade {
+  previous: AssignmentProgress | null;
+  progress: AssignmentProgress;
+}
+
 /**
  * Error that occurred during import
  */
@@ -0,0 +1,77 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { CHECK_IN_CODE_LENGTH, CHECK_IN_MAX_ATTEMPTS, getCodeWindow } from "@shared/check-in";
+import type { CheckInSession } from "@shared/schema";
+
+/**
+ * Service for the rotating codes students enter to check themselves in.
+ * Codes are derived from the session secret and the current time window,
+ * so nothing needs storing as they rotate.
+ */
+export class CheckInService {
+  // Wrong guesses on each class's current session by student, so codes can't be
+  // brute-forced. A class has one session open at a time, so only its counts are kept.
+  private failedAttempts = new Map<number, { sessionId: number; byStudent: Map<number, number> }>();
+
+  createSecret(): string {
+    return randomBytes(32).toString("hex");
+  }
+
+  /**
+   * The code for a session at the given moment
+   */
+  getCode(session: Pick<CheckInSession, "secret">, at: Date = new Date()): string {
+    return this.codeForWindow(session.secret, getCodeWindow(at));
+  }
+
+  /**
+   * Check a code a student entered. The previous window's code is still
+   * accepted so a code that rotates mid-typing isn't rejected.
+   */
+  verifyCode(session: Pick<CheckInSession, "secret">, code: string, at: Date = new Date()): boolean {
+    const window = getCodeWindow(at);
+    return [window, window - 1].some((w) => {
+      const expected = Buffer.from(this.codeForWindow(session.secret, w));
+      const given = Buffer.from(code);
+      return expected.length === given.length && timingSafeEqual(expected, given);
+    });
+  }
+
+  isLockedOut(session: Pick<CheckInSession, "id" | "classId">, studentId: number): boolean {
+    const entry = this.failedAttempts.get(session.classId);
+    const attempts = entry?.sessionId === session.id ? entry.byStudent.get(studentId) ?? 0 : 0;
+    return attempts >= CHECK_IN_MAX_ATTEMPTS;
+  }
+
+  /**
+   * Count a wrong code and return how many tries the student has left
+   */
+  recordFailedAttempt(session: Pick<CheckInSession, "id" | "classId">, studentId: number): number {
+    let entry = this.failedAttempts.get(session.classId);
+    // Counts for an earlier session of the class no longer matter
+    if (entry?.sessionId !== session.id) {
+      entry = { sessionId: session.id, byStudent: new Map() };
+      this.failedAttempts.set(session.classId, entry);
+    }
+    const attempts = (entry.byStudent.get(studentId) ?? 0) + 1;
+    entry.byStudent.set(studentId, attempts);
+    return Math.max(0, CHECK_IN_MAX_ATTEMPTS - attempts);
+  }
+
+  /**
+   * Forget a class's attempts once its session is over, whether closed, replaced or expired
+   */
+  clearAttempts(classId: number): void {
+    this.failedAttempts.delete(classId);
+  }
+
+  private codeForWindow(secret: string, window: number): string {
+    // HOTP-style dynamic truncation (RFC 4226 §5.3)
+    const digest = createHmac("sha256", secret).update(String(window)).digest();
+    const offset = digest[digest.length - 1] & 0x0f;
+    const value = digest.readUInt32BE(offset) & 0x7fffffff;
+    return String(value % 10 ** CHECK_IN_CODE_LENGTH).padStart(CHECK_IN_CODE_LENGTH, "0");
+  }
+}
+
+// Export a singleton instance
+export const checkInService = new CheckInService();
@@ -0,0 +1,114 @@
+import { storage } from "../../storage";
+import { auditService } from "../../audit";
+import { latestContractsByGrade } from "@shared/contract-evaluation";
+import { isContractSelectionLocked } from "@shared/contract-deadline";
+import type { Class } from "@shared/schema";
+
+/**
+ * Service for enforcing contract-selection deadlines.
+ * Once a class's deadline passes, students who never chose a contract
+ * are placed on the class's default contract.
+ */
+export class ContractDeadlineService {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Assign the default contract to every student in the class without one.
+   * Returns the number of students assigned.
+   */
+  async applyDefaultContract(cls: Class): Promise<number> {
+    if (!isContractSelectionLocked(cls) || !cls.defaultContractGrade) {
+      return 0;
+    }
+
+    const [contracts, studentContracts] = await Promise.all([
+      storage.getContractsByClass(cls.id),
+      storage.getStudentContractsByClass(cls.id),
+    ]);
+
+    const defaultContract = latestContractsByGrade(contracts).find((c) => c.grade === cls.defaultContractGrade);
+    if (!defaultContract) {
+      return 0;
+    }
+
+    const unassigned = studentContracts.filter((sc) => !sc.contractId);
+    for (const studentContract of unassigned) {
+      await storage.setStudentContract({
+        studentId: studentContract.studentId,
+        classId: cls.id,
+        contractId: defaultContract.id,
+        isConfirmed: true,
+      });
+      const assigned = await storage.confirmStudentContract(studentContract.studentId, cls.id);
+
+      await auditService.log({
+        userId: null,
+        action: "UPDATE",
+        entityType: "student_contract",
+        entityId: assigned.id,
+        oldValues: {
+          studentId: studentContract.studentId,
+          classId: cls.id,
+          contractId: null,
+          isConfirmed: studentContract.isConfirmed,
+        },
+        newValues: {
+          studentId: studentContract.studentId,
+          classId: cls.id,
+          contractId: defaultContract.id,
+          grade: defaultContract.grade,
+          isConfirmed: true,
+          autoAssigned: true,
+        },
+      });
+    }
+
+    return unassigned.length;
+  }
+
+  /**
+   * Apply default contracts in every active class whose deadline has passed
+   */
+  async applyAllDefaultContracts(): Promise<void> {
+    const classes = await storage.getClassesPastContractDeadline();
+    for (const cls of classes) {
+      try {
+        const count = await this.applyDefaultContract(cls);
+        if (count > 0) {
+          console.log(`Assigned default contract to ${count} students in class ${cls.id}`);
+        }
+      } catch (error) {
+        console.error(`Failed to apply default contract for class ${cls.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Check deadlines now and then periodically
+   */
+  start(intervalMs: number = 5 * 60 * 1000): void {
+    if (this.timer) return;
+
+    const run = () => {
+      this.applyAllDefaultContracts().catch((error) => {
+        console.error("Failed to apply default contracts:", error);
+      });
+    };
+
+    run();
+    this.timer = setInterval(run, intervalMs);
+  }
+
+  /**
+   * Stop the periodic deadline check
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+// Export a singleton instance
+export const contractDeadlineService = new ContractDeadlineService();
@@ -0,0 +1,154 @@
+import { storage } from "../../storage";
+import {
+  evaluateContract,
+  evaluateStanding,
+  type ContractEvaluation,
+  type ContractEvaluationInput,
+  type ContractStanding,
+} from "@shared/contract-evaluation";
+import { getGradeTiers, getStatusScale } from "@shared/constants";
+import { getAttendancePolicy } from "@shared/attendance";
+
+/**
+ * Service for evaluating students against their selected grade contracts.
+ * Loads the data the shared evaluator needs so every view gets the same verdict.
+ */
+export class ContractEvaluationService {
+  /**
+   * Evaluate a single student against their selected contract.
+   * Returns null if the student has not selected a contract.
+   */
+  async evaluateStudent(classId: number, studentId: number): Promise<ContractEvaluation | null> {
+    const studentContract = await storage.getStudentContract(studentId, classId);
+    if (!studentContract?.contractId) {
+      return null;
+    }
+
+    const [contracts, input] = await Promise.all([
+      storage.getContractsByClass(classId),
+      this.loadStudentInput(classId, studentId),
+    ]);
+
+    const contract = contracts.find((c) => c.id === studentContract.contractId);
+    if (!contract) {
+      return null;
+    }
+
+    return evaluateContract(contract, input);
+  }
+
+  /**
+   * Evaluate every enrolled student in a class (single query per data type).
+   * Students without a selected contract map to null.
+   */
+  async evaluateClass(classId: number): Promise<Map<number, ContractEvaluation | null>> {
+    const [studentContracts, contracts, inputs] = await Promise.all([
+      storage.getStudentContractsByClass(classId),
+      storage.getContractsByClass(classId),
+      this.loadClassInputs(classId),
+    ]);
+
+    const results = new Map<number, ContractEvaluation | null>();
+    for (const studentContract of studentContracts) {
+      const contract = contracts.find((c) => c.id === studentContract.contractId);
+      results.set(
+        studentContract.studentId,
+        contract ? evaluateContract(contract, inputs(studentContract.studentId)) : null
+      );
+    }
+
+    return results;
+  }
+
+  /**
+   * Determine a student's standing across all contracts in the class
+   */
+  async getStanding(classId: number, studentId: number): Promise<ContractStanding> {
+    const [cls, studentContract, contracts, input] = await Promise.all([
+      storage.getClass(classId),
+      storage.getStudentContract(studentId, classId),
+      storage.getContractsByClass(classId),
+      this.loadStudentInput(classId, studentId),
+    ]);
+
+    return evaluateStanding(contracts, studentContract, input, getGradeTiers(cls));
+  }
+
+  /**
+   * Determine the standing of every enrolled student in a class
+   */
+  async getClassStandings(classId: number): Promise<Map<number, ContractStanding>> {
+    const [cls, studentContracts, contracts, inputs] = await Promise.all([
+      storage.getClass(classId),
+      storage.getStudentContractsByClass(classId),
+      storage.getContractsByClass(classId),
+      this.loadClassInputs(classId),
+    ]);
+
+    const tiers = getGradeTiers(cls);
+    const results = new Map<number, ContractStanding>();
+    for (const studentContract of studentContracts) {
+      results.set(
+        studentContract.studentId,
+        evaluateStanding(contracts, studentContract, inputs(studentContract.studentId), tiers)
+      );
+    }
+
+    return results;
+  }
+
+  /**
+   * Load evaluator input for a single student
+   */
+  private async loadStudentInput(classId: number, studentId: number): Promise<ContractEvaluationInput> {
+    const [cls, categories, assignments, progress, attendance, engagementIntentions, tokenTransactions] = await Promise.all([
+      storage.getClass(classId),
+      storage.getCategoriesByClass(classId),
+      storage.getAssignmentsByClass(classId),
+      storage.getStudentProgress(studentId, classId),
+      storage.getStudentAttendance(studentId, classId),
+      storage.getStudentEngagementIntentions(studentId, classId),
+      storage.getStudentTokenTransactions(studentId, classId),
+    ]);
+
+    return {
+      assignments,
+      categories,
+      progress,
+      attendance,
+      engagementIntentions,
+      tokenTransactions,
+      statusScale: getStatusScale(cls),
+      attendancePolicy: getAttendancePolicy(cls),
+    };
+  }
+
+  /**
+   * Load evaluator input for a whole class and return a per-student accessor
+   */
+  private async loadClassInputs(classId: number): Promise<(studentId: number) => ContractEvaluationInput> {
+    const [cls, categories, assignments, progress, attendance, engagementIntentions, tokenTransactions] = await Promise.all([
+      storage.getClass(classId),
+      storage.getCategoriesByClass(classId),
+      storage.getAssignmentsByClass(classId),
+      storage.getStudentProgressForClass(classId),
+      storage.getAllClassAttendance(classId),
+      storage.getClassEngagementIntentions(classId),
+      storage.getTokenTransactionsByClass(classId),
+    ]);
+
+    return (studentId: number) => ({
+      assignments,
+      categories,
+      progress: progress.filter((p) => p.studentId === studentId),
+      attendance: attendance.filter((r) => r.studentId === studentId),
+      engagementIntentions: engagementIntentions.filter((i) => i.studentId === studentId),
+      tokenTransactions: tokenTransactions.filter((t) => t.studentId === studentId),
+      statusScale: getStatusScale(cls),
+      attendancePolicy: getAttendancePolicy(cls),
+    });
+  }
+}
+
+// Export a singleton instance
+export const contractEvaluationService = new ContractEvaluationService();
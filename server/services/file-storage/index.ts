@@ -0,0 +1,63 @@
+import { randomUUID } from "crypto";
+import { createReadStream, promises as fs } from "fs";
+import path from "path";
+import type { Readable } from "stream";
+
+/**
+ * Where uploaded files are kept. Routes only see opaque keys, so the
+ * local disk store can be swapped for object storage later.
+ */
+export interface FileStorage {
+  /** Store the file and return the key to read it back with */
+  save(contents: Buffer, originalName: string): Promise<string>;
+  /** Open a stored file for streaming, or null if it no longer exists */
+  open(key: string): Promise<Readable | null>;
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Stores files in a directory on the server's disk
+ */
+export class LocalFileStorage implements FileStorage {
+  constructor(private readonly root: string) {}
+
+  async save(contents: Buffer, originalName: string): Promise<string> {
+    // Keep the extension for easier inspection on disk; the name itself stays in the database
+    const extension = path.extname(originalName).replace(/[^a-zA-Z0-9.]/g, "").slice(0, 16);
+    const key = `${randomUUID()}${extension}`;
+
+    await fs.mkdir(this.root, { recursive: true });
+    await fs.writeFile(this.resolve(key), contents);
+    return key;
+  }
+
+  async open(key: string): Promise<Readable | null> {
+    const filePath = this.resolve(key);
+    try {
+      await fs.access(filePath);
+    } catch {
+      return null;
+    }
+    return createReadStream(filePath);
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  /**
+   * Map a key to a path, refusing anything that would escape the storage directory
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (path.dirname(filePath) !== path.resolve(this.root)) {
+      throw new Error(`Invalid file key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+// Export singleton instance
+export const fileStorage: FileStorage = new LocalFileStorage(
+  process.env.UPLOAD_DIR || path.resolve(process.cwd(), "uploads")
+);
@@ -1,14 +1,43 @@
-import { User, InsertUser, Class, Assignment, GradeContract, StudentContract, AssignmentProgress, StudentInvitation, InsertStudentInvitation, PasswordResetRequest, EngagementIntention, InsertEngagementIntention, UpdateEngagementIntention, AttendanceRecord, InsertAttendanceRecord, UpdateAttendanceRecord } from "@shared/schema";
+import { User, InsertUser, Class, Assignment, GradeContract, StudentContract, AssignmentProgress, StudentInvitation, InsertStudentInvitation, PasswordResetRequest, CalendarFeedToken, EngagementIntention, InsertEngagementIntention, UpdateEngagementIntention, SubmitEngagementFulfillment, EngagementIntentionReview, EngagementPrompt, UpsertEngagementPrompt, AttendanceRecord, InsertAttendanceRecord, UpdateAttendanceRecord, CheckInSession, AbsenceExcuseRequest, ContractChangeRequest, TokenTransaction, AssignmentAttempt, AssignmentSubmission, Category, InsertCategory, ImportRun, ImportRunChange, CanvasMappingProfile } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, asc, inArray, sql, lt, max } from "drizzle-orm";
-import { users, classes, assignments, gradeContracts, studentContracts, assignmentProgress, studentInvitations, passwordResetRequests, engagementIntentions, attendanceRecords } from "@shared/schema";
+import { eq, and, desc, asc, inArray, sql, lt, gt, isNull, max } from "drizzle-orm";
+import { users, classes, assignments, gradeContracts, studentContracts, assignmentProgress, studentInvitations, passwordResetRequests, calendarFeedTokens, engagementIntentions, engagementPrompts, attendanceRecords, checkInSessions, absenceExcuseRequests, contractChangeRequests, tokenTransactions, assignmentAttempts, assignmentSubmissions, categories, importRuns, importRunChanges, canvasMappingProfiles } from "@shared/schema";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
 import crypto from "crypto";
+import { UNCATEGORIZED } from "@shared/categories";
+import { countAbsences, isPresentStatus, type AttendancePolicy, type AttendanceStatus } from "@shared/attendance";
+import { ConflictError } from "./errors";
+import { ENGAGEMENT_REVIEW_STATUSES, canSubmitFulfillment } from "@shared/engagement-review";
+import { loggedGrade, sameGrade, type LoggedGrade } from "@shared/grade-revert";
+import type { GradeConversionSettings, SavedColumnMapping } from "@shared/canvas-mapping";
 
 const PostgresSessionStore = connectPg(session);
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Put a grade back to `restore`, provided it still reads `expected`
+ */
+export interface GradeRevert {
+  studentId: number;
+  assignmentId: number;
+  expected: LoggedGrade;
+  restore: LoggedGrade;
+}
+
+/**
+ * A grade read from an import. Only the field the assignment is scored by is set;
+ * the rest of the student's progress is kept.
+ */
+export interface ImportGrade {
+  studentId: number;
+  assignmentId: number;
+  status?: number;
+  numericGrade?: string;
+}
+
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
@@ -17,12 +46,24 @@ export interface IStorage {
   createClass(classData: Omit<Class, "id" | "isArchived">): Promise<Class>;
   getClass(id: number): Promise<Class | undefined>;
   getClassesByInstructor(instructorId: number): Promise<Class[]>;
+  getClassesPastContractDeadline(): Promise<Class[]>;
   archiveClass(id: number): Promise<void>;
   unarchiveClass(id: number): Promise<void>;
-  deleteClass(id: number): Promise<void>;
-
-  createAssignment(assignment: Omit<Assignment, "id" | "displayOrder">): Promise<Assignment>;
+  /** Returns the keys of files uploaded to the class, which the caller removes from file storage */
+  deleteClass(id: number): Promise<string[]>;
+
+  // Category operations
+  getCategoriesByClass(classId: number): Promise<Category[]>;
+  getCategory(id: number): Promise<Category | undefined>;
+  createCategory(classId: number, category: InsertCategory): Promise<Category>;
+  updateCategory(id: number, updates: Partial<InsertCategory>): Promise<Category>;
+  deleteCategory(id: number): Promise<void>;
+  reorderCategories(classId: number, categoryIds: number[]): Promise<void>;
+  migrateModuleGroups(): Promise<number>;
+
+  createAssignment(assignment: Omit<Assignment, "id" | "displayOrder" | "moduleGroup">): Promise<Assignment>;
   getAssignmentsByClass(classId: number): Promise<Assignment[]>;
+  getAssignment(id: number): Promise<Assignment | undefined>;
   updateAssignment(id: number, data: Partial<Assignment>): Promise<Assignment | undefined>;
   deleteAssignment(id: number): Promise<void>;
   reorderAssignments(classId: number, assignmentIds: number[]): Promise<void>;
@@ -31,13 +72,34 @@ export interface IStorage {
   getContractsByClass(classId: number): Promise<GradeContract[]>;
   updateGradeContract(contract: GradeContract): Promise<GradeContract>;
 
-  setStudentContract(contract: Omit<StudentContract, "id">): Promise<StudentContract>;
+  setStudentContract(contract: Omit<StudentContract, "id" | "selectedAt">): Promise<StudentContract>;
   getStudentContract(studentId: number, classId: number): Promise<StudentContract | undefined>;
   getStudentContractsByClass(classId: number): Promise<StudentContract[]>;
+  moveStudentsToContract(classId: number, studentIds: number[], contractId: number): Promise<StudentContract[]>;
 
   updateProgress(progress: Omit<AssignmentProgress, "id">): Promise<AssignmentProgress>;
   getStudentProgress(studentId: number, classId: number): Promise<AssignmentProgress[]>;
   getStudentProgressForClass(classId: number): Promise<AssignmentProgress[]>;
+  recordAttempt(
+    progress: Omit<AssignmentProgress, "id" | "attempts">,
+    gradedBy: number,
+    newAttempt: boolean
+  ): Promise<{ progress: AssignmentProgress; attempt: AssignmentAttempt }>;
+  recordGrades(
+    grades: { progress: Omit<AssignmentProgress, "id" | "attempts">; newAttempt: boolean }[],
+    gradedBy: number
+  ): Promise<{ progress: AssignmentProgress; attempt: AssignmentAttempt }[]>;
+  revertGrades(
+    reverts: GradeRevert[],
+    gradedBy: number
+  ): Promise<{ previous: AssignmentProgress | null; progress: AssignmentProgress; attempt: AssignmentAttempt }[]>;
+  getProgressAttempts(progressId: number): Promise<(AssignmentAttempt & { graderName: string | null })[]>;
+  createSubmission(
+    submission: Omit<AssignmentSubmission, "id" | "progressId" | "createdAt">,
+    isLate: boolean
+  ): Promise<{ progress: AssignmentProgress; submission: AssignmentSubmission }>;
+  getSubmission(id: number): Promise<AssignmentSubmission | undefined>;
+  getSubmissionsByProgress(progressIds: number[]): Promise<AssignmentSubmission[]>;
 
   sessionStore: session.Store;
 
@@ -66,6 +128,11 @@ export interface IStorage {
   markPasswordResetAsNotified(id: number): Promise<void>;
   deleteExpiredPasswordResets(): Promise<void>;
 
+  // Calendar feed methods
+  getCalendarFeedToken(userId: number): Promise<CalendarFeedToken | undefined>;
+  getUserByCalendarFeedToken(token: string): Promise<User | undefined>;
+  resetCalendarFeedToken(userId: number): Promise<CalendarFeedToken>;
+
   // Engagement intention methods
   createEngagementIntention(intention: InsertEngagementIntention): Promise<EngagementIntention>;
   getEngagementIntention(studentId: number, classId: number, weekNumber: number): Promise<EngagementIntention | undefined>;
@@ -74,6 +141,14 @@ export interface IStorage {
   getStudentEngagementIntentions(studentId: number, classId: number): Promise<EngagementIntention[]>;
   getClassEngagementIntentions(classId: number): Promise<EngagementIntention[]>;
   getCurrentWeekEngagementIntentions(classId: number, weekNumber: number): Promise<EngagementIntention[]>;
+  submitEngagementFulfillment(id: number, submission: SubmitEngagementFulfillment): Promise<EngagementIntention>;
+  reviewEngagementIntentions(reviews: EngagementIntentionReview[], reviewedBy: number): Promise<EngagementIntention[]>;
+  migrateEngagementReviews(): Promise<number>;
+
+  // Engagement prompt methods
+  getEngagementPrompts(classId: number): Promise<EngagementPrompt[]>;
+  upsertEngagementPrompt(classId: number, weekNumber: number, prompt: UpsertEngagementPrompt): Promise<EngagementPrompt>;
+  deleteEngagementPrompt(classId: number, weekNumber: number): Promise<void>;
 
   // Attendance tracking methods
   getStudentAttendance(studentId: number, classId: number): Promise<AttendanceRecord[]>;
@@ -84,12 +159,75 @@ export interface IStorage {
   getAttendanceForClass(classId: number): Promise<AttendanceRecord[]>;
   getAttendanceForStudentInClass(studentId: number, classId: number): Promise<AttendanceRecord[]>;
   getClassAttendanceByDate(classId: number, date: string): Promise<AttendanceRecord[]>;
-  batchUpsertAttendance(records: { studentId: number; classId: number; date: string; isPresent: boolean; notes?: string }[]): Promise<void>;
-  updateStudentAttendance(studentId: number, classId: number, date: Date, isPresent: boolean): Promise<AttendanceRecord>;
-  createStudentAttendance(studentId: number, classId: number, date: Date, isPresent: boolean): Promise<AttendanceRecord>;
+  batchUpsertAttendance(records: { studentId: number; classId: number; date: string; status: AttendanceStatus; notes?: string; checkInSessionId?: number }[]): Promise<AttendanceRecord[]>;
+  updateStudentAttendance(studentId: number, classId: number, date: Date, status: AttendanceStatus): Promise<AttendanceRecord>;
+  createStudentAttendance(studentId: number, classId: number, date: Date, status: AttendanceStatus): Promise<AttendanceRecord>;
+  setStudentAbsences(studentId: number, classId: number, absences: number, policy: AttendancePolicy): Promise<number>;
+  migrateAttendanceStatuses(): Promise<number>;
+
+  // Check-in session methods
+  createCheckInSession(session: Pick<CheckInSession, "classId" | "date" | "secret" | "openedBy" | "expiresAt">): Promise<CheckInSession>;
+  getOpenCheckInSession(classId: number): Promise<CheckInSession | undefined>;
+  closeCheckInSession(id: number): Promise<CheckInSession>;
+  getCheckInSessionRecords(sessionId: number): Promise<AttendanceRecord[]>;
 
   // Clone class methods
   cloneClass(classId: number, instructorId: number): Promise<Class>;
+
+  // Contract change request methods
+  createContractChangeRequest(request: Pick<ContractChangeRequest, "studentId" | "classId" | "fromContractId" | "toContractId" | "reason">): Promise<ContractChangeRequest>;
+  getContractChangeRequest(id: number): Promise<ContractChangeRequest | undefined>;
+  getContractChangeRequestsByClass(classId: number): Promise<ContractChangeRequest[]>;
+  getStudentContractChangeRequests(studentId: number, classId: number): Promise<ContractChangeRequest[]>;
+  reviewContractChangeRequest(id: number, review: { status: "approved" | "denied"; instructorResponse: string | null; reviewedBy: number }): Promise<ContractChangeRequest>;
+
+  // Token ledger operations
+  createTokenTransaction(transaction: Omit<TokenTransaction, "id" | "instructorResponse" | "reviewedBy" | "reviewedAt" | "createdAt">): Promise<TokenTransaction>;
+  getTokenTransaction(id: number): Promise<TokenTransaction | undefined>;
+  getTokenTransactionsByClass(classId: number): Promise<TokenTransaction[]>;
+  getStudentTokenTransactions(studentId: number, classId: number): Promise<TokenTransaction[]>;
+  reviewTokenTransaction(id: number, review: { status: "approved" | "denied"; instructorResponse: string | null; reviewedBy: number }): Promise<TokenTransaction>;
+
+  // Absence excuse request methods
+  createAbsenceExcuseRequest(request: Pick<AbsenceExcuseRequest, "studentId" | "classId" | "attendanceRecordId" | "reason">): Promise<AbsenceExcuseRequest>;
+  getAbsenceExcuseRequest(id: number): Promise<AbsenceExcuseRequest | undefined>;
+  getAbsenceExcuseRequestsByClass(classId: number): Promise<AbsenceExcuseRequest[]>;
+  getStudentAbsenceExcuseRequests(studentId: number, classId: number): Promise<AbsenceExcuseRequest[]>;
+  attachAbsenceExcuseDocument(id: number, document: Pick<AbsenceExcuseRequest, "fileKey" | "fileName" | "mimeType" | "fileSize">): Promise<AbsenceExcuseRequest>;
+  reviewAbsenceExcuseRequest(id: number, review: { status: "approved" | "denied"; instructorResponse: string | null; reviewedBy: number }): Promise<AbsenceExcuseRequest>;
+
+  // Import run methods
+  applyImportRun(
+    run: Pick<ImportRun, "classId" | "uploadedBy" | "fileName" | "mappings" | "errors" | "batchId">,
+    grades: ImportGrade[],
+    absences: { studentId: number; absences: number }[],
+    policy: AttendancePolicy
+  ): Promise<{
+    run: ImportRun;
+    grades: { previous: AssignmentProgress | null; progress: AssignmentProgress; attempt: AssignmentAttempt }[];
+    absences: { studentId: number; previous: number; absences: number }[];
+  }>;
+  getImportRun(id: number): Promise<ImportRun | undefined>;
+  getImportRunsByClass(classId: number): Promise<(ImportRun & { uploaderName: string | null; rolledBackByName: string | null })[]>;
+  getImportRunChanges(runId: number): Promise<ImportRunChange[]>;
+  rollbackImportRun(
+    id: number,
+    rolledBackBy: number,
+    policy: AttendancePolicy
+  ): Promise<{
+    run: ImportRun;
+    grades: { previous: AssignmentProgress | null; progress: AssignmentProgress; attempt: AssignmentAttempt }[];
+    absences: number;
+  }>;
+
+  // Canvas mapping profile methods
+  getCanvasMappingProfile(classId: number): Promise<CanvasMappingProfile | undefined>;
+  saveCanvasMappingProfile(
+    classId: number,
+    profile: { columns: SavedColumnMapping[]; conversion: GradeConversionSettings | null },
+    updatedBy: number
+  ): Promise<CanvasMappingProfile>;
+  deleteCanvasMappingProfile(classId: number): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -134,6 +272,18 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(classes).where(eq(classes.instructorId, instructorId));
   }
 
+  async getClassesPastContractDeadline(): Promise<Class[]> {
+    return db
+      .select()
+      .from(classes)
+      .where(
+        and(
+          eq(classes.isArchived, false),
+          lt(classes.contractDeadline, new Date())
+        )
+      );
+  }
+
   async archiveClass(id: number): Promise<void> {
     await db.update(classes).set({ isArchived: true }).where(eq(classes.id, id));
   }
@@ -142,7 +292,7 @@ export class DatabaseStorage implements IStorage {
     await db.update(classes).set({ isArchived: false }).where(eq(classes.id, id));
   }
 
-  async deleteClass(id: number): Promise<void> {
+  async deleteClass(id: number): Promise<string[]> {
     // Delete in order to respect foreign key constraints
     // First delete all related data
 
@@ -150,13 +300,31 @@ export class DatabaseStorage implements IStorage {
     const classAssignments = await this.getAssignmentsByClass(id);
     const assignmentIds = classAssignments.map(a => a.id);
 
-    // Delete assignment progress for all assignments in this class
+    // Uploaded files outlive their rows, so collect them before the rows go
+    const submissionFiles = assignmentIds.length > 0
+      ? await db
+          .select({ fileKey: assignmentSubmissions.fileKey })
+          .from(assignmentSubmissions)
+          .where(inArray(assignmentSubmissions.assignmentId, assignmentIds))
+      : [];
+    const excuseFiles = await db
+      .select({ fileKey: absenceExcuseRequests.fileKey })
+      .from(absenceExcuseRequests)
+      .where(eq(absenceExcuseRequests.classId, id));
+
+    // Token ledger entries reference progress and attendance records
+    await db.delete(tokenTransactions).where(eq(tokenTransactions.classId, id));
+
+    // Delete submissions, attempt history and assignment progress for all assignments in this class
     if (assignmentIds.length > 0) {
+      await db.delete(assignmentSubmissions).where(inArray(assignmentSubmissions.assignmentId, assignmentIds));
+      await db.delete(assignmentAttempts).where(inArray(assignmentAttempts.assignmentId, assignmentIds));
       await db.delete(assignmentProgress).where(inArray(assignmentProgress.assignmentId, assignmentIds));
     }
 
-    // Delete all assignments for this class
+    // Delete all assignments and their categories for this class
     await db.delete(assignments).where(eq(assignments.classId, id));
+    await db.delete(categories).where(eq(categories.classId, id));
 
     // Delete all grade contracts for this class
     await db.delete(gradeContracts).where(eq(gradeContracts.classId, id));
@@ -169,15 +337,174 @@ export class DatabaseStorage implements IStorage {
 
     // Delete all engagement intentions for this class
     await db.delete(engagementIntentions).where(eq(engagementIntentions.classId, id));
+    await db.delete(engagementPrompts).where(eq(engagementPrompts.classId, id));
+
+    // Delete all contract change requests for this class
+    await db.delete(contractChangeRequests).where(eq(contractChangeRequests.classId, id));
+
+    // Excuse requests reference attendance records, which reference check-in sessions
+    await db.delete(absenceExcuseRequests).where(eq(absenceExcuseRequests.classId, id));
+
+    await db.delete(canvasMappingProfiles).where(eq(canvasMappingProfiles.classId, id));
+
+    // Delete import history before the records it points at
+    const runIds = (await db.select({ id: importRuns.id }).from(importRuns).where(eq(importRuns.classId, id))).map((r) => r.id);
+    if (runIds.length > 0) {
+      await db.delete(importRunChanges).where(inArray(importRunChanges.runId, runIds));
+      await db.delete(importRuns).where(inArray(importRuns.id, runIds));
+    }
 
     // Delete all attendance records for this class
     await db.delete(attendanceRecords).where(eq(attendanceRecords.classId, id));
+    await db.delete(checkInSessions).where(eq(checkInSessions.classId, id));
 
     // Finally delete the class itself
     await db.delete(classes).where(eq(classes.id, id));
+
+    return [...submissionFiles, ...excuseFiles]
+      .map((f) => f.fileKey)
+      .filter((key): key is string => key !== null);
+  }
+
+  async getCategoriesByClass(classId: number): Promise<Category[]> {
+    return db
+      .select()
+      .from(categories)
+      .where(eq(categories.classId, classId))
+      .orderBy(asc(categories.displayOrder), asc(categories.id));
+  }
+
+  async getCategory(id: number): Promise<Category | undefined> {
+    const [category] = await db.select().from(categories).where(eq(categories.id, id));
+    return category;
+  }
+
+  async createCategory(classId: number, category: InsertCategory): Promise<Category> {
+    // New categories go after the existing ones
+    const result = await db
+      .select({ maxOrder: max(categories.displayOrder) })
+      .from(categories)
+      .where(eq(categories.classId, classId));
+
+    const nextOrder = (result[0]?.maxOrder ?? -1) + 1;
+
+    const [created] = await db
+      .insert(categories)
+      .values({ ...category, classId, displayOrder: nextOrder })
+      .returning();
+    return created;
+  }
+
+  async updateCategory(id: number, updates: Partial<InsertCategory>): Promise<Category> {
+    const [updated] = await db
+      .update(categories)
+      .set(updates)
+      .where(eq(categories.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteCategory(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      // Assignments in the category become uncategorized
+      await tx.update(assignments).set({ categoryId: null }).where(eq(assignments.categoryId, id));
+      await tx.delete(categories).where(eq(categories.id, id));
+    });
+  }
+
+  async reorderCategories(classId: number, categoryIds: number[]): Promise<void> {
+    await Promise.all(
+      categoryIds.map((id, index) =>
+        db
+          .update(categories)
+          .set({ displayOrder: index })
+          .where(and(eq(categories.id, id), eq(categories.classId, classId)))
+      )
+    );
+  }
+
+  /**
+   * Move free-text module groups into category records, one class at a time.
+   * Contract category requirements that named a group by text are rewritten to
+   * its category id. Returns the number of classes migrated; a no-op once done.
+   */
+  async migrateModuleGroups(): Promise<number> {
+    const legacyContracts = (await db.select().from(gradeContracts)).filter((contract) =>
+      (contract.categoryRequirements ?? []).some((cr) => "category" in cr)
+    );
+    const legacyAssignments = await db
+      .select()
+      .from(assignments)
+      .where(sql`${assignments.moduleGroup} IS NOT NULL`);
+
+    const classIds = new Set([
+      ...legacyAssignments.map((a) => a.classId),
+      ...legacyContracts.map((c) => c.classId),
+    ]);
+
+    for (const classId of Array.from(classIds)) {
+      await db.transaction(async (tx) => {
+        const existing = await tx.select().from(categories).where(eq(categories.classId, classId));
+        const idsByName = new Map(existing.map((c) => [c.name, c.id]));
+        let nextOrder = existing.reduce((highest, c) => Math.max(highest, c.displayOrder), -1) + 1;
+
+        const categoryIdFor = async (name: string) => {
+          let id = idsByName.get(name);
+          if (id === undefined) {
+            const [created] = await tx
+              .insert(categories)
+              .values({ classId, name, displayOrder: nextOrder++ })
+              .returning();
+            id = created.id;
+            idsByName.set(name, id);
+          }
+          return id;
+        };
+
+        // Groups are created in the order their first assignment appears
+        const classAssignments = legacyAssignments
+          .filter((a) => a.classId === classId)
+          .sort((a, b) => a.displayOrder - b.displayOrder);
+        for (const assignment of classAssignments) {
+          await tx
+            .update(assignments)
+            .set({ categoryId: await categoryIdFor(assignment.moduleGroup!.trim()), moduleGroup: null })
+            .where(eq(assignments.id, assignment.id));
+        }
+
+        for (const contract of legacyContracts.filter((c) => c.classId === classId)) {
+          const requirements = [];
+          for (const requirement of contract.categoryRequirements ?? []) {
+            const legacy = requirement as unknown as { category?: string; categoryId?: number; required: number };
+            if (legacy.categoryId !== undefined) {
+              requirements.push({ categoryId: legacy.categoryId, required: legacy.required });
+              continue;
+            }
+
+            const name = (legacy.category ?? "").trim();
+            const categoryId = await categoryIdFor(name);
+            // The old "Uncategorized" group held every assignment without a module group
+            if (name === UNCATEGORIZED) {
+              await tx
+                .update(assignments)
+                .set({ categoryId })
+                .where(and(eq(assignments.classId, classId), sql`${assignments.categoryId} IS NULL`));
+            }
+            requirements.push({ categoryId, required: legacy.required });
+          }
+
+          await tx
+            .update(gradeContracts)
+            .set({ categoryRequirements: requirements })
+            .where(eq(gradeContracts.id, contract.id));
+        }
+      });
+    }
+
+    return classIds.size;
   }
 
-  async createAssignment(assignment: Omit<Assignment, "id" | "displayOrder">): Promise<Assignment> {
+  async createAssignment(assignment: Omit<Assignment, "id" | "displayOrder" | "moduleGroup">): Promise<Assignment> {
     // Get the max displayOrder for this class and add 1
     const result = await db
       .select({ maxOrder: max(assignments.displayOrder) })
@@ -201,6 +528,11 @@ export class DatabaseStorage implements IStorage {
       .orderBy(asc(assignments.displayOrder));
   }
 
+  async getAssignment(id: number): Promise<Assignment | undefined> {
+    const [assignment] = await db.select().from(assignments).where(eq(assignments.id, id));
+    return assignment;
+  }
+
   async reorderAssignments(classId: number, assignmentIds: number[]): Promise<void> {
     // Update each assignment's displayOrder based on its position in the array
     await Promise.all(
@@ -244,13 +576,13 @@ export class DatabaseStorage implements IStorage {
     return updatedContract;
   }
 
-  async setStudentContract(contract: Omit<StudentContract, "id">): Promise<StudentContract> {
+  async setStudentContract(contract: Omit<StudentContract, "id" | "selectedAt">): Promise<StudentContract> {
     const existing = await this.getStudentContract(contract.studentId, contract.classId);
 
     if (existing) {
       const [updated] = await db
         .update(studentContracts)
-        .set({ contractId: contract.contractId })
+        .set({ contractId: contract.contractId, selectedAt: new Date() })
         .where(
           and(
             eq(studentContracts.studentId, contract.studentId),
@@ -285,6 +617,21 @@ export class DatabaseStorage implements IStorage {
       .where(eq(studentContracts.classId, classId));
   }
 
+  async moveStudentsToContract(classId: number, studentIds: number[], contractId: number): Promise<StudentContract[]> {
+    if (studentIds.length === 0) return [];
+
+    return db
+      .update(studentContracts)
+      .set({ contractId })
+      .where(
+        and(
+          eq(studentContracts.classId, classId),
+          inArray(studentContracts.studentId, studentIds)
+        )
+      )
+      .returning();
+  }
+
   async updateProgress(progress: Omit<AssignmentProgress, "id">): Promise<AssignmentProgress> {
     const existing = await db
       .select()
@@ -309,6 +656,204 @@ export class DatabaseStorage implements IStorage {
     return newProgress;
   }
 
+  async recordAttempt(
+    progress: Omit<AssignmentProgress, "id" | "attempts">,
+    gradedBy: number,
+    newAttempt: boolean
+  ): Promise<{ progress: AssignmentProgress; attempt: AssignmentAttempt }> {
+    // Progress, attempt row and attempt count change together
+    return db.transaction((tx) => this.recordAttemptWith(tx, progress, gradedBy, newAttempt));
+  }
+
+  async recordGrades(
+    grades: { progress: Omit<AssignmentProgress, "id" | "attempts">; newAttempt: boolean }[],
+    gradedBy: number
+  ): Promise<{ progress: AssignmentProgress; attempt: AssignmentAttempt }[]> {
+    // All or nothing, so a failed gradebook save never leaves half the cells written
+    return db.transaction(async (tx) => {
+      const recorded = [];
+      for (const { progress, newAttempt } of grades) {
+        recorded.push(await this.recordAttemptWith(tx, progress, gradedBy, newAttempt));
+      }
+      return recorded;
+    });
+  }
+
+  async revertGrades(
+    reverts: GradeRevert[],
+    gradedBy: number
+  ): Promise<{ previous: AssignmentProgress | null; progress: AssignmentProgress; attempt: AssignmentAttempt }[]> {
+    // Check and write inside one transaction so a grade can't change between the two
+    return db.transaction(async (tx) => {
+      const reverted = [];
+      for (const revert of reverts) {
+        reverted.push(await this.revertGradeWith(tx, revert, gradedBy));
+      }
+      return reverted;
+    });
+  }
+
+  private async revertGradeWith(
+    tx: Transaction,
+    revert: GradeRevert,
+    gradedBy: number
+  ): Promise<{ previous: AssignmentProgress | null; progress: AssignmentProgress; attempt: AssignmentAttempt }> {
+    const [current] = await tx
+      .select()
+      .from(assignmentProgress)
+      .where(
+        and(
+          eq(assignmentProgress.studentId, revert.studentId),
+          eq(assignmentProgress.assignmentId, revert.assignmentId)
+        )
+      );
+
+    const currentGrade = current ?? { status: null, numericGrade: null, feedback: null };
+    if (!sameGrade(currentGrade, revert.expected)) {
+      throw new ConflictError("A grade has been changed again since, so this can't be reverted");
+    }
+
+    const recorded = await this.recordAttemptWith(
+      tx,
+      {
+        studentId: revert.studentId,
+        assignmentId: revert.assignmentId,
+        ...revert.restore,
+        awaitingReview: current?.awaitingReview ?? false,
+        isLate: current?.isLate ?? false,
+        lastUpdated: new Date(),
+      },
+      gradedBy,
+      false
+    );
+    return { previous: current ?? null, ...recorded };
+  }
+
+  private async recordAttemptWith(
+    tx: Transaction,
+    progress: Omit<AssignmentProgress, "id" | "attempts">,
+    gradedBy: number,
+    newAttempt: boolean
+  ): Promise<{ progress: AssignmentProgress; attempt: AssignmentAttempt }> {
+    const [existing] = await tx
+      .select()
+      .from(assignmentProgress)
+      .where(
+        and(
+          eq(assignmentProgress.studentId, progress.studentId),
+          eq(assignmentProgress.assignmentId, progress.assignmentId)
+        )
+      );
+
+    const [saved] = existing
+      ? await tx.update(assignmentProgress).set(progress).where(eq(assignmentProgress.id, existing.id)).returning()
+      : await tx.insert(assignmentProgress).values({ ...progress, attempts: 0 }).returning();
+
+    const [latest] = await tx
+      .select()
+      .from(assignmentAttempts)
+      .where(eq(assignmentAttempts.progressId, saved.id))
+      .orderBy(desc(assignmentAttempts.attemptNumber))
+      .limit(1);
+
+    const values = {
+      status: progress.status,
+      numericGrade: progress.numericGrade,
+      feedback: progress.feedback,
+      gradedBy,
+    };
+
+    // Corrections to the current attempt update it in place
+    const [recorded] = latest && !newAttempt
+      ? await tx.update(assignmentAttempts).set(values).where(eq(assignmentAttempts.id, latest.id)).returning()
+      : await tx
+          .insert(assignmentAttempts)
+          .values({
+            ...values,
+            progressId: saved.id,
+            studentId: saved.studentId,
+            assignmentId: saved.assignmentId,
+            attemptNumber: (latest?.attemptNumber ?? 0) + 1,
+          })
+          .returning();
+
+    const [counted] = await tx
+      .update(assignmentProgress)
+      .set({ attempts: recorded.attemptNumber })
+      .where(eq(assignmentProgress.id, saved.id))
+      .returning();
+
+    return { progress: counted, attempt: recorded };
+  }
+
+  async getProgressAttempts(progressId: number): Promise<(AssignmentAttempt & { graderName: string | null })[]> {
+    const rows = await db
+      .select({ attempt: assignmentAttempts, graderName: users.fullName })
+      .from(assignmentAttempts)
+      .leftJoin(users, eq(assignmentAttempts.gradedBy, users.id))
+      .where(eq(assignmentAttempts.progressId, progressId))
+      .orderBy(desc(assignmentAttempts.attemptNumber));
+
+    return rows.map((row) => ({ ...row.attempt, graderName: row.graderName }));
+  }
+
+  async createSubmission(
+    submission: Omit<AssignmentSubmission, "id" | "progressId" | "createdAt">,
+    isLate: boolean
+  ): Promise<{ progress: AssignmentProgress; submission: AssignmentSubmission }> {
+    // The submission, the awaiting-review flag and the late flag change together
+    return db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(assignmentProgress)
+        .where(
+          and(
+            eq(assignmentProgress.studentId, submission.studentId),
+            eq(assignmentProgress.assignmentId, submission.assignmentId)
+          )
+        );
+
+      const [progress] = existing
+        ? await tx
+            .update(assignmentProgress)
+            .set({ awaitingReview: true, isLate, lastUpdated: new Date() })
+            .where(eq(assignmentProgress.id, existing.id))
+            .returning()
+        : await tx
+            .insert(assignmentProgress)
+            .values({
+              studentId: submission.studentId,
+              assignmentId: submission.assignmentId,
+              awaitingReview: true,
+              isLate,
+              lastUpdated: new Date(),
+            })
+            .returning();
+
+      const [created] = await tx
+        .insert(assignmentSubmissions)
+        .values({ ...submission, progressId: progress.id })
+        .returning();
+
+      return { progress, submission: created };
+    });
+  }
+
+  async getSubmission(id: number): Promise<AssignmentSubmission | undefined> {
+    const [submission] = await db.select().from(assignmentSubmissions).where(eq(assignmentSubmissions.id, id));
+    return submission;
+  }
+
+  async getSubmissionsByProgress(progressIds: number[]): Promise<AssignmentSubmission[]> {
+    if (progressIds.length === 0) return [];
+
+    return db
+      .select()
+      .from(assignmentSubmissions)
+      .where(inArray(assignmentSubmissions.progressId, progressIds))
+      .orderBy(desc(assignmentSubmissions.createdAt));
+  }
+
   async getStudentProgress(studentId: number, classId: number): Promise<AssignmentProgress[]> {
     const classAssignments = await this.getAssignmentsByClass(classId);
     const assignmentIds = classAssignments.map(a => a.id);
@@ -360,6 +905,7 @@ export class DatabaseStorage implements IStorage {
         classId: studentContracts.classId,
         contractId: studentContracts.contractId,
         isConfirmed: studentContracts.isConfirmed,
+        selectedAt: studentContracts.selectedAt,
         contract: gradeContracts,
       })
       .from(studentContracts)
@@ -372,6 +918,7 @@ export class DatabaseStorage implements IStorage {
       classId: row.classId,
       contractId: row.contractId,
       isConfirmed: row.isConfirmed,
+      selectedAt: row.selectedAt,
       contract: row.contract || undefined,
     }));
   }
@@ -447,6 +994,14 @@ export class DatabaseStorage implements IStorage {
         isArchived: row.classes.isArchived ?? false,
         description: row.classes.description ?? null,
         semesterStartDate: row.classes.semesterStartDate ?? null,
+        semesterEndDate: row.classes.semesterEndDate ?? null,
+        meetingDays: row.classes.meetingDays ?? null,
+        scheduleBreaks: row.classes.scheduleBreaks ?? null,
+        contractDeadline: row.classes.contractDeadline ?? null,
+        defaultContractGrade: row.classes.defaultContractGrade ?? null,
+        gradeTiers: row.classes.gradeTiers ?? null,
+        statusScale: row.classes.statusScale ?? null,
+        attendancePolicy: row.classes.attendancePolicy ?? null,
       }));
     } catch (error) {
       console.error(`Error getting classes for student ${studentId}:`, error);
@@ -488,7 +1043,7 @@ export class DatabaseStorage implements IStorage {
   ): Promise<StudentContract> {
     const [contract] = await db
       .update(studentContracts)
-      .set({ isConfirmed: false })
+      .set({ isConfirmed: false, selectedAt: new Date() })
       .where(
         and(
           eq(studentContracts.studentId, studentId),
@@ -684,6 +1239,38 @@ export class DatabaseStorage implements IStorage {
       .where(lt(passwordResetRequests.expiresAt, new Date()));
   }
 
+  // Calendar feed methods
+  async getCalendarFeedToken(userId: number): Promise<CalendarFeedToken | undefined> {
+    const [feedToken] = await db
+      .select()
+      .from(calendarFeedTokens)
+      .where(eq(calendarFeedTokens.userId, userId));
+    return feedToken;
+  }
+
+  async getUserByCalendarFeedToken(token: string): Promise<User | undefined> {
+    const [row] = await db
+      .select({ user: users })
+      .from(calendarFeedTokens)
+      .innerJoin(users, eq(calendarFeedTokens.userId, users.id))
+      .where(eq(calendarFeedTokens.token, token));
+    return row?.user;
+  }
+
+  async resetCalendarFeedToken(userId: number): Promise<CalendarFeedToken> {
+    // Feed URLs are long-lived bearer credentials, so use more entropy than a UUID
+    const token = crypto.randomBytes(32).toString("hex");
+    const [feedToken] = await db
+      .insert(calendarFeedTokens)
+      .values({ userId, token })
+      .onConflictDoUpdate({
+        target: calendarFeedTokens.userId,
+        set: { token, createdAt: new Date() },
+      })
+      .returning();
+    return feedToken;
+  }
+
   // Engagement intention methods
   async createEngagementIntention(intention: InsertEngagementIntention): Promise<EngagementIntention> {
     const [newIntention] = await db
@@ -776,6 +1363,120 @@ export class DatabaseStorage implements IStorage {
       );
   }
 
+  async submitEngagementFulfillment(
+    id: number,
+    submission: SubmitEngagementFulfillment
+  ): Promise<EngagementIntention> {
+    const now = new Date();
+    const [submitted] = await db
+      .update(engagementIntentions)
+      .set({
+        reflection: submission.reflection,
+        evidenceUrl: submission.evidenceUrl ?? null,
+        reviewStatus: "submitted",
+        submittedAt: now,
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(engagementIntentions.id, id),
+          // An instructor may have reviewed it since the student loaded it
+          inArray(engagementIntentions.reviewStatus, ENGAGEMENT_REVIEW_STATUSES.filter(canSubmitFulfillment))
+        )
+      )
+      .returning();
+    if (!submitted) {
+      throw new ConflictError("This intention has already been reviewed");
+    }
+    return submitted;
+  }
+
+  async reviewEngagementIntentions(
+    reviews: EngagementIntentionReview[],
+    reviewedBy: number
+  ): Promise<EngagementIntention[]> {
+    return db.transaction(async (tx) => {
+      const now = new Date();
+      const reviewed: EngagementIntention[] = [];
+      for (const review of reviews) {
+        // Only submissions still waiting on a decision; anything else rolls the batch back
+        const [intention] = await tx
+          .update(engagementIntentions)
+          .set({
+            reviewStatus: review.decision,
+            rubricScores: review.rubricScores ?? null,
+            instructorFeedback: review.feedback || null,
+            reviewedBy,
+            reviewedAt: now,
+            updatedAt: now,
+          })
+          .where(
+            and(
+              eq(engagementIntentions.id, review.intentionId),
+              eq(engagementIntentions.reviewStatus, "submitted")
+            )
+          )
+          .returning();
+        if (!intention) {
+          throw new ConflictError("Some of these intentions were already reviewed");
+        }
+        reviewed.push(intention);
+      }
+      return reviewed;
+    });
+  }
+
+  // Intentions students marked fulfilled themselves count as accepted
+  async migrateEngagementReviews(): Promise<number> {
+    const migrated = await db
+      .update(engagementIntentions)
+      .set({ reviewStatus: "accepted" })
+      .where(
+        and(
+          eq(engagementIntentions.isFulfilled, true),
+          eq(engagementIntentions.reviewStatus, "open")
+        )
+      )
+      .returning({ id: engagementIntentions.id });
+    return migrated.length;
+  }
+
+  // Engagement prompt methods
+  async getEngagementPrompts(classId: number): Promise<EngagementPrompt[]> {
+    return db
+      .select()
+      .from(engagementPrompts)
+      .where(eq(engagementPrompts.classId, classId))
+      .orderBy(engagementPrompts.weekNumber);
+  }
+
+  async upsertEngagementPrompt(
+    classId: number,
+    weekNumber: number,
+    prompt: UpsertEngagementPrompt
+  ): Promise<EngagementPrompt> {
+    const [saved] = await db
+      .insert(engagementPrompts)
+      .values({ classId, weekNumber, ...prompt })
+      .onConflictDoUpdate({
+        target: [engagementPrompts.classId, engagementPrompts.weekNumber],
+        set: { ...prompt, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteEngagementPrompt(classId: number, weekNumber: number): Promise<void> {
+    await db
+      .delete(engagementPrompts)
+      .where(
+        and(
+          eq(engagementPrompts.classId, classId),
+          eq(engagementPrompts.weekNumber, weekNumber)
+        )
+      );
+  }
+
   // Attendance tracking methods
   async getStudentAttendance(studentId: number, classId: number): Promise<AttendanceRecord[]> {
     return db
@@ -798,31 +1499,100 @@ export class DatabaseStorage implements IStorage {
       .orderBy(attendanceRecords.date);
   }
 
-  async setStudentAbsences(studentId: number, classId: number, absences: number): Promise<void> {
-    // Delete all existing attendance records for this student in this class
-    await db
-      .delete(attendanceRecords)
+  /**
+   * Make a student's absences add up to `absences` by adding or removing
+   * adjustment records. Session records are never touched, so the total can't
+   * drop below what they already add up to, and adjustments excused with a
+   * token are kept. Returns the resulting absence count.
+   */
+  async setStudentAbsences(studentId: number, classId: number, absences: number, policy: AttendancePolicy): Promise<number> {
+    return db.transaction((tx) => this.setStudentAbsencesWith(tx, studentId, classId, absences, policy));
+  }
+
+  private async setStudentAbsencesWith(
+    tx: Transaction,
+    studentId: number,
+    classId: number,
+    absences: number,
+    policy: AttendancePolicy
+  ): Promise<number> {
+    const records = await tx
+      .select()
+      .from(attendanceRecords)
       .where(
         and(
           eq(attendanceRecords.studentId, studentId),
           eq(attendanceRecords.classId, classId)
         )
-      );
-
-    // Create absence records (one per absence)
-    if (absences > 0) {
-      const records = [];
-      for (let i = 0; i < absences; i++) {
-        records.push({
+      )
+      .orderBy(desc(attendanceRecords.date));
+    const fromSessions = countAbsences(records.filter((r) => !r.isAdjustment), policy);
+    // Adjustments that have since been excused no longer count, so they're left alone
+    const adjustments = records.filter((r) => r.isAdjustment && r.status === "absent");
+    const needed = Math.max(0, absences - fromSessions);
+
+    if (needed > adjustments.length) {
+      const values = [];
+      for (let i = adjustments.length; i < needed; i++) {
+        values.push({
           studentId,
           classId,
           date: new Date(Date.now() - i * 24 * 60 * 60 * 1000), // Stagger dates backwards
+          status: "absent" as const,
           isPresent: false,
+          isAdjustment: true,
           notes: "Manual absence count",
         });
       }
-      await db.insert(attendanceRecords).values(records);
+      await tx.insert(attendanceRecords).values(values);
+      return fromSessions + needed;
+    }
+
+    if (needed < adjustments.length) {
+      const adjustmentIds = adjustments.map((a) => a.id);
+      const spentOn = await tx
+        .select({ attendanceRecordId: tokenTransactions.attendanceRecordId })
+        .from(tokenTransactions)
+        .where(inArray(tokenTransactions.attendanceRecordId, adjustmentIds));
+      const excuseRequests = await tx
+        .select({ attendanceRecordId: absenceExcuseRequests.attendanceRecordId })
+        .from(absenceExcuseRequests)
+        .where(inArray(absenceExcuseRequests.attendanceRecordId, adjustmentIds));
+      // Keep absences a student has asked about, whether with a token or an excuse
+      const excused = new Set([...spentOn, ...excuseRequests].map((t) => t.attendanceRecordId));
+      const removable = adjustments
+        .filter((a) => !excused.has(a.id))
+        .slice(0, adjustments.length - needed);
+      if (removable.length > 0) {
+        await tx.delete(attendanceRecords).where(inArray(attendanceRecords.id, removable.map((a) => a.id)));
+      }
+      return fromSessions + adjustments.length - removable.length;
     }
+
+    return fromSessions + adjustments.length;
+  }
+
+  // Move the legacy present/absent flag into status
+  async migrateAttendanceStatuses(): Promise<number> {
+    // Legacy absences still have the default status; once moved they no longer match
+    const migrated = await db
+      .update(attendanceRecords)
+      .set({ status: "absent" })
+      .where(and(eq(attendanceRecords.isPresent, false), eq(attendanceRecords.status, "present")))
+      .returning({ id: attendanceRecords.id });
+
+    // Absences written by the old manual count become adjustments
+    await db
+      .update(attendanceRecords)
+      .set({ isAdjustment: true })
+      .where(
+        and(
+          eq(attendanceRecords.isAdjustment, false),
+          eq(attendanceRecords.notes, "Manual absence count")
+        )
+      );
+
+    return migrated.length;
   }
 
   async getAttendanceRecord(attendanceId: number): Promise<AttendanceRecord | undefined> {
@@ -837,7 +1607,7 @@ export class DatabaseStorage implements IStorage {
   async createAttendanceRecord(attendance: InsertAttendanceRecord): Promise<AttendanceRecord> {
     const [created] = await db
       .insert(attendanceRecords)
-      .values(attendance)
+      .values({ ...attendance, isPresent: isPresentStatus(attendance.status ?? "present") })
       .returning();
     return created;
   }
@@ -845,7 +1615,7 @@ export class DatabaseStorage implements IStorage {
   async updateAttendanceRecord(attendanceId: number, updates: UpdateAttendanceRecord): Promise<AttendanceRecord> {
     const [updated] = await db
       .update(attendanceRecords)
-      .set(updates)
+      .set({ ...updates, ...(updates.status && { isPresent: isPresentStatus(updates.status) }) })
       .where(eq(attendanceRecords.id, attendanceId))
       .returning();
     return updated;
@@ -880,13 +1650,14 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(attendanceRecords.classId, classId),
+          eq(attendanceRecords.isAdjustment, false),
           sql`${attendanceRecords.date}::date = ${date}::date`
         )
       );
   }
 
-  async batchUpsertAttendance(records: { studentId: number; classId: number; date: string; isPresent: boolean; notes?: string }[]): Promise<void> {
-    if (records.length === 0) return;
+  async batchUpsertAttendance(records: { studentId: number; classId: number; date: string; status: AttendanceStatus; notes?: string; checkInSessionId?: number }[]): Promise<AttendanceRecord[]> {
+    const saved: AttendanceRecord[] = [];
 
     // Process each record - upsert based on studentId + classId + date
     for (const record of records) {
@@ -900,6 +1671,7 @@ export class DatabaseStorage implements IStorage {
           and(
             eq(attendanceRecords.studentId, record.studentId),
             eq(attendanceRecords.classId, record.classId),
+            eq(attendanceRecords.isAdjustment, false),
             sql`${attendanceRecords.date}::date = ${record.date}::date`
           )
         )
@@ -907,32 +1679,92 @@ export class DatabaseStorage implements IStorage {
 
       if (existing.length > 0) {
         // Update existing
-        await db
+        const [updated] = await db
           .update(attendanceRecords)
           .set({
-            isPresent: record.isPresent,
+            status: record.status,
+            isPresent: isPresentStatus(record.status),
             notes: record.notes || null,
+            ...(record.checkInSessionId !== undefined && { checkInSessionId: record.checkInSessionId }),
           })
-          .where(eq(attendanceRecords.id, existing[0].id));
+          .where(eq(attendanceRecords.id, existing[0].id))
+          .returning();
+        saved.push(updated);
       } else {
         // Insert new
-        await db
+        const [created] = await db
           .insert(attendanceRecords)
           .values({
             studentId: record.studentId,
             classId: record.classId,
             date: dateObj,
-            isPresent: record.isPresent,
+            status: record.status,
+            isPresent: isPresentStatus(record.status),
             notes: record.notes || null,
-          });
+            checkInSessionId: record.checkInSessionId ?? null,
+          })
+          .returning();
+        saved.push(created);
       }
     }
+
+    return saved;
+  }
+
+  async createCheckInSession(session: Pick<CheckInSession, "classId" | "date" | "secret" | "openedBy" | "expiresAt">): Promise<CheckInSession> {
+    return db.transaction(async (tx) => {
+      // Only one session per class is open at a time
+      await tx
+        .update(checkInSessions)
+        .set({ closedAt: new Date() })
+        .where(
+          and(
+            eq(checkInSessions.classId, session.classId),
+            isNull(checkInSessions.closedAt),
+            gt(checkInSessions.expiresAt, new Date())
+          )
+        );
+      const [created] = await tx.insert(checkInSessions).values(session).returning();
+      return created;
+    });
+  }
+
+  async getOpenCheckInSession(classId: number): Promise<CheckInSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(checkInSessions)
+      .where(
+        and(
+          eq(checkInSessions.classId, classId),
+          isNull(checkInSessions.closedAt),
+          gt(checkInSessions.expiresAt, new Date())
+        )
+      )
+      .orderBy(desc(checkInSessions.createdAt))
+      .limit(1);
+    return session;
+  }
+
+  async closeCheckInSession(id: number): Promise<CheckInSession> {
+    const [closed] = await db
+      .update(checkInSessions)
+      .set({ closedAt: new Date() })
+      .where(eq(checkInSessions.id, id))
+      .returning();
+    return closed;
+  }
+
+  async getCheckInSessionRecords(sessionId: number): Promise<AttendanceRecord[]> {
+    return db
+      .select()
+      .from(attendanceRecords)
+      .where(eq(attendanceRecords.checkInSessionId, sessionId));
   }
 
-  async updateStudentAttendance(studentId: number, classId: number, date: Date, isPresent: boolean): Promise<AttendanceRecord> {
+  async updateStudentAttendance(studentId: number, classId: number, date: Date, status: AttendanceStatus): Promise<AttendanceRecord> {
     const [updated] = await db
       .update(attendanceRecords)
-      .set({ isPresent })
+      .set({ status, isPresent: isPresentStatus(status) })
       .where(
         and(
           eq(attendanceRecords.studentId, studentId),
@@ -944,14 +1776,15 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
-  async createStudentAttendance(studentId: number, classId: number, date: Date, isPresent: boolean): Promise<AttendanceRecord> {
+  async createStudentAttendance(studentId: number, classId: number, date: Date, status: AttendanceStatus): Promise<AttendanceRecord> {
     const [created] = await db
       .insert(attendanceRecords)
       .values({
         studentId,
         classId,
         date,
-        isPresent,
+        status,
+        isPresent: isPresentStatus(status),
       })
       .returning();
     return created;
@@ -973,9 +1806,34 @@ export class DatabaseStorage implements IStorage {
         isArchived: false,
         description: sourceClass.description,
         semesterStartDate: sourceClass.semesterStartDate,
+        semesterEndDate: sourceClass.semesterEndDate,
+        meetingDays: sourceClass.meetingDays,
+        scheduleBreaks: sourceClass.scheduleBreaks,
+        defaultContractGrade: sourceClass.defaultContractGrade,
+        gradeTiers: sourceClass.gradeTiers,
+        statusScale: sourceClass.statusScale,
+        attendancePolicy: sourceClass.attendancePolicy,
       })
       .returning();
 
+    // Clone categories and build old-to-new ID map
+    const sourceCategories = await this.getCategoriesByClass(classId);
+    const categoryIdMap = new Map<number, number>();
+
+    for (const category of sourceCategories) {
+      const [newCategory] = await db
+        .insert(categories)
+        .values({
+          classId: newClass.id,
+          name: category.name,
+          description: category.description,
+          color: category.color,
+          displayOrder: category.displayOrder,
+        })
+        .returning();
+      categoryIdMap.set(category.id, newCategory.id);
+    }
+
     // Clone assignments and build old-to-new ID map
     const sourceAssignments = await this.getAssignmentsByClass(classId);
     const assignmentIdMap = new Map<number, number>();
@@ -986,10 +1844,14 @@ export class DatabaseStorage implements IStorage {
         .values({
           name: assignment.name,
           classId: newClass.id,
-          moduleGroup: assignment.moduleGroup,
+          categoryId: assignment.categoryId !== null ? categoryIdMap.get(assignment.categoryId) ?? null : null,
           scoringType: assignment.scoringType,
           displayOrder: assignment.displayOrder,
           dueDate: assignment.dueDate,
+          opensAt: assignment.opensAt,
+          closesAt: assignment.closesAt,
+          latePolicy: assignment.latePolicy,
+          attemptLimit: assignment.attemptLimit,
         })
         .returning();
       assignmentIdMap.set(assignment.id, newAssignment.id);
@@ -1012,12 +1874,433 @@ export class DatabaseStorage implements IStorage {
         assignments: remappedAssignments,
         requiredEngagementIntentions: contract.requiredEngagementIntentions,
         maxAbsences: contract.maxAbsences,
-        categoryRequirements: contract.categoryRequirements,
+        categoryRequirements: contract.categoryRequirements?.flatMap((cr) => {
+          const categoryId = categoryIdMap.get(cr.categoryId);
+          return categoryId !== undefined ? [{ categoryId, required: cr.required }] : [];
+        }) ?? null,
+        tokenAllowance: contract.tokenAllowance,
+        lateWorkCounts: contract.lateWorkCounts,
+      });
+    }
+
+    // Weeks line up with the copied schedule, so prompts carry over as-is
+    const sourcePrompts = await this.getEngagementPrompts(classId);
+    for (const prompt of sourcePrompts) {
+      await db.insert(engagementPrompts).values({
+        classId: newClass.id,
+        weekNumber: prompt.weekNumber,
+        prompt: prompt.prompt,
+        suggestions: prompt.suggestions,
       });
     }
 
     return newClass;
   }
+
+  async createContractChangeRequest(
+    request: Pick<ContractChangeRequest, "studentId" | "classId" | "fromContractId" | "toContractId" | "reason">
+  ): Promise<ContractChangeRequest> {
+    const [created] = await db.insert(contractChangeRequests).values(request).returning();
+    return created;
+  }
+
+  async getContractChangeRequest(id: number): Promise<ContractChangeRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(contractChangeRequests)
+      .where(eq(contractChangeRequests.id, id));
+    return request;
+  }
+
+  async getContractChangeRequestsByClass(classId: number): Promise<ContractChangeRequest[]> {
+    return db
+      .select()
+      .from(contractChangeRequests)
+      .where(eq(contractChangeRequests.classId, classId))
+      .orderBy(desc(contractChangeRequests.createdAt));
+  }
+
+  async getStudentContractChangeRequests(studentId: number, classId: number): Promise<ContractChangeRequest[]> {
+    return db
+      .select()
+      .from(contractChangeRequests)
+      .where(
+        and(
+          eq(contractChangeRequests.studentId, studentId),
+          eq(contractChangeRequests.classId, classId)
+        )
+      )
+      .orderBy(desc(contractChangeRequests.createdAt));
+  }
+
+  async reviewContractChangeRequest(
+    id: number,
+    review: { status: "approved" | "denied"; instructorResponse: string | null; reviewedBy: number }
+  ): Promise<ContractChangeRequest> {
+    // Record the decision and, if approved, move the student in one transaction
+    return db.transaction(async (tx) => {
+      // Only a request still waiting on a decision, so two reviewers can't both apply it
+      const [reviewed] = await tx
+        .update(contractChangeRequests)
+        .set({ ...review, reviewedAt: new Date() })
+        .where(and(eq(contractChangeRequests.id, id), eq(contractChangeRequests.status, "pending")))
+        .returning();
+      if (!reviewed) {
+        throw new ConflictError("This request has already been reviewed");
+      }
+
+      if (reviewed.status === "approved") {
+        await tx
+          .update(studentContracts)
+          .set({ contractId: reviewed.toContractId, isConfirmed: true })
+          .where(
+            and(
+              eq(studentContracts.studentId, reviewed.studentId),
+              eq(studentContracts.classId, reviewed.classId)
+            )
+          );
+      }
+
+      return reviewed;
+    });
+  }
+
+  async createTokenTransaction(
+    transaction: Omit<TokenTransaction, "id" | "instructorResponse" | "reviewedBy" | "reviewedAt" | "createdAt">
+  ): Promise<TokenTransaction> {
+    const [created] = await db.insert(tokenTransactions).values(transaction).returning();
+    return created;
+  }
+
+  async getTokenTransaction(id: number): Promise<TokenTransaction | undefined> {
+    const [transaction] = await db
+      .select()
+      .from(tokenTransactions)
+      .where(eq(tokenTransactions.id, id));
+    return transaction;
+  }
+
+  async getTokenTransactionsByClass(classId: number): Promise<TokenTransaction[]> {
+    return db
+      .select()
+      .from(tokenTransactions)
+      .where(eq(tokenTransactions.classId, classId))
+      .orderBy(desc(tokenTransactions.createdAt));
+  }
+
+  async getStudentTokenTransactions(studentId: number, classId: number): Promise<TokenTransaction[]> {
+    return db
+      .select()
+      .from(tokenTransactions)
+      .where(
+        and(
+          eq(tokenTransactions.studentId, studentId),
+          eq(tokenTransactions.classId, classId)
+        )
+      )
+      .orderBy(desc(tokenTransactions.createdAt));
+  }
+
+  async reviewTokenTransaction(
+    id: number,
+    review: { status: "approved" | "denied"; instructorResponse: string | null; reviewedBy: number }
+  ): Promise<TokenTransaction> {
+    // A request decided since it was read stays as it was, so tokens move only once
+    const [reviewed] = await db
+      .update(tokenTransactions)
+      .set({ ...review, reviewedAt: new Date() })
+      .where(and(eq(tokenTransactions.id, id), eq(tokenTransactions.status, "pending")))
+      .returning();
+    if (!reviewed) {
+      throw new ConflictError("This request has already been reviewed");
+    }
+    return reviewed;
+  }
+
+  async createAbsenceExcuseRequest(
+    request: Pick<AbsenceExcuseRequest, "studentId" | "classId" | "attendanceRecordId" | "reason">
+  ): Promise<AbsenceExcuseRequest> {
+    const [created] = await db.insert(absenceExcuseRequests).values(request).returning();
+    return created;
+  }
+
+  async getAbsenceExcuseRequest(id: number): Promise<AbsenceExcuseRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(absenceExcuseRequests)
+      .where(eq(absenceExcuseRequests.id, id));
+    return request;
+  }
+
+  async getAbsenceExcuseRequestsByClass(classId: number): Promise<AbsenceExcuseRequest[]> {
+    return db
+      .select()
+      .from(absenceExcuseRequests)
+      .where(eq(absenceExcuseRequests.classId, classId))
+      .orderBy(desc(absenceExcuseRequests.createdAt));
+  }
+
+  async getStudentAbsenceExcuseRequests(studentId: number, classId: number): Promise<AbsenceExcuseRequest[]> {
+    return db
+      .select()
+      .from(absenceExcuseRequests)
+      .where(
+        and(
+          eq(absenceExcuseRequests.studentId, studentId),
+          eq(absenceExcuseRequests.classId, classId)
+        )
+      )
+      .orderBy(desc(absenceExcuseRequests.createdAt));
+  }
+
+  async attachAbsenceExcuseDocument(
+    id: number,
+    document: Pick<AbsenceExcuseRequest, "fileKey" | "fileName" | "mimeType" | "fileSize">
+  ): Promise<AbsenceExcuseRequest> {
+    const [updated] = await db
+      .update(absenceExcuseRequests)
+      .set(document)
+      .where(eq(absenceExcuseRequests.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Approving also marks the absence excused, so both change together; a request
+  // already decided by another reviewer is left alone
+  async reviewAbsenceExcuseRequest(
+    id: number,
+    review: { status: "approved" | "denied"; instructorResponse: string | null; reviewedBy: number }
+  ): Promise<AbsenceExcuseRequest> {
+    return db.transaction(async (tx) => {
+      const [reviewed] = await tx
+        .update(absenceExcuseRequests)
+        .set({ ...review, reviewedAt: new Date() })
+        .where(and(eq(absenceExcuseRequests.id, id), eq(absenceExcuseRequests.status, "pending")))
+        .returning();
+      if (!reviewed) {
+        throw new ConflictError("This request has already been reviewed");
+      }
+
+      if (reviewed.status === "approved") {
+        await tx
+          .update(attendanceRecords)
+          .set({ status: "excused", isPresent: false })
+          .where(eq(attendanceRecords.id, reviewed.attendanceRecordId));
+      }
+
+      return reviewed;
+    });
+  }
+
+  // Apply an import and record it as a run together, so a failure partway leaves
+  // nothing changed and everything the run changed can be rolled back
+  async applyImportRun(
+    run: Pick<ImportRun, "classId" | "uploadedBy" | "fileName" | "mappings" | "errors" | "batchId">,
+    grades: ImportGrade[],
+    absences: { studentId: number; absences: number }[],
+    policy: AttendancePolicy
+  ): Promise<{
+    run: ImportRun;
+    grades: { previous: AssignmentProgress | null; progress: AssignmentProgress; attempt: AssignmentAttempt }[];
+    absences: { studentId: number; previous: number; absences: number }[];
+  }> {
+    return db.transaction(async (tx) => {
+      const now = new Date();
+      const gradeUpdates = [];
+      for (const grade of grades) {
+        const [previous] = await tx
+          .select()
+          .from(assignmentProgress)
+          .where(
+            and(
+              eq(assignmentProgress.studentId, grade.studentId),
+              eq(assignmentProgress.assignmentId, grade.assignmentId)
+            )
+          );
+
+        // Imports correct the current attempt, like gradebook saves and reverts
+        const recorded = await this.recordAttemptWith(
+          tx,
+          {
+            studentId: grade.studentId,
+            assignmentId: grade.assignmentId,
+            status: grade.status ?? previous?.status ?? null,
+            numericGrade: grade.numericGrade ?? previous?.numericGrade ?? null,
+            feedback: previous?.feedback ?? null,
+            awaitingReview: previous?.awaitingReview ?? false,
+            isLate: previous?.isLate ?? false,
+            lastUpdated: now,
+          },
+          run.uploadedBy,
+          false
+        );
+        gradeUpdates.push({ previous: previous ?? null, ...recorded });
+      }
+
+      const absenceUpdates = [];
+      for (const change of absences) {
+        const records = await tx
+          .select()
+          .from(attendanceRecords)
+          .where(and(eq(attendanceRecords.studentId, change.studentId), eq(attendanceRecords.classId, run.classId)));
+        const previous = countAbsences(records, policy);
+        const saved = await this.setStudentAbsencesWith(tx, change.studentId, run.classId, change.absences, policy);
+        absenceUpdates.push({ studentId: change.studentId, previous, absences: saved });
+      }
+
+      const students = new Set([...grades, ...absences].map((change) => change.studentId));
+      const [created] = await tx
+        .insert(importRuns)
+        .values({
+          ...run,
+          summary: {
+            processedStudents: students.size,
+            processedGrades: gradeUpdates.length,
+            processedAbsences: absenceUpdates.length,
+          },
+        })
+        .returning();
+
+      const changes = [
+        ...gradeUpdates.map(({ previous, progress }) => ({
+          runId: created.id,
+          kind: "grade" as const,
+          studentId: progress.studentId,
+          assignmentId: progress.assignmentId,
+          oldValues: previous ? loggedGrade(previous) : null,
+          newValues: loggedGrade(progress),
+        })),
+        ...absenceUpdates.map(({ studentId, previous, absences }) => ({
+          runId: created.id,
+          kind: "absences" as const,
+          studentId,
+          assignmentId: null,
+          oldValues: { absences: previous },
+          newValues: { absences },
+        })),
+      ];
+      if (changes.length > 0) {
+        await tx.insert(importRunChanges).values(changes);
+      }
+
+      return { run: created, grades: gradeUpdates, absences: absenceUpdates };
+    });
+  }
+
+  async getImportRun(id: number): Promise<ImportRun | undefined> {
+    const [run] = await db.select().from(importRuns).where(eq(importRuns.id, id));
+    return run;
+  }
+
+  async getImportRunsByClass(classId: number): Promise<(ImportRun & { uploaderName: string | null; rolledBackByName: string | null })[]> {
+    const runs = await db
+      .select({ run: importRuns, uploaderName: users.fullName })
+      .from(importRuns)
+      .leftJoin(users, eq(importRuns.uploadedBy, users.id))
+      .where(eq(importRuns.classId, classId))
+      .orderBy(desc(importRuns.createdAt));
+
+    const rollerIds = Array.from(new Set(runs.map((r) => r.run.rolledBackBy).filter((id): id is number => id !== null)));
+    const rollers = rollerIds.length > 0
+      ? await db.select({ id: users.id, fullName: users.fullName }).from(users).where(inArray(users.id, rollerIds))
+      : [];
+
+    return runs.map(({ run, uploaderName }) => ({
+      ...run,
+      uploaderName,
+      rolledBackByName: rollers.find((u) => u.id === run.rolledBackBy)?.fullName ?? null,
+    }));
+  }
+
+  async getImportRunChanges(runId: number): Promise<ImportRunChange[]> {
+    return db
+      .select()
+      .from(importRunChanges)
+      .where(eq(importRunChanges.runId, runId))
+      .orderBy(asc(importRunChanges.id));
+  }
+
+  // Undo a whole run or none of it: every grade and absence count must still read
+  // what the run left behind
+  async rollbackImportRun(
+    id: number,
+    rolledBackBy: number,
+    policy: AttendancePolicy
+  ): Promise<{
+    run: ImportRun;
+    grades: { previous: AssignmentProgress | null; progress: AssignmentProgress; attempt: AssignmentAttempt }[];
+    absences: number;
+  }> {
+    return db.transaction(async (tx) => {
+      const [run] = await tx
+        .update(importRuns)
+        .set({ status: "rolled_back", rolledBackBy, rolledBackAt: new Date() })
+        .where(and(eq(importRuns.id, id), eq(importRuns.status, "applied")))
+        .returning();
+      if (!run) {
+        throw new ConflictError("This import has already been rolled back");
+      }
+
+      const changes = await tx
+        .select()
+        .from(importRunChanges)
+        .where(eq(importRunChanges.runId, id))
+        .orderBy(desc(importRunChanges.id));
+
+      const grades = [];
+      let absences = 0;
+      for (const change of changes) {
+        if (change.kind === "grade" && change.assignmentId !== null) {
+          grades.push(await this.revertGradeWith(
+            tx,
+            {
+              studentId: change.studentId,
+              assignmentId: change.assignmentId,
+              expected: loggedGrade(change.newValues),
+              restore: loggedGrade(change.oldValues),
+            },
+            rolledBackBy
+          ));
+          continue;
+        }
+
+        const records = await tx
+          .select()
+          .from(attendanceRecords)
+          .where(and(eq(attendanceRecords.studentId, change.studentId), eq(attendanceRecords.classId, run.classId)));
+        if (countAbsences(records, policy) !== change.newValues.absences) {
+          throw new ConflictError("A student's absences have been changed since this import, so it can't be rolled back");
+        }
+        await this.setStudentAbsencesWith(tx, change.studentId, run.classId, Number(change.oldValues?.absences ?? 0), policy);
+        absences++;
+      }
+
+      return { run, grades, absences };
+    });
+  }
+
+  async getCanvasMappingProfile(classId: number): Promise<CanvasMappingProfile | undefined> {
+    const [profile] = await db.select().from(canvasMappingProfiles).where(eq(canvasMappingProfiles.classId, classId));
+    return profile;
+  }
+
+  async saveCanvasMappingProfile(
+    classId: number,
+    profile: { columns: SavedColumnMapping[]; conversion: GradeConversionSettings | null },
+    updatedBy: number
+  ): Promise<CanvasMappingProfile> {
+    const values = { ...profile, updatedBy, updatedAt: new Date() };
+    const [saved] = await db
+      .insert(canvasMappingProfiles)
+      .values({ classId, ...values })
+      .onConflictDoUpdate({ target: canvasMappingProfiles.classId, set: values })
+      .returning();
+    return saved;
+  }
+
+  async deleteCanvasMappingProfile(classId: number): Promise<void> {
+    await db.delete(canvasMappingProfiles).where(eq(canvasMappingProfiles.classId, classId));
+  }
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+export const storage = new DatabaseStorage();
@@ -1,4 +1,6 @@
-export type WSEventType = "PROGRESS_UPDATE";
+import type { AssignmentProgress } from "@shared/schema";
+
+export type WSEventType = "PROGRESS_UPDATE" | "PROGRESS_BATCH_UPDATE";
 
 export interface WSEvent {
   type: WSEventType;
@@ -13,6 +15,23 @@ export interface ProgressUpdatePayload {
   status?: number;
   numericGrade?: string;
   attempts?: number;
+  awaitingReview?: boolean;
+  isLate?: boolean;
+}
+
+/**
+ * What clients need to redraw a grade cell
+ */
+export function progressUpdatePayload(progress: AssignmentProgress): ProgressUpdatePayload {
+  return {
+    studentId: progress.studentId,
+    assignmentId: progress.assignmentId,
+    status: progress.status ?? undefined,
+    numericGrade: progress.numericGrade ?? undefined,
+    attempts: progress.attempts ?? undefined,
+    awaitingReview: progress.awaitingReview,
+    isLate: progress.isLate,
+  };
 }
 
 export function createProgressUpdateEvent(
@@ -26,3 +45,15 @@ export function createProgressUpdateEvent(
     timestamp: new Date().toISOString(),
   };
 }
+
+export function createProgressBatchUpdateEvent(
+  classId: number,
+  payload: ProgressUpdatePayload[]
+): WSEvent {
+  return {
+    type: "PROGRESS_BATCH_UPDATE",
+    classId,
+    payload,
+    timestamp: new Date().toISOString(),
+  };
+}
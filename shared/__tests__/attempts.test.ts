@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { canRecordAttempt, getAllowedAttempts } from "../attempts";
+
+describe("getAllowedAttempts", () => {
+  it("should return null when the assignment has no limit", () => {
+    expect(getAllowedAttempts(null, 1)).toBeNull();
+  });
+
+  it("should add approved revision tokens spent on the same progress record", () => {
+    const allowed = getAllowedAttempts(2, 7, [
+      { kind: "spend", purpose: "revision", amount: 1, status: "approved", assignmentProgressId: 7 },
+      { kind: "spend", purpose: "revision", amount: 1, status: "pending", assignmentProgressId: 7 },
+      { kind: "spend", purpose: "revision", amount: 1, status: "approved", assignmentProgressId: 8 },
+      { kind: "spend", purpose: "late_submission", amount: 1, status: "approved", assignmentProgressId: 7 },
+    ]);
+
+    expect(allowed).toBe(3);
+  });
+});
+
+describe("canRecordAttempt", () => {
+  it("should allow attempts up to the limit", () => {
+    expect(canRecordAttempt(1, 2)).toBe(true);
+    expect(canRecordAttempt(2, 2)).toBe(false);
+  });
+
+  it("should always allow attempts without a limit", () => {
+    expect(canRecordAttempt(10, null)).toBe(true);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import {
+  countAbsences,
+  DEFAULT_ATTENDANCE_POLICY,
+  getAbsenceWeight,
+  getAttendancePolicy,
+  isPresentStatus,
+} from "../attendance";
+
+describe("getAttendancePolicy", () => {
+  it("should fall back to the default policy", () => {
+    expect(getAttendancePolicy({ attendancePolicy: null })).toEqual(DEFAULT_ATTENDANCE_POLICY);
+    expect(getAttendancePolicy({ attendancePolicy: { late: 1, tardy: 1 / 4 } })).toEqual({ late: 1, tardy: 1 / 4 });
+  });
+});
+
+describe("getAbsenceWeight", () => {
+  const policy = { late: 1 / 3, tardy: 1 / 4 };
+
+  it("should count absences fully and never count excused or present sessions", () => {
+    expect(getAbsenceWeight("absent", policy)).toBe(1);
+    expect(getAbsenceWeight("excused", policy)).toBe(0);
+    expect(getAbsenceWeight("present", policy)).toBe(0);
+  });
+
+  it("should weigh late and tardy arrivals by the policy", () => {
+    expect(getAbsenceWeight("late", policy)).toBe(1 / 3);
+    expect(getAbsenceWeight("tardy", policy)).toBe(1 / 4);
+  });
+});
+
+describe("countAbsences", () => {
+  const late = { status: "late" as const };
+
+  it("should only count partial absences once they add up to a whole one", () => {
+    expect(countAbsences([late, late], DEFAULT_ATTENDANCE_POLICY)).toBe(0);
+    expect(countAbsences([late, late, late], DEFAULT_ATTENDANCE_POLICY)).toBe(1);
+  });
+
+  it("should add partial absences to full ones", () => {
+    const records = [{ status: "absent" as const }, { status: "excused" as const }, late, late, late, late];
+    expect(countAbsences(records, { late: 1 / 2, tardy: 0 })).toBe(3);
+  });
+
+  it("should ignore tardies under the default policy", () => {
+    expect(countAbsences([{ status: "tardy" }, { status: "tardy" }], DEFAULT_ATTENDANCE_POLICY)).toBe(0);
+  });
+});
+
+describe("isPresentStatus", () => {
+  it("should count late and tardy arrivals as present", () => {
+    expect(isPresentStatus("present")).toBe(true);
+    expect(isPresentStatus("late")).toBe(true);
+    expect(isPresentStatus("tardy")).toBe(true);
+  });
+
+  it("should count absent and excused students as not present", () => {
+    expect(isPresentStatus("absent")).toBe(false);
+    expect(isPresentStatus("excused")).toBe(false);
+  });
+});
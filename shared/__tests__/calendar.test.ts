@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { buildClassCalendar, isEventOnDay, toICalendar } from "../calendar";
+
+const cls = {
+  id: 3,
+  name: "Writing 101",
+  semesterStartDate: "2025-08-25",
+  semesterEndDate: null,
+  meetingDays: null,
+  scheduleBreaks: null,
+  contractDeadline: null,
+};
+
+describe("buildClassCalendar", () => {
+  it("should put due dates on their day and skip undated assignments", () => {
+    const events = buildClassCalendar(
+      { ...cls, semesterStartDate: null },
+      [
+        { id: 1, name: "Essay 1", dueDate: new Date("2025-09-12T00:00:00") },
+        { id: 2, name: "Journal", dueDate: null },
+      ],
+      []
+    );
+    expect(events).toEqual([
+      expect.objectContaining({ kind: "assignment_due", title: "Essay 1 due", start: "2025-09-12", end: "2025-09-13" }),
+    ]);
+  });
+
+  it("should add one event per engagement week when the semester start is known", () => {
+    const weeks = buildClassCalendar(cls, [], []).filter((e) => e.kind === "engagement_week");
+    expect(weeks).toHaveLength(15);
+    expect(weeks[1]).toMatchObject({ start: "2025-09-01", end: "2025-09-08" });
+  });
+
+  it("should add one meeting per day attendance was taken", () => {
+    const events = buildClassCalendar({ ...cls, semesterStartDate: null }, [], [
+      { date: new Date("2025-09-02T09:00:00") },
+      { date: new Date("2025-09-02T09:05:00") },
+      { date: new Date("2025-09-04T09:00:00") },
+    ]);
+    expect(events.map((e) => e.start)).toEqual(["2025-09-02", "2025-09-04"]);
+  });
+
+  it("should add scheduled sessions alongside days attendance was taken", () => {
+    const events = buildClassCalendar(
+      { ...cls, semesterEndDate: "2025-09-03", meetingDays: [1, 3] },
+      [],
+      [{ date: new Date("2025-08-29T09:00:00") }]
+    );
+    const meetings = events.filter((e) => e.kind === "class_meeting").map((e) => e.start);
+    expect(meetings).toEqual(["2025-08-25", "2025-08-27", "2025-08-29", "2025-09-01", "2025-09-03"]);
+  });
+
+  it("should order events by start, including the timed contract deadline", () => {
+    const deadline = new Date("2025-09-05T17:00:00");
+    const events = buildClassCalendar(
+      { ...cls, semesterStartDate: null, contractDeadline: deadline },
+      [{ id: 1, name: "Essay 1", dueDate: new Date("2025-09-12T00:00:00") }],
+      [{ date: new Date("2025-09-02T09:00:00") }]
+    );
+    expect(events.map((e) => e.kind)).toEqual(["class_meeting", "contract_deadline", "assignment_due"]);
+    expect(events[1]).toMatchObject({ allDay: false, start: deadline.toISOString() });
+  });
+});
+
+describe("isEventOnDay", () => {
+  it("should cover every day of a multi-day event up to its exclusive end", () => {
+    const [week1] = buildClassCalendar(cls, [], []);
+    expect(isEventOnDay(week1, new Date("2025-08-31T12:00:00"))).toBe(true);
+    expect(isEventOnDay(week1, new Date("2025-09-01T12:00:00"))).toBe(false);
+  });
+});
+
+describe("toICalendar", () => {
+  const now = new Date("2025-09-01T12:00:00Z");
+
+  it("should write all-day events as dates and use CRLF line endings", () => {
+    const events = buildClassCalendar({ ...cls, semesterStartDate: null }, [
+      { id: 1, name: "Essay 1", dueDate: new Date("2025-09-12T00:00:00") },
+    ], []);
+    const ics = toICalendar(events, "My classes", now);
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics).toContain("UID:assignment-1@contract-grading-portal\r\n");
+    expect(ics).toContain("DTSTART;VALUE=DATE:20250912\r\n");
+    expect(ics).toContain("DTEND;VALUE=DATE:20250913\r\n");
+    expect(ics).toContain("DTSTAMP:20250901T120000Z\r\n");
+  });
+
+  it("should write timed events in UTC", () => {
+    const events = buildClassCalendar(
+      { ...cls, semesterStartDate: null, contractDeadline: new Date("2025-09-05T17:00:00Z") },
+      [],
+      []
+    );
+    expect(toICalendar(events, "My classes", now)).toContain("DTSTART:20250905T170000Z\r\n");
+  });
+
+  it("should escape text and fold long lines", () => {
+    const events = buildClassCalendar({ ...cls, name: "Reading, Writing; and Rhetoric", semesterStartDate: null }, [
+      { id: 1, name: "A very long assignment name that will certainly not fit within a single line", dueDate: new Date("2025-09-12T00:00:00") },
+    ], []);
+    const ics = toICalendar(events, "My classes", now);
+    expect(ics).toContain("SUMMARY:Reading\\, Writing\\; and Rhetoric: A very long");
+    for (const line of ics.split("\r\n")) {
+      expect(line.length).toBeLessThanOrEqual(75);
+    }
+    // Unfolding restores the original line
+    expect(ics.replace(/\r\n /g, "")).toContain("certainly not fit within a single line due\r\n");
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyThresholds,
+  defaultConversionSettings,
+  diffColumnMappings,
+  findSavedMapping,
+  mergeSavedColumns,
+  toSavedColumnMapping,
+  type SavedColumnMapping,
+} from "../canvas-mapping";
+import { DEFAULT_STATUS_SCALE } from "../constants";
+
+const essay: SavedColumnMapping = { canvasColumn: "Essay 1 (123)", target: "assignment", assignmentId: 4, gradingType: "percentage" };
+const absences: SavedColumnMapping = { canvasColumn: "Absences", target: "absences", assignmentId: null, gradingType: "points" };
+const notes: SavedColumnMapping = { canvasColumn: "Notes", target: "skip", assignmentId: null, gradingType: "points" };
+
+describe("toSavedColumnMapping", () => {
+  it("should save assignment, absence and skipped columns", () => {
+    expect(toSavedColumnMapping({ canvasColumn: "Essay 1 (123)", portalAssignment: { id: 4 }, gradingType: "percentage" })).toEqual(essay);
+    expect(toSavedColumnMapping({ canvasColumn: "Absences", portalAssignment: null, gradingType: "points", mappingTarget: "absences" })).toEqual(absences);
+    expect(toSavedColumnMapping({ canvasColumn: "Notes", portalAssignment: null, gradingType: "points" })).toEqual(notes);
+  });
+});
+
+describe("applyThresholds", () => {
+  it("should override the scale's thresholds with saved ones", () => {
+    const scale = applyThresholds(DEFAULT_STATUS_SCALE, [{ value: DEFAULT_STATUS_SCALE[2].value, minPercent: 85 }]);
+    expect(scale[2].minPercent).toBe(85);
+    expect(scale[1].minPercent).toBe(DEFAULT_STATUS_SCALE[1].minPercent);
+  });
+
+  it("should keep the lowest status at its own threshold", () => {
+    const scale = applyThresholds(DEFAULT_STATUS_SCALE, [{ value: DEFAULT_STATUS_SCALE[0].value, minPercent: 20 }]);
+    expect(scale[0].minPercent).toBe(0);
+  });
+
+  it("should round-trip the default settings unchanged", () => {
+    const { thresholds } = defaultConversionSettings(DEFAULT_STATUS_SCALE);
+    expect(applyThresholds(DEFAULT_STATUS_SCALE, thresholds)).toEqual(DEFAULT_STATUS_SCALE);
+  });
+});
+
+describe("findSavedMapping", () => {
+  const assignmentIds = new Set([4]);
+
+  it("should match column names ignoring case and surrounding spaces", () => {
+    expect(findSavedMapping("  essay 1 (123) ", [essay], assignmentIds)).toEqual(essay);
+  });
+
+  it("should ignore mappings to assignments that no longer exist", () => {
+    expect(findSavedMapping("Essay 1 (123)", [essay], new Set([5]))).toBeUndefined();
+  });
+
+  it("should return absence and skipped columns as saved", () => {
+    expect(findSavedMapping("Absences", [absences, notes], assignmentIds)).toEqual(absences);
+    expect(findSavedMapping("Notes", [absences, notes], assignmentIds)).toEqual(notes);
+  });
+
+  it("should return nothing for unknown columns", () => {
+    expect(findSavedMapping("Quiz 2", [essay], assignmentIds)).toBeUndefined();
+  });
+});
+
+describe("diffColumnMappings", () => {
+  it("should flag nothing when there is no saved profile", () => {
+    expect(diffColumnMappings([essay], null).size).toBe(0);
+  });
+
+  it("should flag columns that weren't saved as new", () => {
+    const quiz: SavedColumnMapping = { ...essay, canvasColumn: "Quiz 2", assignmentId: 6 };
+    expect(diffColumnMappings([essay, quiz], [essay])).toEqual(new Map([["Quiz 2", "new"]]));
+  });
+
+  it("should flag columns mapped to a different target, assignment or grade type", () => {
+    const changes = diffColumnMappings(
+      [
+        { ...essay, gradingType: "letter" },
+        { ...absences, target: "skip" },
+        { ...notes, canvasColumn: "Quiz", target: "assignment", assignmentId: 7 },
+      ],
+      [essay, absences, { ...notes, canvasColumn: "Quiz", target: "assignment", assignmentId: 6 }]
+    );
+    expect(changes).toEqual(new Map([
+      ["Essay 1 (123)", "changed"],
+      ["Absences", "changed"],
+      ["Quiz", "changed"],
+    ]));
+  });
+
+  it("should ignore grade type changes on columns that aren't grades", () => {
+    expect(diffColumnMappings([{ ...notes, gradingType: "letter" }], [notes]).size).toBe(0);
+  });
+});
+
+describe("mergeSavedColumns", () => {
+  it("should replace saved columns this import mapped and keep the rest", () => {
+    const updated = { ...essay, canvasColumn: "ESSAY 1 (123)", gradingType: "letter" as const };
+    expect(mergeSavedColumns([essay, absences], [updated])).toEqual([absences, updated]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { groupByCategory, getCategoryName, UNCATEGORIZED } from "../categories";
+
+describe("groupByCategory", () => {
+  const categories = [
+    { id: 1, name: "Essays", color: "#0072BC", displayOrder: 1 },
+    { id: 2, name: "Labs", color: "#16a34a", displayOrder: 0 },
+    { id: 3, name: "Projects", color: "#ca8a04", displayOrder: 2 },
+  ];
+  const assignments = [
+    { id: 10, categoryId: 1 },
+    { id: 11, categoryId: null },
+    { id: 12, categoryId: 2 },
+    { id: 13, categoryId: 1 },
+    { id: 14, categoryId: 99 },
+  ];
+
+  it("should group in category display order with uncategorized last", () => {
+    const groups = groupByCategory(assignments, categories, (a) => a);
+
+    expect(groups.map((g) => g.name)).toEqual(["Labs", "Essays", UNCATEGORIZED]);
+    expect(groups[1].items.map((a) => a.id)).toEqual([10, 13]);
+  });
+
+  it("should treat unknown category ids as uncategorized", () => {
+    const groups = groupByCategory(assignments, categories, (a) => a);
+
+    expect(groups[2].category).toBeNull();
+    expect(groups[2].items.map((a) => a.id)).toEqual([11, 14]);
+  });
+
+  it("should keep empty categories when asked", () => {
+    const groups = groupByCategory([], categories, (a: { categoryId: number | null }) => a, true);
+
+    expect(groups.map((g) => g.name)).toEqual(["Labs", "Essays", "Projects"]);
+  });
+});
+
+describe("getCategoryName", () => {
+  it("should fall back to Uncategorized", () => {
+    expect(getCategoryName(2, [{ id: 2, name: "Labs" }])).toBe("Labs");
+    expect(getCategoryName(null, [])).toBe(UNCATEGORIZED);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { getCodeExpiry, getCodeWindow, isCheckInOpen, summarizeCheckInSession } from "../check-in";
+
+describe("isCheckInOpen", () => {
+  const now = new Date("2025-09-02T09:05:00Z");
+  const expiresAt = new Date("2025-09-02T09:10:00Z");
+
+  it("should stay open until it expires", () => {
+    expect(isCheckInOpen({ expiresAt, closedAt: null }, now)).toBe(true);
+    expect(isCheckInOpen({ expiresAt, closedAt: null }, expiresAt)).toBe(false);
+  });
+
+  it("should close early when the instructor closes it", () => {
+    expect(isCheckInOpen({ expiresAt, closedAt: new Date("2025-09-02T09:04:00Z") }, now)).toBe(false);
+  });
+});
+
+describe("getCodeWindow", () => {
+  it("should share a window within the same 30 seconds", () => {
+    expect(getCodeWindow(new Date("2025-09-02T09:00:00Z"))).toBe(getCodeWindow(new Date("2025-09-02T09:00:29Z")));
+    expect(getCodeWindow(new Date("2025-09-02T09:00:30Z"))).toBe(getCodeWindow(new Date("2025-09-02T09:00:00Z")) + 1);
+  });
+
+  it("should expire codes at the end of their window", () => {
+    expect(getCodeExpiry(new Date("2025-09-02T09:00:12Z"))).toEqual(new Date("2025-09-02T09:00:30Z"));
+  });
+});
+
+describe("summarizeCheckInSession", () => {
+  it("should leave out the secret", () => {
+    const session = {
+      id: 1,
+      classId: 3,
+      date: "2025-09-02",
+      secret: "abc",
+      openedBy: 2,
+      expiresAt: new Date(),
+      closedAt: null,
+      createdAt: new Date(),
+    };
+    expect(summarizeCheckInSession(session)).not.toHaveProperty("secret");
+  });
+});
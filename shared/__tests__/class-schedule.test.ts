@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  getCurrentWeekNumber,
+  getDefaultSessionDate,
+  getEngagementWeeks,
+  getScheduleError,
+  getSessionDates,
+  parseDateKey,
+} from "../class-schedule";
+
+const schedule = {
+  semesterStartDate: "2025-08-25", // A Monday
+  semesterEndDate: null,
+  meetingDays: [2, 4], // Tuesdays and Thursdays
+  scheduleBreaks: null,
+};
+
+const thanksgiving = { name: "Thanksgiving", startDate: "2025-11-24", endDate: "2025-11-28" };
+
+describe("getEngagementWeeks", () => {
+  it("should have no weeks until the start date is set", () => {
+    expect(getEngagementWeeks({ ...schedule, semesterStartDate: null })).toEqual([]);
+  });
+
+  it("should run 15 weeks from the start date without an end date", () => {
+    const weeks = getEngagementWeeks(schedule);
+    expect(weeks).toHaveLength(15);
+    expect(weeks[0]).toEqual({ weekNumber: 1, start: "2025-08-25", end: "2025-09-01" });
+    expect(weeks[2].start).toBe("2025-09-08");
+  });
+
+  it("should run until the term end date when one is set", () => {
+    const weeks = getEngagementWeeks({ ...schedule, semesterEndDate: "2025-09-10" });
+    expect(weeks.map((w) => w.start)).toEqual(["2025-08-25", "2025-09-01", "2025-09-08"]);
+  });
+
+  it("should skip weeks when every meeting day is a break", () => {
+    const weeks = getEngagementWeeks({ ...schedule, scheduleBreaks: [thanksgiving] });
+    const week13 = weeks.find((w) => w.weekNumber === 13)!;
+    expect(week13.start).toBe("2025-11-17");
+    expect(weeks.find((w) => w.weekNumber === 14)!.start).toBe("2025-12-01");
+    expect(weeks).toHaveLength(15);
+  });
+
+  it("should keep weeks where the class still meets on some days", () => {
+    const holiday = { name: "Labor Day", startDate: "2025-09-02", endDate: "2025-09-02" };
+    const weeks = getEngagementWeeks({ ...schedule, scheduleBreaks: [holiday] });
+    expect(weeks[1].start).toBe("2025-09-01");
+  });
+});
+
+describe("getCurrentWeekNumber", () => {
+  const weeks = getEngagementWeeks({ ...schedule, scheduleBreaks: [thanksgiving] });
+
+  it("should find the week in progress", () => {
+    expect(getCurrentWeekNumber(weeks, new Date("2025-09-03T12:00:00"))).toBe(2);
+  });
+
+  it("should use week 1 before the term and stay on the last week during a break", () => {
+    expect(getCurrentWeekNumber(weeks, new Date("2025-08-01T12:00:00"))).toBe(1);
+    expect(getCurrentWeekNumber(weeks, new Date("2025-11-25T12:00:00"))).toBe(13);
+  });
+
+  it("should be null for a class without weeks", () => {
+    expect(getCurrentWeekNumber([])).toBeNull();
+  });
+});
+
+describe("getSessionDates", () => {
+  it("should list meeting days in the term, skipping breaks", () => {
+    const sessions = getSessionDates({
+      ...schedule,
+      semesterEndDate: "2025-09-05",
+      scheduleBreaks: [{ name: "Labor Day", startDate: "2025-09-02", endDate: "2025-09-02" }],
+    });
+    expect(sessions).toEqual(["2025-08-26", "2025-08-28", "2025-09-04"]);
+  });
+
+  it("should have no sessions without meeting days", () => {
+    expect(getSessionDates({ ...schedule, meetingDays: null })).toEqual([]);
+  });
+});
+
+describe("getDefaultSessionDate", () => {
+  const sessions = ["2025-08-26", "2025-08-28", "2025-09-02"];
+
+  it("should pick today or the most recent session", () => {
+    expect(getDefaultSessionDate(sessions, parseDateKey("2025-08-28"))).toBe("2025-08-28");
+    expect(getDefaultSessionDate(sessions, parseDateKey("2025-08-31"))).toBe("2025-08-28");
+  });
+
+  it("should fall back to the first session before the term", () => {
+    expect(getDefaultSessionDate(sessions, parseDateKey("2025-08-01"))).toBe("2025-08-26");
+  });
+});
+
+describe("getScheduleError", () => {
+  it("should reject a term that ends before it starts", () => {
+    expect(getScheduleError({ ...schedule, semesterEndDate: "2025-08-01" })).toMatch(/end date/);
+    expect(getScheduleError({ ...schedule, semesterEndDate: "2025-12-12" })).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import {
+  AssignmentStatus,
+  getAssignmentStatusLabel,
+  getStatusForPercent,
+  isAssignmentDone,
+  isAssignmentStarted,
+} from "../constants";
+
+describe("default status scale", () => {
+  it("should only count Successfully Completed as done", () => {
+    expect(isAssignmentDone(AssignmentStatus.EXCELLENT)).toBe(true);
+    expect(isAssignmentDone(AssignmentStatus.COMPLETED)).toBe(false);
+    expect(isAssignmentDone(null)).toBe(false);
+  });
+
+  it("should read in-progress work as Not Submitted", () => {
+    expect(getAssignmentStatusLabel(AssignmentStatus.IN_PROGRESS)).toBe("Not Submitted");
+    expect(isAssignmentStarted(AssignmentStatus.IN_PROGRESS)).toBe(true);
+  });
+
+  it("should map imported percentages the way the Canvas import always has", () => {
+    expect(getStatusForPercent(0)).toBe(AssignmentStatus.NOT_STARTED);
+    expect(getStatusForPercent(45)).toBe(AssignmentStatus.COMPLETED);
+    expect(getStatusForPercent(70)).toBe(AssignmentStatus.EXCELLENT);
+  });
+});
+
+describe("custom status scale", () => {
+  const scale = [
+    { value: 0, label: "Missing", color: "#64748b", isDone: false, minPercent: 0 },
+    { value: 1, label: "Needs Revision", color: "#dc2626", isDone: false, minPercent: 1 },
+    { value: 2, label: "Meets", color: "#16a34a", isDone: true, minPercent: 70 },
+    { value: 3, label: "Exceeds", color: "#2563eb", isDone: true, minPercent: 90 },
+  ];
+
+  it("should use the class's labels and done flags", () => {
+    expect(getAssignmentStatusLabel(1, scale)).toBe("Needs Revision");
+    expect(isAssignmentDone(1, scale)).toBe(false);
+    expect(isAssignmentDone(3, scale)).toBe(true);
+  });
+
+  it("should read statuses above a removed level as the level below", () => {
+    expect(getAssignmentStatusLabel(5, scale)).toBe("Exceeds");
+  });
+
+  it("should map imported percentages by each level's minimum", () => {
+    expect(getStatusForPercent(85, scale)).toBe(2);
+    expect(getStatusForPercent(95, scale)).toBe(3);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { isContractSelectionLocked } from "../contract-deadline";
+
+describe("isContractSelectionLocked", () => {
+  const now = new Date("2025-09-15T12:00:00Z");
+
+  it("should never lock a class without a deadline", () => {
+    expect(isContractSelectionLocked({ contractDeadline: null }, now)).toBe(false);
+  });
+
+  it("should stay open before the deadline", () => {
+    const deadline = new Date("2025-09-20T23:59:00Z");
+    expect(isContractSelectionLocked({ contractDeadline: deadline }, now)).toBe(false);
+  });
+
+  it("should lock once the deadline has passed", () => {
+    const deadline = new Date("2025-09-10T23:59:00Z");
+    expect(isContractSelectionLocked({ contractDeadline: deadline }, now)).toBe(true);
+  });
+
+  it("should accept deadlines serialized as strings", () => {
+    const deadline = "2025-09-10T23:59:00.000Z" as unknown as Date;
+    expect(isContractSelectionLocked({ contractDeadline: deadline }, now)).toBe(true);
+  });
+});
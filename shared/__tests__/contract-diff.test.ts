@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { diffContracts } from "../contract-diff";
+
+const version1 = {
+  assignments: [{ id: 1 }, { id: 2, minPoints: 70 }],
+  maxAbsences: 3,
+  requiredEngagementIntentions: 5,
+  categoryRequirements: null,
+  tokenAllowance: 0,
+};
+
+const assignments = [
+  { id: 1, name: "Essay 1" },
+  { id: 2, name: "Quiz 1" },
+  { id: 3, name: "Project" },
+];
+
+describe("diffContracts", () => {
+  it("should report no changes for identical versions", () => {
+    expect(diffContracts(version1, { ...version1 }, assignments)).toEqual([]);
+  });
+
+  it("should report added and removed assignments by name", () => {
+    const version2 = { ...version1, assignments: [{ id: 2, minPoints: 70 }, { id: 3 }] };
+
+    expect(diffContracts(version1, version2, assignments)).toEqual([
+      { kind: "added", label: "Project", before: null, after: "Required" },
+      { kind: "removed", label: "Essay 1", before: "Required", after: null },
+    ]);
+  });
+
+  it("should report changed limits and minimum points", () => {
+    const version2 = {
+      ...version1,
+      maxAbsences: 2,
+      assignments: [{ id: 1 }, { id: 2, minPoints: 80 }],
+    };
+
+    expect(diffContracts(version1, version2, assignments)).toEqual([
+      { kind: "changed", label: "Maximum absences", before: "3", after: "2" },
+      { kind: "changed", label: "Quiz 1 minimum points", before: "70", after: "80" },
+    ]);
+  });
+
+  it("should report whether late work counts", () => {
+    const version2 = { ...version1, lateWorkCounts: false };
+
+    expect(diffContracts(version1, version2, assignments)).toEqual([
+      { kind: "changed", label: "Late work counts as done", before: "Yes", after: "No" },
+    ]);
+  });
+
+  it("should treat a missing category requirement as requiring all", () => {
+    const version2 = { ...version1, categoryRequirements: [{ categoryId: 7, required: 1 }] };
+
+    expect(diffContracts(version1, version2, assignments, [{ id: 7, name: "Essays" }])).toEqual([
+      { kind: "changed", label: "Essays required", before: "All", after: "1" },
+    ]);
+  });
+});
@@ -0,0 +1,356 @@
+import { describe, it, expect } from "vitest";
+import {
+  evaluateContract,
+  evaluateStanding,
+  isLatestContractVersion,
+  latestContractsByGrade,
+  type ContractEvaluationInput,
+} from "../contract-evaluation";
+import { AssignmentStatus, DEFAULT_GRADE_TIERS } from "../constants";
+import type { GradeContract } from "../schema";
+
+const baseContract = {
+  id: 1,
+  grade: "A" as const,
+  assignments: [{ id: 1 }, { id: 2 }, { id: 3 }],
+  maxAbsences: 2,
+  requiredEngagementIntentions: 2,
+  categoryRequirements: null,
+  tokenAllowance: 0,
+};
+
+function makeInput(overrides: Partial<ContractEvaluationInput> = {}): ContractEvaluationInput {
+  return {
+    assignments: [
+      { id: 1, name: "Essay 1", categoryId: 10, scoringType: "status" },
+      { id: 2, name: "Essay 2", categoryId: 10, scoringType: "status" },
+      { id: 3, name: "Quiz", categoryId: null, scoringType: "numeric" },
+    ],
+    categories: [{ id: 10, name: "Essays", displayOrder: 0 }],
+    progress: [],
+    attendance: [],
+    engagementIntentions: [],
+    ...overrides,
+  };
+}
+
+describe("evaluateContract", () => {
+  it("should report unmet requirements for a student with no progress", () => {
+    const result = evaluateContract(baseContract, makeInput());
+
+    expect(result.isMet).toBe(false);
+    expect(result.requiredAssignments).toEqual({ current: 0, limit: 3, isMet: false });
+    expect(result.engagement.isMet).toBe(false);
+    expect(result.absences.isMet).toBe(true);
+  });
+
+  it("should meet the contract when every requirement is satisfied", () => {
+    const result = evaluateContract(baseContract, makeInput({
+      progress: [
+        { assignmentId: 1, status: AssignmentStatus.EXCELLENT, numericGrade: null },
+        { assignmentId: 2, status: AssignmentStatus.EXCELLENT, numericGrade: null },
+        { assignmentId: 3, status: null, numericGrade: "85.00" },
+      ],
+      attendance: [{ status: "absent" }, { status: "present" }],
+      engagementIntentions: [{ reviewStatus: "accepted" }, { reviewStatus: "accepted" }, { reviewStatus: "open" }],
+    }));
+
+    expect(result.isMet).toBe(true);
+    expect(result.absences).toEqual({ current: 1, limit: 2, isMet: true });
+    expect(result.engagement).toEqual({ current: 2, limit: 2, isMet: true });
+  });
+
+  it("should not count work-in-progress status as done", () => {
+    const result = evaluateContract(baseContract, makeInput({
+      progress: [{ assignmentId: 1, status: AssignmentStatus.COMPLETED, numericGrade: null }],
+    }));
+
+    expect(result.assignments.find(a => a.assignmentId === 1)?.isDone).toBe(false);
+  });
+
+  it("should count late work as done unless the contract says otherwise", () => {
+    const progress = [{ assignmentId: 1, status: AssignmentStatus.EXCELLENT, numericGrade: null, isLate: true }];
+
+    const counted = evaluateContract(baseContract, makeInput({ progress }));
+    expect(counted.assignments[0]).toMatchObject({ isLate: true, isDone: true });
+
+    const excluded = evaluateContract({ ...baseContract, lateWorkCounts: false }, makeInput({ progress }));
+    expect(excluded.assignments[0]).toMatchObject({ isLate: true, isDone: false });
+    expect(excluded.requiredAssignments.current).toBe(0);
+  });
+
+  it("should enforce minPoints on numeric assignments", () => {
+    const contract = { ...baseContract, assignments: [{ id: 3, minPoints: 90 }] };
+
+    const below = evaluateContract(contract, makeInput({
+      progress: [{ assignmentId: 3, status: null, numericGrade: "85.00" }],
+    }));
+    expect(below.assignments[0].meetsMinPoints).toBe(false);
+    expect(below.assignments[0].isDone).toBe(false);
+
+    const above = evaluateContract(contract, makeInput({
+      progress: [{ assignmentId: 3, status: null, numericGrade: "92.50" }],
+    }));
+    expect(above.assignments[0].meetsMinPoints).toBe(true);
+    expect(above.assignments[0].isDone).toBe(true);
+  });
+
+  it("should apply category requirements instead of requiring every assignment", () => {
+    const contract = {
+      ...baseContract,
+      assignments: [{ id: 1 }, { id: 2 }],
+      categoryRequirements: [{ categoryId: 10, required: 1 }],
+    };
+
+    const result = evaluateContract(contract, makeInput({
+      progress: [{ assignmentId: 2, status: AssignmentStatus.EXCELLENT, numericGrade: null }],
+    }));
+
+    expect(result.categories).toEqual([
+      { categoryId: 10, category: "Essays", completed: 1, required: 1, total: 2, hasExplicitRequirement: true, isMet: true },
+    ]);
+    expect(result.requiredAssignments.isMet).toBe(true);
+  });
+
+  it("should group assignments without a category as Uncategorized", () => {
+    const result = evaluateContract(baseContract, makeInput());
+
+    expect(result.categories.map(c => c.category)).toEqual(["Essays", "Uncategorized"]);
+  });
+
+  it("should list categories in display order", () => {
+    const result = evaluateContract(baseContract, makeInput({
+      assignments: [
+        { id: 1, name: "Essay 1", categoryId: 10, scoringType: "status" },
+        { id: 2, name: "Lab 1", categoryId: 11, scoringType: "status" },
+      ],
+      categories: [
+        { id: 10, name: "Essays", displayOrder: 1 },
+        { id: 11, name: "Labs", displayOrder: 0 },
+      ],
+    }));
+
+    expect(result.categories.map(c => c.category)).toEqual(["Labs", "Essays"]);
+  });
+
+  it("should treat assignments in a deleted category as uncategorized", () => {
+    const result = evaluateContract(baseContract, makeInput({ categories: [] }));
+
+    expect(result.categories.map(c => c.categoryId)).toEqual([null]);
+    expect(result.categories[0].total).toBe(3);
+  });
+
+  it("should fail when absences exceed maxAbsences", () => {
+    const result = evaluateContract(baseContract, makeInput({
+      attendance: [{ status: "absent" }, { status: "absent" }, { status: "absent" }],
+    }));
+
+    expect(result.absences).toEqual({ current: 3, limit: 2, isMet: false });
+  });
+
+  it("should not count excused absences and count late arrivals by the class policy", () => {
+    const result = evaluateContract(baseContract, makeInput({
+      attendance: [
+        { status: "excused" },
+        { status: "excused" },
+        { status: "excused" },
+        { status: "late" },
+        { status: "late" },
+        { status: "absent" },
+      ],
+      attendancePolicy: { late: 1 / 2, tardy: 0 },
+    }));
+
+    expect(result.absences).toEqual({ current: 2, limit: 2, isMet: true });
+  });
+
+  it("should ignore required assignments that no longer exist", () => {
+    const contract = { ...baseContract, assignments: [{ id: 1 }, { id: 99 }] };
+    const result = evaluateContract(contract, makeInput());
+
+    expect(result.assignments.map(a => a.assignmentId)).toEqual([1]);
+  });
+});
+
+describe("latestContractsByGrade", () => {
+  it("should keep only the highest version of each grade", () => {
+    const result = latestContractsByGrade([
+      { id: 1, grade: "A", version: 1 },
+      { id: 2, grade: "B", version: 1 },
+      { id: 3, grade: "A", version: 2 },
+    ]);
+
+    expect(result.map(c => c.id).sort()).toEqual([2, 3]);
+  });
+});
+
+describe("isLatestContractVersion", () => {
+  const contracts = [
+    { id: 1, grade: "A", version: 1 },
+    { id: 2, grade: "B", version: 1 },
+    { id: 3, grade: "A", version: 2 },
+  ];
+
+  it("should accept the latest version of a grade", () => {
+    expect(isLatestContractVersion(contracts, 3)).toBe(true);
+    expect(isLatestContractVersion(contracts, 2)).toBe(true);
+  });
+
+  it("should reject superseded versions and unknown contracts", () => {
+    expect(isLatestContractVersion(contracts, 1)).toBe(false);
+    expect(isLatestContractVersion(contracts, 99)).toBe(false);
+  });
+});
+
+describe("evaluateStanding", () => {
+  const contracts: GradeContract[] = [
+    { id: 1, classId: 1, grade: "A", version: 1, assignments: [{ id: 1 }, { id: 2 }], requiredEngagementIntentions: 0, maxAbsences: 1, categoryRequirements: null, tokenAllowance: 0 },
+    { id: 2, classId: 1, grade: "B", version: 1, assignments: [{ id: 1 }], requiredEngagementIntentions: 0, maxAbsences: 3, categoryRequirements: null, tokenAllowance: 0 },
+    { id: 3, classId: 1, grade: "C", version: 1, assignments: [], requiredEngagementIntentions: 0, maxAbsences: 5, categoryRequirements: null, tokenAllowance: 0 },
+  ];
+
+  const progress = [{ assignmentId: 1, status: AssignmentStatus.EXCELLENT, numericGrade: null }];
+
+  it("should report the highest grade whose requirements are met", () => {
+    const standing = evaluateStanding(contracts, { contractId: 1, isConfirmed: true }, makeInput({ progress }), DEFAULT_GRADE_TIERS);
+
+    expect(standing.earnedGrade).toBe("B");
+    expect(standing.attainableGrade).toBe("A");
+    expect(standing.warning).toBeNull();
+  });
+
+  it("should warn when a confirmed contract can no longer be met", () => {
+    const standing = evaluateStanding(
+      contracts,
+      { contractId: 1, isConfirmed: true },
+      makeInput({ progress, attendance: [{ status: "absent" }, { status: "absent" }] }),
+      DEFAULT_GRADE_TIERS
+    );
+
+    expect(standing.warning).toEqual({
+      fromGrade: "A",
+      toGrade: "B",
+      reasons: ["2 absences exceeds the maximum of 1"],
+    });
+  });
+
+  it("should not warn for unconfirmed contracts", () => {
+    const standing = evaluateStanding(
+      contracts,
+      { contractId: 1, isConfirmed: false },
+      makeInput({ attendance: [{ status: "absent" }, { status: "absent" }] }),
+      DEFAULT_GRADE_TIERS
+    );
+
+    expect(standing.warning).toBeNull();
+    expect(standing.attainableGrade).toBe("B");
+  });
+
+  it("should hold students to the contract version they selected", () => {
+    const withNewVersion = [
+      ...contracts,
+      { ...contracts[0], id: 4, version: 2, assignments: [{ id: 1 }] },
+    ];
+    const standing = evaluateStanding(withNewVersion, { contractId: 1, isConfirmed: true }, makeInput({ progress }), DEFAULT_GRADE_TIERS);
+
+    expect(standing.evaluations.map(e => e.contractId)).toEqual([1, 2, 3]);
+    expect(standing.earnedGrade).toBe("B");
+  });
+});
+
+describe("evaluateStanding with custom tiers", () => {
+  it("should rank contracts by the class's tier order", () => {
+    const contracts: GradeContract[] = [
+      { id: 1, classId: 1, grade: "Pass", version: 1, assignments: [], requiredEngagementIntentions: 0, maxAbsences: 5, categoryRequirements: null, tokenAllowance: 0 },
+      { id: 2, classId: 1, grade: "A-", version: 1, assignments: [{ id: 1 }], requiredEngagementIntentions: 0, maxAbsences: 1, categoryRequirements: null, tokenAllowance: 0 },
+    ];
+
+    const standing = evaluateStanding(contracts, null, makeInput(), ["A-", "Pass"]);
+
+    expect(standing.evaluations.map(e => e.grade)).toEqual(["A-", "Pass"]);
+    expect(standing.earnedGrade).toBe("Pass");
+  });
+});
+
+describe("evaluateContract with a custom status scale", () => {
+  const statusScale = [
+    { value: 0, label: "Missing", color: "#64748b", isDone: false, minPercent: 0 },
+    { value: 1, label: "Needs Revision", color: "#dc2626", isDone: false, minPercent: 1 },
+    { value: 2, label: "Meets", color: "#16a34a", isDone: true, minPercent: 70 },
+    { value: 3, label: "Exceeds", color: "#2563eb", isDone: true, minPercent: 90 },
+  ];
+
+  it("should count the statuses the class marks as done", () => {
+    const result = evaluateContract(baseContract, makeInput({
+      statusScale,
+      progress: [
+        { assignmentId: 1, status: 2, numericGrade: null },
+        { assignmentId: 2, status: 1, numericGrade: null },
+      ],
+    }));
+
+    expect(result.assignments.map(a => a.isDone)).toEqual([true, false, false]);
+  });
+});
+
+describe("evaluateContract with tokens", () => {
+  const tokenContract = { ...baseContract, tokenAllowance: 1 };
+
+  it("should not count absences excused with an approved token", () => {
+    const result = evaluateContract(tokenContract, makeInput({
+      attendance: [{ id: 10, status: "absent" }, { id: 11, status: "absent" }, { id: 12, status: "absent" }],
+      tokenTransactions: [
+        { kind: "spend", purpose: "absence", amount: 1, status: "approved", attendanceRecordId: 12 },
+      ],
+    }));
+
+    expect(result.absences).toEqual({ current: 2, limit: 2, isMet: true });
+    expect(result.tokens).toEqual({ current: 1, limit: 1, isMet: true });
+  });
+
+  it("should ignore token spends that are still pending", () => {
+    const result = evaluateContract(tokenContract, makeInput({
+      attendance: [{ id: 10, status: "absent" }, { id: 11, status: "absent" }, { id: 12, status: "absent" }],
+      tokenTransactions: [
+        { kind: "spend", purpose: "absence", amount: 1, status: "pending", attendanceRecordId: 12 },
+      ],
+    }));
+
+    expect(result.absences.current).toBe(3);
+  });
+
+  it("should only count intentions the instructor accepted", () => {
+    const result = evaluateContract(baseContract, makeInput({
+      engagementIntentions: [
+        { reviewStatus: "accepted" },
+        { reviewStatus: "submitted" },
+        { reviewStatus: "needs_more" },
+        { reviewStatus: "rejected" },
+      ],
+    }));
+
+    expect(result.engagement).toEqual({ current: 1, limit: 2, isMet: false });
+  });
+
+  it("should count missed engagement tokens toward engagement", () => {
+    const result = evaluateContract(tokenContract, makeInput({
+      engagementIntentions: [{ reviewStatus: "accepted" }],
+      tokenTransactions: [
+        { kind: "spend", purpose: "missed_engagement", amount: 1, status: "approved", attendanceRecordId: null },
+      ],
+    }));
+
+    expect(result.engagement).toEqual({ current: 2, limit: 2, isMet: true });
+  });
+
+  it("should not be attainable when more tokens were spent than the contract allows", () => {
+    const result = evaluateContract(baseContract, makeInput({
+      tokenTransactions: [
+        { kind: "spend", purpose: "revision", amount: 1, status: "approved", attendanceRecordId: null },
+      ],
+    }));
+
+    expect(result.tokens).toEqual({ current: 1, limit: 0, isMet: false });
+    expect(result.isAttainable).toBe(false);
+  });
+});
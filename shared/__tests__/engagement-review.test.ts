@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import {
+  canEditIntention,
+  canSubmitFulfillment,
+  countAcceptedIntentions,
+} from "../engagement-review";
+
+describe("canSubmitFulfillment", () => {
+  it("should allow submitting, updating and resubmitting before a final decision", () => {
+    expect(canSubmitFulfillment("open")).toBe(true);
+    expect(canSubmitFulfillment("submitted")).toBe(true);
+    expect(canSubmitFulfillment("needs_more")).toBe(true);
+  });
+
+  it("should not allow resubmitting once accepted or rejected", () => {
+    expect(canSubmitFulfillment("accepted")).toBe(false);
+    expect(canSubmitFulfillment("rejected")).toBe(false);
+  });
+});
+
+describe("canEditIntention", () => {
+  it("should lock the intention once the instructor has decided", () => {
+    expect(canEditIntention("open")).toBe(true);
+    expect(canEditIntention("needs_more")).toBe(true);
+    expect(canEditIntention("accepted")).toBe(false);
+    expect(canEditIntention("rejected")).toBe(false);
+  });
+});
+
+describe("countAcceptedIntentions", () => {
+  it("should count only accepted intentions", () => {
+    expect(
+      countAcceptedIntentions([
+        { reviewStatus: "accepted" },
+        { reviewStatus: "submitted" },
+        { reviewStatus: "accepted" },
+        { reviewStatus: "needs_more" },
+      ])
+    ).toBe(2);
+  });
+});
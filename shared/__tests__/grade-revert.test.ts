@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { findRevertedEntries, isRevertibleEntry, loggedGrade, sameGrade } from "../grade-revert";
+
+describe("loggedGrade", () => {
+  it("should read the grade out of logged values", () => {
+    expect(loggedGrade({ studentId: 1, status: 2, numericGrade: "3.50", feedback: "Nice", classId: 4 })).toEqual({
+      status: 2,
+      numericGrade: "3.50",
+      feedback: "Nice",
+    });
+  });
+
+  it("should read a missing row as ungraded", () => {
+    expect(loggedGrade(null)).toEqual({ status: null, numericGrade: null, feedback: null });
+  });
+});
+
+describe("sameGrade", () => {
+  const grade = { status: null, numericGrade: "3.50", feedback: null };
+
+  it("should compare scores by value", () => {
+    expect(sameGrade(grade, { ...grade, numericGrade: "3.5" })).toBe(true);
+    expect(sameGrade(grade, { ...grade, numericGrade: "3" })).toBe(false);
+    expect(sameGrade(grade, { ...grade, numericGrade: null })).toBe(false);
+  });
+
+  it("should notice status and feedback changes", () => {
+    expect(sameGrade(grade, { ...grade, status: 2 })).toBe(false);
+    expect(sameGrade(grade, { ...grade, feedback: "Revised" })).toBe(false);
+  });
+});
+
+describe("isRevertibleEntry", () => {
+  const values = { studentId: 1, assignmentId: 2, classId: 3 };
+
+  it("should allow grade changes and earlier reverts", () => {
+    expect(isRevertibleEntry({ action: "UPDATE", entityType: "assignment_progress", newValues: values })).toBe(true);
+    expect(isRevertibleEntry({ action: "CREATE", entityType: "assignment_progress", newValues: values })).toBe(true);
+    expect(isRevertibleEntry({ action: "REVERT", entityType: "assignment_progress", newValues: values })).toBe(true);
+  });
+
+  it("should not allow other activity", () => {
+    expect(isRevertibleEntry({ action: "UPDATE", entityType: "attendance", newValues: values })).toBe(false);
+    expect(isRevertibleEntry({ action: "DELETE", entityType: "assignment_progress", newValues: values })).toBe(false);
+    expect(isRevertibleEntry({ action: "UPDATE", entityType: "assignment_progress", newValues: null })).toBe(false);
+  });
+});
+
+describe("findRevertedEntries", () => {
+  it("should collect the entries and batches that reverts point at", () => {
+    const { entryIds, batchIds } = findRevertedEntries([
+      { action: "REVERT", newValues: { revertOf: 10 } },
+      { action: "REVERT", newValues: { revertOf: 11, batchId: "b2", revertedBatchId: "b1" } },
+      { action: "UPDATE", newValues: { revertOf: 12, batchId: "b3" } },
+    ]);
+    expect([...entryIds]).toEqual([10, 11]);
+    expect([...batchIds]).toEqual(["b1"]);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { formatGradeCell, parseGradeCell, parsePastedGrid } from "../gradebook";
+import { DEFAULT_STATUS_SCALE, AssignmentStatus } from "../constants";
+
+describe("parsePastedGrid", () => {
+  it("should split tab-separated rows and drop the trailing newline", () => {
+    expect(parsePastedGrid("3\t4\n2.5\t\n")).toEqual([["3", "4"], ["2.5", ""]]);
+  });
+
+  it("should handle Windows line endings and trim cells", () => {
+    expect(parsePastedGrid(" Work-in-Progress \r\nNot Submitted\r\n")).toEqual([["Work-in-Progress"], ["Not Submitted"]]);
+  });
+
+  it("should read a single value as one cell", () => {
+    expect(parsePastedGrid("4")).toEqual([["4"]]);
+  });
+});
+
+describe("parseGradeCell", () => {
+  it("should clear the grade for a blank cell", () => {
+    expect(parseGradeCell("  ", "status", DEFAULT_STATUS_SCALE)).toEqual({ ok: true, value: null });
+    expect(parseGradeCell("", "numeric", DEFAULT_STATUS_SCALE)).toEqual({ ok: true, value: null });
+  });
+
+  it("should match status labels regardless of case, or level values", () => {
+    expect(parseGradeCell("successfully completed", "status", DEFAULT_STATUS_SCALE)).toEqual({
+      ok: true,
+      value: AssignmentStatus.EXCELLENT,
+    });
+    expect(parseGradeCell(String(AssignmentStatus.COMPLETED), "status", DEFAULT_STATUS_SCALE)).toEqual({
+      ok: true,
+      value: AssignmentStatus.COMPLETED,
+    });
+  });
+
+  it("should reject statuses that are not on the scale", () => {
+    expect(parseGradeCell("Done", "status", DEFAULT_STATUS_SCALE).ok).toBe(false);
+  });
+
+  it("should read scores between 0 and 4", () => {
+    expect(parseGradeCell("3.5", "numeric", DEFAULT_STATUS_SCALE)).toEqual({ ok: true, value: 3.5 });
+    expect(parseGradeCell("0", "numeric", DEFAULT_STATUS_SCALE)).toEqual({ ok: true, value: 0 });
+  });
+
+  it("should reject scores that are out of range or not numbers", () => {
+    expect(parseGradeCell("5", "numeric", DEFAULT_STATUS_SCALE).ok).toBe(false);
+    expect(parseGradeCell("-1", "numeric", DEFAULT_STATUS_SCALE).ok).toBe(false);
+    expect(parseGradeCell("A", "numeric", DEFAULT_STATUS_SCALE).ok).toBe(false);
+  });
+});
+
+describe("formatGradeCell", () => {
+  it("should show the status label", () => {
+    expect(formatGradeCell({ status: AssignmentStatus.EXCELLENT, numericGrade: null }, "status", DEFAULT_STATUS_SCALE))
+      .toBe("Successfully Completed");
+  });
+
+  it("should show scores without trailing zeros", () => {
+    expect(formatGradeCell({ status: null, numericGrade: "3.50" }, "numeric", DEFAULT_STATUS_SCALE)).toBe("3.5");
+    expect(formatGradeCell({ status: null, numericGrade: "4.00" }, "numeric", DEFAULT_STATUS_SCALE)).toBe("4");
+  });
+
+  it("should be blank for ungraded cells", () => {
+    expect(formatGradeCell(undefined, "status", DEFAULT_STATUS_SCALE)).toBe("");
+    expect(formatGradeCell({ status: null, numericGrade: null }, "numeric", DEFAULT_STATUS_SCALE)).toBe("");
+  });
+});
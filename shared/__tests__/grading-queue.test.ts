@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { isOverdueWork, sortGradingQueue } from "../grading-queue";
+import { AssignmentStatus } from "../constants";
+
+describe("isOverdueWork", () => {
+  const now = new Date("2025-10-15T12:00:00");
+  const pastDue = { dueDate: new Date("2025-10-10T00:00:00") };
+
+  it("should flag started work past its due date", () => {
+    expect(isOverdueWork(pastDue, { status: AssignmentStatus.IN_PROGRESS, awaitingReview: false }, now)).toBe(true);
+    expect(isOverdueWork(pastDue, { status: AssignmentStatus.COMPLETED, awaitingReview: false }, now)).toBe(true);
+  });
+
+  it("should not flag finished or unstarted work", () => {
+    expect(isOverdueWork(pastDue, { status: AssignmentStatus.EXCELLENT, awaitingReview: false }, now)).toBe(false);
+    expect(isOverdueWork(pastDue, { status: AssignmentStatus.NOT_STARTED, awaitingReview: false }, now)).toBe(false);
+    expect(isOverdueWork(pastDue, undefined, now)).toBe(false);
+  });
+
+  it("should treat the due date as lasting until the end of the day", () => {
+    const dueToday = { dueDate: new Date("2025-10-15T00:00:00") };
+    expect(isOverdueWork(dueToday, { status: AssignmentStatus.IN_PROGRESS, awaitingReview: false }, now)).toBe(false);
+  });
+
+  it("should leave submissions awaiting review to the submission queue", () => {
+    expect(isOverdueWork(pastDue, { status: AssignmentStatus.COMPLETED, awaitingReview: true }, now)).toBe(false);
+  });
+
+  it("should ignore assignments without a due date", () => {
+    expect(isOverdueWork({ dueDate: null }, { status: AssignmentStatus.IN_PROGRESS, awaitingReview: false }, now)).toBe(false);
+  });
+});
+
+describe("sortGradingQueue", () => {
+  const items = [
+    { key: "b", since: "2025-10-02T00:00:00.000Z" },
+    { key: "a", since: "2025-10-01T00:00:00.000Z" },
+    { key: "c", since: "2025-10-03T00:00:00.000Z" },
+  ];
+
+  it("should put the longest-waiting items first by default", () => {
+    expect(sortGradingQueue(items).map((i) => i.key)).toEqual(["a", "b", "c"]);
+  });
+
+  it("should put the newest items first when asked", () => {
+    expect(sortGradingQueue(items, "newest").map((i) => i.key)).toEqual(["c", "b", "a"]);
+  });
+
+  it("should not reorder the input array", () => {
+    sortGradingQueue(items);
+    expect(items.map((i) => i.key)).toEqual(["b", "a", "c"]);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { toRunMappings } from "../import-runs";
+
+describe("toRunMappings", () => {
+  it("should keep mapped columns with just the assignment's ID and name", () => {
+    const mappings = toRunMappings([
+      { canvasColumn: "Essay 1 (123)", portalAssignment: { id: 4, name: "Essay 1" }, gradingType: "percentage" },
+    ]);
+    expect(mappings).toEqual([
+      { canvasColumn: "Essay 1 (123)", target: "assignment", assignmentId: 4, assignmentName: "Essay 1", gradingType: "percentage" },
+    ]);
+  });
+
+  it("should record absence columns", () => {
+    const mappings = toRunMappings([
+      { canvasColumn: "Absences", portalAssignment: null, gradingType: "points", mappingTarget: "absences" },
+    ]);
+    expect(mappings).toEqual([
+      { canvasColumn: "Absences", target: "absences", assignmentId: null, assignmentName: null, gradingType: "points" },
+    ]);
+  });
+
+  it("should leave out columns that weren't mapped", () => {
+    expect(toRunMappings([{ canvasColumn: "Notes", portalAssignment: null, gradingType: "points" }])).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { getAvailability, getSubmissionBlockReason, getWindowError, isLateWork } from "../late-policy";
+
+const window = {
+  dueDate: new Date("2025-10-10T00:00:00"),
+  opensAt: null,
+  closesAt: null,
+  latePolicy: "flag" as const,
+};
+
+describe("isLateWork", () => {
+  it("should treat the due date as lasting until the end of the day", () => {
+    expect(isLateWork(window, new Date("2025-10-10T23:00:00"))).toBe(false);
+    expect(isLateWork(window, new Date("2025-10-11T00:30:00"))).toBe(true);
+  });
+
+  it("should never flag work under the accept policy or without a due date", () => {
+    const after = new Date("2025-10-12T00:00:00");
+    expect(isLateWork({ ...window, latePolicy: "accept" }, after)).toBe(false);
+    expect(isLateWork({ ...window, dueDate: null }, after)).toBe(false);
+  });
+});
+
+describe("getAvailability", () => {
+  it("should keep assignments closed until they open", () => {
+    const opens = { ...window, opensAt: new Date("2025-10-01T09:00:00") };
+    expect(getAvailability(opens, new Date("2025-09-30T12:00:00"))).toBe("not_open");
+    expect(getAvailability(opens, new Date("2025-10-01T09:30:00"))).toBe("open");
+  });
+
+  it("should only close assignments that reject late work", () => {
+    const after = new Date("2025-10-20T00:00:00");
+    const closes = { ...window, closesAt: new Date("2025-10-15T00:00:00") };
+    expect(getAvailability(closes, after)).toBe("open");
+    expect(getAvailability({ ...closes, latePolicy: "reject" }, after)).toBe("closed");
+    expect(getAvailability({ ...closes, latePolicy: "reject" }, new Date("2025-10-12T00:00:00"))).toBe("open");
+  });
+
+  it("should close at the end of the due date when rejecting without a close date", () => {
+    const rejecting = { ...window, latePolicy: "reject" as const };
+    expect(getAvailability(rejecting, new Date("2025-10-10T22:00:00"))).toBe("open");
+    expect(getAvailability(rejecting, new Date("2025-10-11T01:00:00"))).toBe("closed");
+    expect(getSubmissionBlockReason(rejecting, new Date("2025-10-11T01:00:00"))).toMatch(/closed/);
+  });
+});
+
+describe("getWindowError", () => {
+  it("should accept dates in order", () => {
+    expect(getWindowError({
+      opensAt: "2025-10-01T09:00:00",
+      dueDate: "2025-10-10",
+      closesAt: "2025-10-15T00:00:00",
+    })).toBeNull();
+  });
+
+  it("should reject a close date before the open or due date", () => {
+    expect(getWindowError({ opensAt: "2025-10-05T00:00:00", closesAt: "2025-10-01T00:00:00" })).not.toBeNull();
+    expect(getWindowError({ dueDate: "2025-10-10T00:00:00", closesAt: "2025-10-09T00:00:00" })).not.toBeNull();
+  });
+
+  it("should reject an open date after the due date", () => {
+    expect(getWindowError({ opensAt: "2025-10-12T00:00:00", dueDate: "2025-10-10T00:00:00" })).not.toBeNull();
+  });
+});
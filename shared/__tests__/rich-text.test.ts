@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { isRichTextEmpty, sanitizeRichText } from "../rich-text";
+
+describe("sanitizeRichText", () => {
+  it("should keep formatting produced by the editor", () => {
+    const html = "<h2>Summary</h2><p><strong>Great</strong> work, <em>mostly</em>.</p><ul><li>Revise intro</li></ul>";
+    expect(sanitizeRichText(html)).toBe(html);
+  });
+
+  it("should remove scripts and their content", () => {
+    expect(sanitizeRichText("<p>Hi</p><script>alert(1)</script>")).toBe("<p>Hi</p>");
+  });
+
+  it("should strip attributes from allowed tags", () => {
+    expect(sanitizeRichText('<p onclick="steal()" style="color:red">Text</p>')).toBe("<p>Text</p>");
+  });
+
+  it("should drop disallowed tags but keep their text", () => {
+    expect(sanitizeRichText('<p><a href="javascript:alert(1)">link</a><img src=x onerror=alert(1)></p>')).toBe(
+      "<p>link</p>"
+    );
+  });
+
+  it("should escape stray angle brackets from malformed markup", () => {
+    expect(sanitizeRichText("<p>1 < 2</p><img src=x onerror=alert(1)")).toBe("<p>1 &lt; 2</p>&lt;img src=x onerror=alert(1)");
+  });
+});
+
+describe("isRichTextEmpty", () => {
+  it("should treat an empty editor as empty", () => {
+    expect(isRichTextEmpty("<p></p>")).toBe(true);
+    expect(isRichTextEmpty(null)).toBe(true);
+  });
+
+  it("should detect text content", () => {
+    expect(isRichTextEmpty("<p>Nice</p>")).toBe(false);
+  });
+});
@@ -3,12 +3,27 @@ import {
   insertClassSchema,
   updateClassSchema,
   insertAssignmentSchema,
+  insertCategorySchema,
   insertGradeContractSchema,
   insertStudentInvitationSchema,
   setupPasswordSchema,
   passwordResetRequestSchema,
   resetPasswordSchema,
+  insertContractChangeRequestSchema,
+  reviewContractChangeRequestSchema,
+  gradeTiersSchema,
+  statusScaleSchema,
+  insertSubmissionSchema,
+  batchAttendanceSchema,
+  insertAbsenceExcuseRequestSchema,
+  upsertEngagementPromptSchema,
+  submitEngagementFulfillmentSchema,
+  reviewEngagementIntentionsSchema,
+  MAX_ENGAGEMENT_SUGGESTIONS,
+  batchProgressSchema,
+  gradeConversionSettingsSchema,
 } from "../schema";
+import { DEFAULT_STATUS_SCALE } from "../constants";
 
 describe("Schema Validation", () => {
   describe("insertClassSchema", () => {
@@ -40,6 +55,41 @@ describe("Schema Validation", () => {
       const result = insertClassSchema.safeParse(invalidClass);
       expect(result.success).toBe(false);
     });
+
+    it("should accept a meeting schedule with breaks", () => {
+      const result = insertClassSchema.safeParse({
+        name: "Writing 101",
+        semesterStartDate: "2025-08-25",
+        semesterEndDate: "2025-12-12",
+        meetingDays: [1, 3],
+        scheduleBreaks: [{ name: "Thanksgiving", startDate: "2025-11-24", endDate: "2025-11-28" }],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject invalid weekdays and backwards breaks", () => {
+      expect(insertClassSchema.safeParse({ name: "Writing 101", meetingDays: [7] }).success).toBe(false);
+      expect(insertClassSchema.safeParse({ name: "Writing 101", meetingDays: [1, 1] }).success).toBe(false);
+      expect(
+        insertClassSchema.safeParse({
+          name: "Writing 101",
+          scheduleBreaks: [{ name: "Fall break", startDate: "2025-10-10", endDate: "2025-10-09" }],
+        }).success
+      ).toBe(false);
+    });
+
+    it("should accept an attendance policy of absence fractions", () => {
+      expect(insertClassSchema.safeParse({ name: "Writing 101", attendancePolicy: { late: 1 / 3, tardy: 0 } }).success).toBe(true);
+      expect(insertClassSchema.safeParse({ name: "Writing 101", attendancePolicy: { late: 2, tardy: 0 } }).success).toBe(false);
+    });
+  });
+
+  describe("batchAttendanceSchema", () => {
+    it("should require a known status for each student", () => {
+      const entry = { studentId: 4, date: "2025-09-02", status: "late" };
+      expect(batchAttendanceSchema.safeParse({ records: [entry] }).success).toBe(true);
+      expect(batchAttendanceSchema.safeParse({ records: [{ ...entry, status: "sick" }] }).success).toBe(false);
+    });
   });
 
   describe("updateClassSchema", () => {
@@ -63,7 +113,7 @@ describe("Schema Validation", () => {
       const validAssignment = {
         name: "Homework 1",
         classId: 1,
-        moduleGroup: "Week 1",
+        categoryId: 4,
         scoringType: "status",
       };
 
@@ -75,7 +125,7 @@ describe("Schema Validation", () => {
       const validAssignment = {
         name: "Final Exam",
         classId: 1,
-        moduleGroup: null,
+        categoryId: null,
         scoringType: "numeric",
       };
 
@@ -87,7 +137,7 @@ describe("Schema Validation", () => {
       const invalidAssignment = {
         name: "Quiz",
         classId: 1,
-        moduleGroup: null,
+        categoryId: null,
         scoringType: "letter",
       };
 
@@ -104,6 +154,46 @@ describe("Schema Validation", () => {
       const result = insertAssignmentSchema.safeParse(invalidAssignment);
       expect(result.success).toBe(false);
     });
+
+    it("should accept form dates and blank dates", () => {
+      const result = insertAssignmentSchema.safeParse({
+        name: "Essay",
+        classId: 1,
+        categoryId: null,
+        scoringType: "status",
+        dueDate: "2024-03-01",
+        opensAt: "2024-02-20T09:00:00.000Z",
+        closesAt: "",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a date that doesn't parse", () => {
+      const result = insertAssignmentSchema.safeParse({
+        name: "Essay",
+        classId: 1,
+        categoryId: null,
+        scoringType: "status",
+        dueDate: "next tuesday",
+      });
+      expect(result.success).toBe(false);
+      expect(result.error?.errors[0].message).toBe("Due date must be a valid date");
+    });
+  });
+
+  describe("insertCategorySchema", () => {
+    it("should accept a named category with an optional color", () => {
+      expect(insertCategorySchema.safeParse({ name: "Essays" }).success).toBe(true);
+      expect(insertCategorySchema.safeParse({ name: "Essays", description: null, color: "#16a34a" }).success).toBe(true);
+    });
+
+    it("should reject a blank name", () => {
+      expect(insertCategorySchema.safeParse({ name: "   " }).success).toBe(false);
+    });
+
+    it("should reject colors that are not hex values", () => {
+      expect(insertCategorySchema.safeParse({ name: "Essays", color: "green" }).success).toBe(false);
+    });
   });
 
   describe("insertGradeContractSchema", () => {
@@ -140,10 +230,10 @@ describe("Schema Validation", () => {
       }
     });
 
-    it("should reject contract with invalid grade", () => {
+    it("should reject contract with blank grade", () => {
       const invalidContract = {
         classId: 1,
-        grade: "D",
+        grade: "  ",
         version: 1,
         assignments: [],
       };
@@ -252,4 +342,237 @@ describe("Schema Validation", () => {
       expect(result.success).toBe(false);
     });
   });
+
+  describe("insertContractChangeRequestSchema", () => {
+    it("should accept a request with a reason", () => {
+      const result = insertContractChangeRequestSchema.safeParse({
+        toContractId: 2,
+        reason: "My work schedule changed",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a blank reason", () => {
+      const result = insertContractChangeRequestSchema.safeParse({
+        toContractId: 2,
+        reason: "   ",
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("reviewContractChangeRequestSchema", () => {
+    it("should accept an approval without a response", () => {
+      const result = reviewContractChangeRequestSchema.safeParse({ status: "approved" });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a pending status", () => {
+      const result = reviewContractChangeRequestSchema.safeParse({ status: "pending" });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("insertAbsenceExcuseRequestSchema", () => {
+    it("should require a reason for the absence", () => {
+      expect(insertAbsenceExcuseRequestSchema.safeParse({ attendanceRecordId: 5, reason: "Flu" }).success).toBe(true);
+      expect(insertAbsenceExcuseRequestSchema.safeParse({ attendanceRecordId: 5, reason: "   " }).success).toBe(false);
+      expect(insertAbsenceExcuseRequestSchema.safeParse({ reason: "Flu" }).success).toBe(false);
+    });
+  });
+
+  describe("submitEngagementFulfillmentSchema", () => {
+    it("should require a reflection and treat a blank link as none", () => {
+      expect(submitEngagementFulfillmentSchema.parse({ reflection: "Went to office hours", evidenceUrl: "" }))
+        .toEqual({ reflection: "Went to office hours", evidenceUrl: null });
+      expect(submitEngagementFulfillmentSchema.safeParse({ reflection: "  " }).success).toBe(false);
+    });
+
+    it("should only accept web links as evidence", () => {
+      expect(submitEngagementFulfillmentSchema.safeParse({ reflection: "Done", evidenceUrl: "https://example.com/notes" }).success).toBe(true);
+      expect(submitEngagementFulfillmentSchema.safeParse({ reflection: "Done", evidenceUrl: "javascript:alert(1)" }).success).toBe(false);
+    });
+  });
+
+  describe("reviewEngagementIntentionsSchema", () => {
+    it("should accept a batch of decisions with optional rubric scores", () => {
+      const result = reviewEngagementIntentionsSchema.safeParse({
+        reviews: [
+          { intentionId: 1, decision: "accepted", rubricScores: { depth: 3, followThrough: 2 } },
+          { intentionId: 2, decision: "needs_more", feedback: "Add a link to your notes" },
+        ],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject out-of-range scores, duplicates and empty batches", () => {
+      expect(reviewEngagementIntentionsSchema.safeParse({
+        reviews: [{ intentionId: 1, decision: "accepted", rubricScores: { depth: 4 } }],
+      }).success).toBe(false);
+      expect(reviewEngagementIntentionsSchema.safeParse({
+        reviews: [{ intentionId: 1, decision: "accepted" }, { intentionId: 1, decision: "rejected" }],
+      }).success).toBe(false);
+      expect(reviewEngagementIntentionsSchema.safeParse({ reviews: [] }).success).toBe(false);
+    });
+  });
+
+  describe("upsertEngagementPromptSchema", () => {
+    it("should trim suggestions and store a blank prompt as null", () => {
+      const result = upsertEngagementPromptSchema.parse({ prompt: "  ", suggestions: [" Attend office hours "] });
+      expect(result).toEqual({ prompt: null, suggestions: ["Attend office hours"] });
+    });
+
+    it("should default to no suggestions", () => {
+      expect(upsertEngagementPromptSchema.parse({ prompt: "Connect the reading to your life" }).suggestions).toEqual([]);
+    });
+
+    it("should reject blank, duplicate or too many suggestions", () => {
+      expect(upsertEngagementPromptSchema.safeParse({ suggestions: [""] }).success).toBe(false);
+      expect(upsertEngagementPromptSchema.safeParse({ suggestions: ["Read ahead", "Read ahead"] }).success).toBe(false);
+      const tooMany = Array.from({ length: MAX_ENGAGEMENT_SUGGESTIONS + 1 }, (_, i) => `Activity ${i}`);
+      expect(upsertEngagementPromptSchema.safeParse({ suggestions: tooMany }).success).toBe(false);
+    });
+  });
+
+  describe("gradeTiersSchema", () => {
+    it("should accept custom tier labels", () => {
+      const result = gradeTiersSchema.safeParse(["A", "A-", "B+", "B", "Pass"]);
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject duplicate tier labels", () => {
+      const result = gradeTiersSchema.safeParse(["A", "B", "A"]);
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject an empty tier list", () => {
+      const result = gradeTiersSchema.safeParse([]);
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("statusScaleSchema", () => {
+    const scale = [
+      { value: 0, label: "Missing", color: "#64748b", isDone: false, minPercent: 0 },
+      { value: 1, label: "Needs Revision", color: "#dc2626", isDone: false, minPercent: 1 },
+      { value: 2, label: "Meets", color: "#16a34a", isDone: true, minPercent: 70 },
+    ];
+
+    it("should accept the default scale and a custom scale", () => {
+      expect(statusScaleSchema.safeParse(DEFAULT_STATUS_SCALE).success).toBe(true);
+      expect(statusScaleSchema.safeParse(scale).success).toBe(true);
+    });
+
+    it("should require values and thresholds to increase", () => {
+      expect(statusScaleSchema.safeParse([scale[0], scale[2], scale[1]]).success).toBe(false);
+      expect(statusScaleSchema.safeParse([scale[0], { ...scale[1], minPercent: 0 }, scale[2]]).success).toBe(false);
+    });
+
+    it("should require at least one done status above the lowest", () => {
+      expect(statusScaleSchema.safeParse([scale[0], scale[1]]).success).toBe(false);
+      expect(statusScaleSchema.safeParse([{ ...scale[0], isDone: true }, scale[2]]).success).toBe(false);
+    });
+
+    it("should reject colors that are not hex values", () => {
+      expect(statusScaleSchema.safeParse([{ ...scale[0], color: "red" }, scale[2]]).success).toBe(false);
+    });
+  });
+
+  describe("insertSubmissionSchema", () => {
+    it("should accept a link submission", () => {
+      const result = insertSubmissionSchema.safeParse({ kind: "url", url: "https://github.com/student/project" });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject links that are not http or https", () => {
+      const result = insertSubmissionSchema.safeParse({ kind: "url", url: "javascript:alert(1)" });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject an empty text response", () => {
+      const result = insertSubmissionSchema.safeParse({ kind: "text", textResponse: "   " });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject file submissions, which are uploaded separately", () => {
+      const result = insertSubmissionSchema.safeParse({ kind: "file" });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("batchProgressSchema", () => {
+    it("should accept status and numeric cells, including cleared grades", () => {
+      const result = batchProgressSchema.safeParse({
+        cells: [
+          { studentId: 1, assignmentId: 1, status: 2 },
+          { studentId: 1, assignmentId: 2, numericGrade: 3.5 },
+          { studentId: 2, assignmentId: 1, status: null },
+        ],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject an empty save", () => {
+      expect(batchProgressSchema.safeParse({ cells: [] }).success).toBe(false);
+    });
+
+    it("should reject scores outside the 0-4 scale", () => {
+      expect(batchProgressSchema.safeParse({ cells: [{ studentId: 1, assignmentId: 1, numericGrade: 4.5 }] }).success).toBe(false);
+      expect(batchProgressSchema.safeParse({ cells: [{ studentId: 1, assignmentId: 1, numericGrade: -1 }] }).success).toBe(false);
+    });
+
+    it("should reject the same cell twice", () => {
+      const result = batchProgressSchema.safeParse({
+        cells: [
+          { studentId: 1, assignmentId: 1, status: 2 },
+          { studentId: 1, assignmentId: 1, status: 3 },
+        ],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("gradeConversionSettingsSchema", () => {
+    const letterGradeMap = { A: "done", B: "done", C: "partial", F: "missing" };
+
+    it("should accept thresholds that increase with the status", () => {
+      const result = gradeConversionSettingsSchema.safeParse({
+        letterGradeMap,
+        thresholds: [
+          { value: 2, minPercent: 80 },
+          { value: 0, minPercent: 0 },
+          { value: 1, minPercent: 50 },
+        ],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a higher status with a lower threshold", () => {
+      const result = gradeConversionSettingsSchema.safeParse({
+        letterGradeMap,
+        thresholds: [
+          { value: 0, minPercent: 0 },
+          { value: 1, minPercent: 80 },
+          { value: 2, minPercent: 70 },
+        ],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject percentages over 100", () => {
+      const result = gradeConversionSettingsSchema.safeParse({
+        letterGradeMap,
+        thresholds: [{ value: 1, minPercent: 120 }],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject letters mapped to an unknown bucket", () => {
+      const result = gradeConversionSettingsSchema.safeParse({
+        letterGradeMap: { A: "excellent" },
+        thresholds: [],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
 });
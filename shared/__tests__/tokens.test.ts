@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { summarizeTokens } from "../tokens";
+
+describe("summarizeTokens", () => {
+  it("should start from the contract allowance", () => {
+    const balance = summarizeTokens(3, []);
+    expect(balance).toEqual({ allowance: 3, granted: 0, spent: 0, pending: 0, available: 3 });
+  });
+
+  it("should add grants and subtract approved and pending spends", () => {
+    const balance = summarizeTokens(2, [
+      { kind: "grant", amount: 2, status: "approved" },
+      { kind: "spend", amount: 1, status: "approved" },
+      { kind: "spend", amount: 1, status: "pending" },
+    ]);
+
+    expect(balance.granted).toBe(2);
+    expect(balance.spent).toBe(1);
+    expect(balance.pending).toBe(1);
+    expect(balance.available).toBe(2);
+  });
+
+  it("should ignore denied spends", () => {
+    const balance = summarizeTokens(1, [{ kind: "spend", amount: 1, status: "denied" }]);
+    expect(balance.spent).toBe(0);
+    expect(balance.available).toBe(1);
+  });
+});
@@ -0,0 +1,42 @@
+import type { AssignmentAttempt, TokenTransaction } from "./schema";
+
+/**
+ * Attempt history for one student's assignment, newest first
+ */
+export interface AttemptHistory {
+  attempts: (AssignmentAttempt & { graderName: string | null })[];
+  allowedAttempts: number | null;
+}
+
+/**
+ * Number of graded attempts a student may make on an assignment, or null when unlimited.
+ * Each approved revision token spent on the student's progress record buys one more attempt.
+ */
+export function getAllowedAttempts(
+  attemptLimit: number | null | undefined,
+  progressId: number | null | undefined,
+  tokenTransactions: Pick<TokenTransaction, "kind" | "purpose" | "amount" | "status" | "assignmentProgressId">[] = []
+): number | null {
+  if (attemptLimit === null || attemptLimit === undefined) return null;
+
+  const revisionTokens = tokenTransactions
+    .filter(
+      (t) =>
+        t.kind === "spend" &&
+        t.purpose === "revision" &&
+        t.status === "approved" &&
+        progressId !== null &&
+        progressId !== undefined &&
+        t.assignmentProgressId === progressId
+    )
+    .reduce((sum, t) => sum + t.amount, 0);
+
+  return attemptLimit + revisionTokens;
+}
+
+/**
+ * Whether another attempt can be recorded after `usedAttempts`
+ */
+export function canRecordAttempt(usedAttempts: number, allowedAttempts: number | null): boolean {
+  return allowedAttempts === null || usedAttempts < allowedAttempts;
+}
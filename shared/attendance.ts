@@ -0,0 +1,84 @@
+import type { AttendanceRecord } from "./schema";
+
+/**
+ * How a student attended one session:
+ * - present: on time
+ * - absent:  missed the session
+ * - excused: missed it with the instructor's approval; never counts as an absence
+ * - late:    arrived well after the start
+ * - tardy:   arrived a little after the start
+ */
+export const ATTENDANCE_STATUSES = ["present", "absent", "excused", "late", "tardy"] as const;
+
+export type AttendanceStatus = (typeof ATTENDANCE_STATUSES)[number];
+
+export const ATTENDANCE_STATUS_LABELS: Record<AttendanceStatus, string> = {
+  present: "Present",
+  absent: "Absent",
+  excused: "Excused",
+  late: "Late",
+  tardy: "Tardy",
+};
+
+/**
+ * Whether the student was at the session, however late. Kept in the legacy
+ * `isPresent` column alongside the status, since older entries still read it.
+ */
+export function isPresentStatus(status: AttendanceStatus): boolean {
+  return status === "present" || status === "late" || status === "tardy";
+}
+
+/**
+ * What fraction of an absence each late or tardy arrival counts as.
+ * 1/3 means every three count as one absence; 0 means they never count.
+ */
+export interface AttendancePolicy {
+  late: number;
+  tardy: number;
+}
+
+export const DEFAULT_ATTENDANCE_POLICY: AttendancePolicy = { late: 1 / 3, tardy: 0 };
+
+// The fractions instructors pick from, as the labels they read
+export const ABSENCE_FRACTIONS: { value: number; label: string }[] = [
+  { value: 0, label: "Doesn't count" },
+  { value: 1 / 4, label: "4 = 1 absence" },
+  { value: 1 / 3, label: "3 = 1 absence" },
+  { value: 1 / 2, label: "2 = 1 absence" },
+  { value: 1, label: "Full absence" },
+];
+
+/**
+ * Get a class's attendance policy
+ */
+export function getAttendancePolicy(
+  cls: { attendancePolicy?: AttendancePolicy | null } | null | undefined
+): AttendancePolicy {
+  return cls?.attendancePolicy ?? DEFAULT_ATTENDANCE_POLICY;
+}
+
+/**
+ * How much of an absence one session with this status counts as
+ */
+export function getAbsenceWeight(status: AttendanceStatus, policy: AttendancePolicy): number {
+  switch (status) {
+    case "absent":
+      return 1;
+    case "late":
+      return policy.late;
+    case "tardy":
+      return policy.tardy;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * The number of absences a student's records add up to. Partial absences
+ * only count once they make up a whole one, so two lates at 1/3 count as none.
+ */
+export function countAbsences(records: Pick<AttendanceRecord, "status">[], policy: AttendancePolicy): number {
+  const total = records.reduce((sum, r) => sum + getAbsenceWeight(r.status, policy), 0);
+  // Guard against float drift, e.g. three thirds summing to 0.9999…
+  return Math.floor(total + 1e-9);
+}
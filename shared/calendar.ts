@@ -0,0 +1,208 @@
+import type { Assignment, AttendanceRecord, Class } from "./schema";
+import {
+  addDays,
+  getEngagementWeeks,
+  getSessionDates,
+  parseDateKey,
+  toDateKey,
+  type ClassSchedule,
+} from "./class-schedule";
+
+export const CALENDAR_EVENT_KINDS = ["assignment_due", "engagement_week", "class_meeting", "contract_deadline"] as const;
+
+export type CalendarEventKind = (typeof CALENDAR_EVENT_KINDS)[number];
+
+export const CALENDAR_EVENT_LABELS: Record<CalendarEventKind, string> = {
+  assignment_due: "Due",
+  engagement_week: "Engagement week",
+  class_meeting: "Class meeting",
+  contract_deadline: "Contract deadline",
+};
+
+/**
+ * One entry on the course calendar. All-day events use `YYYY-MM-DD` dates with
+ * an exclusive `end`; timed events use ISO timestamps.
+ */
+export interface CalendarEvent {
+  uid: string; // Stable across refreshes so subscribed calendars update in place
+  kind: CalendarEventKind;
+  classId: number;
+  className: string;
+  title: string;
+  description?: string;
+  allDay: boolean;
+  start: string;
+  end?: string;
+}
+
+export type CalendarClass = Pick<Class, "id" | "name" | "contractDeadline"> & ClassSchedule;
+
+/**
+ * Collect a class's due dates, engagement weeks, meeting days and contract
+ * deadline into calendar events, in date order.
+ */
+export function buildClassCalendar(
+  cls: CalendarClass,
+  assignments: Pick<Assignment, "id" | "name" | "dueDate">[],
+  attendance: (Pick<AttendanceRecord, "date"> & Partial<Pick<AttendanceRecord, "isAdjustment">>)[]
+): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+  const base = { classId: cls.id, className: cls.name };
+
+  for (const assignment of assignments) {
+    if (!assignment.dueDate) continue;
+    const due = new Date(assignment.dueDate);
+    events.push({
+      ...base,
+      uid: `assignment-${assignment.id}`,
+      kind: "assignment_due",
+      title: `${assignment.name} due`,
+      allDay: true,
+      start: toDateKey(due),
+      end: toDateKey(addDays(due, 1)),
+    });
+  }
+
+  for (const week of getEngagementWeeks(cls)) {
+    events.push({
+      ...base,
+      uid: `engagement-${cls.id}-week-${week.weekNumber}`,
+      kind: "engagement_week",
+      title: `Engagement week ${week.weekNumber}`,
+      description: `Set and follow through on your engagement intention for week ${week.weekNumber}.`,
+      allDay: true,
+      start: week.start,
+      end: week.end,
+    });
+  }
+
+  // Scheduled sessions, plus any other day attendance was taken. Manual
+  // absence adjustments aren't tied to a real session, so they're left out.
+  const meetingDays = new Set(getSessionDates(cls));
+  for (const record of attendance) {
+    if (record.isAdjustment) continue;
+    meetingDays.add(toDateKey(new Date(record.date)));
+  }
+  for (const day of Array.from(meetingDays)) {
+    events.push({
+      ...base,
+      uid: `meeting-${cls.id}-${day}`,
+      kind: "class_meeting",
+      title: "Class meeting",
+      allDay: true,
+      start: day,
+      end: toDateKey(addDays(parseDateKey(day), 1)),
+    });
+  }
+
+  if (cls.contractDeadline) {
+    events.push({
+      ...base,
+      uid: `contract-deadline-${cls.id}`,
+      kind: "contract_deadline",
+      title: "Contract selection deadline",
+      description: "Contract choices lock at this time.",
+      allDay: false,
+      start: new Date(cls.contractDeadline).toISOString(),
+    });
+  }
+
+  return sortCalendarEvents(events);
+}
+
+/**
+ * When an event begins, for ordering and grouping by day
+ */
+export function getEventStart(event: CalendarEvent): Date {
+  return event.allDay ? parseDateKey(event.start) : new Date(event.start);
+}
+
+export function sortCalendarEvents(events: CalendarEvent[]): CalendarEvent[] {
+  return [...events].sort((a, b) => getEventStart(a).getTime() - getEventStart(b).getTime());
+}
+
+/**
+ * Whether an event falls on the given day. Multi-day events cover every day
+ * up to their exclusive end.
+ */
+export function isEventOnDay(event: CalendarEvent, day: Date): boolean {
+  const key = toDateKey(day);
+  if (!event.allDay) return toDateKey(new Date(event.start)) === key;
+  return event.start <= key && key < (event.end ?? event.start);
+}
+
+// Text values escape backslashes, separators and newlines (RFC 5545 §3.3.11)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 §3.1)
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // Continuations spend one octet on the space
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function formatDate(dateKey: string): string {
+  return dateKey.replace(/-/g, "");
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Serialize events as an iCalendar (.ics) document for calendar subscriptions
+ */
+export function toICalendar(events: CalendarEvent[], calendarName: string, now: Date = new Date()): string {
+  const stamp = formatTimestamp(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Contract Grading Portal//Course Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}@contract-grading-portal`,
+      `DTSTAMP:${stamp}`
+    );
+    if (event.allDay) {
+      lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start)}`);
+      if (event.end) lines.push(`DTEND;VALUE=DATE:${formatDate(event.end)}`);
+    } else {
+      lines.push(`DTSTART:${formatTimestamp(new Date(event.start))}`);
+    }
+    lines.push(
+      `SUMMARY:${escapeText(`${event.className}: ${event.title}`)}`,
+      `CATEGORIES:${escapeText(CALENDAR_EVENT_LABELS[event.kind])}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,148 @@
+import type { StatusLevel } from "./constants";
+
+// How a letter or text grade reads against a class's status scale
+export const GRADE_BUCKETS = ["missing", "partial", "done"] as const;
+export type GradeBucket = (typeof GRADE_BUCKETS)[number];
+
+export const GRADE_BUCKET_LABELS: Record<GradeBucket, string> = {
+  missing: "Missing",
+  partial: "Partial",
+  done: "Done",
+};
+
+export const DEFAULT_LETTER_GRADE_MAP: Record<string, GradeBucket> = {
+  A: "done",
+  B: "done",
+  C: "partial",
+  D: "partial",
+  F: "missing",
+};
+
+export const CANVAS_GRADING_TYPES = ["points", "percentage", "letter", "status", "numerical_status"] as const;
+export type CanvasGradingType = (typeof CANVAS_GRADING_TYPES)[number];
+
+/**
+ * What a Canvas column was mapped to last time, saved on the class's profile
+ */
+export interface SavedColumnMapping {
+  canvasColumn: string;
+  target: "assignment" | "absences" | "skip";
+  assignmentId: number | null;
+  gradingType: CanvasGradingType;
+}
+
+/**
+ * The saved form of a column mapping as the import dialog builds it
+ */
+export function toSavedColumnMapping(mapping: {
+  canvasColumn: string;
+  portalAssignment: { id: number } | null;
+  gradingType: CanvasGradingType;
+  mappingTarget?: "assignment" | "absences";
+}): SavedColumnMapping {
+  if (mapping.mappingTarget === "absences") {
+    return { canvasColumn: mapping.canvasColumn, target: "absences", assignmentId: null, gradingType: mapping.gradingType };
+  }
+  return mapping.portalAssignment
+    ? { canvasColumn: mapping.canvasColumn, target: "assignment", assignmentId: mapping.portalAssignment.id, gradingType: mapping.gradingType }
+    : { canvasColumn: mapping.canvasColumn, target: "skip", assignmentId: null, gradingType: mapping.gradingType };
+}
+
+/**
+ * The percentage a Canvas score needs to reach one status
+ */
+export interface StatusThreshold {
+  value: number;
+  minPercent: number;
+}
+
+/**
+ * The adjustable part of Canvas grade conversion: letter grades and percentage thresholds
+ */
+export interface GradeConversionSettings {
+  letterGradeMap: Record<string, GradeBucket>;
+  thresholds: StatusThreshold[];
+}
+
+/**
+ * Conversion settings when nothing has been saved: the class scale's own thresholds
+ */
+export function defaultConversionSettings(scale: readonly StatusLevel[]): GradeConversionSettings {
+  return {
+    letterGradeMap: { ...DEFAULT_LETTER_GRADE_MAP },
+    thresholds: scale.map((level) => ({ value: level.value, minPercent: level.minPercent })),
+  };
+}
+
+/**
+ * The class's status scale with saved thresholds applied. Levels without a saved
+ * threshold keep their own, and the lowest level always starts at 0%.
+ */
+export function applyThresholds(scale: readonly StatusLevel[], thresholds: StatusThreshold[]): StatusLevel[] {
+  return scale.map((level, i) => {
+    if (i === 0) return level;
+    const saved = thresholds.find((t) => t.value === level.value);
+    return saved ? { ...level, minPercent: saved.minPercent } : level;
+  });
+}
+
+// Canvas column names are matched ignoring case and surrounding spaces
+function columnKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Find the saved mapping for a column, if it's still usable. Mappings to an
+ * assignment that no longer exists are ignored.
+ */
+export function findSavedMapping(
+  column: string,
+  saved: SavedColumnMapping[],
+  assignmentIds: ReadonlySet<number>
+): SavedColumnMapping | undefined {
+  const match = saved.find((m) => columnKey(m.canvasColumn) === columnKey(column));
+  if (!match) return undefined;
+  if (match.target === "assignment" && (match.assignmentId === null || !assignmentIds.has(match.assignmentId))) {
+    return undefined;
+  }
+  return match;
+}
+
+export type ColumnChange = "new" | "changed";
+
+function sameMapping(a: SavedColumnMapping, b: SavedColumnMapping): boolean {
+  if (a.target !== b.target) return false;
+  // Grade types only matter for columns that become grades
+  return a.target !== "assignment" || (a.assignmentId === b.assignmentId && a.gradingType === b.gradingType);
+}
+
+/**
+ * Columns that weren't in the saved profile, or are now mapped differently.
+ * With no profile yet there's nothing to compare against, so nothing is flagged.
+ */
+export function diffColumnMappings(
+  current: SavedColumnMapping[],
+  saved: SavedColumnMapping[] | null
+): Map<string, ColumnChange> {
+  const changes = new Map<string, ColumnChange>();
+  if (!saved) return changes;
+
+  for (const mapping of current) {
+    const previous = saved.find((m) => columnKey(m.canvasColumn) === columnKey(mapping.canvasColumn));
+    if (!previous) {
+      changes.set(mapping.canvasColumn, "new");
+    } else if (!sameMapping(previous, mapping)) {
+      changes.set(mapping.canvasColumn, "changed");
+    }
+  }
+  return changes;
+}
+
+/**
+ * Fold this import's columns into the saved ones. Columns missing from this
+ * export are kept, since Canvas exports don't always include every column.
+ */
+export function mergeSavedColumns(saved: SavedColumnMapping[], current: SavedColumnMapping[]): SavedColumnMapping[] {
+  const currentKeys = new Set(current.map((m) => columnKey(m.canvasColumn)));
+  return [...saved.filter((m) => !currentKeys.has(columnKey(m.canvasColumn))), ...current];
+}
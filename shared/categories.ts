@@ -0,0 +1,73 @@
+import type { Assignment, Category } from "./schema";
+
+/**
+ * Name shown for assignments that are not in any category
+ */
+export const UNCATEGORIZED = "Uncategorized";
+
+/**
+ * Color used for the uncategorized group
+ */
+export const UNCATEGORIZED_COLOR = "#64748b";
+
+export type CategoryInfo = Pick<Category, "id" | "name" | "color" | "displayOrder">;
+
+/**
+ * Assignments in one category; `category` is null for the uncategorized group
+ */
+export interface CategoryGroup<A> {
+  category: CategoryInfo | null;
+  name: string;
+  color: string;
+  items: A[];
+}
+
+/**
+ * Sort categories by display order, then creation order
+ */
+export function sortCategories<C extends Pick<Category, "id" | "displayOrder">>(categories: C[]): C[] {
+  return [...categories].sort((a, b) => a.displayOrder - b.displayOrder || a.id - b.id);
+}
+
+/**
+ * Group items by their assignment's category, in category display order with
+ * uncategorized items last. Items keep their relative order within a group, and
+ * empty categories are left out unless `includeEmpty` is set.
+ */
+export function groupByCategory<A>(
+  items: A[],
+  categories: CategoryInfo[],
+  getAssignment: (item: A) => Pick<Assignment, "categoryId">,
+  includeEmpty = false
+): CategoryGroup<A>[] {
+  const sorted = sortCategories(categories);
+  const known = new Set(sorted.map((c) => c.id));
+
+  const groups: CategoryGroup<A>[] = sorted.map((category) => ({
+    category,
+    name: category.name,
+    color: category.color,
+    items: items.filter((item) => getAssignment(item).categoryId === category.id),
+  }));
+
+  // Assignments pointing at a deleted category read as uncategorized
+  groups.push({
+    category: null,
+    name: UNCATEGORIZED,
+    color: UNCATEGORIZED_COLOR,
+    items: items.filter((item) => {
+      const categoryId = getAssignment(item).categoryId;
+      return categoryId === null || !known.has(categoryId);
+    }),
+  });
+
+  return groups.filter((group) => includeEmpty ? group.category !== null || group.items.length > 0 : group.items.length > 0);
+}
+
+/**
+ * Look up a category's name, falling back to the uncategorized label
+ */
+export function getCategoryName(categoryId: number | null, categories: Pick<Category, "id" | "name">[]): string {
+  if (categoryId === null) return UNCATEGORIZED;
+  return categories.find((c) => c.id === categoryId)?.name ?? UNCATEGORIZED;
+}
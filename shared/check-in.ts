@@ -0,0 +1,60 @@
+import type { CheckInSession } from "./schema";
+
+// Codes change this often, so one read off a projector can't be shared for long
+export const CHECK_IN_CODE_SECONDS = 30;
+
+export const CHECK_IN_CODE_LENGTH = 6;
+
+// How long instructors can leave check-in open for, in minutes
+export const CHECK_IN_DURATIONS = [5, 10, 15, 30] as const;
+
+export const CHECK_IN_MAX_MINUTES = 60;
+
+// Wrong codes a student may enter before they're locked out of a session
+export const CHECK_IN_MAX_ATTEMPTS = 5;
+
+/**
+ * A check-in session as students see it, without the secret behind the code
+ */
+export type CheckInSessionSummary = Omit<CheckInSession, "secret">;
+
+/**
+ * What the check-in endpoint reports. Instructors get the current code and
+ * how many students have checked in; students get whether they have.
+ */
+export interface CheckInStatus {
+  session: CheckInSessionSummary | null;
+  code?: string;
+  codeExpiresAt?: string;
+  checkedInCount?: number;
+  checkedIn?: boolean;
+}
+
+/**
+ * Whether students can still check in: not closed early and not expired
+ */
+export function isCheckInOpen(
+  session: Pick<CheckInSession, "expiresAt" | "closedAt">,
+  now: Date = new Date()
+): boolean {
+  return !session.closedAt && new Date(session.expiresAt).getTime() > now.getTime();
+}
+
+/**
+ * Which code window a moment falls in. Each window has its own code.
+ */
+export function getCodeWindow(at: Date): number {
+  return Math.floor(at.getTime() / (CHECK_IN_CODE_SECONDS * 1000));
+}
+
+/**
+ * When the code shown at this moment stops being the current one
+ */
+export function getCodeExpiry(at: Date): Date {
+  return new Date((getCodeWindow(at) + 1) * CHECK_IN_CODE_SECONDS * 1000);
+}
+
+export function summarizeCheckInSession(session: CheckInSession): CheckInSessionSummary {
+  const { secret: _secret, ...summary } = session;
+  return summary;
+}
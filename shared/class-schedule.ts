@@ -0,0 +1,165 @@
+import type { Class } from "./schema";
+
+// Engagement weeks in a class without a term end date
+export const ENGAGEMENT_WEEKS = 15;
+
+// Upper bound on the weeks a term spans, so a mistyped end date can't produce years of weeks
+const MAX_WEEKS = 52;
+
+// Indexed by Date.getDay()
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Weekdays a week is judged by when the class has no meeting days set
+const DEFAULT_WEEKDAYS = [1, 2, 3, 4, 5];
+
+/**
+ * A stretch of days without class, such as a holiday or reading week.
+ * Dates are `YYYY-MM-DD` and inclusive at both ends.
+ */
+export interface ScheduleBreak {
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+export type ClassSchedule = Pick<Class, "semesterStartDate" | "semesterEndDate" | "meetingDays" | "scheduleBreaks">;
+
+/**
+ * One engagement week. `end` is the exclusive `YYYY-MM-DD` day after it.
+ */
+export interface ScheduleWeek {
+  weekNumber: number;
+  start: string;
+  end: string;
+}
+
+/**
+ * What the server derives from a class's schedule for its pages
+ */
+export interface ClassScheduleSummary {
+  weeks: ScheduleWeek[];
+  currentWeek: number | null;
+  sessionDates: string[];
+  breaks: ScheduleBreak[];
+}
+
+/**
+ * Format a date as `YYYY-MM-DD` in local time
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parse a `YYYY-MM-DD` date as local midnight (new Date() would read it as UTC)
+ */
+export function parseDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * The break covering a day, if any
+ */
+export function getBreakOn(schedule: Pick<ClassSchedule, "scheduleBreaks">, day: Date): ScheduleBreak | undefined {
+  const key = toDateKey(day);
+  return (schedule.scheduleBreaks ?? []).find((b) => b.startDate <= key && key <= b.endDate);
+}
+
+// A week is skipped when every day the class would meet falls in a break
+function isBreakWeek(schedule: ClassSchedule, weekStart: Date): boolean {
+  const weekdays = schedule.meetingDays?.length ? schedule.meetingDays : DEFAULT_WEEKDAYS;
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)).filter((d) => weekdays.includes(d.getDay()));
+  return days.length > 0 && days.every((d) => getBreakOn(schedule, d));
+}
+
+/**
+ * The class's engagement weeks, starting on the semester start date and
+ * skipping weeks lost to breaks. Runs to the term end date when one is set,
+ * otherwise for ENGAGEMENT_WEEKS weeks. Empty until the start date is set.
+ */
+export function getEngagementWeeks(schedule: ClassSchedule): ScheduleWeek[] {
+  if (!schedule.semesterStartDate) return [];
+
+  const termStart = parseDateKey(schedule.semesterStartDate);
+  const termEnd = schedule.semesterEndDate ? parseDateKey(schedule.semesterEndDate) : null;
+  const weeks: ScheduleWeek[] = [];
+
+  for (let i = 0; i < MAX_WEEKS; i++) {
+    const start = addDays(termStart, i * 7);
+    if (termEnd ? start > termEnd : weeks.length === ENGAGEMENT_WEEKS) break;
+    if (isBreakWeek(schedule, start)) continue;
+    weeks.push({ weekNumber: weeks.length + 1, start: toDateKey(start), end: toDateKey(addDays(start, 7)) });
+  }
+  return weeks;
+}
+
+/**
+ * The engagement week in progress on `today`. Before the term this is week 1;
+ * during a break it stays on the last week before the break. Null when the
+ * class has no weeks yet.
+ */
+export function getCurrentWeekNumber(weeks: ScheduleWeek[], today: Date = new Date()): number | null {
+  if (weeks.length === 0) return null;
+  const key = toDateKey(today);
+  const started = weeks.filter((w) => w.start <= key);
+  return started.length > 0 ? started[started.length - 1].weekNumber : 1;
+}
+
+/**
+ * The `YYYY-MM-DD` days the class meets: its meeting weekdays between the
+ * start date and the term end (or the end of the last engagement week),
+ * excluding breaks.
+ */
+export function getSessionDates(schedule: ClassSchedule): string[] {
+  if (!schedule.semesterStartDate || !schedule.meetingDays?.length) return [];
+
+  const weeks = getEngagementWeeks(schedule);
+  if (weeks.length === 0) return [];
+  const last = schedule.semesterEndDate
+    ? parseDateKey(schedule.semesterEndDate)
+    : addDays(parseDateKey(weeks[weeks.length - 1].end), -1);
+
+  const sessions: string[] = [];
+  for (let day = parseDateKey(schedule.semesterStartDate); day <= last; day = addDays(day, 1)) {
+    if (schedule.meetingDays.includes(day.getDay()) && !getBreakOn(schedule, day)) {
+      sessions.push(toDateKey(day));
+    }
+  }
+  return sessions;
+}
+
+/**
+ * The session to take attendance for by default: today if the class meets
+ * today, otherwise the most recent past session, otherwise the first one.
+ */
+export function getDefaultSessionDate(sessionDates: string[], today: Date = new Date()): string | undefined {
+  const key = toDateKey(today);
+  const past = sessionDates.filter((d) => d <= key);
+  return past.length > 0 ? past[past.length - 1] : sessionDates[0];
+}
+
+/**
+ * Check that the term and its breaks are in order. Returns a message
+ * describing the problem, or null if the schedule is valid.
+ */
+export function getScheduleError(schedule: ClassSchedule): string | null {
+  const { semesterStartDate: start, semesterEndDate: end } = schedule;
+  if (start && end && end < start) {
+    return "The term end date must be after the start date";
+  }
+  for (const b of schedule.scheduleBreaks ?? []) {
+    if (b.endDate < b.startDate) {
+      return `"${b.name}" ends before it starts`;
+    }
+  }
+  return null;
+}
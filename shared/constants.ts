@@ -11,27 +11,94 @@ export const AssignmentStatus = {
 
 export type AssignmentStatusValue = typeof AssignmentStatus[keyof typeof AssignmentStatus];
 
+/**
+ * One level of a class's assignment status scale.
+ * `value` is what gets stored on assignment progress; `minPercent` is the lowest
+ * imported percentage that maps to this level.
+ */
+export interface StatusLevel {
+  value: number;
+  label: string;
+  color: string;
+  isDone: boolean;
+  minPercent: number;
+}
+
+/**
+ * Status scale used when a class has not defined its own, ordered lowest first.
+ * IN_PROGRESS has no level of its own and reads as "Not Submitted".
+ */
+export const DEFAULT_STATUS_SCALE: readonly StatusLevel[] = [
+  { value: AssignmentStatus.NOT_STARTED, label: "Not Submitted", color: "#64748b", isDone: false, minPercent: 0 },
+  { value: AssignmentStatus.COMPLETED, label: "Work-in-Progress", color: "#ca8a04", isDone: false, minPercent: 1 },
+  { value: AssignmentStatus.EXCELLENT, label: "Successfully Completed", color: "#16a34a", isDone: true, minPercent: 70 },
+];
+
+/**
+ * Get a class's status scale, ordered lowest first
+ */
+export function getStatusScale(cls: { statusScale?: StatusLevel[] | null } | null | undefined): readonly StatusLevel[] {
+  return cls?.statusScale && cls.statusScale.length > 0 ? cls.statusScale : DEFAULT_STATUS_SCALE;
+}
+
+/**
+ * Find the scale level a stored status falls on: the highest level at or below it.
+ * Statuses below the first level (or missing) read as the first level.
+ */
+export function getStatusLevel(
+  status: number | null | undefined,
+  scale: readonly StatusLevel[] = DEFAULT_STATUS_SCALE
+): StatusLevel {
+  let level = scale[0];
+  for (const candidate of scale) {
+    if (candidate.value <= (status ?? scale[0].value)) {
+      level = candidate;
+    }
+  }
+  return level;
+}
+
 /**
  * Helper to check if an assignment is considered "done" (successfully completed)
  */
-export function isAssignmentDone(status: number | null | undefined): boolean {
-  return (status ?? 0) >= AssignmentStatus.EXCELLENT;
+export function isAssignmentDone(
+  status: number | null | undefined,
+  scale: readonly StatusLevel[] = DEFAULT_STATUS_SCALE
+): boolean {
+  return getStatusLevel(status, scale).isDone;
 }
 
 /**
  * Get human-readable label for assignment status
  */
-export function getAssignmentStatusLabel(status: number | null | undefined): string {
-  switch (status ?? 0) {
-    case AssignmentStatus.EXCELLENT:
-      return "Successfully Completed";
-    case AssignmentStatus.COMPLETED:
-      return "Work-in-Progress";
-    case AssignmentStatus.NOT_STARTED:
-    case AssignmentStatus.IN_PROGRESS:
-    default:
-      return "Not Submitted";
+export function getAssignmentStatusLabel(
+  status: number | null | undefined,
+  scale: readonly StatusLevel[] = DEFAULT_STATUS_SCALE
+): string {
+  return getStatusLevel(status, scale).label;
+}
+
+/**
+ * Check whether a status is above the bottom of the scale, i.e. some work was recorded
+ */
+export function isAssignmentStarted(
+  status: number | null | undefined,
+  scale: readonly StatusLevel[] = DEFAULT_STATUS_SCALE
+): boolean {
+  return (status ?? scale[0].value) > scale[0].value;
+}
+
+/**
+ * Map an imported percentage onto the scale: the highest level whose minimum it reaches
+ */
+export function getStatusForPercent(percent: number, scale: readonly StatusLevel[] = DEFAULT_STATUS_SCALE): number {
+  let level = scale[0];
+  for (const candidate of scale) {
+    if (percent >= candidate.minPercent) {
+      level = candidate;
+    }
   }
+  return level.value;
 }
 
 /**
@@ -45,7 +112,7 @@ export const UserRole = {
 export type UserRoleValue = typeof UserRole[keyof typeof UserRole];
 
 /**
- * Grade contract levels
+ * Grade contract levels offered when a class has not defined its own tiers
  */
 export const GradeLevel = {
   A: "A",
@@ -54,3 +121,26 @@ export const GradeLevel = {
 } as const;
 
 export type GradeLevelValue = typeof GradeLevel[keyof typeof GradeLevel];
+
+/**
+ * Default contract tiers, ranked from highest to lowest
+ */
+export const DEFAULT_GRADE_TIERS: readonly string[] = [GradeLevel.A, GradeLevel.B, GradeLevel.C];
+
+/**
+ * Get a class's contract tier labels, ranked from highest to lowest
+ */
+export function getGradeTiers(cls: { gradeTiers?: string[] | null } | null | undefined): readonly string[] {
+  return cls?.gradeTiers && cls.gradeTiers.length > 0 ? cls.gradeTiers : DEFAULT_GRADE_TIERS;
+}
+
+/**
+ * Sort items by the rank of their grade in the tier list (unknown grades last)
+ */
+export function sortByGradeTier<T extends { grade: string }>(items: T[], tiers: readonly string[]): T[] {
+  const rank = (grade: string) => {
+    const index = tiers.indexOf(grade);
+    return index === -1 ? tiers.length : index;
+  };
+  return [...items].sort((a, b) => rank(a.grade) - rank(b.grade));
+}
@@ -0,0 +1,12 @@
+import type { Class } from "./schema";
+
+/**
+ * Whether students can no longer pick or confirm a contract in this class
+ */
+export function isContractSelectionLocked(
+  cls: Pick<Class, "contractDeadline">,
+  now: Date = new Date()
+): boolean {
+  if (!cls.contractDeadline) return false;
+  return new Date(cls.contractDeadline).getTime() <= now.getTime();
+}
@@ -0,0 +1,113 @@
+import type { Assignment, Category, GradeContract } from "./schema";
+import { getCategoryName } from "./categories";
+
+type ContractRequirements = Pick<
+  GradeContract,
+  "assignments" | "maxAbsences" | "requiredEngagementIntentions" | "categoryRequirements" | "tokenAllowance"
+> & Partial<Pick<GradeContract, "lateWorkCounts">>;
+
+/**
+ * One difference between two versions of a grade contract
+ */
+export interface ContractChange {
+  kind: "added" | "removed" | "changed";
+  label: string;
+  before: string | null;
+  after: string | null;
+}
+
+/**
+ * List the requirement changes between two contract versions.
+ * Assignment and category names are looked up so the diff reads the way instructors see it.
+ */
+export function diffContracts(
+  before: ContractRequirements,
+  after: ContractRequirements,
+  assignments: Pick<Assignment, "id" | "name">[] = [],
+  categories: Pick<Category, "id" | "name">[] = []
+): ContractChange[] {
+  const changes: ContractChange[] = [];
+  const nameOf = (id: number) => assignments.find((a) => a.id === id)?.name ?? `Assignment #${id}`;
+
+  const numericFields = [
+    { label: "Maximum absences", before: before.maxAbsences ?? 0, after: after.maxAbsences ?? 0 },
+    {
+      label: "Required engagement intentions",
+      before: before.requiredEngagementIntentions ?? 0,
+      after: after.requiredEngagementIntentions ?? 0,
+    },
+    { label: "Token allowance", before: before.tokenAllowance ?? 0, after: after.tokenAllowance ?? 0 },
+  ];
+  for (const field of numericFields) {
+    if (field.before !== field.after) {
+      changes.push({ kind: "changed", label: field.label, before: String(field.before), after: String(field.after) });
+    }
+  }
+
+  const lateBefore = before.lateWorkCounts ?? true;
+  const lateAfter = after.lateWorkCounts ?? true;
+  if (lateBefore !== lateAfter) {
+    changes.push({
+      kind: "changed",
+      label: "Late work counts as done",
+      before: lateBefore ? "Yes" : "No",
+      after: lateAfter ? "Yes" : "No",
+    });
+  }
+
+  const beforeAssignments = new Map(before.assignments.map((a) => [a.id, a]));
+  const afterAssignments = new Map(after.assignments.map((a) => [a.id, a]));
+
+  for (const [id, requirement] of Array.from(afterAssignments.entries())) {
+    const previous = beforeAssignments.get(id);
+    if (!previous) {
+      changes.push({ kind: "added", label: nameOf(id), before: null, after: describeRequirement(requirement) });
+      continue;
+    }
+    if ((previous.minPoints ?? null) !== (requirement.minPoints ?? null)) {
+      changes.push({
+        kind: "changed",
+        label: `${nameOf(id)} minimum points`,
+        before: previous.minPoints !== undefined ? String(previous.minPoints) : "None",
+        after: requirement.minPoints !== undefined ? String(requirement.minPoints) : "None",
+      });
+    }
+    if ((previous.comments || "") !== (requirement.comments || "")) {
+      changes.push({
+        kind: "changed",
+        label: `${nameOf(id)} notes`,
+        before: previous.comments || null,
+        after: requirement.comments || null,
+      });
+    }
+  }
+
+  for (const [id, requirement] of Array.from(beforeAssignments.entries())) {
+    if (!afterAssignments.has(id)) {
+      changes.push({ kind: "removed", label: nameOf(id), before: describeRequirement(requirement), after: null });
+    }
+  }
+
+  // Blank category requirements mean every selected assignment in the category is required
+  const beforeCategories = new Map((before.categoryRequirements ?? []).map((c) => [c.categoryId, c.required]));
+  const afterCategories = new Map((after.categoryRequirements ?? []).map((c) => [c.categoryId, c.required]));
+  const categoryIds = new Set([...Array.from(beforeCategories.keys()), ...Array.from(afterCategories.keys())]);
+  for (const categoryId of Array.from(categoryIds)) {
+    const previous = beforeCategories.get(categoryId);
+    const next = afterCategories.get(categoryId);
+    if (previous !== next) {
+      changes.push({
+        kind: "changed",
+        label: `${getCategoryName(categoryId, categories)} required`,
+        before: previous !== undefined ? String(previous) : "All",
+        after: next !== undefined ? String(next) : "All",
+      });
+    }
+  }
+
+  return changes;
+}
+
+function describeRequirement(requirement: { minPoints?: number }): string {
+  return requirement.minPoints !== undefined ? `Required (min ${requirement.minPoints} points)` : "Required";
+}
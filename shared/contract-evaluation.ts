@@ -0,0 +1,363 @@
+import type {
+  Assignment,
+  AssignmentProgress,
+  AttendanceRecord,
+  Category,
+  EngagementIntention,
+  GradeContract,
+  TokenTransaction,
+} from "./schema";
+import { isAssignmentDone, sortByGradeTier, type StatusLevel } from "./constants";
+import { summarizeTokens } from "./tokens";
+import { getCategoryName, sortCategories } from "./categories";
+import { countAbsences, DEFAULT_ATTENDANCE_POLICY, type AttendancePolicy } from "./attendance";
+import { countAcceptedIntentions } from "./engagement-review";
+
+/**
+ * Everything the evaluator needs to know about a single student in a class.
+ * Only the fields actually read are required so callers can pass API payloads.
+ */
+export interface ContractEvaluationInput {
+  assignments: Pick<Assignment, "id" | "name" | "categoryId" | "scoringType">[];
+  categories?: Pick<Category, "id" | "name" | "displayOrder">[]; // The class's categories; omitted treats all as uncategorized
+  progress: (Pick<AssignmentProgress, "assignmentId" | "status" | "numericGrade"> & Partial<Pick<AssignmentProgress, "isLate">>)[];
+  attendance: (Pick<AttendanceRecord, "status"> & Partial<Pick<AttendanceRecord, "id">>)[];
+  engagementIntentions: Pick<EngagementIntention, "reviewStatus">[];
+  tokenTransactions?: Pick<TokenTransaction, "kind" | "purpose" | "amount" | "status" | "attendanceRecordId">[];
+  statusScale?: readonly StatusLevel[]; // The class's scale; omitted uses the default
+  attendancePolicy?: AttendancePolicy;   // How late arrivals count; omitted uses the default
+}
+
+/**
+ * Verdict for one assignment required by the contract
+ */
+export interface AssignmentVerdict {
+  assignmentId: number;
+  name: string;
+  categoryId: number | null; // null when uncategorized
+  category: string;          // Category name
+  scoringType: "status" | "numeric";
+  status: number | null;
+  points: number | null;
+  minPoints: number | null;
+  meetsMinPoints: boolean | null; // null when the contract sets no minimum
+  isLate: boolean;
+  isDone: boolean;                // false for late work when the contract doesn't count it
+}
+
+/**
+ * Verdict for one category of required assignments.
+ * Without an explicit categoryRequirement, every assignment in the category is required.
+ */
+export interface CategoryVerdict {
+  categoryId: number | null;
+  category: string;
+  completed: number;
+  required: number;
+  total: number;
+  hasExplicitRequirement: boolean;
+  isMet: boolean;
+}
+
+export interface CountVerdict {
+  current: number;
+  limit: number;
+  isMet: boolean;
+}
+
+/**
+ * Full evaluation of a student against a grade contract
+ */
+export interface ContractEvaluation {
+  contractId: number;
+  grade: string;
+  assignments: AssignmentVerdict[];
+  categories: CategoryVerdict[];
+  requiredAssignments: CountVerdict; // completed vs. required across all categories
+  absences: CountVerdict;            // absences taken vs. maxAbsences, less those covered by tokens
+  engagement: CountVerdict;          // fulfilled intentions (plus token-covered ones) vs. requiredEngagementIntentions
+  tokens: CountVerdict;              // tokens spent vs. tokenAllowance plus grants
+  isMet: boolean;
+  isAttainable: boolean;             // false once a requirement can no longer be recovered
+}
+
+/**
+ * Parse a decimal column value (stored as string) into a number
+ */
+function parsePoints(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Evaluate a student's standing against a single grade contract.
+ * This is the single source of truth for whether contract requirements are met.
+ */
+export function evaluateContract(
+  contract: Pick<
+    GradeContract,
+    "id" | "grade" | "assignments" | "maxAbsences" | "requiredEngagementIntentions" | "categoryRequirements" | "tokenAllowance"
+  > & Partial<Pick<GradeContract, "lateWorkCounts">>,
+  input: ContractEvaluationInput
+): ContractEvaluation {
+  const categories = input.categories ?? [];
+  const knownCategoryIds = new Set(categories.map((c) => c.id));
+  const assignmentsById = new Map(input.assignments.map((a) => [a.id, a]));
+  const progressByAssignment = new Map(input.progress.map((p) => [p.assignmentId, p]));
+
+  // Evaluate each required assignment that still exists in the class
+  const assignmentVerdicts: AssignmentVerdict[] = [];
+  for (const requirement of contract.assignments) {
+    const assignment = assignmentsById.get(requirement.id);
+    if (!assignment) continue;
+
+    const progress = progressByAssignment.get(assignment.id);
+    const points = parsePoints(progress?.numericGrade);
+    const minPoints = requirement.minPoints ?? null;
+    const meetsMinPoints = minPoints === null ? null : (points ?? 0) >= minPoints;
+
+    let isDone: boolean;
+    if (assignment.scoringType === "numeric") {
+      isDone = points !== null && meetsMinPoints !== false;
+    } else {
+      isDone = !!progress && isAssignmentDone(progress.status, input.statusScale);
+    }
+
+    const isLate = progress?.isLate ?? false;
+    if (isLate && contract.lateWorkCounts === false) {
+      isDone = false;
+    }
+
+    // Assignments pointing at a deleted category count as uncategorized
+    const categoryId = assignment.categoryId !== null && knownCategoryIds.has(assignment.categoryId)
+      ? assignment.categoryId
+      : null;
+
+    assignmentVerdicts.push({
+      assignmentId: assignment.id,
+      name: assignment.name,
+      categoryId,
+      category: getCategoryName(categoryId, categories),
+      scoringType: assignment.scoringType,
+      status: progress?.status ?? null,
+      points,
+      minPoints,
+      meetsMinPoints,
+      isLate,
+      isDone,
+    });
+  }
+
+  // Group verdicts by category
+  const categoryTotals = new Map<number | null, { completed: number; total: number }>();
+  for (const verdict of assignmentVerdicts) {
+    const totals = categoryTotals.get(verdict.categoryId) ?? { completed: 0, total: 0 };
+    totals.total++;
+    if (verdict.isDone) totals.completed++;
+    categoryTotals.set(verdict.categoryId, totals);
+  }
+
+  // Explicit requirements may name a category the contract has no assignments in
+  for (const requirement of contract.categoryRequirements ?? []) {
+    if (!categoryTotals.has(requirement.categoryId)) {
+      categoryTotals.set(requirement.categoryId, { completed: 0, total: 0 });
+    }
+  }
+
+  // Report categories in display order, uncategorized last
+  const rank = new Map(sortCategories(categories).map((c, index) => [c.id, index]));
+  const categoryIds = Array.from(categoryTotals.keys()).sort(
+    (a, b) => (a === null ? Infinity : rank.get(a) ?? Infinity) - (b === null ? Infinity : rank.get(b) ?? Infinity)
+  );
+
+  const categoryVerdicts: CategoryVerdict[] = categoryIds.map((categoryId) => {
+    const totals = categoryTotals.get(categoryId)!;
+    const explicit = contract.categoryRequirements?.find((cr) => cr.categoryId === categoryId);
+    const required = explicit ? explicit.required : totals.total;
+    return {
+      categoryId,
+      category: getCategoryName(categoryId, categories),
+      completed: totals.completed,
+      required,
+      total: totals.total,
+      hasExplicitRequirement: !!explicit,
+      isMet: totals.completed >= required,
+    };
+  });
+
+  const requiredAssignments: CountVerdict = {
+    current: categoryVerdicts.reduce((sum, c) => sum + Math.min(c.completed, c.required), 0),
+    limit: categoryVerdicts.reduce((sum, c) => sum + c.required, 0),
+    isMet: categoryVerdicts.every((c) => c.isMet),
+  };
+
+  // Approved token spends excuse specific absences and stand in for missed engagement
+  const approvedSpends = (input.tokenTransactions ?? []).filter((t) => t.kind === "spend" && t.status === "approved");
+  const excusedAbsenceIds = new Set(
+    approvedSpends.filter((t) => t.purpose === "absence").map((t) => t.attendanceRecordId)
+  );
+  const coveredIntentions = approvedSpends.filter((t) => t.purpose === "missed_engagement").length;
+
+  // Excused sessions never count; late and tardy arrivals count as fractions of an absence
+  const absenceCount = countAbsences(
+    input.attendance.filter((r) => !(r.id !== undefined && excusedAbsenceIds.has(r.id))),
+    input.attendancePolicy ?? DEFAULT_ATTENDANCE_POLICY
+  );
+  const maxAbsences = contract.maxAbsences ?? 0;
+  const absences: CountVerdict = {
+    current: absenceCount,
+    limit: maxAbsences,
+    isMet: absenceCount <= maxAbsences,
+  };
+
+  // Only intentions the instructor accepted count; the student saying so isn't enough
+  const fulfilledCount = countAcceptedIntentions(input.engagementIntentions) + coveredIntentions;
+  const requiredIntentions = contract.requiredEngagementIntentions ?? 0;
+  const engagement: CountVerdict = {
+    current: fulfilledCount,
+    limit: requiredIntentions,
+    isMet: fulfilledCount >= requiredIntentions,
+  };
+
+  const balance = summarizeTokens(contract.tokenAllowance ?? 0, input.tokenTransactions ?? []);
+  const tokens: CountVerdict = {
+    current: balance.spent,
+    limit: balance.allowance + balance.granted,
+    isMet: balance.spent <= balance.allowance + balance.granted,
+  };
+
+  return {
+    contractId: contract.id,
+    grade: contract.grade,
+    assignments: assignmentVerdicts,
+    categories: categoryVerdicts,
+    requiredAssignments,
+    absences,
+    engagement,
+    tokens,
+    isMet: requiredAssignments.isMet && absences.isMet && engagement.isMet && tokens.isMet,
+    // Absences and spent tokens cannot be taken back later in the term
+    isAttainable: absences.isMet && tokens.isMet,
+  };
+}
+
+/**
+ * Keep only the latest version of each grade's contract
+ */
+export function latestContractsByGrade<T extends Pick<GradeContract, "grade" | "version">>(contracts: T[]): T[] {
+  return contracts.reduce((latest, contract) => {
+    const existing = latest.find((c) => c.grade === contract.grade);
+    if (!existing || existing.version < contract.version) {
+      return [...latest.filter((c) => c.grade !== contract.grade), contract];
+    }
+    return latest;
+  }, [] as T[]);
+}
+
+/**
+ * Whether a contract is the latest version for its grade. Students can only
+ * choose or request the latest version; older ones are kept for pinned students.
+ */
+export function isLatestContractVersion<T extends Pick<GradeContract, "id" | "grade" | "version">>(
+  contracts: T[],
+  contractId: number
+): boolean {
+  return latestContractsByGrade(contracts).some((c) => c.id === contractId);
+}
+
+/**
+ * Raised when a student's confirmed contract can no longer be achieved
+ */
+export interface ContractWarning {
+  fromGrade: string;
+  toGrade: string | null; // highest grade still attainable, null if none
+  reasons: string[];
+}
+
+/**
+ * Downgrade warning for one student, as listed on the instructor dashboard
+ */
+export interface StudentContractWarning extends ContractWarning {
+  classId: number;
+  className: string;
+  studentId: number;
+  studentName: string;
+  earnedGrade: string | null;
+}
+
+/**
+ * A student's standing across every contract offered in the class
+ */
+export interface ContractStanding {
+  selectedContractId: number | null;
+  selectedGrade: string | null;
+  isConfirmed: boolean;
+  earnedGrade: string | null;      // highest grade whose requirements are all met right now
+  attainableGrade: string | null;  // highest grade the student would fall to if nothing else changes
+  evaluations: ContractEvaluation[];
+  warning: ContractWarning | null;
+}
+
+/**
+ * Describe why a contract is no longer attainable
+ */
+function describeViolations(evaluation: ContractEvaluation): string[] {
+  const reasons: string[] = [];
+  if (!evaluation.absences.isMet) {
+    reasons.push(
+      `${evaluation.absences.current} absences exceeds the maximum of ${evaluation.absences.limit}`
+    );
+  }
+  if (!evaluation.tokens.isMet) {
+    reasons.push(
+      `${evaluation.tokens.current} tokens spent exceeds the allowance of ${evaluation.tokens.limit}`
+    );
+  }
+  return reasons;
+}
+
+/**
+ * Evaluate a student against every contract in the class and determine the
+ * highest grade currently earned, the grade they would fall to, and whether
+ * they have slipped below their confirmed contract.
+ *
+ * Grades are ranked by the order of `gradeOrder` (highest first).
+ */
+export function evaluateStanding(
+  contracts: GradeContract[],
+  studentContract: { contractId: number | null; isConfirmed: boolean | null } | null | undefined,
+  input: ContractEvaluationInput,
+  gradeOrder: readonly string[]
+): ContractStanding {
+  // Students are held to the exact contract they selected, other grades use the latest version
+  const selected = contracts.find((c) => c.id === studentContract?.contractId) ?? null;
+  const candidates = sortByGradeTier(
+    latestContractsByGrade(contracts).map((c) => (selected && c.grade === selected.grade ? selected : c)),
+    gradeOrder
+  );
+
+  const evaluations = candidates.map((contract) => evaluateContract(contract, input));
+  const earned = evaluations.find((e) => e.isMet) ?? null;
+  const attainable = evaluations.find((e) => e.isAttainable) ?? null;
+
+  let warning: ContractWarning | null = null;
+  const selectedEvaluation = selected ? evaluations.find((e) => e.contractId === selected.id) : undefined;
+  if (selectedEvaluation && studentContract?.isConfirmed && !selectedEvaluation.isAttainable) {
+    warning = {
+      fromGrade: selectedEvaluation.grade,
+      toGrade: attainable?.grade ?? null,
+      reasons: describeViolations(selectedEvaluation),
+    };
+  }
+
+  return {
+    selectedContractId: selected?.id ?? null,
+    selectedGrade: selected?.grade ?? null,
+    isConfirmed: !!studentContract?.isConfirmed,
+    earnedGrade: earned?.grade ?? null,
+    attainableGrade: attainable?.grade ?? null,
+    evaluations,
+    warning,
+  };
+}
@@ -0,0 +1,64 @@
+import type { EngagementIntention } from "./schema";
+
+/**
+ * Where an engagement intention is in its two-step fulfillment:
+ * - open:       set for the week, not yet claimed
+ * - submitted:  the student says they fulfilled it and is waiting on the instructor
+ * - accepted:   the instructor agrees; only these count toward the contract
+ * - rejected:   the instructor doesn't agree; final for that week
+ * - needs_more: the instructor wants more before deciding; the student can resubmit
+ */
+export const ENGAGEMENT_REVIEW_STATUSES = ["open", "submitted", "accepted", "rejected", "needs_more"] as const;
+
+export type EngagementReviewStatus = (typeof ENGAGEMENT_REVIEW_STATUSES)[number];
+
+// The decisions an instructor can make on a submitted intention
+export const ENGAGEMENT_REVIEW_DECISIONS = ["accepted", "rejected", "needs_more"] as const;
+
+export type EngagementReviewDecision = (typeof ENGAGEMENT_REVIEW_DECISIONS)[number];
+
+export const ENGAGEMENT_REVIEW_STATUS_LABELS: Record<EngagementReviewStatus, string> = {
+  open: "Not submitted",
+  submitted: "Awaiting review",
+  accepted: "Accepted",
+  rejected: "Not accepted",
+  needs_more: "More needed",
+};
+
+// The rubric instructors score each submission against
+export const ENGAGEMENT_RUBRIC = [
+  { key: "depth", label: "Depth", description: "Went beyond the minimum" },
+  { key: "followThrough", label: "Follow-through", description: "Did what they set out to do" },
+  { key: "reflection", label: "Reflection", description: "Thought about what they got out of it" },
+] as const;
+
+export type EngagementRubricCriterion = (typeof ENGAGEMENT_RUBRIC)[number]["key"];
+
+export type EngagementRubricScores = Partial<Record<EngagementRubricCriterion, number>>;
+
+export const ENGAGEMENT_RUBRIC_LEVELS = [
+  { value: 1, label: "Beginning" },
+  { value: 2, label: "Developing" },
+  { value: 3, label: "Strong" },
+] as const;
+
+/**
+ * Whether the student can (re)submit the intention as fulfilled
+ */
+export function canSubmitFulfillment(status: EngagementReviewStatus): boolean {
+  return status === "open" || status === "submitted" || status === "needs_more";
+}
+
+/**
+ * Whether the student can still change what they intended to do
+ */
+export function canEditIntention(status: EngagementReviewStatus): boolean {
+  return status !== "accepted" && status !== "rejected";
+}
+
+/**
+ * Number of intentions the instructor has accepted
+ */
+export function countAcceptedIntentions(intentions: Pick<EngagementIntention, "reviewStatus">[]): number {
+  return intentions.filter((i) => i.reviewStatus === "accepted").length;
+}
@@ -0,0 +1,67 @@
+import type { AssignmentProgress } from "./schema";
+
+/**
+ * The audit log fields reverting looks at; the client reads these from JSON
+ */
+interface LoggedEntry {
+  action: string;
+  entityType: string;
+  newValues: Record<string, unknown> | null;
+}
+
+/**
+ * The parts of a grade an audit entry records and a revert restores
+ */
+export type LoggedGrade = Pick<AssignmentProgress, "status" | "numericGrade" | "feedback">;
+
+/**
+ * Read the grade out of an audit entry's old or new values. Values that weren't
+ * logged, including a missing row before a CREATE, read as ungraded.
+ */
+export function loggedGrade(values: Record<string, unknown> | null | undefined): LoggedGrade {
+  return {
+    status: typeof values?.status === "number" ? values.status : null,
+    numericGrade: values?.numericGrade !== null && values?.numericGrade !== undefined ? String(values.numericGrade) : null,
+    feedback: typeof values?.feedback === "string" ? values.feedback : null,
+  };
+}
+
+/**
+ * Whether two grades match. Decimal columns come back as "3.50", so scores
+ * compare by value.
+ */
+export function sameGrade(a: LoggedGrade, b: LoggedGrade): boolean {
+  const sameScore = a.numericGrade === null || b.numericGrade === null
+    ? a.numericGrade === b.numericGrade
+    : Number(a.numericGrade) === Number(b.numericGrade);
+  return a.status === b.status && sameScore && (a.feedback ?? null) === (b.feedback ?? null);
+}
+
+/**
+ * Grade changes can be reverted, including earlier reverts; other activity can't
+ */
+export function isRevertibleEntry(log: LoggedEntry): boolean {
+  return (
+    log.entityType === "assignment_progress" &&
+    (log.action === "CREATE" || log.action === "UPDATE" || log.action === "REVERT") &&
+    typeof log.newValues?.studentId === "number" &&
+    typeof log.newValues?.assignmentId === "number"
+  );
+}
+
+/**
+ * IDs of entries and batches that a later revert in `logs` has already undone
+ */
+export function findRevertedEntries(logs: Pick<LoggedEntry, "action" | "newValues">[]): {
+  entryIds: Set<number>;
+  batchIds: Set<string>;
+} {
+  const entryIds = new Set<number>();
+  const batchIds = new Set<string>();
+  for (const log of logs) {
+    if (log.action !== "REVERT") continue;
+    if (typeof log.newValues?.revertOf === "number") entryIds.add(log.newValues.revertOf);
+    if (typeof log.newValues?.revertedBatchId === "string") batchIds.add(log.newValues.revertedBatchId);
+  }
+  return { entryIds, batchIds };
+}
@@ -0,0 +1,70 @@
+import type { Assignment, AssignmentProgress } from "./schema";
+import { getAssignmentStatusLabel, type StatusLevel } from "./constants";
+
+// Numeric assignments are scored on a 0-4 scale
+export const NUMERIC_GRADE_MAX = 4;
+
+// Most cells one gradebook save can change
+export const GRADEBOOK_BATCH_LIMIT = 2000;
+
+/**
+ * Split text copied from a spreadsheet into rows of cells.
+ * Spreadsheets copy tab-separated rows and usually end with a newline.
+ */
+export function parsePastedGrid(text: string): string[][] {
+  const rows = text.replace(/\r\n?/g, "\n").split("\n");
+  if (rows.length > 1 && rows[rows.length - 1] === "") {
+    rows.pop();
+  }
+  return rows.map((row) => row.split("\t").map((cell) => cell.trim()));
+}
+
+export type ParsedGradeCell =
+  | { ok: true; value: number | null } // null clears the grade
+  | { ok: false; error: string };
+
+/**
+ * Read what was typed or pasted into a gradebook cell. Status assignments take a
+ * level's label or value; numeric ones take a score. A blank cell clears the grade.
+ */
+export function parseGradeCell(
+  input: string,
+  scoringType: Assignment["scoringType"],
+  scale: readonly StatusLevel[]
+): ParsedGradeCell {
+  const text = input.trim();
+  if (text === "") {
+    return { ok: true, value: null };
+  }
+
+  if (scoringType === "status") {
+    const level = scale.find((l) => l.label.toLowerCase() === text.toLowerCase() || String(l.value) === text);
+    return level
+      ? { ok: true, value: level.value }
+      : { ok: false, error: `"${text}" isn't a status on this class's scale` };
+  }
+
+  const score = Number(text);
+  if (!Number.isFinite(score) || score < 0 || score > NUMERIC_GRADE_MAX) {
+    return { ok: false, error: `Scores must be between 0 and ${NUMERIC_GRADE_MAX}` };
+  }
+  return { ok: true, value: score };
+}
+
+/**
+ * What a gradebook cell shows for a student's current grade
+ */
+export function formatGradeCell(
+  progress: Pick<AssignmentProgress, "status" | "numericGrade"> | undefined,
+  scoringType: Assignment["scoringType"],
+  scale: readonly StatusLevel[]
+): string {
+  if (scoringType === "status") {
+    return progress?.status !== null && progress?.status !== undefined
+      ? getAssignmentStatusLabel(progress.status, scale)
+      : "";
+  }
+  return progress?.numericGrade !== null && progress?.numericGrade !== undefined
+    ? String(Number(progress.numericGrade))
+    : "";
+}
@@ -0,0 +1,81 @@
+import type { Assignment, AssignmentProgress, EngagementIntention, User } from "./schema";
+import { DEFAULT_STATUS_SCALE, isAssignmentDone, isAssignmentStarted, type StatusLevel } from "./constants";
+import { getDueDeadline } from "./late-policy";
+
+/**
+ * Everything waiting on an instructor, across their active classes.
+ * `since` is when the item started waiting and drives the age sort.
+ */
+interface GradingQueueItemBase {
+  key: string;
+  classId: number;
+  className: string;
+  studentId: number;
+  studentName: string;
+  since: string;
+}
+
+export type GradingQueueItem =
+  | (GradingQueueItemBase & {
+      kind: "overdue_work" | "submission";
+      assignment: Assignment;
+      progress: AssignmentProgress;
+    })
+  | (GradingQueueItemBase & {
+      kind: "contract_confirmation";
+      student: Pick<User, "id" | "username" | "fullName" | "role">;
+      contractGrade: string | null;
+    })
+  | (GradingQueueItemBase & {
+      kind: "engagement_intention";
+      intention: EngagementIntention;
+    })
+  | (GradingQueueItemBase & {
+      kind: "password_reset";
+      resetRequestId: number;
+      token: string;
+      expiresAt: string;
+    });
+
+export type GradingQueueKind = GradingQueueItem["kind"];
+
+export const GRADING_QUEUE_LABELS: Record<GradingQueueKind, string> = {
+  overdue_work: "Past due",
+  submission: "Submitted work",
+  contract_confirmation: "Contract confirmation",
+  engagement_intention: "Engagement",
+  password_reset: "Password reset",
+};
+
+export type GradingQueueOrder = "oldest" | "newest";
+
+/**
+ * Work that is past due but was started and not finished. Submissions awaiting
+ * review are queued separately, so they are not counted here.
+ */
+export function isOverdueWork(
+  assignment: Pick<Assignment, "dueDate">,
+  progress: Pick<AssignmentProgress, "status" | "awaitingReview"> | undefined,
+  now: Date = new Date(),
+  scale: readonly StatusLevel[] = DEFAULT_STATUS_SCALE
+): boolean {
+  if (!assignment.dueDate || !progress || progress.awaitingReview) {
+    return false;
+  }
+
+  return (
+    now > getDueDeadline(assignment.dueDate) &&
+    isAssignmentStarted(progress.status, scale) &&
+    !isAssignmentDone(progress.status, scale)
+  );
+}
+
+/**
+ * Sort queue items by how long they have been waiting
+ */
+export function sortGradingQueue<T extends { since: string }>(items: T[], order: GradingQueueOrder = "oldest"): T[] {
+  const direction = order === "oldest" ? 1 : -1;
+  return [...items].sort(
+    (a, b) => direction * (new Date(a.since).getTime() - new Date(b.since).getTime())
+  );
+}
@@ -0,0 +1,60 @@
+import type { Assignment } from "./schema";
+
+export const IMPORT_RUN_STATUSES = ["applied", "rolled_back"] as const;
+export type ImportRunStatus = (typeof IMPORT_RUN_STATUSES)[number];
+
+// An import changes grades one assignment at a time, and absences as a per-student count
+export const IMPORT_RUN_CHANGE_KINDS = ["grade", "absences"] as const;
+export type ImportRunChangeKind = (typeof IMPORT_RUN_CHANGE_KINDS)[number];
+
+/**
+ * How one source column was read, as recorded on the run
+ */
+export interface ImportRunMapping {
+  canvasColumn: string;
+  target: "assignment" | "absences";
+  assignmentId: number | null;
+  assignmentName: string | null;
+  gradingType: string;
+}
+
+export interface ImportRunSummary {
+  processedStudents: number;
+  processedGrades: number;
+  processedAbsences: number;
+}
+
+export interface ImportRunError {
+  student: string;
+  assignment: string;
+  error: string;
+}
+
+/**
+ * Keep just the columns that were mapped to something, without the full
+ * assignment each mapping carries
+ */
+export function toRunMappings(
+  mappings: {
+    canvasColumn: string;
+    portalAssignment: Pick<Assignment, "id" | "name"> | null;
+    gradingType: string;
+    mappingTarget?: "assignment" | "absences";
+  }[]
+): ImportRunMapping[] {
+  return mappings.flatMap((mapping): ImportRunMapping[] => {
+    if (mapping.mappingTarget === "absences") {
+      return [{ canvasColumn: mapping.canvasColumn, target: "absences", assignmentId: null, assignmentName: null, gradingType: mapping.gradingType }];
+    }
+    if (!mapping.portalAssignment) {
+      return [];
+    }
+    return [{
+      canvasColumn: mapping.canvasColumn,
+      target: "assignment",
+      assignmentId: mapping.portalAssignment.id,
+      assignmentName: mapping.portalAssignment.name,
+      gradingType: mapping.gradingType,
+    }];
+  });
+}
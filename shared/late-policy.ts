@@ -0,0 +1,98 @@
+import type { Assignment } from "./schema";
+
+/**
+ * What happens to work handed in after an assignment's due date:
+ * - accept: taken as on-time work
+ * - flag:   taken, but marked late
+ * - reject: students can no longer submit once the assignment closes
+ */
+export const LATE_POLICIES = ["accept", "flag", "reject"] as const;
+
+export type LatePolicy = (typeof LATE_POLICIES)[number];
+
+export const LATE_POLICY_LABELS: Record<LatePolicy, string> = {
+  accept: "Accept late work",
+  flag: "Accept late work with a flag",
+  reject: "Reject work after close",
+};
+
+export type AssignmentWindow = Pick<Assignment, "dueDate" | "opensAt" | "closesAt" | "latePolicy">;
+
+export type Availability = "not_open" | "open" | "closed";
+
+/**
+ * The last moment work counts as on time. Due dates run to the end of the day.
+ */
+export function getDueDeadline(dueDate: Date | string): Date {
+  const due = new Date(dueDate);
+  due.setHours(23, 59, 59, 999);
+  return due;
+}
+
+/**
+ * The moment students can no longer hand in work: the close date, or the due
+ * date when the assignment rejects late work without a close date. Null when
+ * late work is taken indefinitely.
+ */
+export function getCloseDeadline(assignment: AssignmentWindow): Date | null {
+  if (assignment.latePolicy !== "reject") return null;
+  if (assignment.closesAt) return new Date(assignment.closesAt);
+  return assignment.dueDate ? getDueDeadline(assignment.dueDate) : null;
+}
+
+/**
+ * Whether students can hand in work for the assignment at `at`
+ */
+export function getAvailability(assignment: AssignmentWindow, at: Date = new Date()): Availability {
+  if (assignment.opensAt && at < new Date(assignment.opensAt)) return "not_open";
+  const closes = getCloseDeadline(assignment);
+  if (closes && at > closes) return "closed";
+  return "open";
+}
+
+/**
+ * Whether work handed in at `at` should be flagged late
+ */
+export function isLateWork(assignment: AssignmentWindow, at: Date = new Date()): boolean {
+  if (!assignment.dueDate || assignment.latePolicy === "accept") return false;
+  return at > getDueDeadline(assignment.dueDate);
+}
+
+/**
+ * Explain why a student cannot submit right now, or null if they can
+ */
+export function getSubmissionBlockReason(assignment: AssignmentWindow, at: Date = new Date()): string | null {
+  switch (getAvailability(assignment, at)) {
+    case "not_open":
+      return "This assignment is not open for submissions yet";
+    case "closed":
+      return "This assignment is closed and no longer accepts late work";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check that an assignment's open, due and close dates are in order.
+ * Returns a message describing the problem, or null if the window is valid.
+ */
+export function getWindowError(window: {
+  dueDate?: Date | string | null;
+  opensAt?: Date | string | null;
+  closesAt?: Date | string | null;
+}): string | null {
+  const opens = window.opensAt ? new Date(window.opensAt) : null;
+  const closes = window.closesAt ? new Date(window.closesAt) : null;
+  const due = window.dueDate ? getDueDeadline(window.dueDate) : null;
+
+  if (opens && closes && opens >= closes) {
+    return "The open date must be before the close date";
+  }
+  if (opens && due && opens > due) {
+    return "The open date can't be after the due date";
+  }
+  if (closes && window.dueDate && closes < new Date(window.dueDate)) {
+    return "The close date can't be before the due date";
+  }
+  return null;
+}
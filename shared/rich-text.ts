@@ -0,0 +1,47 @@
+/**
+ * Tags the rich text editor produces. Everything else is stripped.
+ */
+const ALLOWED_TAGS = new Set([
+  "p", "br", "hr", "strong", "b", "em", "i", "s", "u", "code", "pre", "blockquote",
+  "h1", "h2", "h3", "h4", "h5", "h6", "ul", "ol", "li",
+]);
+
+/**
+ * Elements whose content must be dropped along with the tags
+ */
+const DROP_WITH_CONTENT = ["script", "style", "iframe", "object", "embed", "noscript", "template", "textarea", "title"];
+
+const VOID_TAGS = new Set(["br", "hr"]);
+
+/**
+ * Reduce editor HTML to a small set of formatting tags with no attributes.
+ * Anything that could carry script (attributes, links, unknown tags) is removed.
+ */
+export function sanitizeRichText(html: string): string {
+  let result = html.replace(/<!--[\s\S]*?-->/g, "");
+
+  for (const tag of DROP_WITH_CONTENT) {
+    result = result.replace(new RegExp(`<${tag}\\b[\\s\\S]*?<\\/${tag}\\s*>`, "gi"), "");
+  }
+
+  // Rebuild each tag from its name alone so no attributes survive
+  result = result.replace(/<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b[^>]*>/g, (_match, closing: string, name: string) => {
+    const tag = name.toLowerCase();
+    if (!ALLOWED_TAGS.has(tag)) return "";
+    if (closing) return VOID_TAGS.has(tag) ? "" : `</${tag}>`;
+    return `<${tag}>`;
+  });
+
+  // Escape any "<" that is not one of the rebuilt tags
+  result = result.replace(/<(?!\/?[a-z0-9]+>)/g, "&lt;");
+
+  return result.trim();
+}
+
+/**
+ * Whether editor HTML has no visible text, e.g. "<p></p>"
+ */
+export function isRichTextEmpty(html: string | null | undefined): boolean {
+  if (!html) return true;
+  return html.replace(/<[^>]*>/g, "").replace(/&nbsp;/g, " ").trim() === "";
+}
@@ -1,6 +1,31 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, decimal, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { StatusLevel } from "./constants";
+import { LATE_POLICIES } from "./late-policy";
+import type { ScheduleBreak } from "./class-schedule";
+import { ATTENDANCE_STATUSES, type AttendancePolicy } from "./attendance";
+import { CHECK_IN_MAX_MINUTES } from "./check-in";
+import {
+  CANVAS_GRADING_TYPES,
+  GRADE_BUCKETS,
+  type GradeConversionSettings,
+  type SavedColumnMapping,
+} from "./canvas-mapping";
+import {
+  IMPORT_RUN_CHANGE_KINDS,
+  IMPORT_RUN_STATUSES,
+  type ImportRunError,
+  type ImportRunMapping,
+  type ImportRunSummary,
+} from "./import-runs";
+import {
+  ENGAGEMENT_REVIEW_DECISIONS,
+  ENGAGEMENT_REVIEW_STATUSES,
+  ENGAGEMENT_RUBRIC_LEVELS,
+  type EngagementRubricScores,
+} from "./engagement-review";
+import { GRADEBOOK_BATCH_LIMIT, NUMERIC_GRADE_MAX } from "./gradebook";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -19,27 +44,51 @@ export const classes = pgTable("classes", {
   isArchived: boolean("is_archived").default(false),
   description: text("description"),
   semesterStartDate: text("semester_start_date"),
+  semesterEndDate: text("semester_end_date"), // Last day of the term; null runs engagement for the default number of weeks
+  meetingDays: json("meeting_days").$type<number[]>(), // Weekdays the class meets, 0 = Sunday
+  scheduleBreaks: json("schedule_breaks").$type<ScheduleBreak[]>(), // Holidays and breaks with no class
+  contractDeadline: timestamp("contract_deadline"), // Contract selection locks after this moment
+  defaultContractGrade: text("default_contract_grade"), // Applied to students who never chose
+  gradeTiers: json("grade_tiers").$type<string[]>(), // Contract tier labels, highest first; null uses A/B/C
+  statusScale: json("status_scale").$type<StatusLevel[]>(), // Assignment status levels, lowest first; null uses the default scale
+  attendancePolicy: json("attendance_policy").$type<AttendancePolicy>(), // How lates and tardies count toward absences; null uses the default
+});
+
+export const categories = pgTable("categories", {
+  id: serial("id").primaryKey(),
+  classId: integer("class_id").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  color: text("color").notNull().default("#0072BC"),
+  displayOrder: integer("display_order").notNull().default(0),
 });
 
 export const assignments = pgTable("assignments", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   classId: integer("class_id").notNull(),
-  moduleGroup: text("module_group"),
+  categoryId: integer("category_id"), // null is uncategorized
+  moduleGroup: text("module_group"), // Legacy free-text category, moved into categories at startup
   scoringType: text("scoring_type", { enum: ["status", "numeric"] }).notNull(),
   displayOrder: integer("display_order").notNull().default(0),
   dueDate: timestamp("due_date"),
+  opensAt: timestamp("opens_at"), // Students can submit from this moment; null is open right away
+  closesAt: timestamp("closes_at"), // Last moment to submit when the late policy rejects late work
+  latePolicy: text("late_policy", { enum: LATE_POLICIES }).notNull().default("flag"),
+  attemptLimit: integer("attempt_limit"), // Graded attempts allowed, including the first; null is unlimited
 });
 
 export const gradeContracts = pgTable("grade_contracts", {
   id: serial("id").primaryKey(),
   classId: integer("class_id").notNull(),
-  grade: text("grade", { enum: ["A", "B", "C"] }).notNull(),
+  grade: text("grade").notNull(), // One of the class's grade tiers
   version: integer("version").notNull(),
   assignments: json("assignments").notNull().$type<{ id: number; comments?: string; minPoints?: number }[]>(),
   requiredEngagementIntentions: integer("required_engagement_intentions").default(0),
   maxAbsences: integer("max_absences").default(0),
-  categoryRequirements: json("category_requirements").$type<{ category: string; required: number }[]>(),
+  categoryRequirements: json("category_requirements").$type<{ categoryId: number; required: number }[]>(),
+  tokenAllowance: integer("token_allowance").default(0), // Tokens students on this contract start with
+  lateWorkCounts: boolean("late_work_counts").notNull().default(true), // Whether work flagged late counts as done
 });
 
 export const studentContracts = pgTable("student_contracts", {
@@ -48,6 +97,7 @@ export const studentContracts = pgTable("student_contracts", {
   classId: integer("class_id").notNull(),
   contractId: integer("contract_id"),
   isConfirmed: boolean("is_confirmed").default(false),
+  selectedAt: timestamp("selected_at").defaultNow(), // When the contract was last chosen or its confirmation reset
 });
 
 export const assignmentProgress = pgTable("assignment_progress", {
@@ -56,10 +106,83 @@ export const assignmentProgress = pgTable("assignment_progress", {
   assignmentId: integer("assignment_id").notNull(),
   status: integer("status"),
   numericGrade: decimal("numeric_grade", { precision: 4, scale: 2 }),
-  attempts: integer("attempts").default(0),
+  attempts: integer("attempts").default(0), // Number of rows in assignmentAttempts
+  feedback: text("feedback"), // Latest instructor feedback, sanitized rich text HTML
+  awaitingReview: boolean("awaiting_review").notNull().default(false), // Student submitted work the instructor has not graded yet
+  isLate: boolean("is_late").notNull().default(false), // Work came in after the due date under a flagging late policy
   lastUpdated: timestamp("last_updated").notNull(),
 });
 
+// One gradebook cell: a status for status assignments, a score for numeric ones; null clears it
+export const gradebookCellSchema = z.object({
+  studentId: z.number().int().positive(),
+  assignmentId: z.number().int().positive(),
+  status: z.number().int().nullable().optional(),
+  numericGrade: z.number().min(0).max(NUMERIC_GRADE_MAX).nullable().optional(),
+});
+
+export const batchProgressSchema = z.object({
+  cells: z
+    .array(gradebookCellSchema)
+    .min(1, "No grades to save")
+    .max(GRADEBOOK_BATCH_LIMIT, `Save at most ${GRADEBOOK_BATCH_LIMIT} grades at a time`)
+    .refine(
+      (cells) => new Set(cells.map((c) => `${c.studentId}:${c.assignmentId}`)).size === cells.length,
+      "Each cell can only be changed once per save"
+    ),
+});
+
+// One row per graded submission attempt; assignmentProgress holds the latest result
+export const assignmentAttempts = pgTable("assignment_attempts", {
+  id: serial("id").primaryKey(),
+  progressId: integer("progress_id").references(() => assignmentProgress.id).notNull(),
+  studentId: integer("student_id").notNull(),
+  assignmentId: integer("assignment_id").notNull(),
+  attemptNumber: integer("attempt_number").notNull(),
+  status: integer("status"),
+  numericGrade: decimal("numeric_grade", { precision: 4, scale: 2 }),
+  feedback: text("feedback"), // Sanitized rich text HTML
+  gradedBy: integer("graded_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Work handed in by a student. Files live in the file store and are referenced by key.
+export const SUBMISSION_KINDS = ["url", "text", "file"] as const;
+
+// Largest file a student can upload as a submission
+export const MAX_SUBMISSION_FILE_BYTES = 10 * 1024 * 1024;
+
+export const assignmentSubmissions = pgTable("assignment_submissions", {
+  id: serial("id").primaryKey(),
+  progressId: integer("progress_id").references(() => assignmentProgress.id).notNull(),
+  studentId: integer("student_id").references(() => users.id).notNull(),
+  assignmentId: integer("assignment_id").references(() => assignments.id).notNull(),
+  kind: text("kind", { enum: SUBMISSION_KINDS }).notNull(),
+  url: text("url"),
+  textResponse: text("text_response"),
+  fileKey: text("file_key"),
+  fileName: text("file_name"),
+  mimeType: text("mime_type"),
+  fileSize: integer("file_size"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Link and text submissions; files are uploaded as a raw request body instead
+export const insertSubmissionSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("url"),
+    url: z
+      .string()
+      .trim()
+      .url("Enter a valid link")
+      .refine((url) => /^https?:\/\//i.test(url), "Links must start with http:// or https://"),
+  }),
+  z.object({
+    kind: z.literal("text"),
+    textResponse: z.string().trim().min(1, "A response is required").max(20000),
+  }),
+]);
+
 export const studentInvitations = pgTable("student_invitations", {
   id: serial("id").primaryKey(),
   email: text("email").notNull(),
@@ -81,14 +204,31 @@ export const passwordResetRequests = pgTable("password_reset_requests", {
   adminNotified: boolean("admin_notified").default(false),
 });
 
+// Secret token behind each user's iCalendar feed URL, so calendar apps can
+// subscribe without logging in. Resetting the token revokes the old URL.
+export const calendarFeedTokens = pgTable("calendar_feed_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull().unique(),
+  token: text("token").notNull().unique(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const engagementIntentions = pgTable("engagement_intentions", {
   id: serial("id").primaryKey(),
   studentId: integer("student_id").notNull(),
   classId: integer("class_id").notNull(),
   weekNumber: integer("week_number").notNull(),
   intentionText: text("intention_text").notNull(),
-  isFulfilled: boolean("is_fulfilled").default(false),
+  isFulfilled: boolean("is_fulfilled").default(false), // Legacy self-reported flag, moved into reviewStatus at startup
+  reviewStatus: text("review_status", { enum: ENGAGEMENT_REVIEW_STATUSES }).notNull().default("open"),
   notes: text("notes"),
+  reflection: text("reflection"), // Student's account of how they fulfilled it
+  evidenceUrl: text("evidence_url"),
+  submittedAt: timestamp("submitted_at"),
+  rubricScores: json("rubric_scores").$type<EngagementRubricScores>(),
+  instructorFeedback: text("instructor_feedback"), // Shown to the student with the decision
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
@@ -100,27 +240,130 @@ export const insertUserSchema = createInsertSchema(users).pick({
   fullName: true,
 });
 
+const gradeTierLabelSchema = z.string().trim().min(1, "Tier labels cannot be blank").max(20);
+
+export const gradeTiersSchema = z
+  .array(gradeTierLabelSchema)
+  .min(1, "At least one tier is required")
+  .refine((tiers) => new Set(tiers).size === tiers.length, "Tier labels must be unique");
+
+const statusLevelSchema = z.object({
+  value: z.number().int().min(0),
+  label: z.string().trim().min(1, "Status labels cannot be blank").max(40),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Colors must be hex values like #16a34a"),
+  isDone: z.boolean(),
+  minPercent: z.number().min(0).max(100),
+});
+
+export const statusScaleSchema = z
+  .array(statusLevelSchema)
+  .min(2, "At least two statuses are required")
+  .max(10, "At most ten statuses are allowed")
+  .refine(
+    (levels) => levels.every((level, i) => i === 0 || level.value > levels[i - 1].value),
+    "Status values must increase from the lowest status"
+  )
+  .refine(
+    (levels) => levels.every((level, i) => i === 0 || level.minPercent > levels[i - 1].minPercent),
+    "Import thresholds must increase from the lowest status"
+  )
+  .refine((levels) => new Set(levels.map((l) => l.label)).size === levels.length, "Status labels must be unique")
+  .refine((levels) => levels.some((l) => l.isDone), "At least one status must count as done")
+  .refine((levels) => !levels[0].isDone, "The lowest status cannot count as done");
+
+const absenceFractionSchema = z.number().min(0).max(1);
+
+export const attendancePolicySchema = z.object({
+  late: absenceFractionSchema,
+  tardy: absenceFractionSchema,
+});
+
+const dateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a YYYY-MM-DD date");
+
+export const meetingDaysSchema = z
+  .array(z.number().int().min(0).max(6))
+  .refine((days) => new Set(days).size === days.length, "Meeting days must be unique");
+
+export const scheduleBreakSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name the break"),
+    startDate: dateKeySchema,
+    endDate: dateKeySchema,
+  })
+  .refine((b) => b.startDate <= b.endDate, { message: "A break can't end before it starts", path: ["endDate"] });
+
 export const insertClassSchema = createInsertSchema(classes).pick({
   name: true,
   description: true,
   semesterStartDate: true,
+  semesterEndDate: true,
+  meetingDays: true,
+  scheduleBreaks: true,
+  contractDeadline: true,
+  defaultContractGrade: true,
+  gradeTiers: true,
+  statusScale: true,
+  attendancePolicy: true,
 }).extend({
   semesterStartDate: z.string().optional(),
+  semesterEndDate: dateKeySchema.nullable().optional(),
+  meetingDays: meetingDaysSchema.nullable().optional(),
+  scheduleBreaks: z.array(scheduleBreakSchema).nullable().optional(),
+  contractDeadline: z.string().nullable().optional(),
+  defaultContractGrade: z.string().nullable().optional(),
+  gradeTiers: gradeTiersSchema.nullable().optional(),
+  statusScale: statusScaleSchema.nullable().optional(),
+  attendancePolicy: attendancePolicySchema.nullable().optional(),
 });
 
 export const updateClassSchema = insertClassSchema.partial();
 
+export const insertCategorySchema = createInsertSchema(categories).pick({
+  name: true,
+  description: true,
+  color: true,
+}).extend({
+  name: z.string().trim().min(1, "Category name is required").max(60),
+  description: z.string().trim().max(500).nullable().optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Colors must be hex values like #0072BC").optional(),
+});
+
+export const updateCategorySchema = insertCategorySchema.partial();
+
+export const reorderCategoriesSchema = z.object({
+  categoryIds: z.array(z.number().int()).min(1),
+});
+
+// A date from a form: blank clears it, anything else has to parse
+function dateInputSchema(label: string) {
+  return z
+    .string()
+    .refine((value) => value === "" || !isNaN(Date.parse(value)), `${label} must be a valid date`)
+    .nullable()
+    .optional();
+}
+
 export const insertAssignmentSchema = createInsertSchema(assignments).pick({
   name: true,
   classId: true,
-  moduleGroup: true,
+  categoryId: true,
   scoringType: true,
   dueDate: true,
+  opensAt: true,
+  closesAt: true,
+  latePolicy: true,
+  attemptLimit: true,
 }).extend({
-  moduleGroup: z.string().nullable(),
-  dueDate: z.string().nullable().optional(),
+  categoryId: z.number().int().nullable(),
+  dueDate: dateInputSchema("Due date"),
+  opensAt: dateInputSchema("Opening date"),
+  closesAt: dateInputSchema("Closing date"),
+  latePolicy: z.enum(LATE_POLICIES).optional(),
+  attemptLimit: z.number().int().min(1).nullable().optional(),
 });
 
+export const updateAssignmentSchema = insertAssignmentSchema.omit({ classId: true }).partial();
+
 const assignmentRequirementSchema = z.object({
   id: z.number(),
   comments: z.string().optional(),
@@ -128,15 +371,22 @@ const assignmentRequirementSchema = z.object({
 });
 
 const categoryRequirementSchema = z.object({
-  category: z.string(),
+  categoryId: z.number().int(),
   required: z.number().min(1),
 });
 
 export const insertGradeContractSchema = createInsertSchema(gradeContracts).extend({
+  grade: gradeTierLabelSchema, // Checked against the class's tiers by the route
   assignments: z.array(assignmentRequirementSchema),
   requiredEngagementIntentions: z.number().default(0),
   maxAbsences: z.number().default(0),
   categoryRequirements: z.array(categoryRequirementSchema).optional(),
+  tokenAllowance: z.number().int().min(0).default(0),
+});
+
+// Move students pinned to older versions of a contract onto a newer version
+export const migrateContractStudentsSchema = z.object({
+  studentIds: z.array(z.number().int()).optional(), // Defaults to every pinned student
 });
 
 export const insertStudentInvitationSchema = createInsertSchema(studentInvitations).pick({
@@ -165,42 +415,311 @@ export const insertEngagementIntentionSchema = createInsertSchema(engagementInte
   classId: true,
   weekNumber: true,
   intentionText: true,
-  isFulfilled: true,
   notes: true,
 });
 
 export const updateEngagementIntentionSchema = z.object({
   intentionText: z.string().optional(),
-  isFulfilled: z.boolean().optional(),
   notes: z.string().optional(),
 });
 
+// Student says they fulfilled the intention; the instructor decides whether it counts
+export const submitEngagementFulfillmentSchema = z.object({
+  reflection: z.string().trim().min(1, "Describe how you fulfilled your intention").max(5000),
+  evidenceUrl: z
+    .string()
+    .trim()
+    .url("Enter a valid link")
+    .refine((url) => /^https?:\/\//i.test(url), "Links must start with http:// or https://")
+    .nullish()
+    .or(z.literal("").transform(() => null)),
+});
+
+const rubricLevelSchema = z
+  .number()
+  .int()
+  .min(ENGAGEMENT_RUBRIC_LEVELS[0].value)
+  .max(ENGAGEMENT_RUBRIC_LEVELS[ENGAGEMENT_RUBRIC_LEVELS.length - 1].value);
+
+export const engagementRubricScoresSchema = z.object({
+  depth: rubricLevelSchema.optional(),
+  followThrough: rubricLevelSchema.optional(),
+  reflection: rubricLevelSchema.optional(),
+});
+
+export const reviewEngagementIntentionsSchema = z.object({
+  reviews: z
+    .array(
+      z.object({
+        intentionId: z.number().int().positive(),
+        decision: z.enum(ENGAGEMENT_REVIEW_DECISIONS),
+        rubricScores: engagementRubricScoresSchema.optional(),
+        feedback: z.string().trim().max(2000).optional(),
+      })
+    )
+    .min(1, "Select at least one intention to review")
+    .refine(
+      (reviews) => new Set(reviews.map((r) => r.intentionId)).size === reviews.length,
+      "Each intention can only be reviewed once"
+    ),
+});
+
+// Instructor's prompt and suggested activities for one engagement week
+export const engagementPrompts = pgTable("engagement_prompts", {
+  id: serial("id").primaryKey(),
+  classId: integer("class_id").references(() => classes.id).notNull(),
+  weekNumber: integer("week_number").notNull(),
+  prompt: text("prompt"), // Shown above the student's intention box
+  suggestions: json("suggestions").notNull().$type<string[]>().default([]), // Activities a student can pick instead of writing their own
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  classWeek: unique("engagement_prompts_class_week").on(table.classId, table.weekNumber),
+}));
+
+export const MAX_ENGAGEMENT_SUGGESTIONS = 10;
+
+export const upsertEngagementPromptSchema = z.object({
+  prompt: z
+    .string()
+    .trim()
+    .max(1000, "Prompts must be 1000 characters or fewer")
+    .nullish()
+    .transform((prompt) => prompt || null),
+  suggestions: z
+    .array(z.string().trim().min(1, "Suggestions cannot be blank").max(200, "Suggestions must be 200 characters or fewer"))
+    .max(MAX_ENGAGEMENT_SUGGESTIONS, `Add at most ${MAX_ENGAGEMENT_SUGGESTIONS} suggestions`)
+    .refine((suggestions) => new Set(suggestions).size === suggestions.length, "Suggestions must be unique")
+    .default([]),
+});
+
 // Attendance tracking table
 export const attendanceRecords = pgTable("attendance_records", {
   id: serial("id").primaryKey(),
   studentId: integer("student_id").references(() => users.id).notNull(),
   classId: integer("class_id").references(() => classes.id).notNull(),
   date: timestamp("date").notNull(),
-  isPresent: boolean("is_present").notNull().default(true),
+  isPresent: boolean("is_present").notNull().default(true), // Legacy present/absent flag; storage keeps it in step with status
+  status: text("status", { enum: ATTENDANCE_STATUSES }).notNull().default("present"),
+  isAdjustment: boolean("is_adjustment").notNull().default(false), // Stands in for an absence counted outside session attendance (manual counts, Canvas imports)
+  checkInSessionId: integer("check_in_session_id").references(() => checkInSessions.id), // Set when the student checked themselves in
   notes: text("notes"), // Optional notes for the absence
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-export const insertAttendanceRecordSchema = createInsertSchema(attendanceRecords);
+// isPresent is derived from status when records are saved
+export const insertAttendanceRecordSchema = createInsertSchema(attendanceRecords).omit({ isPresent: true });
 export const updateAttendanceRecordSchema = z.object({
-  isPresent: z.boolean().optional(),
+  status: z.enum(ATTENDANCE_STATUSES).optional(),
   notes: z.string().optional(),
 });
 
+// One student's attendance for a session, as recorded from the attendance dialog
+export const attendanceEntrySchema = z.object({
+  studentId: z.number().int().positive(),
+  date: z.string().min(1),
+  status: z.enum(ATTENDANCE_STATUSES),
+  notes: z.string().optional(),
+});
+
+export const batchAttendanceSchema = z.object({
+  records: z.array(attendanceEntrySchema),
+});
+
+// A window in which students mark themselves present by entering a rotating code
+export const checkInSessions = pgTable("check_in_sessions", {
+  id: serial("id").primaryKey(),
+  classId: integer("class_id").references(() => classes.id).notNull(),
+  date: text("date").notNull(), // Session day (YYYY-MM-DD) the check-ins are recorded against
+  secret: text("secret").notNull(), // Seeds the rotating code; never sent to students
+  openedBy: integer("opened_by").references(() => users.id).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  closedAt: timestamp("closed_at"), // Set when the instructor closes it early
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const openCheckInSchema = z.object({
+  date: dateKeySchema,
+  minutes: z.number().int().min(1).max(CHECK_IN_MAX_MINUTES),
+});
+
+export const checkInSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code"),
+});
+
+// Student asks for an absence to be excused; approval marks the session excused
+export const absenceExcuseRequests = pgTable("absence_excuse_requests", {
+  id: serial("id").primaryKey(),
+  studentId: integer("student_id").references(() => users.id).notNull(),
+  classId: integer("class_id").references(() => classes.id).notNull(),
+  attendanceRecordId: integer("attendance_record_id").references(() => attendanceRecords.id).notNull(),
+  reason: text("reason").notNull(),
+  fileKey: text("file_key"), // Optional supporting document, e.g. a doctor's note
+  fileName: text("file_name"),
+  mimeType: text("mime_type"),
+  fileSize: integer("file_size"),
+  status: text("status", { enum: ["pending", "approved", "denied"] }).notNull().default("pending"),
+  instructorResponse: text("instructor_response"), // Optional note shown to the student
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertAbsenceExcuseRequestSchema = z.object({
+  attendanceRecordId: z.number().int().positive(),
+  reason: z.string().trim().min(1, "A reason is required"),
+});
+
+export const reviewAbsenceExcuseRequestSchema = z.object({
+  status: z.enum(["approved", "denied"]),
+  instructorResponse: z.string().optional(),
+});
+
+// Student requests to move from one grade contract to another mid-semester
+export const contractChangeRequests = pgTable("contract_change_requests", {
+  id: serial("id").primaryKey(),
+  studentId: integer("student_id").references(() => users.id).notNull(),
+  classId: integer("class_id").references(() => classes.id).notNull(),
+  fromContractId: integer("from_contract_id"),
+  toContractId: integer("to_contract_id").notNull(),
+  reason: text("reason").notNull(),
+  status: text("status", { enum: ["pending", "approved", "denied"] }).notNull().default("pending"),
+  instructorResponse: text("instructor_response"), // Optional note shown to the student
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertContractChangeRequestSchema = z.object({
+  toContractId: z.number().int().positive(),
+  reason: z.string().trim().min(1, "A reason is required"),
+});
+
+export const reviewContractChangeRequestSchema = z.object({
+  status: z.enum(["approved", "denied"]),
+  instructorResponse: z.string().optional(),
+});
+
+// Token ledger: grants add to a student's allowance, spends use it up.
+// Spends are requested by students and only count once approved.
+export const TOKEN_PURPOSES = ["revision", "late_submission", "missed_engagement", "absence"] as const;
+
+export const tokenTransactions = pgTable("token_transactions", {
+  id: serial("id").primaryKey(),
+  studentId: integer("student_id").references(() => users.id).notNull(),
+  classId: integer("class_id").references(() => classes.id).notNull(),
+  kind: text("kind", { enum: ["grant", "spend"] }).notNull(),
+  purpose: text("purpose", { enum: TOKEN_PURPOSES }), // Only set on spends
+  amount: integer("amount").notNull().default(1),
+  assignmentProgressId: integer("assignment_progress_id").references(() => assignmentProgress.id),
+  attendanceRecordId: integer("attendance_record_id").references(() => attendanceRecords.id),
+  reason: text("reason").notNull(),
+  status: text("status", { enum: ["pending", "approved", "denied"] }).notNull().default("pending"),
+  instructorResponse: text("instructor_response"),
+  createdBy: integer("created_by").references(() => users.id).notNull(),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertTokenSpendRequestSchema = z
+  .object({
+    purpose: z.enum(TOKEN_PURPOSES),
+    amount: z.number().int().min(1).default(1),
+    assignmentProgressId: z.number().int().positive().optional(),
+    attendanceRecordId: z.number().int().positive().optional(),
+    reason: z.string().trim().min(1, "A reason is required"),
+  })
+  .refine((data) => data.purpose !== "absence" || data.attendanceRecordId !== undefined, {
+    message: "Select the absence to excuse",
+    path: ["attendanceRecordId"],
+  })
+  .refine(
+    (data) =>
+      (data.purpose !== "revision" && data.purpose !== "late_submission") || data.assignmentProgressId !== undefined,
+    { message: "Select the assignment", path: ["assignmentProgressId"] }
+  );
+
+export const insertTokenGrantSchema = z.object({
+  amount: z.number().int().min(1),
+  assignmentProgressId: z.number().int().positive().optional(),
+  attendanceRecordId: z.number().int().positive().optional(),
+  reason: z.string().trim().min(1, "A reason is required"),
+});
+
+export const reviewTokenSpendRequestSchema = z.object({
+  status: z.enum(["approved", "denied"]),
+  instructorResponse: z.string().optional(),
+});
+
+// One Canvas import, recorded as a unit so it can be looked over and rolled back
+export const importRuns = pgTable("import_runs", {
+  id: serial("id").primaryKey(),
+  classId: integer("class_id").references(() => classes.id).notNull(),
+  uploadedBy: integer("uploaded_by").references(() => users.id).notNull(),
+  fileName: text("file_name"),
+  mappings: json("mappings").$type<ImportRunMapping[]>().notNull().default([]),
+  summary: json("summary").$type<ImportRunSummary>().notNull(),
+  errors: json("errors").$type<ImportRunError[]>().notNull().default([]),
+  batchId: text("batch_id").notNull(), // Shared by the run's grade entries in the audit log
+  status: text("status", { enum: IMPORT_RUN_STATUSES }).notNull().default("applied"),
+  rolledBackBy: integer("rolled_back_by").references(() => users.id),
+  rolledBackAt: timestamp("rolled_back_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A grade or absence count an import run changed, with what it replaced.
+// Grades log status, numericGrade and feedback; absences log { absences }.
+export const importRunChanges = pgTable("import_run_changes", {
+  id: serial("id").primaryKey(),
+  runId: integer("run_id").references(() => importRuns.id).notNull(),
+  kind: text("kind", { enum: IMPORT_RUN_CHANGE_KINDS }).notNull(),
+  studentId: integer("student_id").notNull(),
+  assignmentId: integer("assignment_id"), // Set for grade changes
+  oldValues: json("old_values").$type<Record<string, unknown> | null>(), // Null when the grade didn't exist yet
+  newValues: json("new_values").$type<Record<string, unknown>>().notNull(),
+});
+
+// Canvas column mappings and grade conversion settings remembered between imports
+export const canvasMappingProfiles = pgTable("canvas_mapping_profiles", {
+  id: serial("id").primaryKey(),
+  classId: integer("class_id").references(() => classes.id).notNull().unique(),
+  columns: json("columns").$type<SavedColumnMapping[]>().notNull().default([]),
+  conversion: json("conversion").$type<GradeConversionSettings | null>(), // Null until an import saves its settings
+  updatedBy: integer("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const savedColumnMappingSchema = z.object({
+  canvasColumn: z.string().trim().min(1).max(500),
+  target: z.enum(["assignment", "absences", "skip"]),
+  assignmentId: z.number().int().positive().nullable(),
+  gradingType: z.enum(CANVAS_GRADING_TYPES),
+});
+
+export const gradeConversionSettingsSchema = z.object({
+  letterGradeMap: z.record(z.string().trim().min(1).max(5), z.enum(GRADE_BUCKETS)),
+  thresholds: z
+    .array(z.object({ value: z.number().int().min(0), minPercent: z.number().min(0).max(100) }))
+    .max(10)
+    .refine(
+      (thresholds) => {
+        const sorted = [...thresholds].sort((a, b) => a.value - b.value);
+        return sorted.every((t, i) => i === 0 || t.minPercent > sorted[i - 1].minPercent);
+      },
+      "Thresholds must increase from the lowest status"
+    ),
+});
+
 // Audit logging table for tracking all changes
 export const auditLogs = pgTable("audit_logs", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id),
   action: text("action", {
-    enum: ["CREATE", "UPDATE", "DELETE", "LOGIN", "LOGOUT", "PASSWORD_RESET", "ENROLL", "ARCHIVE", "CONFIRM"]
+    enum: ["CREATE", "UPDATE", "DELETE", "LOGIN", "LOGOUT", "PASSWORD_RESET", "ENROLL", "ARCHIVE", "CONFIRM", "APPROVE", "DENY", "CHECK_IN", "REVERT"]
   }).notNull(),
   entityType: text("entity_type", {
-    enum: ["user", "class", "assignment", "grade_contract", "student_contract", "assignment_progress", "attendance", "engagement_intention"]
+    enum: ["user", "class", "assignment", "grade_contract", "student_contract", "assignment_progress", "attendance", "engagement_intention", "token_transaction", "assignment_submission", "absence_excuse"]
   }).notNull(),
   entityId: integer("entity_id"),
   oldValues: json("old_values").$type<Record<string, unknown> | null>(),
@@ -215,18 +734,47 @@ export const insertAuditLogSchema = createInsertSchema(auditLogs);
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type Class = typeof classes.$inferSelect;
+export type Category = typeof categories.$inferSelect;
+export type InsertCategory = z.infer<typeof insertCategorySchema>;
 export type Assignment = typeof assignments.$inferSelect;
 export type GradeContract = typeof gradeContracts.$inferSelect;
 export type StudentContract = typeof studentContracts.$inferSelect;
 export type AssignmentProgress = typeof assignmentProgress.$inferSelect;
+export type AssignmentAttempt = typeof assignmentAttempts.$inferSelect;
+export type GradebookCell = z.infer<typeof gradebookCellSchema>;
+export type AssignmentSubmission = typeof assignmentSubmissions.$inferSelect;
+export type SubmissionKind = (typeof SUBMISSION_KINDS)[number];
+export type InsertSubmission = z.infer<typeof insertSubmissionSchema>;
 export type StudentInvitation = typeof studentInvitations.$inferSelect;
 export type InsertStudentInvitation = z.infer<typeof insertStudentInvitationSchema>;
 export type PasswordResetRequest = typeof passwordResetRequests.$inferSelect;
+export type CalendarFeedToken = typeof calendarFeedTokens.$inferSelect;
 export type EngagementIntention = typeof engagementIntentions.$inferSelect;
 export type InsertEngagementIntention = z.infer<typeof insertEngagementIntentionSchema>;
 export type UpdateEngagementIntention = z.infer<typeof updateEngagementIntentionSchema>;
+export type SubmitEngagementFulfillment = z.infer<typeof submitEngagementFulfillmentSchema>;
+export type EngagementIntentionReview = z.infer<typeof reviewEngagementIntentionsSchema>["reviews"][number];
+export type EngagementPrompt = typeof engagementPrompts.$inferSelect;
+export type UpsertEngagementPrompt = z.infer<typeof upsertEngagementPromptSchema>;
 export type AttendanceRecord = typeof attendanceRecords.$inferSelect;
 export type InsertAttendanceRecord = z.infer<typeof insertAttendanceRecordSchema>;
 export type UpdateAttendanceRecord = z.infer<typeof updateAttendanceRecordSchema>;
+export type AttendanceEntry = z.infer<typeof attendanceEntrySchema>;
+export type CheckInSession = typeof checkInSessions.$inferSelect;
+export type OpenCheckIn = z.infer<typeof openCheckInSchema>;
+export type AbsenceExcuseRequest = typeof absenceExcuseRequests.$inferSelect;
+export type InsertAbsenceExcuseRequest = z.infer<typeof insertAbsenceExcuseRequestSchema>;
+export type ReviewAbsenceExcuseRequest = z.infer<typeof reviewAbsenceExcuseRequestSchema>;
+export type ContractChangeRequest = typeof contractChangeRequests.$inferSelect;
+export type InsertContractChangeRequest = z.infer<typeof insertContractChangeRequestSchema>;
+export type ReviewContractChangeRequest = z.infer<typeof reviewContractChangeRequestSchema>;
+export type TokenTransaction = typeof tokenTransactions.$inferSelect;
+export type TokenPurpose = (typeof TOKEN_PURPOSES)[number];
+export type InsertTokenSpendRequest = z.infer<typeof insertTokenSpendRequestSchema>;
+export type InsertTokenGrant = z.infer<typeof insertTokenGrantSchema>;
+export type ReviewTokenSpendRequest = z.infer<typeof reviewTokenSpendRequestSchema>;
+export type ImportRun = typeof importRuns.$inferSelect;
+export type ImportRunChange = typeof importRunChanges.$inferSelect;
+export type CanvasMappingProfile = typeof canvasMappingProfiles.$inferSelect;
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
\ No newline at end of file
@@ -0,0 +1,66 @@
+import type { TokenPurpose, TokenTransaction } from "./schema";
+
+export const TOKEN_PURPOSE_LABELS: Record<TokenPurpose, string> = {
+  revision: "Revision",
+  late_submission: "Late submission",
+  missed_engagement: "Missed engagement",
+  absence: "Absence",
+};
+
+/**
+ * A student's token account in one class
+ */
+export interface TokenBalance {
+  allowance: number; // from the student's contract
+  granted: number;   // extra tokens given by the instructor
+  spent: number;     // approved spends
+  pending: number;   // spends awaiting review, held until decided
+  available: number; // what the student can still request
+}
+
+/**
+ * Ledger entry with the linked assignment or absence resolved for display
+ */
+export interface TokenLedgerEntry extends TokenTransaction {
+  assignmentName: string | null;
+  attendanceDate: Date | string | null;
+}
+
+/**
+ * A student's balance and ledger, as returned by the tokens endpoint
+ */
+export interface TokenAccount {
+  balance: TokenBalance;
+  transactions: TokenLedgerEntry[];
+}
+
+/**
+ * Total up a student's token ledger against a contract allowance.
+ * Denied spends are ignored; pending spends are held so students cannot overdraw.
+ */
+export function summarizeTokens(
+  allowance: number,
+  transactions: Pick<TokenTransaction, "kind" | "amount" | "status">[]
+): TokenBalance {
+  let granted = 0;
+  let spent = 0;
+  let pending = 0;
+
+  for (const transaction of transactions) {
+    if (transaction.kind === "grant") {
+      if (transaction.status === "approved") granted += transaction.amount;
+    } else if (transaction.status === "approved") {
+      spent += transaction.amount;
+    } else if (transaction.status === "pending") {
+      pending += transaction.amount;
+    }
+  }
+
+  return {
+    allowance,
+    granted,
+    spent,
+    pending,
+    available: allowance + granted - spent - pending,
+  };
+}